@@ -1,12 +1,29 @@
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useCallback } from 'react'
+import { PenLine } from 'lucide-react'
 import { AppSidebar } from '@/components/sidebar/left-sidebar'
 import { MainContent } from '@/components/layout/MainContent'
 import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar'
 // TODO(tauri-integration): Migrate to TanStack Query
 import { AppDataProvider, useAppData } from '@/context/app-data-context'
-import { useIsTaskDetailOpen } from '@/store/task-detail-store'
+import { useIsDetailOpen, useTaskDetailStore } from '@/store/task-detail-store'
 import type { ViewModeKey } from '@/store/view-mode-store'
+import { useSavedFiltersStore } from '@/store/saved-filters-store'
+import { useTaskSelectionStore } from '@/store/task-selection-store'
 import { TaskDetailPanel } from '@/components/tasks/task-detail-panel'
+import { BulkActionBar } from '@/components/tasks/bulk-action-bar'
+import { ProjectDetailPanel } from '@/components/projects/project-detail-panel'
+import { AreaDetailPanel } from '@/components/areas/area-detail-panel'
+import { QuickCaptureDialog } from '@/components/tasks/quick-capture-dialog'
+import { CommandPalette } from '@/components/command-palette/command-palette'
+import { Toaster } from '@/components/ui/toast'
+import { useUndoShortcuts } from '@/hooks/use-undo-shortcuts'
+import { useQuickCaptureShortcut } from '@/hooks/use-quick-capture-shortcut'
+import { useCommandPaletteShortcut } from '@/hooks/use-command-palette-shortcut'
+import { useVaultCommandActions } from '@/hooks/use-vault-command-actions'
+import {
+  useCommandActions,
+  type CommandAction,
+} from '@/store/command-palette-store'
 import { ViewHeader, DetailSideBar, ContentArea } from '@/components/layout'
 import type { Selection } from '@/types/navigation'
 
@@ -18,20 +35,44 @@ function getViewModeKey(selection: Selection | null): ViewModeKey | null {
   if (selection.type === 'project') return 'project'
   if (selection.type === 'area') return 'area'
   if (selection.type === 'no-area') return 'area' // Use same view modes as area
+  if (selection.type === 'filter') return 'filter'
+  if (selection.type === 'tag') return 'tag'
   return null
 }
 
+/** Whether the selection's view applies the shared tag filter */
+function hasTagFilter(selection: Selection | null): boolean {
+  if (selection?.type !== 'nav') return selection !== null
+  return !['calendar', 'review', 'time', 'search'].includes(selection.id)
+}
+
+/** Picks the detail panel for whatever task-detail-store has open */
+function DetailPanel() {
+  const openProjectId = useTaskDetailStore((state) => state.openProjectId)
+  const openAreaId = useTaskDetailStore((state) => state.openAreaId)
+
+  if (openProjectId) return <ProjectDetailPanel />
+  if (openAreaId) return <AreaDetailPanel />
+  return <TaskDetailPanel />
+}
+
 function AppContent() {
-  const [selection, setSelection] = useState<Selection | null>({
+  const [selection, setViewSelection] = useState<Selection | null>({
     type: 'nav',
     id: 'today',
   })
+  // Selected tasks don't carry over to another view
+  const setSelection = useCallback((next: Selection) => {
+    useTaskSelectionStore.getState().clearSelection()
+    setViewSelection(next)
+  }, [])
   const {
     getAreaById,
     getProjectById,
     getProjectsByAreaId,
     updateProjectStatus,
   } = useAppData()
+  const savedFilters = useSavedFiltersStore((state) => state.filters)
 
   // Get view mode for current selection (if applicable)
   const viewModeKey = getViewModeKey(selection)
@@ -64,10 +105,24 @@ function AppContent() {
             return 'Today'
           case 'this-week':
             return 'This Week'
+          case 'upcoming':
+            return 'Upcoming'
+          case 'anytime':
+            return 'Anytime'
+          case 'someday':
+            return 'Someday'
           case 'inbox':
             return 'Inbox'
           case 'calendar':
             return 'Calendar'
+          case 'logbook':
+            return 'Logbook'
+          case 'review':
+            return 'Review'
+          case 'time':
+            return 'Time'
+          case 'search':
+            return 'Search'
         }
         break
       case 'area':
@@ -76,30 +131,62 @@ function AppContent() {
         return getProjectById(selection.id)?.title ?? 'Project'
       case 'no-area':
         return 'No Area'
+      case 'filter':
+        return savedFilters.find((f) => f.id === selection.id)?.name ?? 'Filter'
+      case 'tag':
+        return `#${selection.id}`
     }
     return 'Dashboard'
   }
 
-  const isDetailOpen = useIsTaskDetailOpen()
+  const isDetailOpen = useIsDetailOpen()
+
+  const [isCaptureOpen, setCaptureOpen] = useState(false)
+  const openCapture = useCallback(() => setCaptureOpen(true), [])
+
+  const appActions = useMemo(
+    (): CommandAction[] => [
+      {
+        id: 'quick-capture',
+        label: 'Quick capture…',
+        icon: PenLine,
+        keywords: ['new task', 'add', 'inbox'],
+        shortcut: '⌃Space',
+        run: openCapture,
+      },
+    ],
+    [openCapture]
+  )
+
+  useUndoShortcuts()
+  useQuickCaptureShortcut(openCapture)
+  useCommandPaletteShortcut()
+  useCommandActions(appActions)
+  useVaultCommandActions()
 
   return (
     <SidebarProvider>
       <AppSidebar selection={selection} onSelectionChange={setSelection} />
-      <SidebarInset className="flex flex-col overflow-hidden min-w-0">
+      <SidebarInset className="relative flex flex-col overflow-hidden min-w-0">
         <ViewHeader
           title={getHeaderTitle(selection)}
           projectStatusCounts={projectStatusCounts}
           currentProject={currentProject}
           viewModeKey={viewModeKey}
+          showTagFilter={hasTagFilter(selection)}
           onProjectStatusChange={updateProjectStatus}
         />
         <ContentArea>
           <MainContent selection={selection} onSelectionChange={setSelection} />
         </ContentArea>
+        <BulkActionBar />
       </SidebarInset>
       <DetailSideBar isOpen={isDetailOpen}>
-        <TaskDetailPanel />
+        <DetailPanel />
       </DetailSideBar>
+      <QuickCaptureDialog open={isCaptureOpen} onOpenChange={setCaptureOpen} />
+      <CommandPalette onNavigate={setSelection} />
+      <Toaster />
     </SidebarProvider>
   )
 }
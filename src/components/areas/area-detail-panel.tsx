@@ -0,0 +1,155 @@
+import { FolderOpen, X } from 'lucide-react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { useTaskDetailStore } from '@/store/task-detail-store'
+import { headingColors } from '@/config/heading-colors'
+import type { AreaStatus } from '@/types/data'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { HeadingColorPicker } from '@/components/headings/heading-color-picker'
+import { LazyMilkdownEditor } from '@/components/tasks/lazy-milkdown-editor'
+
+const statusItems: { value: AreaStatus; label: string }[] = [
+  { value: 'active', label: 'Active' },
+  { value: 'archived', label: 'Archived' },
+]
+
+/**
+ * AreaDetailPanel - Area editing interface in the right sidebar.
+ *
+ * The area counterpart to TaskDetailPanel. Opens from the sidebar
+ * ("New Area", or "Edit area…" in an area's context menu) and is
+ * controlled by task-detail-store (`openAreaId`).
+ *
+ * Sections:
+ * - Header: Icon (emoji), title (editable), close button
+ * - Metadata: Color, type, status
+ * - Description: Plain-text summary
+ * - Notes: Full markdown editor (LazyMilkdownEditor)
+ * - Footer: Project count, area ID
+ *
+ * Colors reuse the heading palette. All changes save immediately.
+ */
+export function AreaDetailPanel() {
+  const { openAreaId, closeDetail } = useTaskDetailStore()
+  const { getAreaById, getProjectsByAreaId, updateArea } = useAppData()
+
+  const area = openAreaId ? getAreaById(openAreaId) : null
+
+  if (!area) {
+    return (
+      <div className="flex h-full items-center justify-center text-muted-foreground text-sm p-6">
+        Select an area to view details
+      </div>
+    )
+  }
+
+  const color = headingColors.find((c) => c === area.color) ?? 'default'
+  const projectCount = getProjectsByAreaId(area.id).length
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Header: Icon + Title + Close */}
+      <div className="flex items-center gap-3 px-4 py-3">
+        <Input
+          value={area.icon ?? ''}
+          onChange={(e) => updateArea(area.id, { icon: e.target.value })}
+          className="size-8 shrink-0 px-0 text-center"
+          placeholder="—"
+          aria-label="Icon"
+          title="Icon (emoji)"
+        />
+        <Textarea
+          value={area.title}
+          onChange={(e) => updateArea(area.id, { title: e.target.value })}
+          className="flex-1 text-lg font-medium border-none shadow-none p-1 min-h-0 h-auto resize-none focus-visible:ring-1 focus-visible:ring-primary rounded-sm field-sizing-content"
+          placeholder="Area title..."
+          rows={1}
+        />
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={closeDetail}
+          className="-mr-1 shrink-0"
+        >
+          <X className="size-4" />
+        </Button>
+      </div>
+
+      {/* Metadata section */}
+      <div className="px-4 pb-3 space-y-2.5">
+        <div className="flex items-center gap-2">
+          <HeadingColorPicker
+            color={color}
+            onColorChange={(c) =>
+              updateArea(area.id, { color: c === 'default' ? '' : c })
+            }
+          />
+          <Input
+            value={area.type ?? ''}
+            onChange={(e) => updateArea(area.id, { type: e.target.value })}
+            className="h-7 flex-1 text-xs"
+            placeholder="Type (e.g., client, life-area)..."
+          />
+          <Select
+            items={statusItems}
+            value={area.status ?? 'active'}
+            onValueChange={(status) => {
+              if (status) updateArea(area.id, { status })
+            }}
+          >
+            <SelectTrigger size="sm" className="text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {statusItems.map((item) => (
+                <SelectItem key={item.value} value={item.value}>
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Textarea
+          value={area.description ?? ''}
+          onChange={(e) => updateArea(area.id, { description: e.target.value })}
+          className="text-sm min-h-0 resize-none field-sizing-content"
+          placeholder="Description..."
+          rows={2}
+        />
+      </div>
+
+      {/* Notes - fills remaining space with card background */}
+      <div className="flex-1 min-h-0 overflow-hidden p-3 pt-0">
+        <div className="h-full bg-card rounded-lg border overflow-hidden">
+          <LazyMilkdownEditor
+            editorKey={area.id}
+            defaultValue={area.notes ?? ''}
+            onChange={(value) => updateArea(area.id, { notes: value })}
+            className="h-full"
+          />
+        </div>
+      </div>
+
+      {/* Footer - Metadata */}
+      <div className="px-4 py-2 flex flex-wrap gap-x-4 gap-y-0.5 text-xs text-muted-foreground">
+        <span className="inline-flex items-center gap-1">
+          <FolderOpen className="size-3 text-entity-area" />
+          {projectCount} {projectCount === 1 ? 'project' : 'projects'}
+        </span>
+        <span className="font-mono opacity-50 truncate">{area.id}</span>
+      </div>
+    </div>
+  )
+}
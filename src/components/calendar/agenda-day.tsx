@@ -0,0 +1,220 @@
+import { useDroppable } from '@dnd-kit/core'
+import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable'
+import { format, isToday, isTomorrow, isWeekend } from 'date-fns'
+import { Flag, Plus, Sunrise } from 'lucide-react'
+
+import { cn } from '@/lib/utils'
+import type { Task, TaskStatus } from '@/types/data'
+import { getCalendarTaskDragId } from '@/types/calendar-order'
+import { SortableTaskCard } from './draggable-task-card'
+import { ProjectedOccurrences } from './projected-occurrences'
+import type { TaskCardVariant } from '@/components/cards/task-card'
+
+/**
+ * AgendaDay - One day row in the Upcoming agenda.
+ *
+ * The agenda counterpart of DayColumn: a date gutter on the left and the
+ * day's entries on the right:
+ * - TaskCards for tasks shown on this day (scheduled, or deferred until it)
+ * - Muted previews of recurring tasks' future occurrences
+ * - Links to tasks DUE on this day and to scheduled tasks that become
+ *   available on it (their defer date)
+ *
+ * Days with nothing on them collapse to a single line but still accept
+ * drops. Acts as a droppable zone for DnD.
+ */
+interface TaskContext {
+  projectName?: string
+  areaName?: string
+  projectId?: string
+  areaId?: string
+}
+
+interface AgendaDayProps {
+  date: Date
+  tasks: Task[]
+  /** Tasks that are due on this day (shown as links) */
+  tasksDueOnDay?: Task[]
+  /** Tasks scheduled elsewhere that become available on this day */
+  tasksAvailableOnDay?: Task[]
+  /** Recurring tasks with a projected occurrence on this day */
+  projectedTasks?: Task[]
+  getTaskContext?: (task: Task) => TaskContext
+  getTaskVariant?: (task: Task) => TaskCardVariant
+  onTaskStatusChange: (taskId: string, newStatus: TaskStatus) => void
+  onTaskTitleChange: (taskId: string, newTitle: string) => void
+  onTaskScheduledChange: (taskId: string, date: string | undefined) => void
+  onTaskDueChange: (taskId: string, date: string | undefined) => void
+  onTaskOpenDetail?: (taskId: string) => void
+  onNavigateToProject?: (projectId: string) => void
+  onNavigateToArea?: (areaId: string) => void
+  /** Called when + button is clicked to create a task */
+  onCreateTask?: () => void
+  /** ID of task currently being edited (for auto-focus) */
+  editingTaskId?: string | null
+  /** Whether this day is being dragged over */
+  isDropTarget?: boolean
+}
+
+export function AgendaDay({
+  date,
+  tasks,
+  tasksDueOnDay = [],
+  tasksAvailableOnDay = [],
+  projectedTasks = [],
+  getTaskContext,
+  getTaskVariant,
+  onTaskStatusChange,
+  onTaskTitleChange,
+  onTaskScheduledChange,
+  onTaskDueChange,
+  onTaskOpenDetail,
+  onNavigateToProject,
+  onNavigateToArea,
+  onCreateTask,
+  editingTaskId,
+  isDropTarget = false,
+}: AgendaDayProps) {
+  const dateString = format(date, 'yyyy-MM-dd')
+  const taskIds = tasks.map((t) => t.id)
+  const isCurrentDay = isToday(date)
+  const relativeLabel = isCurrentDay
+    ? 'Today'
+    : isTomorrow(date)
+      ? 'Tomorrow'
+      : null
+
+  const { setNodeRef, isOver } = useDroppable({
+    id: `day-${dateString}`,
+    data: {
+      type: 'day',
+      date: dateString,
+    },
+  })
+
+  const isEmpty =
+    tasks.length === 0 &&
+    tasksDueOnDay.length === 0 &&
+    tasksAvailableOnDay.length === 0 &&
+    projectedTasks.length === 0
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        'group/day flex gap-4 px-3 border-b border-border/50 last:border-b-0',
+        isEmpty ? 'py-1.5' : 'py-3',
+        isWeekend(date) && 'bg-muted/20',
+        (isOver || isDropTarget) && 'bg-primary/5'
+      )}
+    >
+      {/* Date gutter */}
+      <div className="w-24 shrink-0 flex items-baseline gap-2">
+        <span
+          className={cn(
+            'text-sm font-semibold tabular-nums',
+            isCurrentDay && 'text-primary'
+          )}
+        >
+          {format(date, 'EEE d')}
+        </span>
+        <span className="text-xs text-muted-foreground truncate">
+          {relativeLabel ?? format(date, 'MMM')}
+        </span>
+      </div>
+
+      {/* Entries */}
+      <div className="flex-1 min-w-0 space-y-1.5">
+        <SortableContext
+          items={tasks.map((t) => getCalendarTaskDragId(dateString, t.id))}
+          strategy={verticalListSortingStrategy}
+        >
+          {tasks.map((task) => {
+            const context = getTaskContext?.(task) ?? {}
+            return (
+              <SortableTaskCard
+                key={task.id}
+                task={task}
+                date={dateString}
+                dayTaskIds={taskIds}
+                variant={getTaskVariant?.(task)}
+                projectName={context.projectName}
+                areaName={context.areaName}
+                onStatusChange={(newStatus) =>
+                  onTaskStatusChange(task.id, newStatus)
+                }
+                onTitleChange={(newTitle) =>
+                  onTaskTitleChange(task.id, newTitle)
+                }
+                onScheduledChange={(date) =>
+                  onTaskScheduledChange(task.id, date)
+                }
+                onDueChange={(date) => onTaskDueChange(task.id, date)}
+                onEditClick={
+                  onTaskOpenDetail ? () => onTaskOpenDetail(task.id) : undefined
+                }
+                onProjectClick={
+                  context.projectId && onNavigateToProject
+                    ? () => onNavigateToProject(context.projectId!)
+                    : undefined
+                }
+                onAreaClick={
+                  context.areaId && onNavigateToArea
+                    ? () => onNavigateToArea(context.areaId!)
+                    : undefined
+                }
+                autoFocusEdit={task.id === editingTaskId}
+              />
+            )
+          })}
+        </SortableContext>
+
+        <ProjectedOccurrences
+          tasks={projectedTasks}
+          onTaskOpenDetail={onTaskOpenDetail}
+        />
+
+        {/* Deadlines and tasks becoming available */}
+        {(tasksDueOnDay.length > 0 || tasksAvailableOnDay.length > 0) && (
+          <div className="space-y-0.5">
+            {tasksDueOnDay.map((task) => (
+              <button
+                key={task.id}
+                type="button"
+                onClick={() => onTaskOpenDetail?.(task.id)}
+                className="flex items-center gap-1 w-full text-start text-xs text-date-due hover:text-date-overdue transition-colors"
+              >
+                <Flag className="size-3 shrink-0" />
+                <span className="truncate">{task.title}</span>
+              </button>
+            ))}
+            {tasksAvailableOnDay.map((task) => (
+              <button
+                key={task.id}
+                type="button"
+                onClick={() => onTaskOpenDetail?.(task.id)}
+                title="Becomes available"
+                className="flex items-center gap-1 w-full text-start text-xs text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <Sunrise className="size-3 shrink-0" />
+                <span className="truncate">{task.title}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Add task button */}
+      {onCreateTask && (
+        <button
+          type="button"
+          onClick={onCreateTask}
+          className="self-start shrink-0 p-1 rounded-md text-muted-foreground opacity-0 group-hover/day:opacity-100 hover:text-foreground hover:bg-muted/50 transition-opacity"
+          title="Add task"
+        >
+          <Plus className="size-3.5" />
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+import { Gauge } from 'lucide-react'
+
+import { formatDuration, parseDuration } from '@/lib/time-blocks'
+import { useWorkloadStore } from '@/store/workload-store'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+
+/**
+ * CapacityButton - Sets the daily capacity, in the calendars' headers.
+ *
+ * Shows the capacity ("6h / day"); the popover takes a typed duration or a
+ * preset. Day totals above it are flagged by DayWorkload.
+ */
+
+const presets = [4 * 60, 6 * 60, 8 * 60]
+
+export function CapacityButton() {
+  const dailyCapacity = useWorkloadStore((state) => state.dailyCapacity)
+  const setDailyCapacity = useWorkloadStore((state) => state.setDailyCapacity)
+  const label = formatDuration(dailyCapacity)
+
+  const handleCommit = (input: HTMLInputElement) => {
+    const minutes = parseDuration(input.value)
+    if (minutes === undefined) {
+      input.value = label
+    } else if (minutes !== dailyCapacity) {
+      setDailyCapacity(minutes)
+    }
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger
+        render={
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-1 text-muted-foreground"
+            title="Daily capacity"
+          />
+        }
+      >
+        <Gauge className="size-4" />
+        <span className="tabular-nums">{label} / day</span>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 space-y-3 p-3" align="end">
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Daily capacity</p>
+          <p className="text-xs text-muted-foreground">
+            Days with more estimated work are flagged.
+          </p>
+        </div>
+        {/* Keyed by the capacity so a preset shows up in the input */}
+        <Input
+          key={dailyCapacity}
+          defaultValue={label}
+          placeholder="e.g. 6h"
+          onBlur={(e) => handleCommit(e.currentTarget)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              handleCommit(e.currentTarget)
+            }
+          }}
+          className="h-7"
+          aria-label="Daily capacity"
+        />
+        <div className="flex gap-1">
+          {presets.map((minutes) => (
+            <Button
+              key={minutes}
+              variant={minutes === dailyCapacity ? 'secondary' : 'outline'}
+              size="sm"
+              className="h-6 flex-1 px-2 text-xs"
+              onClick={() => setDailyCapacity(minutes)}
+            >
+              {formatDuration(minutes)}
+            </Button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -7,14 +7,17 @@ import { cn } from '@/lib/utils'
 import type { Task, TaskStatus } from '@/types/data'
 import { getCalendarTaskDragId } from '@/types/calendar-order'
 import { SortableTaskCard } from './draggable-task-card'
+import { ProjectedOccurrences } from './projected-occurrences'
+import { DayWorkload } from './day-workload'
 import type { TaskCardVariant } from '@/components/cards/task-card'
 
 /**
  * DayColumn - Single day column in the week calendar.
  *
  * Taller than MonthDayCell, designed to show more task detail. Shows:
- * - Day header (sticky) with day name and date number
+ * - Day header (sticky) with day name, date number and estimated workload
  * - Full TaskCards for scheduled tasks with metadata
+ * - Muted previews of recurring tasks' future occurrences
  * - "+" button to create new task
  * - Bottom section with tasks DUE on this day (not necessarily scheduled here)
  *
@@ -33,6 +36,8 @@ interface DayColumnProps {
   tasks: Task[]
   /** Tasks that are due on this day (shown as links at bottom) */
   tasksDueOnDay?: Task[]
+  /** Recurring tasks with a projected occurrence on this day */
+  projectedTasks?: Task[]
   /** Function to get context (project/area names and IDs) for a task */
   getTaskContext?: (task: Task) => TaskContext
   /** Function to get the visual variant for a task */
@@ -60,6 +65,7 @@ export function DayColumn({
   date,
   tasks,
   tasksDueOnDay = [],
+  projectedTasks = [],
   getTaskContext,
   getTaskVariant,
   onTaskStatusChange,
@@ -74,6 +80,7 @@ export function DayColumn({
   isDropTarget = false,
 }: DayColumnProps) {
   const dateString = format(date, 'yyyy-MM-dd')
+  const taskIds = tasks.map((t) => t.id)
   const isCurrentDay = isToday(date)
   const isWeekendDay = isWeekend(date)
 
@@ -105,6 +112,7 @@ export function DayColumn({
           <span className="text-xs font-medium text-muted-foreground uppercase">
             {format(date, 'EEE')}
           </span>
+          <DayWorkload tasks={tasks} className="ml-auto mr-1.5" />
           <span
             className={cn(
               'size-6 flex items-center justify-center text-sm font-semibold tabular-nums rounded-full',
@@ -132,6 +140,7 @@ export function DayColumn({
                 key={task.id}
                 task={task}
                 date={dateString}
+                dayTaskIds={taskIds}
                 variant={variant}
                 projectName={context.projectName}
                 areaName={context.areaName}
@@ -164,6 +173,11 @@ export function DayColumn({
           })}
         </SortableContext>
 
+        <ProjectedOccurrences
+          tasks={projectedTasks}
+          onTaskOpenDetail={onTaskOpenDetail}
+        />
+
         {/* Empty state / drop zone indicator */}
         {tasks.length === 0 && (
           <div
@@ -0,0 +1,46 @@
+import { TriangleAlert } from 'lucide-react'
+
+import { cn } from '@/lib/utils'
+import { formatDuration } from '@/lib/time-blocks'
+import { getOverCapacity, getRemainingEstimate } from '@/lib/workload'
+import type { Task } from '@/types/data'
+import { useWorkloadStore } from '@/store/workload-store'
+
+/**
+ * DayWorkload - A day's estimated work, for the calendars' day headers.
+ *
+ * Adds up the estimates of the day's open tasks (lib/workload) and turns
+ * red with a warning icon once they exceed the daily capacity. Renders
+ * nothing while none of the tasks have an estimate.
+ */
+interface DayWorkloadProps {
+  tasks: Task[]
+  className?: string
+}
+
+export function DayWorkload({ tasks, className }: DayWorkloadProps) {
+  const dailyCapacity = useWorkloadStore((state) => state.dailyCapacity)
+  const workload = getRemainingEstimate(tasks)
+  if (workload === 0) return null
+
+  const over = getOverCapacity(workload, dailyCapacity)
+  const capacity = formatDuration(dailyCapacity)
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-0.5 text-2xs tabular-nums',
+        over > 0 ? 'text-destructive font-medium' : 'text-muted-foreground',
+        className
+      )}
+      title={
+        over > 0
+          ? `${formatDuration(over)} over capacity (${capacity} a day)`
+          : `${formatDuration(workload)} of ${capacity} estimated`
+      }
+    >
+      {over > 0 && <TriangleAlert className="size-3" />}
+      {formatDuration(workload)}
+    </span>
+  )
+}
@@ -2,7 +2,10 @@ import * as React from 'react'
 import { useSortable } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
 import { cn } from '@/lib/utils'
+import { useCardSelection } from '@/hooks/use-card-selection'
 import type { Task, TaskStatus } from '@/types/data'
 import {
   getCalendarTaskDragId,
@@ -19,7 +22,9 @@ import {
  *
  * Wraps TaskCard with drag-and-drop capabilities. Used in both MonthDayCell
  * and DayColumn. The drag ID encodes both the date and task ID so the
- * calendar DnD context can determine source/target days.
+ * calendar DnD context can determine source/target days. Looks up the
+ * blockers the task is waiting on for the card's indicator, toggles its
+ * timer, and handles multi-selection within the day (useCardSelection).
  *
  * Also exports TaskCardDragPreview for use in DragOverlay.
  * DraggableTaskCard is a legacy alias for backwards compatibility.
@@ -27,6 +32,8 @@ import {
 interface SortableTaskCardProps {
   task: Task
   date: string
+  /** Task IDs of the card's day, in order, for range selection */
+  dayTaskIds: string[]
   /** Visual variant for the card */
   variant?: TaskCardVariant
   /** Size variant - compact shows only checkbox + title */
@@ -53,6 +60,7 @@ interface SortableTaskCardProps {
 export function SortableTaskCard({
   task,
   date,
+  dayTaskIds,
   variant,
   size,
   projectName,
@@ -66,6 +74,8 @@ export function SortableTaskCard({
   onAreaClick,
   autoFocusEdit,
 }: SortableTaskCardProps) {
+  const { getTaskWaitingOn, toggleTaskTimer } = useAppData()
+  const { isSelected, selectionProps } = useCardSelection(task.id, dayTaskIds)
   const dragData: CalendarTaskDragData = {
     type: 'calendar-task',
     taskId: task.id,
@@ -95,6 +105,7 @@ export function SortableTaskCard({
       style={style}
       {...attributes}
       {...listeners}
+      {...selectionProps}
       className={cn(
         'cursor-grab active:cursor-grabbing touch-none',
         isDragging && 'opacity-50 z-50'
@@ -106,13 +117,16 @@ export function SortableTaskCard({
         size={size}
         projectName={projectName}
         areaName={areaName}
+        waitingOn={getTaskWaitingOn(task.id)}
         onStatusChange={onStatusChange}
         onTitleChange={onTitleChange}
         onScheduledChange={onScheduledChange}
         onDueChange={onDueChange}
         onEditClick={onEditClick}
+        onTimerToggle={() => toggleTaskTimer(task.id)}
         onProjectClick={onProjectClick}
         onAreaClick={onAreaClick}
+        isSelected={isSelected}
         autoFocusEdit={autoFocusEdit}
       />
     </div>
@@ -29,6 +29,7 @@ import {
 import { ChevronLeft, ChevronRight } from 'lucide-react'
 
 import { cn } from '@/lib/utils'
+import { getProjectedTasksByDate } from '@/lib/recurrence'
 import type { Task, TaskStatus } from '@/types/data'
 import {
   parseCalendarTaskDragId,
@@ -38,8 +39,10 @@ import {
 import { useCalendarOrder } from '@/hooks/use-calendar-order'
 import { Button } from '@/components/ui/button'
 import type { TaskCardVariant } from '@/components/cards/task-card'
+import { DragHistoryGroup } from '@/components/history/drag-history-group'
 import { MonthDayCell } from './month-day-cell'
 import { TaskCardDragPreview } from './draggable-task-card'
+import { CapacityButton } from './capacity-button'
 
 /**
  * MonthCalendar - Full month grid view with drag-and-drop scheduling.
@@ -49,6 +52,7 @@ import { TaskCardDragPreview } from './draggable-task-card'
  * - Tasks can be dragged between days to reschedule
  * - Tasks can be reordered within a day
  * - Click + on a day to create a new task scheduled for that date
+ * - Future occurrences of recurring tasks are previewed (not draggable)
  *
  * Shows overflow days from adjacent months (grayed out). Weekend days have
  * subtle shading. Today is highlighted with a primary-colored date badge.
@@ -173,6 +177,12 @@ export function MonthCalendar({
     return map
   }, [tasks, dateStrings])
 
+  // Projected future occurrences of recurring tasks
+  const projectedByDate = React.useMemo(
+    () => getProjectedTasksByDate(tasks, dateStrings),
+    [tasks, dateStrings]
+  )
+
   // Determine task card variant based on task state
   const getTaskVariant = React.useCallback((task: Task): TaskCardVariant => {
     if (task.status === 'done') {
@@ -354,6 +364,7 @@ export function MonthCalendar({
       <div className="flex items-center justify-between pb-4">
         <h2 className="text-lg font-semibold">{monthYear}</h2>
         <div className="flex items-center gap-1">
+          <CapacityButton />
           <Button variant="outline" size="sm" onClick={goToToday}>
             Today
           </Button>
@@ -375,6 +386,7 @@ export function MonthCalendar({
         onDragEnd={handleDragEnd}
         onDragCancel={handleDragCancel}
       >
+        <DragHistoryGroup />
         <div className="flex-1 border border-border rounded-lg overflow-hidden flex flex-col">
           {/* Day headers */}
           <div className="grid grid-cols-7 border-b border-border/50 bg-muted/30">
@@ -407,6 +419,7 @@ export function MonthCalendar({
                       key={dateKey}
                       date={day}
                       tasks={orderedTasks}
+                      projectedTasks={projectedByDate.get(dateKey)}
                       isCurrentMonth={isCurrentMonth}
                       getTaskVariant={getTaskVariant}
                       onTaskStatusChange={handleStatusChange}
@@ -7,14 +7,17 @@ import { cn } from '@/lib/utils'
 import type { Task, TaskStatus } from '@/types/data'
 import { getCalendarTaskDragId } from '@/types/calendar-order'
 import { SortableTaskCard } from './draggable-task-card'
+import { ProjectedOccurrences } from './projected-occurrences'
+import { DayWorkload } from './day-workload'
 import type { TaskCardVariant } from '@/components/cards/task-card'
 
 /**
  * MonthDayCell - Single day cell in the month calendar grid.
  *
  * Compact cell designed to fit many in a row. Shows:
- * - Date number (highlighted if today)
+ * - Date number (highlighted if today) and estimated workload
  * - Compact TaskCards for scheduled tasks
+ * - Muted previews of recurring tasks' future occurrences
  * - Hidden "+" button on hover to create new task
  *
  * Acts as a droppable zone for drag-and-drop scheduling.
@@ -23,6 +26,8 @@ import type { TaskCardVariant } from '@/components/cards/task-card'
 interface MonthDayCellProps {
   date: Date
   tasks: Task[]
+  /** Recurring tasks with a projected occurrence on this day */
+  projectedTasks?: Task[]
   /** Whether this day is in the currently displayed month */
   isCurrentMonth: boolean
   /** Function to get the visual variant for a task */
@@ -44,6 +49,7 @@ interface MonthDayCellProps {
 export function MonthDayCell({
   date,
   tasks,
+  projectedTasks = [],
   isCurrentMonth,
   getTaskVariant,
   onTaskStatusChange,
@@ -53,6 +59,7 @@ export function MonthDayCell({
   isDropTarget = false,
 }: MonthDayCellProps) {
   const dateString = format(date, 'yyyy-MM-dd')
+  const taskIds = tasks.map((t) => t.id)
   const isCurrentDay = isToday(date)
   const isWeekendDay = isWeekend(date)
 
@@ -87,6 +94,7 @@ export function MonthDayCell({
           </button>
         )}
         {!onCreateTask && <div />}
+        <DayWorkload tasks={tasks} className="ml-auto mr-1" />
         {/* Date number - consistent size container */}
         <span
           className={cn(
@@ -115,6 +123,7 @@ export function MonthDayCell({
                 key={task.id}
                 task={task}
                 date={dateString}
+                dayTaskIds={taskIds}
                 variant={variant}
                 size="compact"
                 onStatusChange={(newStatus) =>
@@ -129,8 +138,14 @@ export function MonthDayCell({
           })}
         </SortableContext>
 
+        <ProjectedOccurrences
+          tasks={projectedTasks}
+          onTaskOpenDetail={onTaskOpenDetail}
+          size="compact"
+        />
+
         {/* Empty state / drop zone indicator */}
-        {tasks.length === 0 && (
+        {tasks.length === 0 && projectedTasks.length === 0 && (
           <div
             className={cn(
               'h-full min-h-10 rounded border border-dashed border-transparent transition-colors',
@@ -0,0 +1,46 @@
+import { Repeat } from 'lucide-react'
+
+import { cn } from '@/lib/utils'
+import type { Task } from '@/types/data'
+
+/**
+ * ProjectedOccurrences - Preview rows for future instances of recurring tasks.
+ *
+ * Used in DayColumn and MonthDayCell below the real tasks. The instances
+ * don't exist yet (the next one is created when the task is completed), so
+ * the rows are muted, not draggable, and clicking one opens the recurring
+ * task itself.
+ */
+interface ProjectedOccurrencesProps {
+  tasks: Task[]
+  onTaskOpenDetail?: (taskId: string) => void
+  size?: 'default' | 'compact'
+}
+
+export function ProjectedOccurrences({
+  tasks,
+  onTaskOpenDetail,
+  size = 'default',
+}: ProjectedOccurrencesProps) {
+  if (tasks.length === 0) return null
+
+  return (
+    <div className="space-y-0.5">
+      {tasks.map((task) => (
+        <button
+          key={task.id}
+          type="button"
+          onClick={() => onTaskOpenDetail?.(task.id)}
+          title={`Repeats: ${task.title}`}
+          className={cn(
+            'flex items-center gap-1 w-full text-start text-muted-foreground/70 border border-dashed border-border rounded-md hover:text-foreground hover:bg-muted/50 transition-colors',
+            size === 'compact' ? 'px-1 py-0.5 text-2xs' : 'px-2 py-1 text-xs'
+          )}
+        >
+          <Repeat className="size-3 shrink-0" />
+          <span className="truncate">{task.title}</span>
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,169 @@
+import * as React from 'react'
+import { useDraggable } from '@dnd-kit/core'
+
+import { cn } from '@/lib/utils'
+import { formatTime, snapDuration } from '@/lib/time-blocks'
+import type { Task, TaskStatus } from '@/types/data'
+import {
+  getCalendarTaskDragId,
+  type CalendarTaskDragData,
+} from '@/types/calendar-order'
+import { TaskStatusCheckbox } from '@/components/tasks/task-status-checkbox'
+
+/**
+ * TimeBlock - A timed task on the WeekCalendar's timeline (WeekTimeline).
+ *
+ * Positioned by its start time and duration, and side by side with the
+ * blocks it overlaps (layoutTimeBlocks). Drag it to another time or day;
+ * drag its bottom edge to change the duration in 15-minute steps. Click
+ * opens the task. Short blocks show the title and start time on one line.
+ *
+ * Also exports TimeBlockDragPreview for the DragOverlay.
+ */
+interface TimeBlockProps {
+  task: Task
+  date: string
+  /** Minutes since midnight */
+  start: number
+  end: number
+  /** Lane among overlapping blocks, and how many lanes there are */
+  column: number
+  columns: number
+  /** Pixel height of an hour on the timeline */
+  hourHeight: number
+  onStatusChange?: (newStatus: TaskStatus) => void
+  onDurationChange?: (duration: number) => void
+  onOpenDetail?: () => void
+}
+
+export function TimeBlock({
+  task,
+  date,
+  start,
+  end,
+  column,
+  columns,
+  hourHeight,
+  onStatusChange,
+  onDurationChange,
+  onOpenDetail,
+}: TimeBlockProps) {
+  // Duration while the bottom edge is being dragged
+  const [resizeDuration, setResizeDuration] = React.useState<number | null>(
+    null
+  )
+  const dragData: CalendarTaskDragData = {
+    type: 'calendar-task',
+    taskId: task.id,
+    sourceDate: date,
+  }
+
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: getCalendarTaskDragId(date, task.id),
+    data: dragData,
+  })
+
+  const duration = resizeDuration ?? end - start
+  const isCompleted = task.status === 'done' || task.status === 'dropped'
+  const isShort = duration < 45
+
+  const handleResizeStart = (e: React.PointerEvent) => {
+    // Keep the pointer down from starting a drag of the whole block
+    e.stopPropagation()
+    e.preventDefault()
+    const startY = e.clientY
+    const initial = end - start
+    const getDuration = (clientY: number) =>
+      snapDuration(initial + ((clientY - startY) / hourHeight) * 60, start)
+
+    const handleMove = (event: PointerEvent) =>
+      setResizeDuration(getDuration(event.clientY))
+    const handleUp = (event: PointerEvent) => {
+      window.removeEventListener('pointermove', handleMove)
+      setResizeDuration(null)
+      const newDuration = getDuration(event.clientY)
+      if (newDuration !== initial) onDurationChange?.(newDuration)
+    }
+
+    window.addEventListener('pointermove', handleMove)
+    window.addEventListener('pointerup', handleUp, { once: true })
+  }
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      onClick={onOpenDetail}
+      style={{
+        top: (start / 60) * hourHeight,
+        height: Math.max((duration / 60) * hourHeight, 18),
+        left: `calc(${(column / columns) * 100}% + 2px)`,
+        width: `calc(${100 / columns}% - 4px)`,
+      }}
+      className={cn(
+        'group absolute flex overflow-hidden rounded-md border border-primary/30 bg-primary/10 px-1.5 text-xs cursor-grab active:cursor-grabbing touch-none',
+        'hover:border-primary/60 hover:z-10',
+        isShort ? 'items-center gap-1.5' : 'flex-col py-1',
+        isCompleted && 'opacity-60',
+        isDragging && 'opacity-30',
+        resizeDuration !== null && 'z-20 border-primary'
+      )}
+    >
+      <div className="flex min-w-0 items-center gap-1.5">
+        <TaskStatusCheckbox
+          status={task.status}
+          onToggle={() =>
+            onStatusChange?.(task.status === 'done' ? 'ready' : 'done')
+          }
+          className="size-3"
+        />
+        <span
+          className={cn(
+            'truncate font-medium',
+            isCompleted && 'line-through text-muted-foreground'
+          )}
+        >
+          {task.title}
+        </span>
+      </div>
+      <span className="shrink-0 text-2xs tabular-nums text-muted-foreground">
+        {formatTime(start)}
+        {!isShort && `–${formatTime(start + duration)}`}
+      </span>
+
+      {/* Resize handle - bottom edge */}
+      {onDurationChange && (
+        <div
+          onPointerDown={handleResizeStart}
+          onClick={(e) => e.stopPropagation()}
+          className="absolute inset-x-0 bottom-0 h-1.5 cursor-ns-resize"
+          aria-hidden
+        />
+      )}
+    </div>
+  )
+}
+
+interface TimeBlockDragPreviewProps {
+  task: Task
+  /** Minutes, for the preview's height */
+  duration: number
+  hourHeight: number
+}
+
+/** The block as it's dragged, at its full height */
+export function TimeBlockDragPreview({
+  task,
+  duration,
+  hourHeight,
+}: TimeBlockDragPreviewProps) {
+  return (
+    <div
+      style={{ height: Math.max((duration / 60) * hourHeight, 18) }}
+      className="w-36 overflow-hidden rounded-md border border-primary/60 bg-primary/15 px-1.5 py-1 text-xs font-medium shadow-xl"
+    >
+      <span className="line-clamp-2">{task.title}</span>
+    </div>
+  )
+}
@@ -0,0 +1,439 @@
+import * as React from 'react'
+import {
+  DndContext,
+  DragOverlay,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  closestCenter,
+  defaultDropAnimationSideEffects,
+  type DragStartEvent,
+  type DragEndEvent,
+  type DragOverEvent,
+  type DropAnimation,
+} from '@dnd-kit/core'
+import {
+  addDays,
+  eachDayOfInterval,
+  format,
+  isBefore,
+  isToday,
+  parseISO,
+  startOfDay,
+} from 'date-fns'
+
+import { cn } from '@/lib/utils'
+import { getProjectedTasksByDate } from '@/lib/recurrence'
+import type { Task, TaskStatus } from '@/types/data'
+import {
+  parseCalendarTaskDragId,
+  type CalendarTaskDragData,
+  type DayDropData,
+} from '@/types/calendar-order'
+import { useCalendarOrder } from '@/hooks/use-calendar-order'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { TaskCardVariant } from '@/components/cards/task-card'
+import { DragHistoryGroup } from '@/components/history/drag-history-group'
+import { AgendaDay } from './agenda-day'
+import { TaskCardDragPreview } from './draggable-task-card'
+
+/**
+ * UpcomingAgenda - Rolling day-by-day agenda starting today.
+ *
+ * Used in UpcomingView. Lists the next N days (7 to 90, picked in the
+ * header) as AgendaDay rows where:
+ * - Tasks show on their scheduled date, else their defer date (as in
+ *   WeekCalendar), and can be dragged between days to reschedule
+ * - Tasks can be reordered within a day
+ * - Deadlines (due dates) and scheduled tasks becoming available (defer
+ *   dates) are listed as links on their day
+ * - Future occurrences of recurring tasks are previewed (not draggable)
+ *
+ * Order persistence uses useCalendarOrder hook.
+ */
+
+interface DragState {
+  taskId: string
+  task: Task
+  sourceDate: string
+  currentOverDate: string | null
+}
+
+interface TaskContext {
+  projectName?: string
+  areaName?: string
+  projectId?: string
+  areaId?: string
+}
+
+const rangeItems = [
+  { value: '7', label: 'Next 7 days' },
+  { value: '14', label: 'Next 14 days' },
+  { value: '30', label: 'Next 30 days' },
+  { value: '60', label: 'Next 60 days' },
+  { value: '90', label: 'Next 90 days' },
+]
+
+/** Day key (yyyy-MM-dd) of a date or datetime string, in local time */
+function dayKey(dateString: string): string {
+  return format(parseISO(dateString), 'yyyy-MM-dd')
+}
+
+function isClosed(task: Task): boolean {
+  return task.status === 'done' || task.status === 'dropped'
+}
+
+// -----------------------------------------------------------------------------
+// UpcomingAgenda Component
+// -----------------------------------------------------------------------------
+
+interface UpcomingAgendaProps {
+  tasks: Task[]
+  /** Number of days shown initially (default: 30) */
+  defaultDays?: number
+  /** Get task by ID */
+  getTaskById: (taskId: string) => Task | undefined
+  /** Get context (project/area names and IDs) for a task */
+  getTaskContext?: (task: Task) => TaskContext
+  /** Called when a task's scheduled date is changed via drag-drop */
+  onTaskScheduleChange: (taskId: string, newDate: string | undefined) => void
+  /** Called when a task's status is changed */
+  onTaskStatusChange: (taskId: string, newStatus: TaskStatus) => void
+  /** Called when a task's title is changed */
+  onTaskTitleChange: (taskId: string, newTitle: string) => void
+  /** Called when a task's due date is changed */
+  onTaskDueChange: (taskId: string, date: string | undefined) => void
+  /** Called when a task should be opened in detail view */
+  onTaskOpenDetail?: (taskId: string) => void
+  /** Called when navigating to a project */
+  onNavigateToProject?: (projectId: string) => void
+  /** Called when navigating to an area */
+  onNavigateToArea?: (areaId: string) => void
+  /** Called when + button is clicked to create a task. Returns the new task ID. */
+  onCreateTask?: (scheduledDate: string) => string | void
+  className?: string
+}
+
+export function UpcomingAgenda({
+  tasks,
+  defaultDays = 30,
+  getTaskById,
+  getTaskContext,
+  onTaskScheduleChange,
+  onTaskStatusChange,
+  onTaskTitleChange,
+  onTaskDueChange,
+  onTaskOpenDetail,
+  onNavigateToProject,
+  onNavigateToArea,
+  onCreateTask,
+  className,
+}: UpcomingAgendaProps) {
+  const [dayCount, setDayCount] = React.useState(defaultDays)
+  const [dragState, setDragState] = React.useState<DragState | null>(null)
+  const [editingTaskId, setEditingTaskId] = React.useState<string | null>(null)
+
+  // Handle creating a task for a day
+  const handleCreateTask = React.useCallback(
+    (dateKey: string) => {
+      if (!onCreateTask) return
+      const newTaskId = onCreateTask(dateKey)
+      if (newTaskId) {
+        setEditingTaskId(newTaskId)
+      }
+    },
+    [onCreateTask]
+  )
+
+  // Clear editing state when task title is changed
+  const handleTaskTitleChange = React.useCallback(
+    (taskId: string, newTitle: string) => {
+      onTaskTitleChange(taskId, newTitle)
+      if (taskId === editingTaskId) {
+        setEditingTaskId(null)
+      }
+    },
+    [onTaskTitleChange, editingTaskId]
+  )
+
+  // The agenda's days, starting today
+  const days = React.useMemo(() => {
+    const today = startOfDay(new Date())
+    return eachDayOfInterval({
+      start: today,
+      end: addDays(today, dayCount - 1),
+    })
+  }, [dayCount])
+
+  // Date strings for the agenda (used by order hook)
+  const dateStrings = React.useMemo(
+    () => days.map((d) => format(d, 'yyyy-MM-dd')),
+    [days]
+  )
+
+  // Group tasks by their display date (scheduled or deferUntil), and
+  // deadlines and availability by their own dates
+  const { tasksByDate, tasksDueByDate, tasksAvailableByDate } =
+    React.useMemo(() => {
+      const byDate = new Map<string, Task[]>()
+      const dueByDate = new Map<string, Task[]>()
+      const availableByDate = new Map<string, Task[]>()
+      for (const date of dateStrings) {
+        byDate.set(date, [])
+        dueByDate.set(date, [])
+        availableByDate.set(date, [])
+      }
+
+      for (const task of tasks) {
+        // Skip dropped tasks, but keep done tasks
+        if (task.status === 'dropped') continue
+
+        const display = task.scheduled ?? task.deferUntil
+        if (display) byDate.get(dayKey(display))?.push(task)
+
+        if (isClosed(task)) continue
+
+        if (task.due) dueByDate.get(dayKey(task.due))?.push(task)
+
+        // Defer-only tasks already show on their defer date
+        if (task.scheduled && task.deferUntil) {
+          const deferKey = dayKey(task.deferUntil)
+          if (deferKey !== dayKey(task.scheduled)) {
+            availableByDate.get(deferKey)?.push(task)
+          }
+        }
+      }
+
+      return {
+        tasksByDate: byDate,
+        tasksDueByDate: dueByDate,
+        tasksAvailableByDate: availableByDate,
+      }
+    }, [tasks, dateStrings])
+
+  // Projected future occurrences of recurring tasks
+  const projectedByDate = React.useMemo(
+    () => getProjectedTasksByDate(tasks, dateStrings),
+    [tasks, dateStrings]
+  )
+
+  // Determine task card variant based on task state
+  const getTaskVariant = React.useCallback((task: Task): TaskCardVariant => {
+    if (task.status === 'done') {
+      return 'done'
+    }
+
+    // Deferred tasks (has deferUntil but no scheduled)
+    if (task.deferUntil && !task.scheduled) {
+      return 'deferred'
+    }
+
+    // Overdue tasks (has scheduled AND due date is today or in past)
+    if (task.scheduled && task.due) {
+      const dueDate = startOfDay(new Date(task.due))
+      const today = startOfDay(new Date())
+      if (isBefore(dueDate, today) || isToday(dueDate)) {
+        return 'overdue'
+      }
+    }
+
+    return 'default'
+  }, [])
+
+  // Get tasks for a specific date (callback for order hook)
+  const getTasksForDate = React.useCallback(
+    (date: string): Task[] => tasksByDate.get(date) ?? [],
+    [tasksByDate]
+  )
+
+  // Calendar order management (for within-day reordering)
+  const { getOrderedTasks, reorderTasksInDay, moveTaskToDay, getInsertIndex } =
+    useCalendarOrder({
+      tasks,
+      dates: dateStrings,
+      getTasksForDate,
+    })
+
+  // DnD Sensors
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    })
+  )
+
+  // Drop animation
+  const dropAnimation: DropAnimation = {
+    sideEffects: defaultDropAnimationSideEffects({
+      styles: { active: { opacity: '0.5' } },
+    }),
+  }
+
+  // DnD Handlers
+  const handleDragStart = (event: DragStartEvent) => {
+    const data = event.active.data.current as CalendarTaskDragData | undefined
+    if (data?.type === 'calendar-task') {
+      const task = getTaskById(data.taskId)
+      if (task) {
+        setDragState({
+          taskId: data.taskId,
+          task,
+          sourceDate: data.sourceDate,
+          currentOverDate: null,
+        })
+      }
+    }
+  }
+
+  const handleDragOver = (event: DragOverEvent) => {
+    if (!dragState) return
+
+    const { over } = event
+    if (!over) {
+      setDragState((prev) => (prev ? { ...prev, currentOverDate: null } : null))
+      return
+    }
+
+    const overData = over.data.current as
+      | DayDropData
+      | CalendarTaskDragData
+      | undefined
+    if (!overData) return
+
+    const overDate =
+      overData.type === 'day' ? overData.date : overData.sourceDate
+
+    if (overDate !== dragState.currentOverDate) {
+      setDragState((prev) =>
+        prev ? { ...prev, currentOverDate: overDate } : null
+      )
+    }
+  }
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    if (!dragState) return
+
+    const { active, over } = event
+    const overData = over?.data.current as
+      | DayDropData
+      | CalendarTaskDragData
+      | undefined
+    const parsedActive = parseCalendarTaskDragId(active.id as string)
+    if (!overData || !parsedActive) {
+      setDragState(null)
+      return
+    }
+
+    const { taskId: activeTaskId } = parsedActive
+    const sourceDate = dragState.sourceDate
+
+    if (overData.type === 'day') {
+      // Dropped on a day row (not on a specific task): add to its end
+      const targetDate = overData.date
+      if (targetDate !== sourceDate) {
+        moveTaskToDay(activeTaskId, sourceDate, targetDate)
+        onTaskScheduleChange(activeTaskId, targetDate)
+      }
+    } else if (overData.type === 'calendar-task') {
+      const targetDate = overData.sourceDate
+      const overTaskId = overData.taskId
+
+      if (targetDate === sourceDate) {
+        if (activeTaskId !== overTaskId) {
+          reorderTasksInDay(sourceDate, activeTaskId, overTaskId)
+        }
+      } else {
+        const insertIndex = getInsertIndex(targetDate, overTaskId)
+        moveTaskToDay(activeTaskId, sourceDate, targetDate, insertIndex)
+        onTaskScheduleChange(activeTaskId, targetDate)
+      }
+    }
+
+    setDragState(null)
+  }
+
+  const handleDragCancel = () => {
+    setDragState(null)
+  }
+
+  return (
+    <div className={cn('flex flex-col', className)}>
+      {/* Header with range picker */}
+      <div className="flex items-center justify-between pb-4">
+        <h2 className="text-lg font-semibold">
+          {format(days[0], 'MMM d')} – {format(days[days.length - 1], 'MMM d')}
+        </h2>
+        <Select
+          items={rangeItems}
+          value={String(dayCount)}
+          onValueChange={(value) => value && setDayCount(Number(value))}
+        >
+          <SelectTrigger size="sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {rangeItems.map((item) => (
+              <SelectItem key={item.value} value={item.value}>
+                {item.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <DndContext
+        sensors={sensors}
+        collisionDetection={closestCenter}
+        onDragStart={handleDragStart}
+        onDragOver={handleDragOver}
+        onDragEnd={handleDragEnd}
+        onDragCancel={handleDragCancel}
+      >
+        <DragHistoryGroup />
+        <div className="border border-border rounded-lg overflow-hidden">
+          {days.map((day) => {
+            const dateKey = format(day, 'yyyy-MM-dd')
+            const rawTasks = tasksByDate.get(dateKey) ?? []
+
+            return (
+              <AgendaDay
+                key={dateKey}
+                date={day}
+                tasks={getOrderedTasks(dateKey, rawTasks)}
+                tasksDueOnDay={tasksDueByDate.get(dateKey)}
+                tasksAvailableOnDay={tasksAvailableByDate.get(dateKey)}
+                projectedTasks={projectedByDate.get(dateKey)}
+                getTaskContext={getTaskContext}
+                getTaskVariant={getTaskVariant}
+                onTaskStatusChange={onTaskStatusChange}
+                onTaskTitleChange={handleTaskTitleChange}
+                onTaskScheduledChange={onTaskScheduleChange}
+                onTaskDueChange={onTaskDueChange}
+                onTaskOpenDetail={onTaskOpenDetail}
+                onNavigateToProject={onNavigateToProject}
+                onNavigateToArea={onNavigateToArea}
+                onCreateTask={
+                  onCreateTask ? () => handleCreateTask(dateKey) : undefined
+                }
+                editingTaskId={editingTaskId}
+                isDropTarget={dragState?.currentOverDate === dateKey}
+              />
+            )
+          })}
+        </div>
+
+        {/* Drag overlay */}
+        <DragOverlay dropAnimation={dropAnimation}>
+          {dragState && <TaskCardDragPreview task={dragState.task} />}
+        </DragOverlay>
+      </DndContext>
+    </div>
+  )
+}
@@ -27,6 +27,7 @@ import {
 import { ChevronLeft, ChevronRight } from 'lucide-react'
 
 import { cn } from '@/lib/utils'
+import { getProjectedTasksByDate } from '@/lib/recurrence'
 import type { Task, TaskStatus } from '@/types/data'
 import {
   parseCalendarTaskDragId,
@@ -36,8 +37,11 @@ import {
 import { useCalendarOrder } from '@/hooks/use-calendar-order'
 import { Button } from '@/components/ui/button'
 import type { TaskCardVariant } from '@/components/cards/task-card'
+import { DragHistoryGroup } from '@/components/history/drag-history-group'
 import { DayColumn } from './day-column'
 import { TaskCardDragPreview } from './draggable-task-card'
+import { WeekTimeline } from './week-timeline'
+import { CapacityButton } from './capacity-button'
 
 /**
  * WeekCalendar - 7-day column layout with drag-and-drop scheduling.
@@ -47,13 +51,20 @@ import { TaskCardDragPreview } from './draggable-task-card'
  * - Tasks can be dragged between days to reschedule
  * - Tasks can be reordered within a day
  * - Bottom section shows tasks DUE on that day (even if scheduled elsewhere)
+ * - Future occurrences of recurring tasks are previewed (not draggable)
  *
  * More detailed than MonthCalendar - shows full TaskCards with metadata,
  * context names, and inline editing. Weekend columns have subtle shading.
  *
+ * With `layout="timeline"` the days become hourly columns of time blocks
+ * instead (WeekTimeline), for tasks with a start time.
+ *
  * Order persistence uses useCalendarOrder hook.
  */
 
+/** Stacked cards per day, or an hourly timeline with time blocks */
+export type WeekCalendarLayout = 'columns' | 'timeline'
+
 interface DragState {
   taskId: string
   task: Task
@@ -80,6 +91,13 @@ interface WeekCalendarProps {
   getTaskContext?: (task: Task) => TaskContext
   /** Called when a task's scheduled date is changed via drag-drop */
   onTaskScheduleChange: (taskId: string, newDate: string | undefined) => void
+  /** Called when a task is dragged to a time slot or into a day's tray */
+  onTaskStartTimeChange?: (
+    taskId: string,
+    startTime: string | undefined
+  ) => void
+  /** Called when a time block is resized */
+  onTaskDurationChange?: (taskId: string, duration: number | undefined) => void
   /** Called when a task's status is changed */
   onTaskStatusChange: (taskId: string, newStatus: TaskStatus) => void
   /** Called when a task's title is changed */
@@ -94,6 +112,8 @@ interface WeekCalendarProps {
   onNavigateToArea?: (areaId: string) => void
   /** Called when + button is clicked to create a task. Returns the new task ID. */
   onCreateTask?: (scheduledDate: string) => string | void
+  /** Default: 'columns'. The timeline needs the time/duration handlers */
+  layout?: WeekCalendarLayout
   className?: string
 }
 
@@ -106,6 +126,8 @@ export function WeekCalendar({
   getTaskById,
   getTaskContext,
   onTaskScheduleChange,
+  onTaskStartTimeChange,
+  onTaskDurationChange,
   onTaskStatusChange,
   onTaskTitleChange,
   onTaskDueChange,
@@ -113,6 +135,7 @@ export function WeekCalendar({
   onNavigateToProject,
   onNavigateToArea,
   onCreateTask,
+  layout = 'columns',
   className,
 }: WeekCalendarProps) {
   const [currentWeekStart, setCurrentWeekStart] = React.useState(
@@ -195,6 +218,12 @@ export function WeekCalendar({
     return map
   }, [tasks, weekDays])
 
+  // Projected future occurrences of recurring tasks
+  const projectedByDate = React.useMemo(
+    () => getProjectedTasksByDate(tasks, weekDateStrings),
+    [tasks, weekDateStrings]
+  )
+
   // Group tasks by their due date (for showing due indicators)
   const tasksDueByDate = React.useMemo(() => {
     const map = new Map<string, Task[]>()
@@ -402,12 +431,17 @@ export function WeekCalendar({
   // Month/year display
   const monthYear = format(currentWeekStart, 'MMMM yyyy')
 
+  // The timeline needs handlers for start times and durations
+  const isTimeline =
+    layout === 'timeline' && onTaskStartTimeChange && onTaskDurationChange
+
   return (
     <div className={cn('flex flex-col h-full', className)}>
       {/* Header with navigation */}
       <div className="flex items-center justify-between pb-4">
         <h2 className="text-lg font-semibold">{monthYear}</h2>
         <div className="flex items-center gap-1">
+          <CapacityButton />
           <Button variant="outline" size="sm" onClick={goToToday}>
             Today
           </Button>
@@ -420,55 +454,86 @@ export function WeekCalendar({
         </div>
       </div>
 
-      {/* Calendar grid */}
-      <DndContext
-        sensors={sensors}
-        collisionDetection={closestCenter}
-        onDragStart={handleDragStart}
-        onDragOver={handleDragOver}
-        onDragEnd={handleDragEnd}
-        onDragCancel={handleDragCancel}
-      >
-        <div className="flex-1 border border-border rounded-lg overflow-hidden">
-          <div className="grid grid-cols-7 h-full">
-            {weekDays.map((day) => {
-              const dateKey = format(day, 'yyyy-MM-dd')
-              const rawTasks = tasksByDate.get(dateKey) ?? []
-              const orderedTasks = getOrderedTasks(dateKey, rawTasks)
-              const dueOnDay = tasksDueByDate.get(dateKey) ?? []
-              const isDropTarget = dragState?.currentOverDate === dateKey
-
-              return (
-                <DayColumn
-                  key={dateKey}
-                  date={day}
-                  tasks={orderedTasks}
-                  tasksDueOnDay={dueOnDay}
-                  getTaskContext={getTaskContext}
-                  getTaskVariant={getTaskVariant}
-                  onTaskStatusChange={onTaskStatusChange}
-                  onTaskTitleChange={handleTaskTitleChange}
-                  onTaskScheduledChange={onTaskScheduleChange}
-                  onTaskDueChange={onTaskDueChange}
-                  onTaskOpenDetail={onTaskOpenDetail}
-                  onNavigateToProject={onNavigateToProject}
-                  onNavigateToArea={onNavigateToArea}
-                  onCreateTask={
-                    onCreateTask ? () => handleCreateTask(dateKey) : undefined
-                  }
-                  editingTaskId={editingTaskId}
-                  isDropTarget={isDropTarget}
-                />
-              )
-            })}
+      {isTimeline ? (
+        <WeekTimeline
+          days={weekDays}
+          tasksByDate={
+            new Map(
+              weekDateStrings.map((dateKey) => [
+                dateKey,
+                getOrderedTasks(dateKey, tasksByDate.get(dateKey) ?? []),
+              ])
+            )
+          }
+          getTaskVariant={getTaskVariant}
+          onTaskScheduleChange={onTaskScheduleChange}
+          onTaskStartTimeChange={onTaskStartTimeChange}
+          onTaskDurationChange={onTaskDurationChange}
+          onTaskStatusChange={onTaskStatusChange}
+          onTaskOpenDetail={onTaskOpenDetail}
+          onCreateTask={
+            onCreateTask
+              ? (dateKey) => {
+                  // Cards in the tray can't be edited inline - open the task
+                  const newTaskId = onCreateTask(dateKey)
+                  if (newTaskId) onTaskOpenDetail?.(newTaskId)
+                }
+              : undefined
+          }
+        />
+      ) : (
+        /* Calendar grid */
+        <DndContext
+          sensors={sensors}
+          collisionDetection={closestCenter}
+          onDragStart={handleDragStart}
+          onDragOver={handleDragOver}
+          onDragEnd={handleDragEnd}
+          onDragCancel={handleDragCancel}
+        >
+          <DragHistoryGroup />
+          <div className="flex-1 border border-border rounded-lg overflow-hidden">
+            <div className="grid grid-cols-7 h-full">
+              {weekDays.map((day) => {
+                const dateKey = format(day, 'yyyy-MM-dd')
+                const rawTasks = tasksByDate.get(dateKey) ?? []
+                const orderedTasks = getOrderedTasks(dateKey, rawTasks)
+                const dueOnDay = tasksDueByDate.get(dateKey) ?? []
+                const isDropTarget = dragState?.currentOverDate === dateKey
+
+                return (
+                  <DayColumn
+                    key={dateKey}
+                    date={day}
+                    tasks={orderedTasks}
+                    tasksDueOnDay={dueOnDay}
+                    projectedTasks={projectedByDate.get(dateKey)}
+                    getTaskContext={getTaskContext}
+                    getTaskVariant={getTaskVariant}
+                    onTaskStatusChange={onTaskStatusChange}
+                    onTaskTitleChange={handleTaskTitleChange}
+                    onTaskScheduledChange={onTaskScheduleChange}
+                    onTaskDueChange={onTaskDueChange}
+                    onTaskOpenDetail={onTaskOpenDetail}
+                    onNavigateToProject={onNavigateToProject}
+                    onNavigateToArea={onNavigateToArea}
+                    onCreateTask={
+                      onCreateTask ? () => handleCreateTask(dateKey) : undefined
+                    }
+                    editingTaskId={editingTaskId}
+                    isDropTarget={isDropTarget}
+                  />
+                )
+              })}
+            </div>
           </div>
-        </div>
 
-        {/* Drag overlay */}
-        <DragOverlay dropAnimation={dropAnimation}>
-          {dragState && <TaskCardDragPreview task={dragState.task} />}
-        </DragOverlay>
-      </DndContext>
+          {/* Drag overlay */}
+          <DragOverlay dropAnimation={dropAnimation}>
+            {dragState && <TaskCardDragPreview task={dragState.task} />}
+          </DragOverlay>
+        </DndContext>
+      )}
     </div>
   )
 }
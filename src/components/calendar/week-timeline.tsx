@@ -0,0 +1,564 @@
+import * as React from 'react'
+import {
+  DndContext,
+  DragOverlay,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  pointerWithin,
+  defaultDropAnimationSideEffects,
+  type DragEndEvent,
+  type DragMoveEvent,
+  type DragStartEvent,
+  type DropAnimation,
+} from '@dnd-kit/core'
+import { format, isToday, isWeekend } from 'date-fns'
+import { Plus } from 'lucide-react'
+
+import { cn } from '@/lib/utils'
+import {
+  getBlockDuration,
+  getTimeBlock,
+  layoutTimeBlocks,
+  snapMinutes,
+  toTime,
+} from '@/lib/time-blocks'
+import type { Task, TaskStatus } from '@/types/data'
+import {
+  getCalendarTaskDragId,
+  type CalendarTaskDragData,
+  type DayDropData,
+} from '@/types/calendar-order'
+import { TaskCard, type TaskCardVariant } from '@/components/cards/task-card'
+import { DragHistoryGroup } from '@/components/history/drag-history-group'
+import { TaskCardDragPreview } from './draggable-task-card'
+import { TimeBlock, TimeBlockDragPreview } from './time-block'
+import { DayWorkload } from './day-workload'
+
+/**
+ * WeekTimeline - The WeekCalendar's hourly timeline mode.
+ *
+ * Each day is a 24-hour column of time blocks: tasks scheduled that day
+ * with a start time (lib/time-blocks). Blocks that overlap sit side by
+ * side. Above the columns, each day has an "unscheduled time" tray for
+ * its tasks without a start time.
+ *
+ * Dragging a block or a tray card onto a column schedules it for that day
+ * at the time under the card's top edge, in 15-minute steps (a dashed
+ * outline previews where it lands). Dropping onto a tray keeps the day
+ * but clears the time. A block's bottom edge resizes it. Scrolls to the
+ * morning (or the current hour) when shown.
+ */
+
+const HOUR_HEIGHT = 48
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+
+interface TimelineDropData {
+  type: 'timeline-day'
+  date: string
+}
+
+interface DragState {
+  task: Task
+  sourceDate: string
+}
+
+/** Where the dragged task would land: a time on a day, or a day's tray */
+interface DropTarget {
+  date: string
+  minutes?: number
+}
+
+// -----------------------------------------------------------------------------
+// WeekTimeline Component
+// -----------------------------------------------------------------------------
+
+interface WeekTimelineProps {
+  days: Date[]
+  /** Tasks shown on each day ("yyyy-MM-dd"), in display order */
+  tasksByDate: Map<string, Task[]>
+  getTaskVariant?: (task: Task) => TaskCardVariant
+  onTaskScheduleChange: (taskId: string, newDate: string | undefined) => void
+  onTaskStartTimeChange: (taskId: string, startTime: string | undefined) => void
+  onTaskDurationChange: (taskId: string, duration: number | undefined) => void
+  onTaskStatusChange: (taskId: string, newStatus: TaskStatus) => void
+  onTaskOpenDetail?: (taskId: string) => void
+  /** Called when a tray's + button is clicked */
+  onCreateTask?: (scheduledDate: string) => void
+}
+
+export function WeekTimeline({
+  days,
+  tasksByDate,
+  getTaskVariant,
+  onTaskScheduleChange,
+  onTaskStartTimeChange,
+  onTaskDurationChange,
+  onTaskStatusChange,
+  onTaskOpenDetail,
+  onCreateTask,
+}: WeekTimelineProps) {
+  const [dragState, setDragState] = React.useState<DragState | null>(null)
+  const [dropTarget, setDropTarget] = React.useState<DropTarget | null>(null)
+  const scrollRef = React.useRef<HTMLDivElement>(null)
+  // Day columns by date, to turn a drop position into a time
+  const columnRefs = React.useRef(new Map<string, HTMLElement>())
+
+  // Start at 7:00, or an hour before now if that's later
+  React.useEffect(() => {
+    const hour = Math.max(7, new Date().getHours() - 1)
+    scrollRef.current?.scrollTo({ top: hour * HOUR_HEIGHT })
+  }, [])
+
+  const registerColumn = React.useCallback(
+    (date: string, element: HTMLElement | null) => {
+      if (element) {
+        columnRefs.current.set(date, element)
+      } else {
+        columnRefs.current.delete(date)
+      }
+    },
+    []
+  )
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    })
+  )
+
+  const dropAnimation: DropAnimation = {
+    sideEffects: defaultDropAnimationSideEffects({
+      styles: { active: { opacity: '0.5' } },
+    }),
+  }
+
+  const getDropTarget = (
+    event: DragMoveEvent | DragEndEvent
+  ): DropTarget | null => {
+    const overData = event.over?.data.current as
+      | TimelineDropData
+      | DayDropData
+      | undefined
+    if (overData?.type === 'day') return { date: overData.date }
+    if (overData?.type !== 'timeline-day') return null
+
+    const column = columnRefs.current.get(overData.date)
+    const top = event.active.rect.current.translated?.top
+    if (!column || top === undefined) return null
+    const offset = top - column.getBoundingClientRect().top
+    return {
+      date: overData.date,
+      minutes: snapMinutes((offset / HOUR_HEIGHT) * 60),
+    }
+  }
+
+  const handleDragStart = (event: DragStartEvent) => {
+    const data = event.active.data.current as CalendarTaskDragData | undefined
+    if (data?.type !== 'calendar-task') return
+    const task = tasksByDate
+      .get(data.sourceDate)
+      ?.find((t) => t.id === data.taskId)
+    if (task) setDragState({ task, sourceDate: data.sourceDate })
+  }
+
+  const handleDragMove = (event: DragMoveEvent) => {
+    const target = getDropTarget(event)
+    setDropTarget((prev) =>
+      prev?.date === target?.date && prev?.minutes === target?.minutes
+        ? prev
+        : target
+    )
+  }
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const target = getDropTarget(event)
+    setDragState(null)
+    setDropTarget(null)
+    if (!dragState || !target) return
+
+    const { task, sourceDate } = dragState
+    if (target.date !== sourceDate || !task.scheduled) {
+      onTaskScheduleChange(task.id, target.date)
+    }
+    const startTime =
+      target.minutes !== undefined ? toTime(target.minutes) : undefined
+    if (startTime !== task.startTime) {
+      onTaskStartTimeChange(task.id, startTime)
+    }
+  }
+
+  const handleDragCancel = () => {
+    setDragState(null)
+    setDropTarget(null)
+  }
+
+  const draggedBlock = dragState ? getTimeBlock(dragState.task) : undefined
+  const draggedDuration = draggedBlock
+    ? draggedBlock.end - draggedBlock.start
+    : dragState
+      ? getBlockDuration(dragState.task)
+      : 0
+
+  // Keep the header and the timeline's columns aligned past the scrollbar
+  const gridClass =
+    'grid grid-cols-[3rem_repeat(7,minmax(0,1fr))] [scrollbar-gutter:stable]'
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={pointerWithin}
+      onDragStart={handleDragStart}
+      onDragMove={handleDragMove}
+      onDragEnd={handleDragEnd}
+      onDragCancel={handleDragCancel}
+    >
+      <DragHistoryGroup />
+      <div className="flex-1 min-h-0 flex flex-col border border-border rounded-lg overflow-hidden">
+        {/* Day headers with each day's unscheduled-time tray */}
+        <div
+          className={cn(gridClass, 'overflow-y-hidden border-b border-border')}
+        >
+          <div className="flex items-end justify-end p-1 text-2xs text-muted-foreground">
+            No time
+          </div>
+          {days.map((day) => {
+            const dateKey = format(day, 'yyyy-MM-dd')
+            const dayTasks = tasksByDate.get(dateKey) ?? []
+            return (
+              <UntimedTray
+                key={dateKey}
+                date={day}
+                tasks={dayTasks.filter((task) => !getTimeBlock(task))}
+                dayTasks={dayTasks}
+                getTaskVariant={getTaskVariant}
+                onTaskStatusChange={onTaskStatusChange}
+                onTaskOpenDetail={onTaskOpenDetail}
+                onCreateTask={
+                  onCreateTask ? () => onCreateTask(dateKey) : undefined
+                }
+                isDropTarget={
+                  dropTarget?.date === dateKey &&
+                  dropTarget.minutes === undefined
+                }
+              />
+            )
+          })}
+        </div>
+
+        {/* Hourly timeline */}
+        <div ref={scrollRef} className="flex-1 min-h-0 overflow-y-auto">
+          <div
+            className={gridClass}
+            style={{ height: HOURS.length * HOUR_HEIGHT }}
+          >
+            {/* Hour labels */}
+            <div className="relative">
+              {HOURS.slice(1).map((hour) => (
+                <span
+                  key={hour}
+                  className="absolute right-1.5 -translate-y-1/2 text-2xs tabular-nums text-muted-foreground"
+                  style={{ top: hour * HOUR_HEIGHT }}
+                >
+                  {hour}:00
+                </span>
+              ))}
+            </div>
+
+            {days.map((day) => {
+              const dateKey = format(day, 'yyyy-MM-dd')
+              return (
+                <TimelineDayColumn
+                  key={dateKey}
+                  date={day}
+                  tasks={tasksByDate.get(dateKey) ?? []}
+                  registerColumn={registerColumn}
+                  onTaskStatusChange={onTaskStatusChange}
+                  onTaskDurationChange={onTaskDurationChange}
+                  onTaskOpenDetail={onTaskOpenDetail}
+                  dropPreview={
+                    dropTarget?.date === dateKey &&
+                    dropTarget.minutes !== undefined
+                      ? { start: dropTarget.minutes, duration: draggedDuration }
+                      : undefined
+                  }
+                />
+              )
+            })}
+          </div>
+        </div>
+      </div>
+
+      {/* Drag overlay - a block keeps its height, a tray card its size */}
+      <DragOverlay dropAnimation={dropAnimation}>
+        {dragState &&
+          (draggedBlock ? (
+            <TimeBlockDragPreview
+              task={dragState.task}
+              duration={draggedDuration}
+              hourHeight={HOUR_HEIGHT}
+            />
+          ) : (
+            <TaskCardDragPreview task={dragState.task} size="compact" />
+          ))}
+      </DragOverlay>
+    </DndContext>
+  )
+}
+
+// -----------------------------------------------------------------------------
+// Unscheduled-Time Tray
+// -----------------------------------------------------------------------------
+
+interface UntimedTrayProps {
+  date: Date
+  /** The day's tasks without a start time */
+  tasks: Task[]
+  /** All of the day's tasks, for its estimated workload */
+  dayTasks: Task[]
+  getTaskVariant?: (task: Task) => TaskCardVariant
+  onTaskStatusChange: (taskId: string, newStatus: TaskStatus) => void
+  onTaskOpenDetail?: (taskId: string) => void
+  onCreateTask?: () => void
+  isDropTarget: boolean
+}
+
+/** Day header plus the tasks of the day that have no time yet */
+function UntimedTray({
+  date,
+  tasks,
+  dayTasks,
+  getTaskVariant,
+  onTaskStatusChange,
+  onTaskOpenDetail,
+  onCreateTask,
+  isDropTarget,
+}: UntimedTrayProps) {
+  const dateString = format(date, 'yyyy-MM-dd')
+  const isWeekendDay = isWeekend(date)
+
+  const { setNodeRef, isOver } = useDroppable({
+    id: `day-${dateString}`,
+    data: { type: 'day', date: dateString } satisfies DayDropData,
+  })
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        'flex flex-col min-w-0 border-l border-border/50',
+        isWeekendDay && 'bg-muted/20',
+        (isOver || isDropTarget) && 'bg-primary/5'
+      )}
+    >
+      <div className="flex items-center justify-between px-2 py-2">
+        <span className="text-xs font-medium text-muted-foreground uppercase">
+          {format(date, 'EEE')}
+        </span>
+        <DayWorkload tasks={dayTasks} className="ml-auto mr-1.5" />
+        <span
+          className={cn(
+            'size-6 flex items-center justify-center text-sm font-semibold tabular-nums rounded-full',
+            isToday(date) ? 'bg-primary text-primary-foreground' : ''
+          )}
+        >
+          {format(date, 'd')}
+        </span>
+      </div>
+      <div className="max-h-28 min-h-8 space-y-1 overflow-y-auto px-1.5 pb-1.5">
+        {tasks.map((task) => (
+          <DraggableTrayCard
+            key={task.id}
+            task={task}
+            date={dateString}
+            variant={getTaskVariant?.(task)}
+            onStatusChange={(newStatus) =>
+              onTaskStatusChange(task.id, newStatus)
+            }
+            onOpenDetail={
+              onTaskOpenDetail ? () => onTaskOpenDetail(task.id) : undefined
+            }
+          />
+        ))}
+        {onCreateTask && (
+          <button
+            type="button"
+            onClick={onCreateTask}
+            className="flex w-full items-center justify-center py-1 text-xs text-muted-foreground hover:text-foreground hover:bg-muted/50 rounded-lg transition-colors"
+            title="Add task"
+          >
+            <Plus className="size-3.5" />
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface DraggableTrayCardProps {
+  task: Task
+  date: string
+  variant?: TaskCardVariant
+  onStatusChange: (newStatus: TaskStatus) => void
+  onOpenDetail?: () => void
+}
+
+/** Compact card that can be dragged onto a time slot */
+function DraggableTrayCard({
+  task,
+  date,
+  variant,
+  onStatusChange,
+  onOpenDetail,
+}: DraggableTrayCardProps) {
+  const dragData: CalendarTaskDragData = {
+    type: 'calendar-task',
+    taskId: task.id,
+    sourceDate: date,
+  }
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: getCalendarTaskDragId(date, task.id),
+    data: dragData,
+  })
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      className={cn(
+        'cursor-grab active:cursor-grabbing touch-none',
+        isDragging && 'opacity-50'
+      )}
+    >
+      <TaskCard
+        task={task}
+        size="compact"
+        variant={variant}
+        onStatusChange={onStatusChange}
+        onEditClick={onOpenDetail}
+      />
+    </div>
+  )
+}
+
+// -----------------------------------------------------------------------------
+// Timeline Day Column
+// -----------------------------------------------------------------------------
+
+interface TimelineDayColumnProps {
+  date: Date
+  /** All of the day's tasks; only timed ones are shown */
+  tasks: Task[]
+  registerColumn: (date: string, element: HTMLElement | null) => void
+  onTaskStatusChange: (taskId: string, newStatus: TaskStatus) => void
+  onTaskDurationChange: (taskId: string, duration: number | undefined) => void
+  onTaskOpenDetail?: (taskId: string) => void
+  /** Outline of where the dragged task would land */
+  dropPreview?: { start: number; duration: number }
+}
+
+function TimelineDayColumn({
+  date,
+  tasks,
+  registerColumn,
+  onTaskStatusChange,
+  onTaskDurationChange,
+  onTaskOpenDetail,
+  dropPreview,
+}: TimelineDayColumnProps) {
+  const dateString = format(date, 'yyyy-MM-dd')
+  const isCurrentDay = isToday(date)
+
+  const { setNodeRef } = useDroppable({
+    id: `timeline-${dateString}`,
+    data: { type: 'timeline-day', date: dateString } satisfies TimelineDropData,
+  })
+
+  const setRefs = React.useCallback(
+    (element: HTMLDivElement | null) => {
+      setNodeRef(element)
+      registerColumn(dateString, element)
+    },
+    [setNodeRef, registerColumn, dateString]
+  )
+
+  const blocks = tasks.flatMap((task) => {
+    const block = getTimeBlock(task)
+    return block ? [{ id: task.id, task, ...block }] : []
+  })
+  const layout = layoutTimeBlocks(blocks)
+
+  const now = new Date()
+  const nowMinutes = now.getHours() * 60 + now.getMinutes()
+
+  return (
+    <div
+      ref={setRefs}
+      className={cn(
+        'relative border-l border-border/50',
+        isWeekend(date) && 'bg-muted/20'
+      )}
+    >
+      {/* Hour lines */}
+      {HOURS.slice(1).map((hour) => (
+        <div
+          key={hour}
+          className="absolute inset-x-0 border-t border-border/40"
+          style={{ top: hour * HOUR_HEIGHT }}
+        />
+      ))}
+
+      {/* Current time */}
+      {isCurrentDay && (
+        <div
+          className="absolute inset-x-0 z-10 border-t-2 border-destructive/70"
+          style={{ top: (nowMinutes / 60) * HOUR_HEIGHT }}
+        />
+      )}
+
+      {dropPreview && (
+        <div
+          className="absolute inset-x-0.5 rounded-md border-2 border-dashed border-primary/50 bg-primary/5"
+          style={{
+            top: (dropPreview.start / 60) * HOUR_HEIGHT,
+            height: (dropPreview.duration / 60) * HOUR_HEIGHT,
+          }}
+        />
+      )}
+
+      {blocks.map(({ task, start, end }) => {
+        const { column, columns } = layout.get(task.id) ?? {
+          column: 0,
+          columns: 1,
+        }
+        return (
+          <TimeBlock
+            key={task.id}
+            task={task}
+            date={dateString}
+            start={start}
+            end={end}
+            column={column}
+            columns={columns}
+            hourHeight={HOUR_HEIGHT}
+            onStatusChange={(newStatus) =>
+              onTaskStatusChange(task.id, newStatus)
+            }
+            onDurationChange={(duration) =>
+              onTaskDurationChange(task.id, duration)
+            }
+            onOpenDetail={
+              onTaskOpenDetail ? () => onTaskOpenDetail(task.id) : undefined
+            }
+          />
+        )
+      })}
+    </div>
+  )
+}
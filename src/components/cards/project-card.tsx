@@ -1,8 +1,9 @@
 import * as React from 'react'
-import { Calendar } from 'lucide-react'
+import { Calendar, Timer } from 'lucide-react'
 
 import { cn } from '@/lib/utils'
 import { formatRelativeDate } from '@/lib/date-utils'
+import { formatDuration } from '@/lib/time-blocks'
 import type { Project, ProjectStatus } from '@/types/data'
 import { projectStatusConfig } from '@/config/status'
 import { ProgressCircle } from '@/components/ui/progress-circle'
@@ -12,7 +13,8 @@ import { ProgressCircle } from '@/components/ui/progress-circle'
  *
  * Used in AreaView to display "Active Projects" as a grid of cards.
  * Shows project title, status badge, progress bar, task counts, and optional
- * end date. Clicking navigates to the ProjectView for that project.
+ * end date and remaining estimate. Clicking navigates to the ProjectView for
+ * that project.
  *
  * The progress bar visualizes completion percentage based on done/dropped
  * tasks. Uses container queries for responsive behavior in grid layouts.
@@ -25,6 +27,8 @@ export interface ProjectCardProps {
   taskCount: number
   /** Number of completed tasks */
   completedTaskCount: number
+  /** Minutes estimated for the open tasks (see getProjectRemainingEstimate) */
+  remainingEstimate?: number
   /** Area name if the project belongs to one */
   areaName?: string
   /** Click handler for the card */
@@ -40,6 +44,7 @@ export function ProjectCard({
   completion,
   taskCount,
   completedTaskCount,
+  remainingEstimate,
   areaName,
   onClick,
   onAreaClick,
@@ -116,6 +121,17 @@ export function ProjectCard({
               {formatRelativeDate(project.endDate)}
             </span>
           )}
+
+          {/* Work left, if any of it is estimated */}
+          {!!remainingEstimate && (
+            <span
+              className="flex items-center gap-1 tabular-nums"
+              title="Estimated work left"
+            >
+              <Timer className="size-2.5 @7xs:size-3" />
+              {formatDuration(remainingEstimate)}
+            </span>
+          )}
         </div>
 
         {/* Area name - clickable */}
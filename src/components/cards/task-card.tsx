@@ -1,8 +1,16 @@
 import * as React from 'react'
-import { Flag, Calendar, X, CircleChevronRight, Hourglass } from 'lucide-react'
+import {
+  Flag,
+  Calendar,
+  Clock,
+  X,
+  CircleChevronRight,
+  Hourglass,
+} from 'lucide-react'
 
 import { cn } from '@/lib/utils'
 import { formatRelativeDate, isOverdue } from '@/lib/date-utils'
+import { formatTimeBlock } from '@/lib/time-blocks'
 import type { Task, TaskStatus } from '@/types/data'
 import { Calendar as CalendarPicker } from '@/components/ui/calendar'
 import {
@@ -13,6 +21,10 @@ import {
 import { Button } from '@/components/ui/button'
 import { TaskStatusPill } from '@/components/tasks/task-status-pill'
 import { TaskStatusCheckbox } from '@/components/tasks/task-status-checkbox'
+import { TagChips } from '@/components/tags/tag-chips'
+import { WaitingOnBadge } from '@/components/tasks/waiting-on-badge'
+import { ChecklistProgressBadge } from '@/components/tasks/checklist-progress-badge'
+import { TaskTimerButton } from '@/components/time-tracking/task-timer-button'
 
 /**
  * TaskCard - Visual card representation of a task.
@@ -23,7 +35,9 @@ import { TaskStatusCheckbox } from '@/components/tasks/task-status-checkbox'
  * - Week calendar (DayColumn) - default size
  *
  * Two size variants:
- * - "default" - Full card with status pill, dates, context, and edit button
+ * - "default" - Full card with status pill, dates (and time block), context,
+ *   tags, checklist progress, blockers it's waiting on, timer and edit
+ *   buttons
  * - "compact" - Minimal card with just checkbox + title (for tight spaces)
  *
  * Four visual variants based on task state:
@@ -48,10 +62,14 @@ export interface TaskCardProps {
   projectName?: string
   /** Area name (direct or inherited from project) */
   areaName?: string
+  /** Unfinished tasks this one waits on (see getTaskWaitingOn) */
+  waitingOn?: Task[]
   /** Click handler for the card (e.g., select) */
   onClick?: () => void
   /** Click handler for edit icon (opens detail panel) */
   onEditClick?: () => void
+  /** Start or stop the task's timer (see toggleTaskTimer) */
+  onTimerToggle?: () => void
   /** Click handler for project name */
   onProjectClick?: () => void
   /** Click handler for area name */
@@ -77,8 +95,10 @@ export function TaskCard({
   size = 'default',
   projectName,
   areaName,
+  waitingOn,
   onClick,
   onEditClick,
+  onTimerToggle,
   onProjectClick,
   onAreaClick,
   onStatusChange,
@@ -189,6 +209,7 @@ export function TaskCard({
   // Parse dates for calendar
   const scheduledDate = task.scheduled ? new Date(task.scheduled) : undefined
   const dueDate = task.due ? new Date(task.due) : undefined
+  const timeBlock = formatTimeBlock(task)
 
   // Toggle status between done and ready
   const handleStatusToggle = () => {
@@ -216,6 +237,7 @@ export function TaskCard({
             'bg-muted/50 border-dashed border-muted-foreground/30 hover:border-muted-foreground/50',
           variant === 'done' &&
             'bg-green-50/50 dark:bg-green-950/20 border-green-200/30 dark:border-green-900/30 hover:border-green-300/50 dark:hover:border-green-800/50',
+          isSelected && 'ring-2 ring-primary border-primary',
           className
         )}
       >
@@ -287,6 +309,13 @@ export function TaskCard({
             >
               {task.title}
             </span>
+            {onTimerToggle && (
+              <TaskTimerButton
+                task={task}
+                onToggle={onTimerToggle}
+                revealOnHover={!isSelected}
+              />
+            )}
             {onEditClick && (
               <button
                 type="button"
@@ -330,6 +359,14 @@ export function TaskCard({
           label="Scheduled"
         />
 
+        {/* Time block on the scheduled date */}
+        {timeBlock && (
+          <span className="flex items-center gap-1 text-muted-foreground whitespace-nowrap tabular-nums">
+            <Clock className="size-2.5 @6xs:size-3" />
+            {timeBlock}
+          </span>
+        )}
+
         <DatePickerButton
           date={dueDate}
           icon={<Flag className="size-2.5 @6xs:size-3" />}
@@ -354,6 +391,15 @@ export function TaskCard({
             {contextName}
           </button>
         )}
+
+        {/* Tags */}
+        <TagChips tags={task.tags} />
+
+        {/* Checklist progress */}
+        <ChecklistProgressBadge checklist={task.checklist} />
+
+        {/* Blockers it's waiting on */}
+        <WaitingOnBadge blockers={waitingOn} />
       </div>
     </div>
   )
@@ -0,0 +1,386 @@
+import * as React from 'react'
+import { defaultFilter } from 'cmdk'
+import {
+  BookCheck,
+  CalendarDaysIcon,
+  CalendarIcon,
+  CalendarRange,
+  Circle,
+  CircleCheck,
+  CircleDot,
+  ClipboardCheck,
+  FolderIcon,
+  InboxIcon,
+  Layers,
+  ListFilter,
+  SearchIcon,
+  Snowflake,
+  SunIcon,
+  Timer,
+  type LucideIcon,
+} from 'lucide-react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { useTaskDetailStore } from '@/store/task-detail-store'
+import { useSavedFiltersStore } from '@/store/saved-filters-store'
+import {
+  useCommandPaletteStore,
+  type CommandAction,
+} from '@/store/command-palette-store'
+import { useTaskQuery } from '@/hooks/use-task-query'
+import { looksLikeQuery } from '@/lib/query'
+import { cn } from '@/lib/utils'
+import type { Task } from '@/types/data'
+import type { Selection } from '@/types/navigation'
+import {
+  Command,
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command'
+
+/**
+ * CommandPalette - Cmd+K palette for navigation, task search and actions.
+ *
+ * Groups, top to bottom:
+ * - Contributed actions (see useCommandActions), grouped by `group`. The
+ *   task detail panel contributes actions for the open task this way.
+ * - Go to: nav views, No Area, active areas and projects, saved filters
+ * - Tasks: title search (only while typing); picking one opens it in the
+ *   detail panel
+ *
+ * A search with a `field:` term (e.g. `is:overdue area:Health`) runs as a
+ * task query instead (see lib/query) and lists only the matching tasks, in
+ * query order, or the syntax error.
+ *
+ * Actions with `getChildren` open a sub-page (e.g., the statuses for
+ * "Change status…"); Backspace in an empty search goes back.
+ */
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+const DEFAULT_GROUP = 'Actions'
+
+/** Most query matches listed; the search view shows them all */
+const QUERY_RESULT_LIMIT = 50
+
+const navTargets: {
+  selection: Selection
+  label: string
+  icon: LucideIcon
+  iconClass: string
+}[] = [
+  {
+    selection: { type: 'nav', id: 'today' },
+    label: 'Today',
+    icon: SunIcon,
+    iconClass: 'text-icon-today',
+  },
+  {
+    selection: { type: 'nav', id: 'this-week' },
+    label: 'This Week',
+    icon: CalendarDaysIcon,
+    iconClass: 'text-icon-week',
+  },
+  {
+    selection: { type: 'nav', id: 'upcoming' },
+    label: 'Upcoming',
+    icon: CalendarRange,
+    iconClass: 'text-icon-upcoming',
+  },
+  {
+    selection: { type: 'nav', id: 'anytime' },
+    label: 'Anytime',
+    icon: Layers,
+    iconClass: 'text-icon-anytime',
+  },
+  {
+    selection: { type: 'nav', id: 'someday' },
+    label: 'Someday',
+    icon: Snowflake,
+    iconClass: 'text-icon-someday',
+  },
+  {
+    selection: { type: 'nav', id: 'inbox' },
+    label: 'Inbox',
+    icon: InboxIcon,
+    iconClass: 'text-icon-inbox',
+  },
+  {
+    selection: { type: 'nav', id: 'calendar' },
+    label: 'Calendar',
+    icon: CalendarIcon,
+    iconClass: 'text-icon-calendar',
+  },
+  {
+    selection: { type: 'nav', id: 'logbook' },
+    label: 'Logbook',
+    icon: BookCheck,
+    iconClass: 'text-icon-logbook',
+  },
+  {
+    selection: { type: 'nav', id: 'review' },
+    label: 'Review',
+    icon: ClipboardCheck,
+    iconClass: 'text-icon-review',
+  },
+  {
+    selection: { type: 'nav', id: 'time' },
+    label: 'Time',
+    icon: Timer,
+    iconClass: 'text-icon-time',
+  },
+  {
+    selection: { type: 'nav', id: 'search' },
+    label: 'Search',
+    icon: SearchIcon,
+    iconClass: 'text-icon-search',
+  },
+  {
+    selection: { type: 'no-area' },
+    label: 'No Area',
+    icon: FolderIcon,
+    iconClass: 'text-icon-folder-none',
+  },
+]
+
+// Items use IDs as values, so match on keywords (label + extra terms) only
+const filterByKeywords = (
+  _value: string,
+  search: string,
+  keywords?: string[]
+) => defaultFilter('', search, keywords)
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/** Group actions by heading, keeping first-seen group order */
+function groupActions(actions: CommandAction[]): [string, CommandAction[]][] {
+  const groups = new Map<string, CommandAction[]>()
+  for (const action of actions) {
+    const group = action.group ?? DEFAULT_GROUP
+    groups.set(group, [...(groups.get(group) ?? []), action])
+  }
+  return [...groups]
+}
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+interface CommandPaletteProps {
+  onNavigate: (selection: Selection) => void
+}
+
+export function CommandPalette({ onNavigate }: CommandPaletteProps) {
+  const isOpen = useCommandPaletteStore((s) => s.isOpen)
+  const setOpen = useCommandPaletteStore((s) => s.setOpen)
+  const sources = useCommandPaletteStore((s) => s.sources)
+  const openTask = useTaskDetailStore((s) => s.openTask)
+  const savedFilters = useSavedFiltersStore((s) => s.filters)
+  const { data, getActiveAreas, getActiveProjects, getTaskContextName } =
+    useAppData()
+
+  const [search, setSearch] = React.useState('')
+  // Stack of actions whose sub-pages are open
+  const [pages, setPages] = React.useState<CommandAction[]>([])
+  const page = pages.at(-1)
+
+  const actions = React.useMemo(() => Object.values(sources).flat(), [sources])
+
+  const isQuery = !page && looksLikeQuery(search)
+  const taskQuery = useTaskQuery(isQuery ? search : '')
+
+  const handleOpenChange = (open: boolean) => {
+    setOpen(open)
+    if (!open) {
+      setSearch('')
+      setPages([])
+    }
+  }
+
+  const select = (action: CommandAction) => {
+    if (action.getChildren) {
+      setPages([...pages, action])
+      setSearch('')
+      return
+    }
+    handleOpenChange(false)
+    action.run?.()
+  }
+
+  const navigate = (selection: Selection) => {
+    handleOpenChange(false)
+    onNavigate(selection)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Backspace' && !search && pages.length > 0) {
+      e.preventDefault()
+      setPages(pages.slice(0, -1))
+    }
+  }
+
+  const renderAction = (action: CommandAction) => {
+    const Icon = action.icon
+    return (
+      <CommandItem
+        key={action.id}
+        value={action.id}
+        keywords={[action.label, ...(action.keywords ?? [])]}
+        onSelect={() => select(action)}
+      >
+        {Icon && <Icon />}
+        <span className="truncate">{action.label}</span>
+        {action.shortcut && (
+          <CommandShortcut>{action.shortcut}</CommandShortcut>
+        )}
+      </CommandItem>
+    )
+  }
+
+  const renderTask = (task: Task) => {
+    const isClosed = task.status === 'done' || task.status === 'dropped'
+    const StatusIcon = isClosed ? CircleCheck : Circle
+    const contextName = getTaskContextName(task)
+    return (
+      <CommandItem
+        key={task.id}
+        value={`task-${task.id}`}
+        keywords={[task.title]}
+        onSelect={() => {
+          handleOpenChange(false)
+          openTask(task.id)
+        }}
+      >
+        <StatusIcon className="text-muted-foreground" />
+        <span
+          className={cn(
+            'truncate',
+            isClosed && 'line-through text-muted-foreground'
+          )}
+        >
+          {task.title || 'Untitled'}
+        </span>
+        {contextName && (
+          <CommandShortcut className="tracking-normal truncate max-w-32">
+            {contextName}
+          </CommandShortcut>
+        )}
+      </CommandItem>
+    )
+  }
+
+  return (
+    <CommandDialog
+      open={isOpen}
+      onOpenChange={handleOpenChange}
+      title="Command Palette"
+      description="Go to a view, find a task or run an action"
+      className="sm:max-w-lg"
+    >
+      <Command
+        filter={filterByKeywords}
+        // Query results are already filtered
+        shouldFilter={!isQuery}
+        onKeyDown={handleKeyDown}
+      >
+        <CommandInput
+          value={search}
+          onValueChange={setSearch}
+          placeholder={
+            page?.placeholder ?? 'Go to, search tasks or run a command...'
+          }
+        />
+        <CommandList>
+          <CommandEmpty>
+            {taskQuery.error?.message ?? 'No results found.'}
+          </CommandEmpty>
+
+          {isQuery ? (
+            !taskQuery.error && (
+              <CommandGroup heading="Matching tasks">
+                {taskQuery.tasks.slice(0, QUERY_RESULT_LIMIT).map(renderTask)}
+              </CommandGroup>
+            )
+          ) : page ? (
+            <CommandGroup heading={page.label}>
+              {page.getChildren?.().map(renderAction)}
+            </CommandGroup>
+          ) : (
+            <>
+              {groupActions(actions).map(([group, items]) => (
+                <CommandGroup key={group} heading={group}>
+                  {items.map(renderAction)}
+                </CommandGroup>
+              ))}
+
+              <CommandGroup heading="Go to">
+                {navTargets.map((target) => (
+                  <CommandItem
+                    key={target.label}
+                    value={`go-${target.label}`}
+                    keywords={[target.label]}
+                    onSelect={() => navigate(target.selection)}
+                  >
+                    <target.icon className={target.iconClass} />
+                    {target.label}
+                  </CommandItem>
+                ))}
+                {getActiveAreas().map((area) => (
+                  <CommandItem
+                    key={area.id}
+                    value={`go-area-${area.id}`}
+                    keywords={[area.title, 'area']}
+                    onSelect={() => navigate({ type: 'area', id: area.id })}
+                  >
+                    <FolderIcon className="text-icon-folder" />
+                    <span className="truncate">{area.title}</span>
+                  </CommandItem>
+                ))}
+                {getActiveProjects().map((project) => (
+                  <CommandItem
+                    key={project.id}
+                    value={`go-project-${project.id}`}
+                    keywords={[project.title, 'project']}
+                    onSelect={() =>
+                      navigate({ type: 'project', id: project.id })
+                    }
+                  >
+                    <CircleDot className="text-entity-project" />
+                    <span className="truncate">{project.title}</span>
+                  </CommandItem>
+                ))}
+                {savedFilters.map((filter) => (
+                  <CommandItem
+                    key={filter.id}
+                    value={`go-filter-${filter.id}`}
+                    keywords={[filter.name, 'filter']}
+                    onSelect={() => navigate({ type: 'filter', id: filter.id })}
+                  >
+                    <ListFilter className="text-muted-foreground" />
+                    <span className="truncate">{filter.name}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+
+              {search.trim() && (
+                <CommandGroup heading="Tasks">
+                  {data.tasks.map(renderTask)}
+                </CommandGroup>
+              )}
+            </>
+          )}
+        </CommandList>
+      </Command>
+    </CommandDialog>
+  )
+}
@@ -0,0 +1,389 @@
+import * as React from 'react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import {
+  taskPrimaryStatuses,
+  taskSecondaryStatuses,
+  taskStatusConfig,
+} from '@/config/status'
+import { tryParseQuery } from '@/lib/query'
+import type { SavedFilter, TaskFilterCriteria } from '@/types/saved-filter'
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import {
+  Combobox,
+  ComboboxChip,
+  ComboboxChips,
+  ComboboxChipsInput,
+  ComboboxContent,
+  ComboboxEmpty,
+  ComboboxItem,
+  ComboboxList,
+  ComboboxValue,
+  useComboboxAnchor,
+} from '@/components/ui/combobox'
+
+/**
+ * FilterEditorDialog - Create or edit a saved smart filter.
+ *
+ * Opened from the sidebar's Filters section ("New filter", or "Edit
+ * filter…" in a filter's context menu). Criteria left at "Any" (or with
+ * nothing picked) don't restrict the filter. The optional query (see
+ * lib/query) narrows the criteria further and can order the view; Save is
+ * disabled while it doesn't parse. Nothing is saved until the Save button;
+ * Escape discards the changes.
+ */
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+const statusItems = [...taskPrimaryStatuses, ...taskSecondaryStatuses]
+
+const dueItems = [
+  { value: 'any', label: 'Any time' },
+  { value: '-1', label: 'Overdue' },
+  { value: '0', label: 'Today or earlier' },
+  { value: '3', label: 'Within 3 days' },
+  { value: '7', label: 'Within a week' },
+  { value: '14', label: 'Within 2 weeks' },
+  { value: '30', label: 'Within 30 days' },
+]
+
+const notesItems = [
+  { value: 'any', label: 'Any' },
+  { value: 'yes', label: 'Has notes' },
+  { value: 'no', label: 'No notes' },
+]
+
+const deferredItems = [
+  { value: 'any', label: 'Any' },
+  { value: 'yes', label: 'Deferred' },
+  { value: 'no', label: 'Available' },
+]
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function toChoice(value: boolean | undefined): string {
+  if (value === undefined) return 'any'
+  return value ? 'yes' : 'no'
+}
+
+function fromChoice(choice: string | null): boolean | undefined {
+  if (choice === 'yes') return true
+  if (choice === 'no') return false
+  return undefined
+}
+
+// -----------------------------------------------------------------------------
+// Multi-select
+// -----------------------------------------------------------------------------
+
+interface MultiSelectProps {
+  options: { value: string; label: string }[]
+  value: string[]
+  onChange: (value: string[]) => void
+  placeholder: string
+  emptyText: string
+}
+
+/** Chips combobox over ID options */
+function MultiSelect({
+  options,
+  value,
+  onChange,
+  placeholder,
+  emptyText,
+}: MultiSelectProps) {
+  const anchor = useComboboxAnchor()
+  const labels = new Map(options.map((o) => [o.value, o.label]))
+
+  return (
+    <Combobox
+      multiple
+      items={options.map((o) => o.value)}
+      value={value}
+      onValueChange={onChange}
+      itemToStringLabel={(id: string) => labels.get(id) ?? id}
+    >
+      <ComboboxChips ref={anchor}>
+        <ComboboxValue>
+          {(selected: string[]) => (
+            <>
+              {selected.map((id) => (
+                <ComboboxChip key={id}>{labels.get(id) ?? id}</ComboboxChip>
+              ))}
+              <ComboboxChipsInput
+                placeholder={selected.length === 0 ? placeholder : undefined}
+              />
+            </>
+          )}
+        </ComboboxValue>
+      </ComboboxChips>
+      <ComboboxContent anchor={anchor}>
+        <ComboboxEmpty>{emptyText}</ComboboxEmpty>
+        <ComboboxList>
+          {(id: string) => (
+            <ComboboxItem key={id} value={id}>
+              {labels.get(id) ?? id}
+            </ComboboxItem>
+          )}
+        </ComboboxList>
+      </ComboboxContent>
+    </Combobox>
+  )
+}
+
+// -----------------------------------------------------------------------------
+// Form
+// -----------------------------------------------------------------------------
+
+interface FilterEditorFormProps {
+  filter?: SavedFilter
+  onSave: (filter: Omit<SavedFilter, 'id'>) => void
+  onCancel: () => void
+}
+
+// Mounted only while the dialog is open, so every open starts from `filter`
+function FilterEditorForm({ filter, onSave, onCancel }: FilterEditorFormProps) {
+  const { getActiveAreas, getActiveProjects } = useAppData()
+  const [name, setName] = React.useState(filter?.name ?? '')
+  const [criteria, setCriteria] = React.useState<TaskFilterCriteria>(
+    filter?.criteria ?? {}
+  )
+  const [query, setQuery] = React.useState(filter?.query ?? '')
+  const queryError = React.useMemo(() => tryParseQuery(query).error, [query])
+
+  const update = (changes: Partial<TaskFilterCriteria>) =>
+    setCriteria((prev) => ({ ...prev, ...changes }))
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim() || queryError) return
+    onSave({
+      name: name.trim(),
+      criteria,
+      query: query.trim() || undefined,
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-4">
+      <DialogHeader>
+        <DialogTitle>{filter ? 'Edit filter' : 'New filter'}</DialogTitle>
+        <DialogDescription className="text-xs">
+          Tasks must match every criterion that is set.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="grid gap-1.5">
+        <Label htmlFor="filter-name">Name</Label>
+        <Input
+          id="filter-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g., Health errands"
+          autoFocus
+        />
+      </div>
+
+      <div className="grid gap-1.5">
+        <Label>Status</Label>
+        <ToggleGroup
+          multiple
+          value={criteria.statuses ?? []}
+          onValueChange={(values) => update({ statuses: values })}
+          variant="outline"
+          size="sm"
+          className="flex-wrap"
+        >
+          {statusItems.map((status) => (
+            <ToggleGroupItem
+              key={status}
+              value={status}
+              className="data-[pressed]:bg-muted data-[pressed]:shadow-inner"
+            >
+              {taskStatusConfig[status].label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="grid gap-1.5">
+        <Label>Areas</Label>
+        <MultiSelect
+          options={getActiveAreas().map((a) => ({
+            value: a.id,
+            label: a.title,
+          }))}
+          value={criteria.areaIds ?? []}
+          onChange={(areaIds) => update({ areaIds })}
+          placeholder="Any area"
+          emptyText="No areas found"
+        />
+      </div>
+
+      <div className="grid gap-1.5">
+        <Label>Projects</Label>
+        <MultiSelect
+          options={getActiveProjects().map((p) => ({
+            value: p.id,
+            label: p.title,
+          }))}
+          value={criteria.projectIds ?? []}
+          onChange={(projectIds) => update({ projectIds })}
+          placeholder="Any project"
+          emptyText="No projects found"
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div className="grid gap-1.5">
+          <Label>Due</Label>
+          <Select
+            items={dueItems}
+            value={criteria.dueWithinDays?.toString() ?? 'any'}
+            onValueChange={(value) =>
+              update({
+                dueWithinDays:
+                  value && value !== 'any' ? Number(value) : undefined,
+              })
+            }
+          >
+            <SelectTrigger size="sm" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {dueItems.map((item) => (
+                <SelectItem key={item.value} value={item.value}>
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1.5">
+          <Label>Notes</Label>
+          <Select
+            items={notesItems}
+            value={toChoice(criteria.hasNotes)}
+            onValueChange={(value) => update({ hasNotes: fromChoice(value) })}
+          >
+            <SelectTrigger size="sm" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {notesItems.map((item) => (
+                <SelectItem key={item.value} value={item.value}>
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1.5">
+          <Label>Deferred</Label>
+          <Select
+            items={deferredItems}
+            value={toChoice(criteria.deferred)}
+            onValueChange={(value) => update({ deferred: fromChoice(value) })}
+          >
+            <SelectTrigger size="sm" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {deferredItems.map((item) => (
+                <SelectItem key={item.value} value={item.value}>
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid gap-1.5">
+        <Label htmlFor="filter-query">Query</Label>
+        <Input
+          id="filter-query"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="e.g., -has:due is:open sort:created"
+          aria-invalid={queryError ? true : undefined}
+          className="font-mono text-xs"
+        />
+        {queryError && (
+          <p className="text-xs text-destructive">{queryError.message}</p>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          size="sm"
+          disabled={!name.trim() || Boolean(queryError)}
+        >
+          Save
+        </Button>
+      </DialogFooter>
+    </form>
+  )
+}
+
+// -----------------------------------------------------------------------------
+// Dialog
+// -----------------------------------------------------------------------------
+
+interface FilterEditorDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** The filter to edit; omit to create one */
+  filter?: SavedFilter
+  onSave: (filter: Omit<SavedFilter, 'id'>) => void
+}
+
+export function FilterEditorDialog({
+  open,
+  onOpenChange,
+  filter,
+  onSave,
+}: FilterEditorDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <FilterEditorForm
+          filter={filter}
+          onSave={(fields) => {
+            onSave(fields)
+            onOpenChange(false)
+          }}
+          onCancel={() => onOpenChange(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  )
+}
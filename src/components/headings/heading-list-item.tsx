@@ -11,8 +11,8 @@ import { HeadingColorPicker } from './heading-color-picker'
 /**
  * HeadingListItem - Inline heading row for organizing tasks in lists.
  *
- * Used in TodayView's "Scheduled for Today" section via OrderedItemList.
- * Headings help users visually group their daily tasks into categories.
+ * Used via OrderedItemList in every list with headings (see useHeadingList).
+ * Headings help users visually group tasks into categories.
  *
  * Features:
  * - Click to select, double-click to edit title
@@ -0,0 +1,26 @@
+import { useDndMonitor } from '@dnd-kit/core'
+
+import { useAppData } from '@/context/app-data-context'
+
+/**
+ * DragHistoryGroup - Groups everything a drag changes into one undo step.
+ *
+ * Render inside a DndContext. Opens a history group when a drag starts and
+ * closes it once the drop (or cancel) handlers have run, so a drop that
+ * both moves and reorders a task - or a sidebar drag that changes a
+ * project's area several times on the way - undoes in a single Cmd+Z.
+ *
+ * dnd-kit notifies monitors after the DndContext's own handlers, so
+ * mutations made in onDragEnd are captured before the group closes.
+ */
+export function DragHistoryGroup({ label }: { label?: string }) {
+  const { beginHistoryGroup, endHistoryGroup } = useAppData()
+
+  useDndMonitor({
+    onDragStart: () => beginHistoryGroup(label),
+    onDragEnd: endHistoryGroup,
+    onDragCancel: endHistoryGroup,
+  })
+
+  return null
+}
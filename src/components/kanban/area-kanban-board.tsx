@@ -449,6 +449,7 @@ function ProjectSwimlane({
               key={task.id}
               task={task}
               status={status}
+              columnTaskIds={taskIds}
               swimlaneId={project.id}
               onStatusChange={
                 onTaskStatusChange
@@ -559,6 +560,7 @@ function LooseTasksSwimlane({
               key={task.id}
               task={task}
               status={status}
+              columnTaskIds={taskIds}
               swimlaneId={LOOSE_TASKS_SWIMLANE_ID}
               onStatusChange={
                 onTaskStatusChange
@@ -8,9 +8,12 @@ import {
 } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
 import { cn } from '@/lib/utils'
 import type { Task, TaskStatus } from '@/types/data'
 import { taskStatusConfig } from '@/config/status'
+import { useCardSelection } from '@/hooks/use-card-selection'
 import { TaskCard } from '@/components/cards/task-card'
 import {
   createKanbanTaskData,
@@ -28,7 +31,9 @@ import {
  * Tasks are rendered as TaskCards wrapped in SortableKanbanCard for drag-drop.
  * Empty columns show a dashed drop zone for visual feedback.
  *
- * Also exports SortableKanbanCard - the draggable TaskCard wrapper.
+ * Also exports SortableKanbanCard - the draggable TaskCard wrapper, which
+ * also looks up the blockers the task is waiting on, toggles its timer and
+ * handles multi-selection within its column (useCardSelection).
  */
 
 // -----------------------------------------------------------------------------
@@ -173,6 +178,7 @@ export function KanbanColumn({
               key={task.id}
               task={task}
               status={status}
+              columnTaskIds={taskIds}
               projectName={
                 task.projectId ? getProjectName?.(task.projectId) : undefined
               }
@@ -250,6 +256,8 @@ export function KanbanColumn({
 interface SortableKanbanCardProps {
   task: Task
   status: TaskStatus
+  /** Task IDs of the card's column (or swimlane cell), for range selection */
+  columnTaskIds: string[]
   swimlaneId?: string
   projectName?: string
   areaName?: string
@@ -266,6 +274,7 @@ interface SortableKanbanCardProps {
 export function SortableKanbanCard({
   task,
   status,
+  columnTaskIds,
   swimlaneId,
   projectName,
   areaName,
@@ -278,6 +287,12 @@ export function SortableKanbanCard({
   onAreaClick,
   autoFocusEdit,
 }: SortableKanbanCardProps) {
+  const { getTaskWaitingOn, toggleTaskTimer } = useAppData()
+  const { isSelected, selectionProps } = useCardSelection(
+    task.id,
+    columnTaskIds
+  )
+  const { dragPreview } = useKanbanDragPreview()
   const {
     attributes,
     listeners,
@@ -289,6 +304,7 @@ export function SortableKanbanCard({
     id: task.id,
     data: createKanbanTaskData(task.id, status, swimlaneId),
   })
+  const isMovingWithDrag = dragPreview?.taskIds.includes(task.id) ?? false
 
   const style: React.CSSProperties = {
     transform: CSS.Transform.toString(transform),
@@ -311,20 +327,27 @@ export function SortableKanbanCard({
       style={style}
       {...attributes}
       {...listeners}
-      className={cn('touch-manipulation', isDragging && 'opacity-50')}
+      {...selectionProps}
+      className={cn(
+        'touch-manipulation',
+        (isDragging || isMovingWithDrag) && 'opacity-50'
+      )}
     >
       <TaskCard
         task={task}
         variant={variant}
         projectName={projectName}
         areaName={areaName}
+        waitingOn={getTaskWaitingOn(task.id)}
         onStatusChange={onStatusChange}
         onTitleChange={onTitleChange}
         onScheduledChange={onScheduledChange}
         onDueChange={onDueChange}
         onEditClick={onEditClick}
+        onTimerToggle={() => toggleTaskTimer(task.id)}
         onProjectClick={onProjectClick}
         onAreaClick={onAreaClick}
+        isSelected={isSelected}
         autoFocusEdit={autoFocusEdit}
       />
     </div>
@@ -14,8 +14,12 @@ import {
 } from '@dnd-kit/core'
 import { arrayMove } from '@dnd-kit/sortable'
 
+import { moveItemsTogether } from '@/lib/task-selection'
+import { useTaskSelectionStore } from '@/store/task-selection-store'
 import type { Task, TaskStatus } from '@/types/data'
 import { TaskCard } from '@/components/cards/task-card'
+import { DragCountBadge } from '@/components/tasks/drag-count-badge'
+import { DragHistoryGroup } from '@/components/history/drag-history-group'
 
 /**
  * KanbanDndContext - Drag-and-drop context for Kanban boards.
@@ -24,6 +28,8 @@ import { TaskCard } from '@/components/cards/task-card'
  * - Status changes: Dropping a task in a different column updates its status
  * - Reordering: Dropping a task on another task in the same column reorders
  * - Swimlane changes: For AreaKanbanBoard, moving between project swimlanes
+ * - Multi-item drag: Dragging a card of the multi-selection (see
+ *   task-selection-store) moves every selected task, keeping their order
  *
  * Uses dnd-kit with PointerSensor. Shows TaskCard as DragOverlay during drag.
  * Visual column highlighting uses dragPreview state exposed via context.
@@ -60,6 +66,8 @@ type DropTargetData = KanbanDragData | EmptyColumnData | EmptySwimlaneData
 interface DragPreviewState {
   taskId: string
   task: Task
+  /** The tasks moving: just taskId, or the multi-selection in board order */
+  taskIds: string[]
   sourceStatus: TaskStatus
   currentStatus: TaskStatus
   sourceSwimlaneId?: string
@@ -134,6 +142,19 @@ export function KanbanDndContext({
     }),
   }
 
+  // The dragged task, or all selected tasks if it is one of several
+  const getDraggedTaskIds = (taskId: string): string[] => {
+    const { selectedIds } = useTaskSelectionStore.getState()
+    if (selectedIds.length < 2 || !selectedIds.includes(taskId)) {
+      return [taskId]
+    }
+    const selected = new Set(selectedIds)
+    return [...tasksByStatus.values()]
+      .flat()
+      .map((t) => t.id)
+      .filter((id) => selected.has(id))
+  }
+
   const handleDragStart = (event: DragStartEvent) => {
     const data = event.active.data.current as KanbanDragData | undefined
     if (data?.type === 'kanban-task') {
@@ -142,6 +163,7 @@ export function KanbanDndContext({
         setDragPreview({
           taskId: data.taskId,
           task,
+          taskIds: getDraggedTaskIds(data.taskId),
           sourceStatus: data.status,
           currentStatus: data.status,
           sourceSwimlaneId: data.swimlaneId,
@@ -234,13 +256,23 @@ export function KanbanDndContext({
       onSwimlaneChange &&
       targetSwimlaneId
     ) {
-      onSwimlaneChange(dragPreview.taskId, targetSwimlaneId)
+      for (const taskId of dragPreview.taskIds) {
+        onSwimlaneChange(taskId, targetSwimlaneId)
+      }
     }
 
-    // Handle status change
-    if (targetStatus !== dragPreview.sourceStatus) {
-      onStatusChange(dragPreview.taskId, targetStatus)
-    } else if (overData?.type === 'kanban-task' && active.id !== over.id) {
+    // Handle status change (selected tasks from other columns move too)
+    for (const taskId of dragPreview.taskIds) {
+      if (getTaskById(taskId)?.status !== targetStatus) {
+        onStatusChange(taskId, targetStatus)
+      }
+    }
+
+    if (
+      targetStatus === dragPreview.sourceStatus &&
+      overData?.type === 'kanban-task' &&
+      active.id !== over.id
+    ) {
       // Same-status reorder - only if swimlane is also the same (or no swimlanes)
       const sameSwimlane =
         !dragPreview.sourceSwimlaneId ||
@@ -253,7 +285,19 @@ export function KanbanDndContext({
         )
         const newIndex = statusTasks.findIndex((t) => t.id === overData.taskId)
 
-        if (oldIndex !== -1 && newIndex !== -1) {
+        if (dragPreview.taskIds.length > 1) {
+          // Move the selected tasks of this column together
+          const newTasks = moveItemsTogether(
+            statusTasks,
+            (t) => t.id,
+            new Set(dragPreview.taskIds),
+            activeData.taskId,
+            overData.taskId
+          )
+          if (newTasks !== statusTasks) {
+            onTasksReorder(targetStatus, newTasks, targetSwimlaneId)
+          }
+        } else if (oldIndex !== -1 && newIndex !== -1) {
           const newTasks = arrayMove(statusTasks, oldIndex, newIndex)
           onTasksReorder(targetStatus, newTasks, targetSwimlaneId)
         }
@@ -281,11 +325,22 @@ export function KanbanDndContext({
         onDragEnd={handleDragEnd}
         onDragCancel={handleDragCancel}
       >
+        <DragHistoryGroup />
         {children}
 
         {/* Drag Overlay */}
         <DragOverlay dropAnimation={dropAnimation}>
-          {dragPreview && <TaskCard task={dragPreview.task} />}
+          {dragPreview && (
+            <div className="relative">
+              <TaskCard task={dragPreview.task} />
+              {dragPreview.taskIds.length > 1 && (
+                <DragCountBadge
+                  count={dragPreview.taskIds.length}
+                  className="absolute -top-2 -right-2"
+                />
+              )}
+            </div>
+          )}
         </DragOverlay>
       </DndContext>
     </KanbanDndReactContext.Provider>
@@ -1,11 +1,20 @@
 import type { Selection } from '@/types/navigation'
 import { TodayView } from '@/components/views/today-view'
 import { WeekView } from '@/components/views/week-view'
+import { UpcomingView } from '@/components/views/upcoming-view'
+import { AnytimeView } from '@/components/views/anytime-view'
+import { SomedayView } from '@/components/views/someday-view'
 import { InboxView } from '@/components/views/inbox-view'
 import { CalendarView } from '@/components/views/calendar-view'
+import { LogbookView } from '@/components/views/logbook-view'
+import { ReviewView } from '@/components/views/review-view'
+import { TimeReportView } from '@/components/views/time-report-view'
 import { AreaView } from '@/components/views/area-view'
 import { ProjectView } from '@/components/views/project-view'
 import { NoAreaView } from '@/components/views/no-area-view'
+import { SearchView } from '@/components/views/search-view'
+import { FilterView } from '@/components/views/filter-view'
+import { TagView } from '@/components/views/tag-view'
 
 /**
  * MainContent - View router that renders the appropriate view based on navigation.
@@ -16,13 +25,22 @@ import { NoAreaView } from '@/components/views/no-area-view'
  * Navigation items (selection.type === 'nav'):
  * - 'today' → TodayView (overdue + today's tasks)
  * - 'this-week' → WeekView (week calendar or kanban)
+ * - 'upcoming' → UpcomingView (rolling day-by-day agenda)
+ * - 'anytime' → AnytimeView (available tasks by area and project)
+ * - 'someday' → SomedayView (icebox tasks, with bulk activation)
  * - 'inbox' → InboxView (unprocessed tasks)
  * - 'calendar' → CalendarView (month view)
+ * - 'logbook' → LogbookView (completed and dropped tasks)
+ * - 'review' → ReviewView (guided weekly review of areas and projects)
+ * - 'time' → TimeReportView (time tracked per area and project)
+ * - 'search' → SearchView (full-text search)
  *
  * Entity selections:
  * - 'area' → AreaView (projects and tasks within an area)
  * - 'project' → ProjectView (tasks within a project)
  * - 'no-area' → NoAreaView (orphan projects without an area)
+ * - 'filter' → FilterView (tasks matching a saved filter)
+ * - 'tag' → TagView (projects and tasks with a tag)
  *
  * Passes down navigation callbacks so views can link to related entities
  * (e.g., clicking a project name in TodayView navigates to that project).
@@ -69,10 +87,69 @@ export function MainContent({
               }
             />
           )
+        case 'upcoming':
+          return (
+            <UpcomingView
+              onNavigateToProject={(projectId) =>
+                onSelectionChange({ type: 'project', id: projectId })
+              }
+              onNavigateToArea={(areaId) =>
+                onSelectionChange({ type: 'area', id: areaId })
+              }
+            />
+          )
+        case 'anytime':
+          return (
+            <AnytimeView
+              onNavigateToProject={(projectId) =>
+                onSelectionChange({ type: 'project', id: projectId })
+              }
+              onNavigateToArea={(areaId) =>
+                onSelectionChange({ type: 'area', id: areaId })
+              }
+            />
+          )
+        case 'someday':
+          return (
+            <SomedayView
+              onNavigateToProject={(projectId) =>
+                onSelectionChange({ type: 'project', id: projectId })
+              }
+              onNavigateToArea={(areaId) =>
+                onSelectionChange({ type: 'area', id: areaId })
+              }
+            />
+          )
         case 'inbox':
           return <InboxView />
         case 'calendar':
           return <CalendarView />
+        case 'logbook':
+          return <LogbookView />
+        case 'review':
+          return (
+            <ReviewView
+              onNavigateToProject={(projectId) =>
+                onSelectionChange({ type: 'project', id: projectId })
+              }
+              onNavigateToArea={(areaId) =>
+                onSelectionChange({ type: 'area', id: areaId })
+              }
+            />
+          )
+        case 'time':
+          return (
+            <TimeReportView
+              onNavigateToProject={(projectId) =>
+                onSelectionChange({ type: 'project', id: projectId })
+              }
+              onNavigateToArea={(areaId) =>
+                onSelectionChange({ type: 'area', id: areaId })
+              }
+            />
+          )
+        case 'search':
+          return <SearchView onNavigate={onSelectionChange} />
       }
       break
     case 'area':
@@ -94,5 +171,30 @@ export function MainContent({
           }
         />
       )
+    case 'filter':
+      return (
+        <FilterView
+          key={selection.id}
+          filterId={selection.id}
+          onNavigateToProject={(projectId) =>
+            onSelectionChange({ type: 'project', id: projectId })
+          }
+          onNavigateToArea={(areaId) =>
+            onSelectionChange({ type: 'area', id: areaId })
+          }
+        />
+      )
+    case 'tag':
+      return (
+        <TagView
+          tag={selection.id}
+          onNavigateToProject={(projectId) =>
+            onSelectionChange({ type: 'project', id: projectId })
+          }
+          onNavigateToArea={(areaId) =>
+            onSelectionChange({ type: 'area', id: areaId })
+          }
+        />
+      )
   }
 }
@@ -3,25 +3,30 @@ import { useViewMode, type ViewModeKey } from '@/store/view-mode-store'
 import { ProjectStatusBadges } from '@/components/projects/project-status-badges'
 import { ProjectStatusPill } from '@/components/projects/project-status-pill'
 import { ViewToggle } from '@/components/ui/view-toggle'
+import { TagFilterMenu } from '@/components/tags'
+import { RunningTimer } from '@/components/time-tracking'
 
 /**
  * ViewHeader - Top header bar for all main content views.
  *
  * Displays the view title on the left, optional contextual information in the
  * middle (project status counts for area views, or a status pill for project
- * views), and a view mode toggle on the right (list/kanban/calendar).
+ * views), and on the right the running timer (if any), the tag filter and
+ * the view mode toggle (list/kanban/calendar).
  *
  * Usage:
  * - Every view component renders this at the top of its content area
  * - Pass `projectStatusCounts` when viewing an area (shows badge breakdown)
  * - Pass `currentProject` when viewing a single project (shows editable status)
  * - Pass `viewModeKey` to enable the list/kanban/calendar toggle
+ * - Pass `showTagFilter` for views that apply the shared tag filter
  */
 interface ViewHeaderProps {
   title: string
   projectStatusCounts?: Record<string, number> | null
   currentProject?: Project | null
   viewModeKey?: ViewModeKey | null
+  showTagFilter?: boolean
   onProjectStatusChange?: (projectId: string, status: ProjectStatus) => void
 }
 
@@ -30,6 +35,7 @@ export function ViewHeader({
   projectStatusCounts,
   currentProject,
   viewModeKey,
+  showTagFilter,
   onProjectStatusChange,
 }: ViewHeaderProps) {
   return (
@@ -48,12 +54,16 @@ export function ViewHeader({
           }
         />
       )}
-      {/* View mode toggle - pushed to right */}
-      {viewModeKey && (
-        <div className="ms-auto shrink-0">
-          <HeaderViewToggle viewModeKey={viewModeKey} />
-        </div>
-      )}
+      {/* Running timer, tag filter + view mode toggle - pushed to right */}
+      <div className="ms-auto flex items-center gap-2 min-w-0">
+        <RunningTimer />
+        {showTagFilter && <TagFilterMenu />}
+        {viewModeKey && (
+          <div className="shrink-0">
+            <HeaderViewToggle viewModeKey={viewModeKey} />
+          </div>
+        )}
+      </div>
     </header>
   )
 }
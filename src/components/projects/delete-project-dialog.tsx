@@ -0,0 +1,78 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { useAppData } from '@/context/app-data-context'
+import type { ProjectTasksAction } from '@/context/app-data-context'
+import type { Project } from '@/types/data'
+
+/**
+ * DeleteProjectDialog - Confirmation before deleting a project.
+ *
+ * When the project has tasks, offers a choice: keep them (they become loose
+ * tasks in the project's area) or delete them along with the project.
+ */
+interface DeleteProjectDialogProps {
+  project: Project
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onConfirm: (tasksAction: ProjectTasksAction) => void
+}
+
+export function DeleteProjectDialog({
+  project,
+  open,
+  onOpenChange,
+  onConfirm,
+}: DeleteProjectDialogProps) {
+  const { getAreaById, getTaskCounts } = useAppData()
+  const { taskCount } = getTaskCounts(project.id)
+  const areaTitle = project.areaId
+    ? getAreaById(project.areaId)?.title
+    : undefined
+
+  const confirm = (tasksAction: ProjectTasksAction) => {
+    onConfirm(tasksAction)
+    onOpenChange(false)
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            Delete &ldquo;{project.title}&rdquo;?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {taskCount === 0
+              ? 'This project has no tasks.'
+              : `This project has ${taskCount} ${taskCount === 1 ? 'task' : 'tasks'}. Keep them as loose tasks in ${areaTitle ?? 'No Area'}, or delete them too.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          {taskCount > 0 && (
+            <AlertDialogAction
+              variant="destructive"
+              onClick={() => confirm('delete')}
+            >
+              Delete tasks too
+            </AlertDialogAction>
+          )}
+          <AlertDialogAction
+            variant={taskCount > 0 ? 'default' : 'destructive'}
+            onClick={() => confirm('move-to-area')}
+          >
+            {taskCount > 0 ? 'Keep tasks' : 'Delete'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
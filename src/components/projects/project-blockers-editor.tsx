@@ -0,0 +1,126 @@
+import * as React from 'react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { DependencyCycleError } from '@/lib/project-dependencies'
+import {
+  Combobox,
+  ComboboxChip,
+  ComboboxChips,
+  ComboboxChipsInput,
+  ComboboxContent,
+  ComboboxEmpty,
+  ComboboxItem,
+  ComboboxList,
+  ComboboxValue,
+  useComboboxAnchor,
+} from '@/components/ui/combobox'
+import { ProjectStatusIndicator } from '@/components/sidebar/draggable-project'
+import type { Project } from '@/types/data'
+
+/**
+ * ProjectBlockersEditor - Chips input for the projects a project waits on.
+ *
+ * Used in ProjectDetailPanel. Works like TagEditor, but picks from other
+ * projects by title. A choice that would make projects wait on each other
+ * is refused, with the cycle explained below the input (see
+ * lib/project-dependencies). Key it by project ID so the message doesn't
+ * carry over to another project.
+ */
+interface ProjectBlockersEditorProps {
+  project: Project
+}
+
+export function ProjectBlockersEditor({ project }: ProjectBlockersEditorProps) {
+  const {
+    data,
+    getProjectById,
+    getProjectCompletion,
+    isProjectBlocked,
+    updateProjectBlockedBy,
+  } = useAppData()
+  const anchor = useComboboxAnchor()
+  const [inputValue, setInputValue] = React.useState('')
+  const [error, setError] = React.useState<string>()
+
+  const value = (project.blockedBy ?? []).filter((id) => getProjectById(id))
+  const items = data.projects
+    .filter((p) => p.id !== project.id)
+    .map((p) => p.id)
+  const search = inputValue.trim().toLowerCase()
+  const filteredItems = items.filter((id) =>
+    getProjectById(id)?.title.toLowerCase().includes(search)
+  )
+
+  const handleChange = (blockedBy: string[]) => {
+    setInputValue('')
+    try {
+      updateProjectBlockedBy(project.id, blockedBy)
+      setError(undefined)
+    } catch (e) {
+      if (!(e instanceof DependencyCycleError)) throw e
+      setError(e.message)
+    }
+  }
+
+  const renderProject = (id: string) => {
+    const blocker = getProjectById(id)
+    if (!blocker) return null
+    return (
+      <>
+        <ProjectStatusIndicator
+          status={blocker.status}
+          completion={getProjectCompletion(id)}
+          isBlocked={isProjectBlocked(id)}
+        />
+        <span className="truncate">{blocker.title}</span>
+      </>
+    )
+  }
+
+  return (
+    <div className="space-y-1">
+      <Combobox
+        multiple
+        items={items}
+        filteredItems={filteredItems}
+        value={value}
+        onValueChange={handleChange}
+        inputValue={inputValue}
+        onInputValueChange={setInputValue}
+      >
+        <ComboboxChips ref={anchor}>
+          <ComboboxValue>
+            {(selected: string[]) => (
+              <>
+                {selected.map((id) => (
+                  <ComboboxChip key={id}>{renderProject(id)}</ComboboxChip>
+                ))}
+                <ComboboxChipsInput
+                  placeholder={
+                    selected.length === 0 ? 'Blocked by...' : undefined
+                  }
+                />
+              </>
+            )}
+          </ComboboxValue>
+        </ComboboxChips>
+        <ComboboxContent anchor={anchor}>
+          <ComboboxEmpty>No projects found</ComboboxEmpty>
+          <ComboboxList>
+            {(id: string) => (
+              <ComboboxItem key={id} value={id}>
+                {renderProject(id)}
+              </ComboboxItem>
+            )}
+          </ComboboxList>
+        </ComboboxContent>
+      </Combobox>
+      {error && (
+        <p role="alert" className="text-xs text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,182 @@
+import * as React from 'react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import {
+  getDependencyEdges,
+  layoutDependencyGraph,
+} from '@/lib/project-dependencies'
+import { cn } from '@/lib/utils'
+import {
+  ProjectStatusIndicator,
+  getProjectTitleClass,
+} from '@/components/sidebar/draggable-project'
+import { EmptyState } from '@/components/ui/empty-state'
+import type { Project } from '@/types/data'
+
+/**
+ * ProjectDependencyGraph - Blocking relationships between projects.
+ *
+ * The "graph" view mode of AreaView and NoAreaView. Projects are nodes,
+ * laid out left to right so that every project sits after the projects it
+ * waits on (see layoutDependencyGraph); arrows run from a blocker to the
+ * project it blocks, highlighted while the blocker isn't done. Projects
+ * elsewhere that are linked to these are shown with a dashed border.
+ *
+ * Click a node to open the project. Relationships are edited in the
+ * project editor (ProjectBlockersEditor).
+ */
+interface ProjectDependencyGraphProps {
+  projects: Project[]
+  onOpenProject: (projectId: string) => void
+}
+
+const NODE_WIDTH = 200
+const NODE_HEIGHT = 40
+const COLUMN_GAP = 72
+const ROW_GAP = 16
+
+/** Edges from blockers that aren't done stand out */
+const edgeClass = {
+  pending: 'text-status-blocked',
+  done: 'text-muted-foreground/40',
+} as const
+
+export function ProjectDependencyGraph({
+  projects,
+  onOpenProject,
+}: ProjectDependencyGraphProps) {
+  const { data, getProjectCompletion, isProjectBlocked } = useAppData()
+  // Arrowhead markers are referenced by URL, so keep the ID to safe characters
+  const markerId = `arrow-${React.useId().replace(/[^\w-]/g, '')}`
+
+  const { nodes, edges, positions } = React.useMemo(() => {
+    const ids = new Set(projects.map((p) => p.id))
+    const edges = getDependencyEdges(data.projects).filter(
+      (e) => ids.has(e.from) || ids.has(e.to)
+    )
+    // Linked projects from elsewhere come after the graph's own
+    const linked = data.projects.filter(
+      (p) =>
+        !ids.has(p.id) && edges.some((e) => e.from === p.id || e.to === p.id)
+    )
+    const nodes = [...projects, ...linked]
+    const positions = layoutDependencyGraph(
+      nodes.map((p) => p.id),
+      edges
+    )
+    return { nodes, edges, positions }
+  }, [projects, data.projects])
+
+  if (projects.length === 0) {
+    return <EmptyState title="No projects here yet." />
+  }
+
+  const columns = Math.max(...[...positions.values()].map((p) => p.column)) + 1
+  const rows = Math.max(...[...positions.values()].map((p) => p.row)) + 1
+  const width = columns * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP
+  const height = rows * (NODE_HEIGHT + ROW_GAP) - ROW_GAP
+
+  const nodeX = (id: string) =>
+    positions.get(id)!.column * (NODE_WIDTH + COLUMN_GAP)
+  const nodeY = (id: string) => positions.get(id)!.row * (NODE_HEIGHT + ROW_GAP)
+  const projectById = new Map(nodes.map((p) => [p.id, p]))
+
+  return (
+    <div className="space-y-3">
+      {edges.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No blocking relationships yet. Add them under "Blocked by" in a
+          project's editor.
+        </p>
+      )}
+
+      <div className="overflow-auto pb-2">
+        <div className="relative" style={{ width, height }}>
+          {/* Edges */}
+          <svg
+            className="absolute inset-0 overflow-visible pointer-events-none"
+            width={width}
+            height={height}
+          >
+            <defs>
+              {(['pending', 'done'] as const).map((state) => (
+                <marker
+                  key={state}
+                  id={`${markerId}-${state}`}
+                  viewBox="0 0 8 8"
+                  refX="8"
+                  refY="4"
+                  markerWidth="8"
+                  markerHeight="8"
+                  orient="auto"
+                  className={edgeClass[state]}
+                >
+                  <path d="M0,0 L8,4 L0,8 z" fill="currentColor" />
+                </marker>
+              ))}
+            </defs>
+            {edges.map(({ from, to }) => {
+              const x1 = nodeX(from) + NODE_WIDTH
+              const y1 = nodeY(from) + NODE_HEIGHT / 2
+              const x2 = nodeX(to)
+              const y2 = nodeY(to) + NODE_HEIGHT / 2
+              const state =
+                projectById.get(from)?.status === 'done' ? 'done' : 'pending'
+              const bend = COLUMN_GAP / 2
+              return (
+                <path
+                  key={`${from}->${to}`}
+                  d={`M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`}
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth={1.5}
+                  markerEnd={`url(#${markerId}-${state})`}
+                  className={edgeClass[state]}
+                />
+              )
+            })}
+          </svg>
+
+          {/* Nodes */}
+          {nodes.map((project) => {
+            const isLinked = !projects.includes(project)
+            return (
+              <button
+                key={project.id}
+                type="button"
+                onClick={() => onOpenProject(project.id)}
+                title={project.title}
+                className={cn(
+                  'absolute flex items-center gap-2 px-3 rounded-md border bg-card text-sm text-start shadow-xs',
+                  'hover:bg-muted/50 transition-colors',
+                  isLinked && 'border-dashed opacity-70'
+                )}
+                style={{
+                  left: nodeX(project.id),
+                  top: nodeY(project.id),
+                  width: NODE_WIDTH,
+                  height: NODE_HEIGHT,
+                }}
+              >
+                <ProjectStatusIndicator
+                  status={project.status}
+                  completion={getProjectCompletion(project.id)}
+                  isBlocked={isProjectBlocked(project.id)}
+                />
+                <span
+                  className={cn(
+                    'truncate',
+                    getProjectTitleClass(project.status)
+                  )}
+                >
+                  {project.title}
+                </span>
+              </button>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
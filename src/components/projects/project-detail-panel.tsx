@@ -0,0 +1,174 @@
+import * as React from 'react'
+import { Calendar, CircleDot, Flag, FolderOpen, X } from 'lucide-react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { useTaskDetailStore } from '@/store/task-detail-store'
+
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { SearchableSelect } from '@/components/ui/searchable-select'
+import { DateButton } from '@/components/ui/date-button'
+import { LazyMilkdownEditor } from '@/components/tasks/lazy-milkdown-editor'
+import { TagEditor } from '@/components/tags'
+import { ProjectStatusPill } from './project-status-pill'
+import { ProjectBlockersEditor } from './project-blockers-editor'
+
+/**
+ * ProjectDetailPanel - Project editing interface in the right sidebar.
+ *
+ * The project counterpart to TaskDetailPanel. Opens from the sidebar
+ * ("New Project", or "Edit project…" in a project's context menu) and is
+ * controlled by task-detail-store (`openProjectId`).
+ *
+ * Sections:
+ * - Header: Title (editable), close button
+ * - Metadata: Area selector, status pill, start/end date buttons, tags,
+ *   projects it is blocked by
+ * - Description: Plain-text summary
+ * - Notes: Full markdown editor (LazyMilkdownEditor)
+ * - Footer: Task counts, project ID
+ *
+ * All changes save immediately - no explicit save button needed.
+ */
+export function ProjectDetailPanel() {
+  const { openProjectId, closeDetail } = useTaskDetailStore()
+  const {
+    getProjectById,
+    getAreaById,
+    getActiveAreas,
+    getTaskCounts,
+    getAllTags,
+    updateProject,
+    updateProjectTags,
+  } = useAppData()
+
+  const project = openProjectId ? getProjectById(openProjectId) : null
+  const activeAreas = getActiveAreas()
+
+  // Include the assigned area even if it's archived
+  const allAreas = React.useMemo(() => {
+    const areaId = project?.areaId
+    if (!areaId) return activeAreas
+    const current = getAreaById(areaId)
+    if (current && !activeAreas.find((a) => a.id === current.id)) {
+      return [current, ...activeAreas]
+    }
+    return activeAreas
+  }, [project?.areaId, activeAreas, getAreaById])
+
+  if (!project) {
+    return (
+      <div className="flex h-full items-center justify-center text-muted-foreground text-sm p-6">
+        Select a project to view details
+      </div>
+    )
+  }
+
+  const currentArea = project.areaId
+    ? (getAreaById(project.areaId) ?? null)
+    : null
+  const { taskCount, completedTaskCount } = getTaskCounts(project.id)
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Header: Icon + Title + Close */}
+      <div className="flex items-center gap-3 px-4 py-3">
+        <CircleDot className="size-5 shrink-0 text-entity-project" />
+        <Textarea
+          value={project.title}
+          onChange={(e) => updateProject(project.id, { title: e.target.value })}
+          className="flex-1 text-lg font-medium border-none shadow-none p-1 min-h-0 h-auto resize-none focus-visible:ring-1 focus-visible:ring-primary rounded-sm field-sizing-content"
+          placeholder="Project title..."
+          rows={1}
+        />
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={closeDetail}
+          className="-mr-1 shrink-0"
+        >
+          <X className="size-4" />
+        </Button>
+      </div>
+
+      {/* Metadata section */}
+      <div className="@container px-4 pb-3 space-y-2.5">
+        <SearchableSelect
+          value={project.areaId ?? undefined}
+          options={allAreas.map((a) => ({ value: a.id, label: a.title }))}
+          placeholder="Area..."
+          displayValue={currentArea?.title}
+          icon={<FolderOpen className="size-3 text-entity-area" />}
+          onChange={(id) => updateProject(project.id, { areaId: id })}
+          emptyText="No areas found"
+        />
+
+        {/* Status + Dates row - wraps on narrow */}
+        <div className="flex flex-wrap items-center gap-2">
+          <ProjectStatusPill
+            status={project.status ?? 'planning'}
+            onStatusChange={(status) => updateProject(project.id, { status })}
+          />
+          <div className="flex-1 min-w-4" />
+          <div className="flex items-center gap-1.5 @[280px]:gap-2">
+            <DateButton
+              icon={<Calendar className="size-3" />}
+              value={project.startDate}
+              onChange={(date) =>
+                updateProject(project.id, { startDate: date })
+              }
+              tooltip="Start"
+              variant="scheduled"
+            />
+            <DateButton
+              icon={<Flag className="size-3" />}
+              value={project.endDate}
+              onChange={(date) => updateProject(project.id, { endDate: date })}
+              tooltip="End"
+              variant="due"
+            />
+          </div>
+        </div>
+
+        <TagEditor
+          value={project.tags ?? []}
+          onChange={(tags) => updateProjectTags(project.id, tags)}
+          suggestions={getAllTags().map((t) => t.tag)}
+        />
+
+        <ProjectBlockersEditor key={project.id} project={project} />
+
+        <Textarea
+          value={project.description ?? ''}
+          onChange={(e) =>
+            updateProject(project.id, { description: e.target.value })
+          }
+          className="text-sm min-h-0 resize-none field-sizing-content"
+          placeholder="Description..."
+          rows={2}
+        />
+      </div>
+
+      {/* Notes - fills remaining space with card background */}
+      <div className="flex-1 min-h-0 overflow-hidden p-3 pt-0">
+        <div className="h-full bg-card rounded-lg border overflow-hidden">
+          <LazyMilkdownEditor
+            editorKey={project.id}
+            defaultValue={project.notes ?? ''}
+            onChange={(value) => updateProject(project.id, { notes: value })}
+            className="h-full"
+          />
+        </div>
+      </div>
+
+      {/* Footer - Metadata */}
+      <div className="px-4 py-2 flex flex-wrap gap-x-4 gap-y-0.5 text-xs text-muted-foreground">
+        <span>
+          {completedTaskCount}/{taskCount} tasks done
+        </span>
+        <span className="font-mono opacity-50 truncate">{project.id}</span>
+      </div>
+    </div>
+  )
+}
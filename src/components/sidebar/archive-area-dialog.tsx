@@ -0,0 +1,58 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import type { Area } from '@/types/data'
+
+/**
+ * ArchiveAreaDialog - Confirmation before archiving an area.
+ *
+ * Archiving hides the area and its projects from the sidebar; nothing is
+ * deleted and the area can be restored from the Archived section.
+ */
+interface ArchiveAreaDialogProps {
+  area: Area
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onConfirm: () => void
+}
+
+export function ArchiveAreaDialog({
+  area,
+  open,
+  onOpenChange,
+  onConfirm,
+}: ArchiveAreaDialogProps) {
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent size="sm">
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            Archive &ldquo;{area.title}&rdquo;?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            The area and its projects will be hidden from the sidebar. You can
+            restore it from Archived at any time.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => {
+              onConfirm()
+              onOpenChange(false)
+            }}
+          >
+            Archive
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
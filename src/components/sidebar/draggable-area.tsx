@@ -1,8 +1,16 @@
 import * as React from 'react'
 import { useSortable } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
-import { ChevronRight, FolderIcon } from 'lucide-react'
+import { Archive, ChevronRight, FolderIcon, Pencil, Plus } from 'lucide-react'
 
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuShortcut,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu'
 import {
   Collapsible,
   CollapsibleContent,
@@ -14,9 +22,11 @@ import {
   SidebarGroupLabel,
 } from '@/components/ui/sidebar'
 import { cn } from '@/lib/utils'
+import { headingColors, headingColorConfig } from '@/config/heading-colors'
 import type { Area } from '@/types/data'
 import { getDragId } from '@/types/sidebar-order'
 import type { DragItem } from '@/types/sidebar-order'
+import { ArchiveAreaDialog } from './archive-area-dialog'
 
 /**
  * DraggableArea - Collapsible area section in the sidebar with drag-drop.
@@ -27,6 +37,9 @@ import type { DragItem } from '@/types/sidebar-order'
  * - Collapsible to hide/show projects
  * - Click header to navigate to AreaView
  * - Drop target for projects (moving between areas)
+ * - Right-click to edit the area, add a project to it, or archive it
+ *   (also Delete/Backspace while focused, with confirmation)
+ * - Shows the area's icon and color when set
  *
  * Children are typically a list of DraggableProject components.
  */
@@ -34,6 +47,12 @@ interface DraggableAreaProps {
   area: Area
   isSelected: boolean
   onSelect: () => void
+  /** Open the area in the detail panel */
+  onEdit?: () => void
+  /** Create a new project in this area */
+  onNewProject?: () => void
+  /** Called once archiving is confirmed */
+  onArchive?: () => void
   children: React.ReactNode
 }
 
@@ -41,9 +60,14 @@ export function DraggableArea({
   area,
   isSelected,
   onSelect,
+  onEdit,
+  onNewProject,
+  onArchive,
   children,
 }: DraggableAreaProps) {
   const dragId = getDragId('area', area.id)
+  const color = headingColors.find((c) => c === area.color && c !== 'default')
+  const [isArchiveOpen, setIsArchiveOpen] = React.useState(false)
 
   const {
     attributes,
@@ -67,6 +91,16 @@ export function DraggableArea({
     transition,
   }
 
+  // Chain to the sortable keyboard listener so keyboard dragging still works
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (onArchive && (e.key === 'Delete' || e.key === 'Backspace')) {
+      e.preventDefault()
+      setIsArchiveOpen(true)
+      return
+    }
+    listeners?.onKeyDown?.(e)
+  }
+
   return (
     <div
       ref={setNodeRef}
@@ -81,33 +115,82 @@ export function DraggableArea({
         className="group/collapsible group-data-[collapsible=icon]:hidden"
       >
         <SidebarGroup className="py-0">
-          <SidebarGroupLabel
-            className={cn(
-              'group/label gap-2 text-sm font-semibold hover:bg-sidebar-accent hover:text-sidebar-accent-foreground cursor-grab select-none',
-              isSelected && 'bg-sidebar-accent text-sidebar-accent-foreground'
-            )}
-            onClick={onSelect}
-            {...attributes}
-            {...listeners}
-          >
-            <FolderIcon className="text-icon-folder" />
-            <span className="truncate">{area.title}</span>
-            {/* Wrapper div stops propagation so clicking chevron doesn't select area */}
-            <div
-              className="ms-auto"
-              onClick={(e) => e.stopPropagation()}
-              onPointerDown={(e) => e.stopPropagation()}
+          <ContextMenu>
+            <ContextMenuTrigger
+              render={<SidebarGroupLabel />}
+              className={cn(
+                'group/label gap-2 text-sm font-semibold hover:bg-sidebar-accent hover:text-sidebar-accent-foreground cursor-grab select-none',
+                isSelected && 'bg-sidebar-accent text-sidebar-accent-foreground'
+              )}
+              onClick={onSelect}
+              {...attributes}
+              {...listeners}
+              onKeyDown={handleKeyDown}
             >
-              <CollapsibleTrigger className="p-0.5 rounded hover:bg-sidebar-accent-foreground/10">
-                <ChevronRight className="size-4 transition-transform duration-200 group-data-open/collapsible:rotate-90" />
-              </CollapsibleTrigger>
-            </div>
-          </SidebarGroupLabel>
+              {area.icon ? (
+                <span className="w-4 shrink-0 text-center">{area.icon}</span>
+              ) : (
+                <FolderIcon
+                  className={
+                    color
+                      ? headingColorConfig[color].textClass
+                      : 'text-icon-folder'
+                  }
+                />
+              )}
+              <span className="truncate">{area.title}</span>
+              {/* Wrapper div stops propagation so clicking chevron doesn't select area */}
+              <div
+                className="ms-auto"
+                onClick={(e) => e.stopPropagation()}
+                onPointerDown={(e) => e.stopPropagation()}
+              >
+                <CollapsibleTrigger className="p-0.5 rounded hover:bg-sidebar-accent-foreground/10">
+                  <ChevronRight className="size-4 transition-transform duration-200 group-data-open/collapsible:rotate-90" />
+                </CollapsibleTrigger>
+              </div>
+            </ContextMenuTrigger>
+            {(onEdit || onNewProject || onArchive) && (
+              <ContextMenuContent>
+                {onEdit && (
+                  <ContextMenuItem onClick={onEdit}>
+                    <Pencil />
+                    Edit area…
+                  </ContextMenuItem>
+                )}
+                {onNewProject && (
+                  <ContextMenuItem onClick={onNewProject}>
+                    <Plus />
+                    New project
+                  </ContextMenuItem>
+                )}
+                {(onEdit || onNewProject) && onArchive && (
+                  <ContextMenuSeparator />
+                )}
+                {onArchive && (
+                  <ContextMenuItem onClick={() => setIsArchiveOpen(true)}>
+                    <Archive />
+                    Archive area…
+                    <ContextMenuShortcut>⌫</ContextMenuShortcut>
+                  </ContextMenuItem>
+                )}
+              </ContextMenuContent>
+            )}
+          </ContextMenu>
           <CollapsibleContent>
             <SidebarGroupContent>{children}</SidebarGroupContent>
           </CollapsibleContent>
         </SidebarGroup>
       </Collapsible>
+
+      {onArchive && (
+        <ArchiveAreaDialog
+          area={area}
+          open={isArchiveOpen}
+          onOpenChange={setIsArchiveOpen}
+          onConfirm={onArchive}
+        />
+      )}
     </div>
   )
 }
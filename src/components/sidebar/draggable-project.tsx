@@ -1,9 +1,26 @@
 import * as React from 'react'
 import { useSortable } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
-import { Ban, CircleCheck, CirclePause } from 'lucide-react'
+import {
+  Ban,
+  CircleCheck,
+  CirclePause,
+  ClipboardCheck,
+  Pencil,
+  Trash2,
+} from 'lucide-react'
 
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuShortcut,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu'
 import { ProgressCircle } from '@/components/ui/progress-circle'
+import { DeleteProjectDialog } from '@/components/projects/delete-project-dialog'
+import type { ProjectTasksAction } from '@/context/app-data-context'
 import { SidebarMenuButton, SidebarMenuItem } from '@/components/ui/sidebar'
 import { cn } from '@/lib/utils'
 import type { Project, ProjectStatus } from '@/types/data'
@@ -18,8 +35,14 @@ import type { DragItem } from '@/types/sidebar-order'
  * - Moving to a different area
  * - Moving to/from "No Area"
  *
+ * Right-click to edit the project in the detail panel, or to delete it
+ * (also Delete/Backspace while focused), confirming first and asking what
+ * to do with its tasks. Projects due for their weekly review show a dot,
+ * and can be marked reviewed from the context menu.
+ *
  * Also exports:
- * - ProjectStatusIndicator: Shows progress circle or status icon
+ * - ProjectStatusIndicator: Shows progress circle or status icon (blocked
+ *   when the caller says so, e.g. a blocker isn't done yet)
  * - getProjectTitleClass: Returns muted class for done/paused projects
  *
  * ProjectStatusIndicator is also reused in ProjectHeader and ProjectCard.
@@ -32,15 +55,18 @@ import type { DragItem } from '@/types/sidebar-order'
 interface ProjectStatusIndicatorProps {
   status: ProjectStatus | undefined
   completion: number
+  /** Show as blocked whatever the status (see isProjectBlocked) */
+  isBlocked?: boolean
 }
 
 export function ProjectStatusIndicator({
   status,
   completion,
+  isBlocked = false,
 }: ProjectStatusIndicatorProps) {
   const iconClass = 'size-4 shrink-0'
 
-  switch (status) {
+  switch (isBlocked ? 'blocked' : status) {
     case 'blocked':
       return <Ban className={`${iconClass} text-status-blocked`} />
     case 'paused':
@@ -98,6 +124,16 @@ interface DraggableProjectProps {
   isSelected: boolean
   onSelect: () => void
   completion: number
+  /** Waiting on a project that isn't done (see isProjectBlocked) */
+  isBlocked?: boolean
+  /** Open the project in the detail panel */
+  onEdit?: () => void
+  /** Called once deletion is confirmed */
+  onDelete?: (tasksAction: ProjectTasksAction) => void
+  /** Show the "review due" dot (see lib/review) */
+  isReviewDue?: boolean
+  /** Record that the project was reviewed */
+  onMarkReviewed?: () => void
 }
 
 export function DraggableProject({
@@ -106,8 +142,14 @@ export function DraggableProject({
   isSelected,
   onSelect,
   completion,
+  isBlocked,
+  onEdit,
+  onDelete,
+  isReviewDue = false,
+  onMarkReviewed,
 }: DraggableProjectProps) {
   const dragId = getDragId('project', project.id)
+  const [isDeleteOpen, setIsDeleteOpen] = React.useState(false)
 
   const {
     attributes,
@@ -130,28 +172,86 @@ export function DraggableProject({
     transition,
   }
 
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (onDelete && (e.key === 'Delete' || e.key === 'Backspace')) {
+      e.preventDefault()
+      setIsDeleteOpen(true)
+    }
+  }
+
   return (
-    <SidebarMenuItem
-      ref={setNodeRef}
-      style={style}
-      className={cn(isDragging && 'opacity-50 z-50')}
-      {...attributes}
-      {...listeners}
-    >
-      <SidebarMenuButton
-        className="ps-7 select-none"
-        tooltip={project.title}
-        isActive={isSelected}
-        onClick={onSelect}
-      >
-        <ProjectStatusIndicator
-          status={project.status}
-          completion={completion}
+    <>
+      <ContextMenu>
+        <ContextMenuTrigger
+          render={<SidebarMenuItem ref={setNodeRef} />}
+          style={style}
+          className={cn(isDragging && 'opacity-50 z-50')}
+          {...attributes}
+          {...listeners}
+        >
+          <SidebarMenuButton
+            className="ps-7 select-none"
+            tooltip={project.title}
+            isActive={isSelected}
+            onClick={onSelect}
+            onKeyDown={handleKeyDown}
+          >
+            <ProjectStatusIndicator
+              status={project.status}
+              completion={completion}
+              isBlocked={isBlocked}
+            />
+            <span
+              className={cn('truncate', getProjectTitleClass(project.status))}
+            >
+              {project.title}
+            </span>
+            {isReviewDue && (
+              <span
+                className="ms-auto size-1.5 shrink-0 rounded-full bg-icon-review"
+                title="Review due"
+              />
+            )}
+          </SidebarMenuButton>
+        </ContextMenuTrigger>
+
+        {(onEdit || onDelete || onMarkReviewed) && (
+          <ContextMenuContent>
+            {onEdit && (
+              <ContextMenuItem onClick={onEdit}>
+                <Pencil />
+                Edit project…
+              </ContextMenuItem>
+            )}
+            {onMarkReviewed && (
+              <ContextMenuItem onClick={onMarkReviewed}>
+                <ClipboardCheck />
+                Mark as reviewed
+              </ContextMenuItem>
+            )}
+            {(onEdit || onMarkReviewed) && onDelete && <ContextMenuSeparator />}
+            {onDelete && (
+              <ContextMenuItem
+                variant="destructive"
+                onClick={() => setIsDeleteOpen(true)}
+              >
+                <Trash2 />
+                Delete project…
+                <ContextMenuShortcut>⌫</ContextMenuShortcut>
+              </ContextMenuItem>
+            )}
+          </ContextMenuContent>
+        )}
+      </ContextMenu>
+
+      {onDelete && (
+        <DeleteProjectDialog
+          project={project}
+          open={isDeleteOpen}
+          onOpenChange={setIsDeleteOpen}
+          onConfirm={onDelete}
         />
-        <span className={cn('truncate', getProjectTitleClass(project.status))}>
-          {project.title}
-        </span>
-      </SidebarMenuButton>
-    </SidebarMenuItem>
+      )}
+    </>
   )
 }
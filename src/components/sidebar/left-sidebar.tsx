@@ -22,12 +22,27 @@ import {
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable'
 import {
+  Archive,
+  ArchiveRestore,
+  BookCheck,
   CalendarIcon,
+  ClipboardCheck,
+  CalendarRange,
   CalendarDaysIcon,
   ChevronRight,
   FolderIcon,
   InboxIcon,
+  FolderPlus,
+  Layers,
+  ListFilter,
+  Pencil,
   PanelLeftIcon,
+  Plus,
+  SearchIcon,
+  Snowflake,
+  TagIcon,
+  Timer,
+  Trash2,
   SunIcon,
 } from 'lucide-react'
 
@@ -36,14 +51,23 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from '@/components/ui/collapsible'
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu'
 import {
   Sidebar,
   SidebarContent,
+  SidebarFooter,
   SidebarGroup,
+  SidebarGroupAction,
   SidebarGroupContent,
   SidebarGroupLabel,
   SidebarHeader,
   SidebarMenu,
+  SidebarMenuBadge,
   SidebarMenuButton,
   SidebarMenuItem,
   SidebarRail,
@@ -51,8 +75,16 @@ import {
   useSidebar,
 } from '@/components/ui/sidebar'
 import { useAppData } from '@/context/app-data-context'
+import type { ProjectTasksAction } from '@/context/app-data-context'
 import { cn } from '@/lib/utils'
 import { useSidebarOrder } from '@/hooks/use-sidebar-order'
+import { useTaskDetailStore } from '@/store/task-detail-store'
+import { useSavedFiltersStore } from '@/store/saved-filters-store'
+import { useTagFilterStore } from '@/store/tag-filter-store'
+import { showToast } from '@/lib/toast'
+import { isProjectReviewDue, isReviewDue } from '@/lib/review'
+import { FilterEditorDialog } from '@/components/filters/filter-editor-dialog'
+import { RenameTagDialog } from '@/components/tags'
 import { DraggableArea } from './draggable-area'
 import {
   DraggableProject,
@@ -61,18 +93,33 @@ import {
 } from './draggable-project'
 // TODO(tauri-integration): Migrate to TanStack Query (via useSidebarOrder)
 import type { Selection, NavId } from '@/types/navigation'
+import type { Project } from '@/types/data'
+import type { SavedFilter } from '@/types/saved-filter'
 import appIcon from '@/assets/icon-1024-trans.png'
 import { getDragId, ORPHAN_CONTAINER_ID } from '@/types/sidebar-order'
 import type { DragItem } from '@/types/sidebar-order'
+import { DragHistoryGroup } from '@/components/history/drag-history-group'
 
 /**
  * AppSidebar (left-sidebar.tsx) - Main navigation sidebar for the app.
  *
  * The left sidebar contains:
  * 1. App branding + collapse toggle button
- * 2. Fixed navigation items: Today, This Week, Inbox, Calendar
- * 3. Draggable Area sections (collapsible, contain projects)
- * 4. "No Area" section for orphan projects
+ * 2. Fixed navigation items: Today, This Week, Upcoming, Anytime, Someday,
+ *    Inbox, Calendar, Logbook, Review (badged with the number of areas and
+ *    projects due for review), Time, Search
+ * 3. "Filters" section listing saved smart filters (saved-filters-store),
+ *    created and edited in FilterEditorDialog
+ * 4. "Tags" browser listing every tag in use with its task count (only when
+ *    there are any); tags can be renamed or deleted from their context menu
+ * 5. Draggable Area sections (collapsible, contain projects); projects due
+ *    for review show a dot
+ * 6. "No Area" section for orphan projects
+ * 7. "Archived" section listing archived areas (only when there are any)
+ * 8. Footer with "New Project" / "New Area" entries
+ *
+ * New projects and areas are selected and opened in the detail panel for
+ * editing. useSidebarOrder places them at the end of their container.
  *
  * Supports drag-and-drop for:
  * - Reordering areas relative to each other
@@ -101,6 +148,24 @@ const navItems: {
     icon: CalendarDaysIcon,
     iconClass: 'text-icon-week',
   },
+  {
+    id: 'upcoming',
+    name: 'Upcoming',
+    icon: CalendarRange,
+    iconClass: 'text-icon-upcoming',
+  },
+  {
+    id: 'anytime',
+    name: 'Anytime',
+    icon: Layers,
+    iconClass: 'text-icon-anytime',
+  },
+  {
+    id: 'someday',
+    name: 'Someday',
+    icon: Snowflake,
+    iconClass: 'text-icon-someday',
+  },
   { id: 'inbox', name: 'Inbox', icon: InboxIcon, iconClass: 'text-icon-inbox' },
   {
     id: 'calendar',
@@ -108,6 +173,25 @@ const navItems: {
     icon: CalendarIcon,
     iconClass: 'text-icon-calendar',
   },
+  {
+    id: 'logbook',
+    name: 'Logbook',
+    icon: BookCheck,
+    iconClass: 'text-icon-logbook',
+  },
+  {
+    id: 'review',
+    name: 'Review',
+    icon: ClipboardCheck,
+    iconClass: 'text-icon-review',
+  },
+  { id: 'time', name: 'Time', icon: Timer, iconClass: 'text-icon-time' },
+  {
+    id: 'search',
+    name: 'Search',
+    icon: SearchIcon,
+    iconClass: 'text-icon-search',
+  },
 ]
 
 // -----------------------------------------------------------------------------
@@ -127,9 +211,26 @@ export function AppSidebar({
   const { state, toggleSidebar } = useSidebar()
   const isCollapsed = state === 'collapsed'
 
-  const { getProjectCompletion } = useAppData()
+  const {
+    getProjectById,
+    getProjectCompletion,
+    isProjectBlocked,
+    createProject,
+    createArea,
+    deleteProject,
+    archiveArea,
+    unarchiveArea,
+    getAllTags,
+    renameTag,
+    deleteTag,
+    getActiveAreas,
+    getActiveProjects,
+    markProjectReviewed,
+  } = useAppData()
+  const { openProject, openArea, closeDetail } = useTaskDetailStore()
   const {
     orderedAreas,
+    archivedAreas,
     orderedOrphanProjects,
     getOrderedProjects,
     reorderAreas,
@@ -137,6 +238,22 @@ export function AppSidebar({
     moveProjectToArea,
   } = useSidebarOrder()
 
+  const savedFilters = useSavedFiltersStore((state) => state.filters)
+  const { createFilter, updateFilter, deleteFilter } = useSavedFiltersStore()
+
+  // Filter open in the editor dialog ('new' while creating one)
+  const [editingFilter, setEditingFilter] = useState<SavedFilter | 'new'>()
+
+  const allTags = getAllTags()
+  const reviewDueCount = [...getActiveAreas(), ...getActiveProjects()].filter(
+    (entity) => isReviewDue(entity)
+  ).length
+  const tagFilter = useTagFilterStore((state) => state.tags)
+  const setTagFilter = useTagFilterStore((state) => state.setTags)
+
+  // Tag open in the rename dialog
+  const [renamingTag, setRenamingTag] = useState<string>()
+
   // Track active drag item
   const [activeItem, setActiveItem] = useState<DragItem | null>(null)
 
@@ -238,6 +355,102 @@ export function AppSidebar({
     [reorderProjectsInArea]
   )
 
+  // Delete a project, moving the selection off it if it was being viewed
+  const handleDeleteProject = useCallback(
+    (project: Project, tasksAction: ProjectTasksAction) => {
+      deleteProject(project.id, { tasks: tasksAction })
+      if (useTaskDetailStore.getState().openProjectId === project.id) {
+        closeDetail()
+      }
+      if (selection?.type === 'project' && selection.id === project.id) {
+        onSelectionChange(
+          project.areaId
+            ? { type: 'area', id: project.areaId }
+            : { type: 'no-area' }
+        )
+      }
+    },
+    [deleteProject, closeDetail, selection, onSelectionChange]
+  )
+
+  // Create a project (in the given area, or the one being viewed) and open
+  // it for editing
+  const handleNewProject = useCallback(
+    (areaId?: string) => {
+      let targetAreaId = areaId
+      if (!targetAreaId && selection?.type === 'area') {
+        targetAreaId = selection.id
+      }
+      if (!targetAreaId && selection?.type === 'project') {
+        targetAreaId = getProjectById(selection.id)?.areaId ?? undefined
+      }
+      const id = createProject({ title: 'New Project', areaId: targetAreaId })
+      onSelectionChange({ type: 'project', id })
+      openProject(id)
+    },
+    [selection, getProjectById, createProject, onSelectionChange, openProject]
+  )
+
+  const handleNewArea = useCallback(() => {
+    const id = createArea({ title: 'New Area' })
+    onSelectionChange({ type: 'area', id })
+    openArea(id)
+  }, [createArea, onSelectionChange, openArea])
+
+  // Save the editor dialog: create (and show) a new filter, or update one
+  const handleSaveFilter = useCallback(
+    (fields: Omit<SavedFilter, 'id'>) => {
+      if (editingFilter === 'new') {
+        const id = createFilter(fields)
+        onSelectionChange({ type: 'filter', id })
+      } else if (editingFilter) {
+        updateFilter(editingFilter.id, fields)
+      }
+    },
+    [editingFilter, createFilter, updateFilter, onSelectionChange]
+  )
+
+  const handleDeleteFilter = useCallback(
+    (filter: SavedFilter) => {
+      deleteFilter(filter.id)
+      if (selection?.type === 'filter' && selection.id === filter.id) {
+        onSelectionChange({ type: 'nav', id: 'today' })
+      }
+      showToast(`Deleted filter "${filter.name}"`)
+    },
+    [deleteFilter, selection, onSelectionChange]
+  )
+
+  // Renames also carry over to the tag filter and the selected tag view
+  const handleRenameTag = useCallback(
+    (tag: string, newTag: string) => {
+      renameTag(tag, newTag)
+      if (tagFilter.includes(tag)) {
+        setTagFilter([
+          ...new Set(tagFilter.map((t) => (t === tag ? newTag : t))),
+        ])
+      }
+      if (selection?.type === 'tag' && selection.id === tag) {
+        onSelectionChange({ type: 'tag', id: newTag })
+      }
+    },
+    [renameTag, tagFilter, setTagFilter, selection, onSelectionChange]
+  )
+
+  const handleDeleteTag = useCallback(
+    (tag: string) => {
+      deleteTag(tag)
+      if (tagFilter.includes(tag)) {
+        setTagFilter(tagFilter.filter((t) => t !== tag))
+      }
+      if (selection?.type === 'tag' && selection.id === tag) {
+        onSelectionChange({ type: 'nav', id: 'today' })
+      }
+      showToast(`Deleted tag #${tag}`)
+    },
+    [deleteTag, tagFilter, setTagFilter, selection, onSelectionChange]
+  )
+
   // Get drag item IDs for SortableContext
   const areaIds = orderedAreas.map((a) => getDragId('area', a.id))
 
@@ -265,6 +478,7 @@ export function AppSidebar({
         onDragOver={handleDragOver}
         onDragEnd={handleDragEnd}
       >
+        <DragHistoryGroup />
         <SidebarContent className="gap-0 py-2">
           {/* Navigation Items */}
           <SidebarGroup className="py-0">
@@ -284,11 +498,143 @@ export function AppSidebar({
                     <item.icon className={item.iconClass} />
                     <span>{item.name}</span>
                   </SidebarMenuButton>
+                  {item.id === 'review' && reviewDueCount > 0 && (
+                    <SidebarMenuBadge className="text-muted-foreground">
+                      {reviewDueCount}
+                    </SidebarMenuBadge>
+                  )}
                 </SidebarMenuItem>
               ))}
             </SidebarMenu>
           </SidebarGroup>
 
+          {/* Saved Filters */}
+          <Collapsible
+            defaultOpen
+            className="group/collapsible group-data-[collapsible=icon]:hidden"
+          >
+            <SidebarGroup className="py-0">
+              <SidebarGroupLabel className="group/label gap-2 text-sm font-semibold">
+                <ListFilter className="text-muted-foreground" />
+                <span className="truncate">Filters</span>
+                <CollapsibleTrigger className="ms-auto me-6 p-0.5 rounded hover:bg-sidebar-accent-foreground/10">
+                  <ChevronRight className="size-4 transition-transform duration-200 group-data-open/collapsible:rotate-90" />
+                </CollapsibleTrigger>
+              </SidebarGroupLabel>
+              <SidebarGroupAction
+                title="New filter"
+                onClick={() => setEditingFilter('new')}
+              >
+                <Plus />
+                <span className="sr-only">New filter</span>
+              </SidebarGroupAction>
+              <CollapsibleContent>
+                <SidebarGroupContent>
+                  <SidebarMenu>
+                    {savedFilters.map((filter) => (
+                      <ContextMenu key={filter.id}>
+                        <ContextMenuTrigger render={<SidebarMenuItem />}>
+                          <SidebarMenuButton
+                            className="ps-7"
+                            isActive={
+                              selection?.type === 'filter' &&
+                              selection.id === filter.id
+                            }
+                            onClick={() =>
+                              onSelectionChange({
+                                type: 'filter',
+                                id: filter.id,
+                              })
+                            }
+                          >
+                            <span className="truncate">{filter.name}</span>
+                          </SidebarMenuButton>
+                        </ContextMenuTrigger>
+                        <ContextMenuContent>
+                          <ContextMenuItem
+                            onClick={() => setEditingFilter(filter)}
+                          >
+                            <Pencil />
+                            Edit filter…
+                          </ContextMenuItem>
+                          <ContextMenuItem
+                            variant="destructive"
+                            onClick={() => handleDeleteFilter(filter)}
+                          >
+                            <Trash2 />
+                            Delete filter
+                          </ContextMenuItem>
+                        </ContextMenuContent>
+                      </ContextMenu>
+                    ))}
+                  </SidebarMenu>
+                </SidebarGroupContent>
+              </CollapsibleContent>
+            </SidebarGroup>
+          </Collapsible>
+
+          {/* Tags */}
+          {allTags.length > 0 && (
+            <Collapsible
+              defaultOpen
+              className="group/collapsible group-data-[collapsible=icon]:hidden"
+            >
+              <SidebarGroup className="py-0">
+                <SidebarGroupLabel className="group/label gap-2 text-sm font-semibold">
+                  <TagIcon className="text-entity-tag" />
+                  <span className="truncate">Tags</span>
+                  <CollapsibleTrigger className="ms-auto p-0.5 rounded hover:bg-sidebar-accent-foreground/10">
+                    <ChevronRight className="size-4 transition-transform duration-200 group-data-open/collapsible:rotate-90" />
+                  </CollapsibleTrigger>
+                </SidebarGroupLabel>
+                <CollapsibleContent>
+                  <SidebarGroupContent>
+                    <SidebarMenu>
+                      {allTags.map(({ tag, taskCount }) => (
+                        <ContextMenu key={tag}>
+                          <ContextMenuTrigger render={<SidebarMenuItem />}>
+                            <SidebarMenuButton
+                              className="ps-7"
+                              isActive={
+                                selection?.type === 'tag' &&
+                                selection.id === tag
+                              }
+                              onClick={() =>
+                                onSelectionChange({ type: 'tag', id: tag })
+                              }
+                            >
+                              <span className="truncate">#{tag}</span>
+                            </SidebarMenuButton>
+                            {taskCount > 0 && (
+                              <SidebarMenuBadge className="text-muted-foreground">
+                                {taskCount}
+                              </SidebarMenuBadge>
+                            )}
+                          </ContextMenuTrigger>
+                          <ContextMenuContent>
+                            <ContextMenuItem
+                              onClick={() => setRenamingTag(tag)}
+                            >
+                              <Pencil />
+                              Rename tag…
+                            </ContextMenuItem>
+                            <ContextMenuItem
+                              variant="destructive"
+                              onClick={() => handleDeleteTag(tag)}
+                            >
+                              <Trash2 />
+                              Delete tag
+                            </ContextMenuItem>
+                          </ContextMenuContent>
+                        </ContextMenu>
+                      ))}
+                    </SidebarMenu>
+                  </SidebarGroupContent>
+                </CollapsibleContent>
+              </SidebarGroup>
+            </Collapsible>
+          )}
+
           <SidebarSeparator className="my-2 group-data-[collapsible=icon]:hidden" />
 
           {/* Sortable Areas */}
@@ -310,6 +656,9 @@ export function AppSidebar({
                   onSelect={() =>
                     onSelectionChange({ type: 'area', id: area.id })
                   }
+                  onEdit={() => openArea(area.id)}
+                  onNewProject={() => handleNewProject(area.id)}
+                  onArchive={() => archiveArea(area.id)}
                 >
                   <SidebarMenu>
                     <SortableContext
@@ -332,6 +681,13 @@ export function AppSidebar({
                             })
                           }
                           completion={getProjectCompletion(project.id)}
+                          isBlocked={isProjectBlocked(project.id)}
+                          onEdit={() => openProject(project.id)}
+                          onDelete={(tasksAction) =>
+                            handleDeleteProject(project, tasksAction)
+                          }
+                          isReviewDue={isProjectReviewDue(project)}
+                          onMarkReviewed={() => markProjectReviewed(project.id)}
                         />
                       ))}
                     </SortableContext>
@@ -398,6 +754,15 @@ export function AppSidebar({
                               })
                             }
                             completion={getProjectCompletion(project.id)}
+                            isBlocked={isProjectBlocked(project.id)}
+                            onEdit={() => openProject(project.id)}
+                            onDelete={(tasksAction) =>
+                              handleDeleteProject(project, tasksAction)
+                            }
+                            isReviewDue={isProjectReviewDue(project)}
+                            onMarkReviewed={() =>
+                              markProjectReviewed(project.id)
+                            }
                           />
                         ))}
                       </SortableContext>
@@ -407,14 +772,103 @@ export function AppSidebar({
               </CollapsibleContent>
             </SidebarGroup>
           </Collapsible>
+
+          {/* Archived Areas (not draggable - unarchive to reorder) */}
+          {archivedAreas.length > 0 && (
+            <Collapsible className="group/collapsible group-data-[collapsible=icon]:hidden">
+              <SidebarGroup className="py-0">
+                <SidebarGroupLabel className="group/label gap-2 text-sm font-semibold">
+                  <Archive className="text-muted-foreground" />
+                  <span className="truncate">Archived</span>
+                  <CollapsibleTrigger className="ms-auto p-0.5 rounded hover:bg-sidebar-accent-foreground/10">
+                    <ChevronRight className="size-4 transition-transform duration-200 group-data-open/collapsible:rotate-90" />
+                  </CollapsibleTrigger>
+                </SidebarGroupLabel>
+                <CollapsibleContent>
+                  <SidebarGroupContent>
+                    <SidebarMenu>
+                      {archivedAreas.map((area) => (
+                        <ContextMenu key={area.id}>
+                          <ContextMenuTrigger render={<SidebarMenuItem />}>
+                            <SidebarMenuButton
+                              className="text-muted-foreground"
+                              isActive={
+                                selection?.type === 'area' &&
+                                selection.id === area.id
+                              }
+                              onClick={() =>
+                                onSelectionChange({ type: 'area', id: area.id })
+                              }
+                            >
+                              <FolderIcon />
+                              <span>{area.title}</span>
+                            </SidebarMenuButton>
+                          </ContextMenuTrigger>
+                          <ContextMenuContent>
+                            <ContextMenuItem onClick={() => openArea(area.id)}>
+                              <Pencil />
+                              Edit area…
+                            </ContextMenuItem>
+                            <ContextMenuItem
+                              onClick={() => unarchiveArea(area.id)}
+                            >
+                              <ArchiveRestore />
+                              Unarchive area
+                            </ContextMenuItem>
+                          </ContextMenuContent>
+                        </ContextMenu>
+                      ))}
+                    </SidebarMenu>
+                  </SidebarGroupContent>
+                </CollapsibleContent>
+              </SidebarGroup>
+            </Collapsible>
+          )}
         </SidebarContent>
 
+        <SidebarFooter className="border-t border-sidebar-border">
+          <SidebarMenu>
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                tooltip="New Project"
+                onClick={() => handleNewProject()}
+              >
+                <Plus />
+                <span>New Project</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton tooltip="New Area" onClick={handleNewArea}>
+                <FolderPlus />
+                <span>New Area</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          </SidebarMenu>
+        </SidebarFooter>
+
         {/* Drag Overlay */}
         <DragOverlay dropAnimation={dropAnimation}>
           {activeItem && <DragPreview item={activeItem} />}
         </DragOverlay>
       </DndContext>
 
+      <FilterEditorDialog
+        open={editingFilter !== undefined}
+        onOpenChange={(open) => {
+          if (!open) setEditingFilter(undefined)
+        }}
+        filter={editingFilter === 'new' ? undefined : editingFilter}
+        onSave={handleSaveFilter}
+      />
+
+      <RenameTagDialog
+        tag={renamingTag}
+        onOpenChange={(open) => {
+          if (!open) setRenamingTag(undefined)
+        }}
+        onRename={handleRenameTag}
+      />
+
       <SidebarRail />
     </Sidebar>
   )
@@ -450,7 +904,12 @@ function EmptyDropZone({ id }: { id: string }) {
 // -----------------------------------------------------------------------------
 
 function DragPreview({ item }: { item: DragItem }) {
-  const { getAreaById, getProjectById, getProjectCompletion } = useAppData()
+  const {
+    getAreaById,
+    getProjectById,
+    getProjectCompletion,
+    isProjectBlocked,
+  } = useAppData()
 
   if (item.type === 'area') {
     const area = getAreaById(item.id)
@@ -479,6 +938,7 @@ function DragPreview({ item }: { item: DragItem }) {
           <ProjectStatusIndicator
             status={project.status}
             completion={completion}
+            isBlocked={isProjectBlocked(project.id)}
           />
           <span
             className={cn('truncate', getProjectTitleClass(project.status))}
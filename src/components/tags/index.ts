@@ -0,0 +1,4 @@
+export { TagChips } from './tag-chips'
+export { TagEditor } from './tag-editor'
+export { TagFilterMenu } from './tag-filter-menu'
+export { RenameTagDialog } from './rename-tag-dialog'
@@ -0,0 +1,95 @@
+import * as React from 'react'
+
+import { normalizeTag } from '@/lib/tags'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+/**
+ * RenameTagDialog - Rename a tag on every task and project that has it.
+ *
+ * Opened from a tag's context menu in the sidebar. Renaming to a tag that
+ * already exists merges the two.
+ */
+
+interface RenameTagFormProps {
+  tag: string
+  onRename: (newTag: string) => void
+  onCancel: () => void
+}
+
+// Mounted only while the dialog is open, so every open starts from `tag`
+function RenameTagForm({ tag, onRename, onCancel }: RenameTagFormProps) {
+  const [name, setName] = React.useState(tag)
+  const normalized = normalizeTag(name)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!normalized) return
+    onRename(normalized)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-4">
+      <DialogHeader>
+        <DialogTitle>Rename tag</DialogTitle>
+        <DialogDescription className="text-xs">
+          Renames #{tag} everywhere it is used.
+        </DialogDescription>
+      </DialogHeader>
+
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        aria-label="Tag name"
+        autoFocus
+      />
+
+      <DialogFooter>
+        <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={!normalized}>
+          Rename
+        </Button>
+      </DialogFooter>
+    </form>
+  )
+}
+
+interface RenameTagDialogProps {
+  /** The tag being renamed; undefined closes the dialog */
+  tag?: string
+  onOpenChange: (open: boolean) => void
+  onRename: (tag: string, newTag: string) => void
+}
+
+export function RenameTagDialog({
+  tag,
+  onOpenChange,
+  onRename,
+}: RenameTagDialogProps) {
+  return (
+    <Dialog open={tag !== undefined} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        {tag !== undefined && (
+          <RenameTagForm
+            tag={tag}
+            onRename={(newTag) => {
+              onRename(tag, newTag)
+              onOpenChange(false)
+            }}
+            onCancel={() => onOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,40 @@
+import { cn } from '@/lib/utils'
+
+/**
+ * TagChips - Read-only `#tag` labels for task rows and cards.
+ *
+ * Shows up to `max` tags followed by a "+N" count for the rest, so long
+ * tag lists don't push other metadata out of a row.
+ */
+interface TagChipsProps {
+  tags?: string[]
+  /** Most tags shown before collapsing the rest into "+N" */
+  max?: number
+  className?: string
+}
+
+export function TagChips({ tags, max = 3, className }: TagChipsProps) {
+  if (!tags?.length) return null
+
+  const shown = tags.slice(0, max)
+  const hidden = tags.length - shown.length
+
+  return (
+    <span
+      className={cn('flex items-center gap-1 min-w-0', className)}
+      title={tags.map((tag) => `#${tag}`).join(' ')}
+    >
+      {shown.map((tag) => (
+        <span
+          key={tag}
+          className="rounded-full bg-entity-tag/15 px-1.5 text-entity-tag truncate max-w-24"
+        >
+          #{tag}
+        </span>
+      ))}
+      {hidden > 0 && (
+        <span className="text-muted-foreground shrink-0">+{hidden}</span>
+      )}
+    </span>
+  )
+}
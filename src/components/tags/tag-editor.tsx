@@ -0,0 +1,98 @@
+import * as React from 'react'
+import { PlusIcon } from 'lucide-react'
+
+import { normalizeTag } from '@/lib/tags'
+import {
+  Combobox,
+  ComboboxChip,
+  ComboboxChips,
+  ComboboxChipsInput,
+  ComboboxContent,
+  ComboboxEmpty,
+  ComboboxItem,
+  ComboboxList,
+  ComboboxValue,
+  useComboboxAnchor,
+} from '@/components/ui/combobox'
+
+/**
+ * TagEditor - Chips input for a task's or project's tags.
+ *
+ * Suggests tags already in use; typing a new name offers to create it.
+ * Names are normalized as they're added (see lib/tags), so "#Deep Work"
+ * becomes "deep-work". Backspace in the empty input removes the last tag.
+ */
+interface TagEditorProps {
+  value: string[]
+  onChange: (tags: string[]) => void
+  /** Tags to suggest (e.g., every tag in use) */
+  suggestions: string[]
+  placeholder?: string
+}
+
+export function TagEditor({
+  value,
+  onChange,
+  suggestions,
+  placeholder = 'Add tags...',
+}: TagEditorProps) {
+  const anchor = useComboboxAnchor()
+  const [inputValue, setInputValue] = React.useState('')
+
+  const typed = normalizeTag(inputValue)
+  // Offer the typed name as a new tag unless it already exists
+  const newTag =
+    typed && !suggestions.includes(typed) && !value.includes(typed)
+      ? typed
+      : undefined
+
+  const items = newTag ? [...suggestions, newTag] : suggestions
+  const filteredItems = items.filter((tag) => tag.includes(typed))
+
+  return (
+    <Combobox
+      multiple
+      items={items}
+      filteredItems={filteredItems}
+      value={value}
+      onValueChange={(tags: string[]) => {
+        onChange(tags)
+        setInputValue('')
+      }}
+      inputValue={inputValue}
+      onInputValueChange={setInputValue}
+    >
+      <ComboboxChips ref={anchor}>
+        <ComboboxValue>
+          {(selected: string[]) => (
+            <>
+              {selected.map((tag) => (
+                <ComboboxChip key={tag}>#{tag}</ComboboxChip>
+              ))}
+              <ComboboxChipsInput
+                placeholder={selected.length === 0 ? placeholder : undefined}
+              />
+            </>
+          )}
+        </ComboboxValue>
+      </ComboboxChips>
+      <ComboboxContent anchor={anchor}>
+        <ComboboxEmpty>Type to create a tag</ComboboxEmpty>
+        <ComboboxList>
+          {(tag: string) => (
+            <ComboboxItem key={tag} value={tag}>
+              {tag === newTag ? (
+                <>
+                  <PlusIcon className="text-muted-foreground" />
+                  Create #{tag}
+                </>
+              ) : (
+                `#${tag}`
+              )}
+            </ComboboxItem>
+          )}
+        </ComboboxList>
+      </ComboboxContent>
+    </Combobox>
+  )
+}
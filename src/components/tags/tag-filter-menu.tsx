@@ -0,0 +1,82 @@
+import { TagIcon, X } from 'lucide-react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { useTagFilterStore } from '@/store/tag-filter-store'
+import { cn } from '@/lib/utils'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuGroup,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+
+/**
+ * TagFilterMenu - ViewHeader control for the shared tag filter.
+ *
+ * Lists every tag in use; checked tags narrow list and kanban views to
+ * tasks that have all of them (see tag-filter-store). The trigger shows
+ * the active tags so a filtered view is never mistaken for an empty one.
+ */
+export function TagFilterMenu() {
+  const { getAllTags } = useAppData()
+  const tags = useTagFilterStore((s) => s.tags)
+  const toggleTag = useTagFilterStore((s) => s.toggleTag)
+  const clearTags = useTagFilterStore((s) => s.clearTags)
+
+  const allTags = getAllTags()
+  // Nothing to filter by, and no stale filter to clear
+  if (allTags.length === 0 && tags.length === 0) return null
+
+  const isActive = tags.length > 0
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        className={cn(
+          'inline-flex items-center gap-1 rounded-full px-2.5 py-1 text-xs font-medium shrink-0 min-w-0 transition-colors',
+          isActive
+            ? 'bg-entity-tag/15 text-entity-tag hover:bg-entity-tag/25'
+            : 'text-muted-foreground hover:bg-muted'
+        )}
+        title="Filter by tag"
+      >
+        <TagIcon className="size-3.5 shrink-0" />
+        <span className="truncate max-w-40">
+          {isActive ? tags.map((tag) => `#${tag}`).join(' ') : 'Tags'}
+        </span>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="min-w-44">
+        <DropdownMenuGroup>
+          <DropdownMenuLabel>Show tasks tagged</DropdownMenuLabel>
+          {allTags.map(({ tag, taskCount }) => (
+            <DropdownMenuCheckboxItem
+              key={tag}
+              checked={tags.includes(tag)}
+              onCheckedChange={() => toggleTag(tag)}
+              closeOnClick={false}
+            >
+              <span className="truncate">#{tag}</span>
+              <span className="ms-auto text-xs text-muted-foreground tabular-nums">
+                {taskCount}
+              </span>
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuGroup>
+        {isActive && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={clearTags}>
+              <X />
+              Clear tag filter
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,187 @@
+import * as React from 'react'
+import { ListTodo } from 'lucide-react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData, type CreateTaskOptions } from '@/context/app-data-context'
+import { useTaskDetailStore } from '@/store/task-detail-store'
+import type { QuickEntryFields } from '@/lib/quick-entry'
+import type { AreaTaskGroup } from '@/lib/task-groups'
+import { ProjectTaskGroup } from './project-task-group'
+import { SectionTaskGroup } from './section-task-group'
+import {
+  TaskDndContext,
+  getAreaIdFromLooseTasksProjectId,
+  getLooseTasksProjectId,
+} from './task-dnd-context'
+import type { Task } from '@/types/data'
+
+/**
+ * AreaTaskGroupList - Tasks from every area, laid out like AreaView's list
+ * mode: one section per area with its loose tasks and a collapsible group
+ * per project (see lib/task-groups).
+ *
+ * Used by AnytimeView and SomedayView. Tasks can be reordered and dragged
+ * between projects and areas' loose tasks; tasks without an area or
+ * project only reorder among themselves, as in NoAreaView.
+ */
+interface AreaTaskGroupListProps {
+  groups: AreaTaskGroup[]
+  /** Applied to tasks created in any group (e.g. status and tags) */
+  newTaskOptions?: Pick<CreateTaskOptions, 'status' | 'tags'>
+  /** Extra controls shown in an area's heading */
+  renderGroupActions?: (group: AreaTaskGroup) => React.ReactNode
+  onNavigateToProject: (projectId: string) => void
+  onNavigateToArea: (areaId: string) => void
+}
+
+const ORPHAN_SECTION_ID = 'orphan-tasks'
+
+export function AreaTaskGroupList({
+  groups,
+  newTaskOptions,
+  renderGroupActions,
+  onNavigateToProject,
+  onNavigateToArea,
+}: AreaTaskGroupListProps) {
+  const {
+    getTaskById,
+    getProjectCompletion,
+    getProjectRemainingEstimate,
+    isProjectBlocked,
+    createTask,
+    updateTaskTitle,
+    toggleTaskStatus,
+    reorderTasksByIds,
+    moveTaskToProject,
+    moveTaskToLooseTasks,
+  } = useAppData()
+  const { openTask } = useTaskDetailStore()
+
+  // Build tasksByProject map for TaskDndContext (areas' loose tasks as
+  // pseudo-projects)
+  const tasksByProject = React.useMemo(() => {
+    const map = new Map<string, Task[]>()
+    for (const group of groups) {
+      if (group.area) {
+        map.set(getLooseTasksProjectId(group.area.id), group.looseTasks)
+      }
+      for (const { project, tasks } of group.projects) {
+        map.set(project.id, tasks)
+      }
+    }
+    return map
+  }, [groups])
+
+  // The lists show a subset of each project's tasks; reorderTasksByIds
+  // leaves the hidden ones in place
+  const handleTasksReorder = (reorderedTasks: Task[]) => {
+    reorderTasksByIds(reorderedTasks.map((t) => t.id))
+  }
+
+  const handleTasksMove = (
+    taskIds: string[],
+    toProjectId: string,
+    insertBeforeTaskId: string | null
+  ) => {
+    const areaId = getAreaIdFromLooseTasksProjectId(toProjectId)
+    for (const taskId of taskIds) {
+      if (areaId) {
+        moveTaskToLooseTasks(taskId, areaId, insertBeforeTaskId)
+      } else {
+        moveTaskToProject(taskId, toProjectId, insertBeforeTaskId)
+      }
+    }
+  }
+
+  const makeCreateTaskHandler =
+    (target: Pick<CreateTaskOptions, 'projectId' | 'areaId'>) =>
+    (afterTaskId: string | null, quickEntry?: QuickEntryFields) =>
+      createTask({
+        ...newTaskOptions,
+        ...target,
+        insertAfterId: afterTaskId ?? undefined,
+        quickEntry,
+      })
+
+  return (
+    <TaskDndContext
+      tasksByProject={tasksByProject}
+      onTasksMove={handleTasksMove}
+      onTasksReorder={(_projectId, reorderedTasks) =>
+        handleTasksReorder(reorderedTasks)
+      }
+      getTaskById={getTaskById}
+    >
+      <div className="space-y-8">
+        {groups.map((group) => {
+          const { area } = group
+          return (
+            <section key={group.key}>
+              <div className="flex items-center gap-2 mb-3">
+                <h2 className="text-sm font-medium text-muted-foreground">
+                  {area ? (
+                    <button
+                      type="button"
+                      onClick={() => onNavigateToArea(area.id)}
+                      className="hover:text-foreground transition-colors"
+                    >
+                      {area.title}
+                    </button>
+                  ) : (
+                    'No Area'
+                  )}
+                </h2>
+                <div className="ml-auto flex items-center gap-1">
+                  {renderGroupActions?.(group)}
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                {group.looseTasks.length > 0 && (
+                  <SectionTaskGroup
+                    sectionId={
+                      area ? getLooseTasksProjectId(area.id) : ORPHAN_SECTION_ID
+                    }
+                    title="Loose Tasks"
+                    icon={<ListTodo className="size-4" />}
+                    tasks={group.looseTasks}
+                    onTasksReorder={handleTasksReorder}
+                    onTaskTitleChange={updateTaskTitle}
+                    onTaskStatusToggle={toggleTaskStatus}
+                    onTaskOpenDetail={openTask}
+                    onCreateTask={makeCreateTaskHandler({ areaId: area?.id })}
+                    showScheduled={true}
+                    showDue={true}
+                    defaultExpanded={true}
+                    useExternalDnd={Boolean(area)}
+                  />
+                )}
+
+                {group.projects.map(({ project, tasks }) => (
+                  <ProjectTaskGroup
+                    key={project.id}
+                    project={project}
+                    tasks={tasks}
+                    completion={getProjectCompletion(project.id)}
+                    isBlocked={isProjectBlocked(project.id)}
+                    remainingEstimate={getProjectRemainingEstimate(project.id)}
+                    onOpenProject={() => onNavigateToProject(project.id)}
+                    onTasksReorder={handleTasksReorder}
+                    onTaskTitleChange={updateTaskTitle}
+                    onTaskStatusToggle={toggleTaskStatus}
+                    onTaskOpenDetail={openTask}
+                    onCreateTask={makeCreateTaskHandler({
+                      projectId: project.id,
+                    })}
+                    showScheduled={true}
+                    showDue={true}
+                  />
+                ))}
+              </div>
+            </section>
+          )
+        })}
+      </div>
+    </TaskDndContext>
+  )
+}
@@ -0,0 +1,261 @@
+import * as React from 'react'
+import {
+  Calendar,
+  ChevronDown,
+  CircleDot,
+  Flag,
+  FolderOpen,
+  Trash2,
+  X,
+} from 'lucide-react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { useTaskDetailStore } from '@/store/task-detail-store'
+import { useTaskSelectionStore } from '@/store/task-selection-store'
+import { cn } from '@/lib/utils'
+import {
+  taskStatusConfig,
+  taskPrimaryStatuses,
+  taskSecondaryStatuses,
+} from '@/config/status'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { DateButton } from '@/components/ui/date-button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { SearchableSelect } from '@/components/ui/searchable-select'
+import type { Task, TaskStatus } from '@/types/data'
+
+/**
+ * BulkActionBar - Edits the tasks of the multi-selection at once.
+ *
+ * Floats over the bottom of the main content while two or more tasks are
+ * selected (task-selection-store). Sets the status, scheduled date, due
+ * date, project or area of every selected task, or deletes them after
+ * confirmation - each as a single undo step. A picker shows the current
+ * value when all the selected tasks share it. Moving to a project or area
+ * works like dragging there: the task leaves its old project.
+ */
+export function BulkActionBar() {
+  const selectedIds = useTaskSelectionStore((state) => state.selectedIds)
+  const clearSelection = useTaskSelectionStore((state) => state.clearSelection)
+  const {
+    getTaskById,
+    getActiveProjects,
+    getActiveAreas,
+    getProjectById,
+    getAreaById,
+    updateTaskStatus,
+    updateTaskScheduled,
+    updateTaskDue,
+    updateTaskProject,
+    updateTaskArea,
+    moveTaskToProject,
+    moveTaskToLooseTasks,
+    deleteTask,
+    groupChanges,
+  } = useAppData()
+  const [isDeleteOpen, setDeleteOpen] = React.useState(false)
+
+  // Deleted tasks may linger in the selection
+  const tasks = selectedIds
+    .map((id) => getTaskById(id))
+    .filter((t): t is Task => t !== undefined)
+
+  if (tasks.length < 2) return null
+
+  // The value every selected task has, if they agree
+  const getSharedValue = <T,>(getValue: (task: Task) => T): T | undefined =>
+    tasks.every((t) => getValue(t) === getValue(tasks[0]))
+      ? getValue(tasks[0])
+      : undefined
+
+  const sharedStatus = getSharedValue((t) => t.status)
+  const sharedProjectId = getSharedValue((t) => t.projectId)
+  const sharedAreaId = getSharedValue((t) =>
+    t.projectId ? undefined : t.areaId
+  )
+
+  const applyToAll = (label: string, change: (taskId: string) => void) => {
+    groupChanges(() => {
+      for (const task of tasks) change(task.id)
+    }, label)
+  }
+
+  const handleStatusChange = (status: TaskStatus) =>
+    applyToAll('Change task status', (id) => updateTaskStatus(id, status))
+
+  const handleProjectChange = (projectId: string | undefined) =>
+    applyToAll('Move tasks', (id) =>
+      projectId
+        ? moveTaskToProject(id, projectId)
+        : updateTaskProject(id, undefined)
+    )
+
+  const handleAreaChange = (areaId: string | undefined) =>
+    applyToAll('Move tasks', (id) =>
+      areaId ? moveTaskToLooseTasks(id, areaId) : updateTaskArea(id, undefined)
+    )
+
+  const handleDelete = () => {
+    applyToAll('Delete tasks', deleteTask)
+    const { openTaskId, closeTask } = useTaskDetailStore.getState()
+    if (openTaskId && selectedIds.includes(openTaskId)) closeTask()
+    clearSelection()
+  }
+
+  const renderStatusItem = (status: TaskStatus) => (
+    <DropdownMenuItem
+      key={status}
+      onClick={() => handleStatusChange(status)}
+      className={cn('cursor-pointer', status === sharedStatus && 'bg-accent')}
+    >
+      <span
+        className={cn(
+          'px-1.5 py-0.5 rounded text-xs font-medium',
+          taskStatusConfig[status].color
+        )}
+      >
+        {taskStatusConfig[status].label}
+      </span>
+    </DropdownMenuItem>
+  )
+
+  return (
+    <>
+      <div
+        role="toolbar"
+        aria-label="Selected tasks"
+        className="@container absolute bottom-4 left-1/2 z-20 flex w-max max-w-[calc(100%-2rem)] -translate-x-1/2 items-center gap-2 rounded-xl border bg-popover px-3 py-2 shadow-lg"
+      >
+        <span className="text-sm font-medium tabular-nums whitespace-nowrap">
+          {tasks.length} selected
+        </span>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger
+            render={<Button variant="outline" size="sm" className="h-8" />}
+          >
+            {sharedStatus ? taskStatusConfig[sharedStatus].label : 'Status'}
+            <ChevronDown className="size-3 opacity-60" />
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {taskPrimaryStatuses.map(renderStatusItem)}
+            <DropdownMenuSeparator />
+            {taskSecondaryStatuses.map(renderStatusItem)}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DateButton
+          icon={<Calendar className="size-3" />}
+          value={getSharedValue((t) => t.scheduled)}
+          onChange={(date) =>
+            applyToAll('Change scheduled date', (id) =>
+              updateTaskScheduled(id, date)
+            )
+          }
+          tooltip="Schedule"
+          variant="scheduled"
+        />
+        <DateButton
+          icon={<Flag className="size-3" />}
+          value={getSharedValue((t) => t.due)}
+          onChange={(date) =>
+            applyToAll('Change due date', (id) => updateTaskDue(id, date))
+          }
+          tooltip="Due"
+          variant="due"
+        />
+
+        <div className="flex w-64 gap-2">
+          <SearchableSelect
+            value={sharedProjectId}
+            options={getActiveProjects().map((p) => ({
+              value: p.id,
+              label: p.title,
+            }))}
+            placeholder="Project..."
+            displayValue={
+              sharedProjectId
+                ? getProjectById(sharedProjectId)?.title
+                : undefined
+            }
+            icon={<CircleDot className="size-3 text-entity-project" />}
+            onChange={handleProjectChange}
+            emptyText="No projects found"
+          />
+          <SearchableSelect
+            value={sharedAreaId}
+            options={getActiveAreas().map((a) => ({
+              value: a.id,
+              label: a.title,
+            }))}
+            placeholder="Area..."
+            displayValue={
+              sharedAreaId ? getAreaById(sharedAreaId)?.title : undefined
+            }
+            icon={<FolderOpen className="size-3 text-entity-area" />}
+            onChange={handleAreaChange}
+            emptyText="No areas found"
+          />
+        </div>
+
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          className="text-destructive hover:text-destructive"
+          onClick={() => setDeleteOpen(true)}
+          title="Delete tasks"
+        >
+          <Trash2 />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={clearSelection}
+          title="Clear selection"
+        >
+          <X />
+        </Button>
+      </div>
+
+      <AlertDialog open={isDeleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent size="sm">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {tasks.length} tasks?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The selected tasks will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              variant="destructive"
+              onClick={() => {
+                handleDelete()
+                setDeleteOpen(false)
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
@@ -0,0 +1,41 @@
+import { ListChecks } from 'lucide-react'
+
+import { getChecklistProgress } from '@/lib/checklist'
+import { cn } from '@/lib/utils'
+import type { ChecklistItem } from '@/types/data'
+
+/**
+ * ChecklistProgressBadge - How much of a task's checklist is ticked off.
+ *
+ * Shows a checklist icon with "done/total", green once every item is done.
+ * Used in TaskItem's metadata and TaskCard's footer. Renders nothing when
+ * the task has no checklist.
+ */
+interface ChecklistProgressBadgeProps {
+  checklist: ChecklistItem[] | undefined
+  className?: string
+}
+
+export function ChecklistProgressBadge({
+  checklist,
+  className,
+}: ChecklistProgressBadgeProps) {
+  const progress = getChecklistProgress(checklist)
+  if (!progress) return null
+
+  const isComplete = progress.done === progress.total
+
+  return (
+    <span
+      className={cn(
+        'flex items-center gap-0.5 whitespace-nowrap shrink-0 tabular-nums',
+        isComplete ? 'text-status-done' : 'text-muted-foreground',
+        className
+      )}
+      title={`Checklist: ${progress.done} of ${progress.total} done`}
+    >
+      <ListChecks className="size-3" />
+      {progress.done}/{progress.total}
+    </span>
+  )
+}
@@ -0,0 +1,55 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import type { Task } from '@/types/data'
+
+/**
+ * DeleteTaskDialog - Confirmation before deleting a task.
+ *
+ * Controlled: the caller owns `task` (null when closed) and performs the
+ * delete in `onConfirm`. Deleting can still be undone with Cmd+Z.
+ */
+interface DeleteTaskDialogProps {
+  task: Task | null
+  onOpenChange: (open: boolean) => void
+  onConfirm: (taskId: string) => void
+}
+
+export function DeleteTaskDialog({
+  task,
+  onOpenChange,
+  onConfirm,
+}: DeleteTaskDialogProps) {
+  return (
+    <AlertDialog open={task !== null} onOpenChange={onOpenChange}>
+      <AlertDialogContent size="sm">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete task?</AlertDialogTitle>
+          <AlertDialogDescription>
+            &ldquo;{task?.title || 'Untitled task'}&rdquo; will be permanently
+            deleted.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            variant="destructive"
+            onClick={() => {
+              if (task) onConfirm(task.id)
+              onOpenChange(false)
+            }}
+          >
+            Delete
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
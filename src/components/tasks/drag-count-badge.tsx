@@ -0,0 +1,25 @@
+import { cn } from '@/lib/utils'
+
+/**
+ * DragCountBadge - How many tasks a drag is moving.
+ *
+ * Shown on the drag previews (TaskDragPreview, the kanban DragOverlay) when
+ * a multi-selection is dragged.
+ */
+interface DragCountBadgeProps {
+  count: number
+  className?: string
+}
+
+export function DragCountBadge({ count, className }: DragCountBadgeProps) {
+  return (
+    <span
+      className={cn(
+        'shrink-0 min-w-5 rounded-full bg-primary px-1.5 py-0.5 text-center text-2xs font-medium tabular-nums text-primary-foreground',
+        className
+      )}
+    >
+      {count}
+    </span>
+  )
+}
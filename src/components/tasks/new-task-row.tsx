@@ -0,0 +1,123 @@
+import * as React from 'react'
+import { Flag, FolderOpen, CircleDot } from 'lucide-react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { cn } from '@/lib/utils'
+import { formatRelativeDate } from '@/lib/date-utils'
+import { parseQuickEntry, type QuickEntryFields } from '@/lib/quick-entry'
+import { TaskStatusCheckbox } from './task-status-checkbox'
+import { QuickEntryInput } from './quick-entry-input'
+
+/**
+ * NewTaskRow - Inline quick-entry row for creating a task in TaskList.
+ *
+ * Shown where the new task will go when Cmd/Ctrl+N is pressed. Typed text
+ * is parsed as it changes (parseQuickEntry), recognized dates, #areas and
+ * @projects are highlighted, and what they resolve to is previewed on the
+ * right. Enter or blur submits the parsed fields; Escape, or submitting
+ * with an empty title, cancels.
+ */
+interface NewTaskRowProps {
+  onSubmit: (fields: QuickEntryFields) => void
+  onCancel: () => void
+  className?: string
+}
+
+export function NewTaskRow({ onSubmit, onCancel, className }: NewTaskRowProps) {
+  const { getActiveAreas, getActiveProjects, getAreaById, getProjectById } =
+    useAppData()
+  const [value, setValue] = React.useState('')
+  // Enter submits, then the row unmounts and blurs - only finish once
+  const doneRef = React.useRef(false)
+
+  const parsed = parseQuickEntry(value, {
+    areas: getActiveAreas(),
+    projects: getActiveProjects(),
+  })
+
+  const finish = () => {
+    if (doneRef.current) return
+    doneRef.current = true
+    if (parsed.title) {
+      onSubmit(parsed)
+    } else {
+      onCancel()
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Keep list shortcuts (Space, arrows, Delete) out of the input
+    e.stopPropagation()
+
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      finish()
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      doneRef.current = true
+      onCancel()
+    }
+  }
+
+  const project = parsed.projectId
+    ? getProjectById(parsed.projectId)
+    : undefined
+  // Given both, the task goes to the project (see createTask)
+  const area =
+    parsed.areaId && !project ? getAreaById(parsed.areaId) : undefined
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-3 px-2 py-2 rounded-lg ring-2 ring-primary',
+        className
+      )}
+    >
+      <TaskStatusCheckbox status="ready" onToggle={() => {}} />
+      <QuickEntryInput
+        autoFocus
+        value={value}
+        tokens={parsed.tokens}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={finish}
+        className="flex-1"
+        placeholder="New task… try “tomorrow due fri #Area @Project”"
+        aria-label="New task"
+      />
+
+      {/* Preview of what the tokens resolve to */}
+      <div className="flex items-center gap-1.5 text-xs text-muted-foreground min-w-0 shrink-0">
+        {project && (
+          <span className="flex items-center gap-0.5 truncate max-w-28">
+            <CircleDot className="size-3 shrink-0 text-entity-project" />
+            {project.title}
+          </span>
+        )}
+        {area && (
+          <span className="flex items-center gap-0.5 truncate max-w-28">
+            <FolderOpen className="size-3 shrink-0 text-entity-area" />
+            {area.title}
+          </span>
+        )}
+        {parsed.deferUntil && (
+          <span className="whitespace-nowrap text-status-icebox">
+            From {formatRelativeDate(parsed.deferUntil)}
+          </span>
+        )}
+        {parsed.scheduled && (
+          <span className="whitespace-nowrap">
+            {formatRelativeDate(parsed.scheduled)}
+          </span>
+        )}
+        {parsed.due && (
+          <span className="flex items-center gap-0.5 whitespace-nowrap text-date-due/80">
+            <Flag className="size-3" />
+            {formatRelativeDate(parsed.due)}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
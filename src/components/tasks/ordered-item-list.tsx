@@ -6,34 +6,43 @@ import {
 } from '@dnd-kit/sortable'
 
 import { cn } from '@/lib/utils'
+import type { QuickEntryFields } from '@/lib/quick-entry'
 import type { Task } from '@/types/data'
-import type { HeadingColor } from '@/types/headings'
-import { toHeadingId } from '@/types/headings'
-import type { ResolvedOrderedItem } from '@/hooks/use-today-order'
+import type {
+  Heading,
+  HeadingColor,
+  ResolvedOrderedItem,
+} from '@/types/headings'
+import { getOrderedItemDragId, toOrderId } from '@/types/headings'
 import { TaskListItem } from './task-list-item'
 import { HeadingListItem } from '@/components/headings'
-import { useTaskDragPreview } from './task-dnd-context'
+import { TaskDndContext, useTaskDragPreview } from './task-dnd-context'
+import { DeleteTaskDialog } from './delete-task-dialog'
+import { NewTaskRow } from './new-task-row'
+import { useTaskActions } from '@/hooks/use-task-actions'
 
 /**
  * OrderedItemList - Mixed list of tasks and inline headings with drag-and-drop.
  *
- * Used in TodayView's "Scheduled for Today" section where users can add
- * headings to organize their daily tasks into groups.
+ * Used wherever users can organize tasks under headings: ProjectView,
+ * InboxView, an area's loose tasks and TodayView's "Scheduled for Today".
+ * Expects a parent TaskDndContext (drag IDs come from getOrderedItemDragId);
+ * DraggableOrderedItemList brings its own for lists that stand alone.
  *
- * Items come from useTodayOrder hook which maintains a separate display order
- * that includes both tasks and heading IDs. The order is persisted separately
- * from task entity data.
+ * Items come from useHeadingList, which interleaves the list's tasks with
+ * its persisted headings (AppData.headings).
  *
  * Keyboard shortcuts:
  * - Arrow keys: Navigate selection
  * - Enter: Edit selected item (title for tasks/headings)
  * - Space: Toggle task status (tasks only)
- * - Delete/Backspace: Delete heading (headings only)
- * - Cmd/Ctrl+N: Create new task after selection
+ * - Delete/Backspace: Delete heading, or task (with confirmation)
+ * - Cmd/Ctrl+D: Duplicate task (tasks only)
+ * - Cmd/Ctrl+N: New task after selection (quick-entry row)
  * - Cmd/Ctrl+Arrow: Reorder selected item
  */
 interface OrderedItemListProps {
-  /** Ordered items (tasks and headings) from getOrderedItems() */
+  /** Ordered items (tasks and headings) from useHeadingList */
   items: ResolvedOrderedItem[]
   /** Container ID for drag operations */
   containerId: string
@@ -44,7 +53,15 @@ interface OrderedItemListProps {
   onTaskTitleChange: (taskId: string, newTitle: string) => void
   onTaskStatusToggle: (taskId: string) => void
   onTaskOpenDetail?: (taskId: string) => void
-  onCreateTask?: (afterItemId: string | null) => string | void
+  /**
+   * Called when a task is entered after Cmd/Ctrl+N, with the order ID of
+   * the item it follows and the fields parsed from the quick-entry row.
+   * Returns the new task ID to select.
+   */
+  onCreateTask?: (
+    afterItemId: string | null,
+    quickEntry?: QuickEntryFields
+  ) => string | void
 
   // Heading handlers
   onHeadingTitleChange: (headingId: string, newTitle: string) => void
@@ -85,7 +102,9 @@ interface OrderedItemListProps {
  * - Escape: Cancel editing, or deselect
  * - Cmd/Ctrl + Arrow Up/Down: Reorder selected item
  * - Space: Toggle task status (only for tasks)
- * - Delete/Backspace: Delete heading (only for headings)
+ * - Delete/Backspace: Delete heading, or task (with confirmation)
+ * - Cmd/Ctrl + D: Duplicate task (only for tasks)
+ * - Cmd/Ctrl + N: New task after selected item (quick-entry row)
  */
 export function OrderedItemList({
   items,
@@ -131,8 +150,23 @@ export function OrderedItemList({
       : internalEditingItemId
   const setEditingItemId = onEditingItemIdChange ?? setInternalEditingItemId
 
+  // Quick-entry row for a new task, shown after this item (null: at the end)
+  const [newTaskAfterId, setNewTaskAfterId] = React.useState<
+    string | null | undefined
+  >(undefined)
+  const isCreating = newTaskAfterId !== undefined
+  // Just created from the quick-entry row, to select once it shows up
+  const [createdTaskId, setCreatedTaskId] = React.useState<string | null>(null)
+
+  const { requestDelete, duplicateTask, deleteDialogProps } = useTaskActions()
+
   // Get drag context to check for dropped task
-  const { lastDroppedTaskId, clearLastDroppedTaskId } = useTaskDragPreview()
+  const {
+    lastDroppedTaskId,
+    clearLastDroppedTaskId,
+    crossContainerHover,
+    clearCrossContainerHover,
+  } = useTaskDragPreview()
 
   // Select the dropped task after a drag ends
   React.useEffect(() => {
@@ -149,6 +183,37 @@ export function OrderedItemList({
     }
   }, [lastDroppedTaskId, items, setSelectedIndex, clearLastDroppedTaskId])
 
+  // Clean up cross-container hover state once the dropped task appears
+  const droppedTaskInList =
+    lastDroppedTaskId !== null &&
+    items.some((item) => item.type === 'task' && item.id === lastDroppedTaskId)
+  React.useEffect(() => {
+    if (
+      droppedTaskInList &&
+      crossContainerHover?.targetContainerId === containerId
+    ) {
+      clearLastDroppedTaskId()
+      clearCrossContainerHover()
+    }
+  }, [
+    droppedTaskInList,
+    crossContainerHover?.targetContainerId,
+    containerId,
+    clearLastDroppedTaskId,
+    clearCrossContainerHover,
+  ])
+
+  // Select a task created from the quick-entry row. Its tokens may have put
+  // it in another list or on another date - then the selection stays put
+  React.useEffect(() => {
+    if (!createdTaskId) return
+    const createdIndex = items.findIndex(
+      (item) => item.type === 'task' && item.id === createdTaskId
+    )
+    if (createdIndex !== -1) setSelectedIndex(createdIndex)
+    setCreatedTaskId(null)
+  }, [createdTaskId, items, setSelectedIndex])
+
   // Keep selection valid when items change
   React.useEffect(() => {
     if (selectedIndex !== null && selectedIndex >= items.length) {
@@ -184,21 +249,15 @@ export function OrderedItemList({
     onAutoEditConsumed,
   ])
 
-  // Helper to get the order ID for an item (with prefix for headings)
-  const getOrderId = (item: ResolvedOrderedItem): string => {
-    return item.type === 'heading' ? toHeadingId(item.id) : item.id
-  }
-
   // Helper to get the drag ID for an item
-  const getDragId = (item: ResolvedOrderedItem): string => {
-    return item.type === 'heading'
-      ? `heading-${containerId}-${item.id}`
-      : `task-${containerId}-${item.id}`
-  }
+  const getDragId = (item: ResolvedOrderedItem): string =>
+    getOrderedItemDragId(containerId, item)
 
   // Keyboard navigation
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (editingItemId) return
+    // Ignore keys from portalled popups (e.g., a row's context menu)
+    if (!containerRef.current?.contains(e.target as Node)) return
 
     const isMeta = e.metaKey || e.ctrlKey
     const selectedItem = selectedIndex !== null ? items[selectedIndex] : null
@@ -210,7 +269,7 @@ export function OrderedItemList({
           // Reorder: move item down
           if (selectedIndex < items.length - 1) {
             const newItems = arrayMove(items, selectedIndex, selectedIndex + 1)
-            onItemsReorder(newItems.map(getOrderId))
+            onItemsReorder(newItems.map(toOrderId))
             setSelectedIndex(selectedIndex + 1)
           }
         } else {
@@ -229,7 +288,7 @@ export function OrderedItemList({
           // Reorder: move item up
           if (selectedIndex > 0) {
             const newItems = arrayMove(items, selectedIndex, selectedIndex - 1)
-            onItemsReorder(newItems.map(getOrderId))
+            onItemsReorder(newItems.map(toOrderId))
             setSelectedIndex(selectedIndex - 1)
           }
         } else {
@@ -266,8 +325,11 @@ export function OrderedItemList({
 
       case 'Backspace':
       case 'Delete':
-        // Only delete headings
-        if (selectedItem?.type === 'heading') {
+        // Tasks are confirmed first - the dialog handles the rest
+        if (selectedItem?.type === 'task') {
+          e.preventDefault()
+          requestDelete(selectedItem.id)
+        } else if (selectedItem?.type === 'heading') {
           e.preventDefault()
           onHeadingDelete(selectedItem.id)
           // Move selection to next item or clear
@@ -285,20 +347,20 @@ export function OrderedItemList({
         }
         break
 
+      case 'd':
+      case 'D':
+        if (isMeta && selectedItem?.type === 'task') {
+          e.preventDefault()
+          duplicateTask(selectedItem.id)
+        }
+        break
+
       case 'n':
       case 'N':
-        if (isMeta && onCreateTask) {
+        // Shift+Cmd+N is the global quick-capture shortcut
+        if (isMeta && !e.shiftKey && onCreateTask) {
           e.preventDefault()
-          const afterItemId = selectedItem ? getOrderId(selectedItem) : null
-          const newTaskId = onCreateTask(afterItemId)
-          if (newTaskId) {
-            setEditingItemId(newTaskId)
-            if (selectedIndex !== null) {
-              setSelectedIndex(selectedIndex + 1)
-            } else {
-              setSelectedIndex(items.length)
-            }
-          }
+          setNewTaskAfterId(selectedItem ? toOrderId(selectedItem) : null)
         }
         break
     }
@@ -319,6 +381,23 @@ export function OrderedItemList({
     containerRef.current?.focus()
   }
 
+  const handleNewTaskSubmit = (quickEntry: QuickEntryFields) => {
+    const afterItemId = newTaskAfterId ?? null
+    setNewTaskAfterId(undefined)
+    const newTaskId = onCreateTask?.(afterItemId, quickEntry)
+    if (newTaskId) setCreatedTaskId(newTaskId)
+    containerRef.current?.focus()
+  }
+
+  const handleNewTaskCancel = () => {
+    setNewTaskAfterId(undefined)
+    containerRef.current?.focus()
+  }
+
+  const newTaskRow = isCreating && (
+    <NewTaskRow onSubmit={handleNewTaskSubmit} onCancel={handleNewTaskCancel} />
+  )
+
   // Generate drag IDs for sortable context
   const dragIds = items.map(getDragId)
 
@@ -343,67 +422,134 @@ export function OrderedItemList({
   }
 
   return (
-    <div
-      ref={containerRef}
-      className={cn('outline-none', className)}
-      tabIndex={0}
-      onKeyDown={handleKeyDown}
-      onBlur={handleBlur}
+    <>
+      <div
+        ref={containerRef}
+        className={cn('outline-none', className)}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onBlur={handleBlur}
+      >
+        <SortableContext items={dragIds} strategy={verticalListSortingStrategy}>
+          <div className="space-y-0.5">
+            {items.map((item, index) => (
+              <React.Fragment key={`${item.type}-${item.id}`}>
+                {item.type === 'task' ? (
+                  <TaskListItem
+                    task={item.data}
+                    dragId={getDragId(item)}
+                    projectId={containerId}
+                    isSelected={selectedIndex === index}
+                    isEditing={editingItemId === item.id}
+                    onSelect={() => handleSelect(index)}
+                    onStartEdit={() => handleStartEdit(item.id)}
+                    onEndEdit={handleEndEdit}
+                    onTitleChange={(newTitle) =>
+                      onTaskTitleChange(item.id, newTitle)
+                    }
+                    onStatusToggle={() => onTaskStatusToggle(item.id)}
+                    onOpenDetail={
+                      onTaskOpenDetail
+                        ? () => onTaskOpenDetail(item.id)
+                        : undefined
+                    }
+                    onDuplicate={() => duplicateTask(item.id)}
+                    onDelete={() => requestDelete(item.id)}
+                    contextName={getContextName?.(item.data)}
+                    showScheduled={showScheduled}
+                    showDue={showDue}
+                  />
+                ) : (
+                  <HeadingListItem
+                    heading={item.data}
+                    dragId={getDragId(item)}
+                    containerId={containerId}
+                    isSelected={selectedIndex === index}
+                    isEditing={editingItemId === item.id}
+                    onSelect={() => handleSelect(index)}
+                    onStartEdit={() => handleStartEdit(item.id)}
+                    onEndEdit={handleEndEdit}
+                    onTitleChange={(newTitle) =>
+                      onHeadingTitleChange(item.id, newTitle)
+                    }
+                    onColorChange={(color) =>
+                      onHeadingColorChange(item.id, color)
+                    }
+                    onDelete={() => onHeadingDelete(item.id)}
+                  />
+                )}
+                {newTaskAfterId === toOrderId(item) && newTaskRow}
+              </React.Fragment>
+            ))}
+            {newTaskAfterId === null && newTaskRow}
+          </div>
+        </SortableContext>
+      </div>
+
+      {/* Outside the list so dialog key presses don't reach handleKeyDown */}
+      <DeleteTaskDialog {...deleteDialogProps} />
+    </>
+  )
+}
+
+// -----------------------------------------------------------------------------
+// DraggableOrderedItemList - Standalone component with its own DndContext
+// -----------------------------------------------------------------------------
+
+interface DraggableOrderedItemListProps extends OrderedItemListProps {
+  /** Get a heading by its ID (for the drag preview) */
+  getHeadingById: (headingId: string) => Heading | undefined
+}
+
+// Tasks never leave a standalone list
+const noop = () => {}
+
+/**
+ * An OrderedItemList with its own TaskDndContext, for when it's the only
+ * drag-drop container (e.g., ProjectView, InboxView).
+ */
+export function DraggableOrderedItemList({
+  getHeadingById,
+  ...props
+}: DraggableOrderedItemListProps) {
+  const { items, containerId, onItemsReorder } = props
+
+  const tasksByProject = React.useMemo(
+    () =>
+      new Map([
+        [
+          containerId,
+          items.flatMap((item) => (item.type === 'task' ? [item.data] : [])),
+        ],
+      ]),
+    [items, containerId]
+  )
+
+  const getTaskById = (taskId: string) =>
+    tasksByProject.get(containerId)?.find((t) => t.id === taskId)
+
+  const handleItemsReorder = (
+    _containerId: string,
+    activeDragId: string,
+    overDragId: string
+  ) => {
+    const dragIds = items.map((item) => getOrderedItemDragId(containerId, item))
+    const oldIndex = dragIds.indexOf(activeDragId)
+    const newIndex = dragIds.indexOf(overDragId)
+    if (oldIndex === -1 || newIndex === -1) return
+    onItemsReorder(arrayMove(items, oldIndex, newIndex).map(toOrderId))
+  }
+
+  return (
+    <TaskDndContext
+      tasksByProject={tasksByProject}
+      onTasksMove={noop}
+      onTasksReorder={noop}
+      onItemsReorder={handleItemsReorder}
+      getTaskById={getTaskById}
+      getHeadingById={getHeadingById}
     >
-      <SortableContext items={dragIds} strategy={verticalListSortingStrategy}>
-        <div className="space-y-0.5">
-          {items.map((item, index) => {
-            if (item.type === 'task') {
-              return (
-                <TaskListItem
-                  key={`task-${item.id}`}
-                  task={item.data}
-                  dragId={getDragId(item)}
-                  projectId={containerId}
-                  isSelected={selectedIndex === index}
-                  isEditing={editingItemId === item.id}
-                  onSelect={() => handleSelect(index)}
-                  onStartEdit={() => handleStartEdit(item.id)}
-                  onEndEdit={handleEndEdit}
-                  onTitleChange={(newTitle) =>
-                    onTaskTitleChange(item.id, newTitle)
-                  }
-                  onStatusToggle={() => onTaskStatusToggle(item.id)}
-                  onOpenDetail={
-                    onTaskOpenDetail
-                      ? () => onTaskOpenDetail(item.id)
-                      : undefined
-                  }
-                  contextName={getContextName?.(item.data)}
-                  showScheduled={showScheduled}
-                  showDue={showDue}
-                />
-              )
-            } else {
-              return (
-                <HeadingListItem
-                  key={`heading-${item.id}`}
-                  heading={item.data}
-                  dragId={getDragId(item)}
-                  containerId={containerId}
-                  isSelected={selectedIndex === index}
-                  isEditing={editingItemId === item.id}
-                  onSelect={() => handleSelect(index)}
-                  onStartEdit={() => handleStartEdit(item.id)}
-                  onEndEdit={handleEndEdit}
-                  onTitleChange={(newTitle) =>
-                    onHeadingTitleChange(item.id, newTitle)
-                  }
-                  onColorChange={(color) =>
-                    onHeadingColorChange(item.id, color)
-                  }
-                  onDelete={() => onHeadingDelete(item.id)}
-                />
-              )
-            }
-          })}
-        </div>
-      </SortableContext>
-    </div>
+      <OrderedItemList {...props} />
+    </TaskDndContext>
   )
 }
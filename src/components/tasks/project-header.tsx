@@ -1,6 +1,7 @@
 import { ChevronRight } from 'lucide-react'
 
 import { cn } from '@/lib/utils'
+import { formatDuration } from '@/lib/time-blocks'
 import {
   ProjectStatusIndicator,
   getProjectTitleClass,
@@ -15,6 +16,7 @@ import { projectStatusConfig } from '@/config/status'
  * - Expand/collapse chevron
  * - Status indicator (progress circle or done/blocked icons)
  * - Project title
+ * - Remaining estimate (when its open tasks have estimates)
  * - Status badge
  *
  * Interactions:
@@ -24,6 +26,10 @@ import { projectStatusConfig } from '@/config/status'
 interface ProjectHeaderProps {
   project: Project
   completion: number
+  /** Waiting on a project that isn't done (see isProjectBlocked) */
+  isBlocked?: boolean
+  /** Minutes estimated for the open tasks (see getProjectRemainingEstimate) */
+  remainingEstimate?: number
   isExpanded: boolean
   onToggleExpand: () => void
   onOpenProject: () => void
@@ -37,6 +43,8 @@ interface ProjectHeaderProps {
 export function ProjectHeader({
   project,
   completion,
+  isBlocked,
+  remainingEstimate,
   isExpanded,
   onToggleExpand,
   onOpenProject,
@@ -71,7 +79,11 @@ export function ProjectHeader({
       />
 
       {/* Status indicator (progress circle or icon) */}
-      <ProjectStatusIndicator status={project.status} completion={completion} />
+      <ProjectStatusIndicator
+        status={project.status}
+        completion={completion}
+        isBlocked={isBlocked}
+      />
 
       {/* Project title */}
       <span
@@ -83,6 +95,16 @@ export function ProjectHeader({
         {project.title}
       </span>
 
+      {/* Estimated work left */}
+      {!!remainingEstimate && (
+        <span
+          className="shrink-0 text-xs tabular-nums text-muted-foreground"
+          title="Estimated work left"
+        >
+          {formatDuration(remainingEstimate)}
+        </span>
+      )}
+
       {/* Status badge */}
       <span
         className={cn(
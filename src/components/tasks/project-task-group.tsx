@@ -3,6 +3,7 @@ import { useDroppable } from '@dnd-kit/core'
 
 import { cn } from '@/lib/utils'
 import type { Project, Task } from '@/types/data'
+import type { QuickEntryFields } from '@/lib/quick-entry'
 import { ProjectHeader } from './project-header'
 import { TaskList } from './task-list'
 import { useTaskDragPreview } from './task-dnd-context'
@@ -21,6 +22,10 @@ interface ProjectTaskGroupProps {
   project: Project
   tasks: Task[]
   completion: number
+  /** Waiting on a project that isn't done (see isProjectBlocked) */
+  isBlocked?: boolean
+  /** Minutes estimated for the open tasks (see getProjectRemainingEstimate) */
+  remainingEstimate?: number
   onOpenProject: () => void
   onTasksReorder: (reorderedTasks: Task[]) => void
   onTaskTitleChange: (taskId: string, newTitle: string) => void
@@ -28,7 +33,10 @@ interface ProjectTaskGroupProps {
   /** Called when a task's open-detail button is clicked */
   onTaskOpenDetail?: (taskId: string) => void
   /** Called when Cmd/Ctrl+N is pressed to create a task */
-  onCreateTask?: (afterTaskId: string | null) => string | void
+  onCreateTask?: (
+    afterTaskId: string | null,
+    quickEntry?: QuickEntryFields
+  ) => string | void
   /** Function to get context name for a task (usually not needed within project group) */
   getContextName?: (task: Task) => string | undefined
   /** Whether to show scheduled dates (default: true) */
@@ -48,6 +56,8 @@ export function ProjectTaskGroup({
   project,
   tasks,
   completion,
+  isBlocked,
+  remainingEstimate,
   onOpenProject,
   onTasksReorder,
   onTaskTitleChange,
@@ -71,6 +81,8 @@ export function ProjectTaskGroup({
       <ProjectHeader
         project={project}
         completion={completion}
+        isBlocked={isBlocked}
+        remainingEstimate={remainingEstimate}
         isExpanded={isExpanded}
         onToggleExpand={handleToggleExpand}
         onOpenProject={onOpenProject}
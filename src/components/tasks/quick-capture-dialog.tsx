@@ -0,0 +1,225 @@
+import * as React from 'react'
+import { Calendar, CircleCheck, CircleDot, Flag, Snowflake } from 'lucide-react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { parseQuickEntry } from '@/lib/quick-entry'
+import { showToast } from '@/lib/toast'
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { SearchableSelect } from '@/components/ui/searchable-select'
+import { DateButton } from '@/components/ui/date-button'
+import { QuickEntryInput } from './quick-entry-input'
+
+/**
+ * QuickCaptureDialog - Modal for capturing inbox tasks from any view.
+ *
+ * Opened with the global quick-capture shortcut (see
+ * useQuickCaptureShortcut). The title field understands the same
+ * natural-language tokens as TaskList's quick-entry row; tokens win over
+ * the project and date pickers below it.
+ *
+ * Enter in the title (or Cmd/Ctrl+Enter in notes) creates an `inbox` task
+ * and clears the form for the next one, so several tasks can be captured
+ * in a row. Tasks captured since opening are listed at the bottom, and
+ * closing (Escape or Done) confirms them with a toast.
+ */
+
+interface Draft {
+  title: string
+  notes: string
+  projectId?: string
+  scheduled?: string
+  due?: string
+  deferUntil?: string
+}
+
+const emptyDraft: Draft = { title: '', notes: '' }
+
+interface QuickCaptureDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function QuickCaptureDialog({
+  open,
+  onOpenChange,
+}: QuickCaptureDialogProps) {
+  const { createTask, getActiveAreas, getActiveProjects, getProjectById } =
+    useAppData()
+  const titleRef = React.useRef<HTMLInputElement>(null)
+  const [draft, setDraft] = React.useState<Draft>(emptyDraft)
+  const [captured, setCaptured] = React.useState<
+    { id: string; title: string }[]
+  >([])
+
+  const projects = getActiveProjects()
+  const parsed = parseQuickEntry(draft.title, {
+    areas: getActiveAreas(),
+    projects,
+  })
+  const currentProject = draft.projectId
+    ? getProjectById(draft.projectId)
+    : undefined
+
+  // Summarize and reset on close, so the next open starts fresh
+  const close = () => {
+    if (captured.length > 0) {
+      showToast(
+        captured.length === 1
+          ? 'Captured 1 task to Inbox'
+          : `Captured ${captured.length} tasks to Inbox`
+      )
+    }
+    setDraft(emptyDraft)
+    setCaptured([])
+    onOpenChange(false)
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      onOpenChange(true)
+    } else {
+      close()
+    }
+  }
+
+  const update = (changes: Partial<Draft>) =>
+    setDraft((prev) => ({ ...prev, ...changes }))
+
+  const capture = () => {
+    if (!parsed.title) return
+
+    const id = createTask({
+      status: 'inbox',
+      notes: draft.notes.trim(),
+      projectId: draft.projectId,
+      scheduled: draft.scheduled,
+      due: draft.due,
+      deferUntil: draft.deferUntil,
+      quickEntry: parsed,
+    })
+    setCaptured((prev) => [...prev, { id, title: parsed.title }])
+    setDraft(emptyDraft)
+    titleRef.current?.focus()
+  }
+
+  const handleTitleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+      e.preventDefault()
+      capture()
+    }
+  }
+
+  const handleNotesKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault()
+      capture()
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg" initialFocus={titleRef}>
+        <DialogHeader>
+          <DialogTitle>Quick capture</DialogTitle>
+          <DialogDescription className="text-xs">
+            Adds to Inbox. Type dates, #areas and @projects inline.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="rounded-md border px-2.5 py-2 focus-within:ring-1 focus-within:ring-primary">
+            <QuickEntryInput
+              ref={titleRef}
+              value={draft.title}
+              tokens={parsed.tokens}
+              onChange={(e) => update({ title: e.target.value })}
+              onKeyDown={handleTitleKeyDown}
+              placeholder="New task…"
+              aria-label="Task title"
+            />
+          </div>
+
+          <Textarea
+            value={draft.notes}
+            onChange={(e) => update({ notes: e.target.value })}
+            onKeyDown={handleNotesKeyDown}
+            className="text-sm min-h-0 resize-none field-sizing-content"
+            placeholder="Notes..."
+            rows={2}
+          />
+
+          <div className="@container flex flex-wrap items-center gap-2">
+            <SearchableSelect
+              value={draft.projectId}
+              options={projects.map((p) => ({ value: p.id, label: p.title }))}
+              placeholder="Project..."
+              displayValue={currentProject?.title}
+              icon={<CircleDot className="size-3 text-entity-project" />}
+              onChange={(id) => update({ projectId: id })}
+              emptyText="No projects found"
+            />
+            <div className="flex-1" />
+            <div className="flex items-center gap-1.5">
+              <DateButton
+                icon={<Calendar className="size-3" />}
+                value={draft.scheduled}
+                onChange={(date) => update({ scheduled: date })}
+                tooltip="Scheduled"
+                variant="scheduled"
+              />
+              <DateButton
+                icon={<Flag className="size-3" />}
+                value={draft.due}
+                onChange={(date) => update({ due: date })}
+                tooltip="Due"
+                variant="due"
+              />
+              <DateButton
+                icon={<Snowflake className="size-3" />}
+                value={draft.deferUntil}
+                onChange={(date) => update({ deferUntil: date })}
+                tooltip="Defer"
+                variant="defer"
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Tasks captured since opening */}
+        {captured.length > 0 && (
+          <ul className="space-y-1 text-xs text-muted-foreground max-h-28 overflow-y-auto">
+            {captured.map((task) => (
+              <li key={task.id} className="flex items-center gap-1.5 min-w-0">
+                <CircleCheck className="size-3 shrink-0 text-status-done" />
+                <span className="truncate">{task.title}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <DialogFooter className="items-center">
+          <span className="text-xs text-muted-foreground sm:me-auto">
+            ↵ to add · Esc to close
+          </span>
+          <Button variant="outline" size="sm" onClick={close}>
+            Done
+          </Button>
+          <Button size="sm" onClick={capture} disabled={!parsed.title}>
+            Add to Inbox
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,92 @@
+import * as React from 'react'
+
+import { cn } from '@/lib/utils'
+import type { QuickEntryToken, QuickEntryTokenKind } from '@/lib/quick-entry'
+
+/**
+ * QuickEntryInput - Text input that highlights recognized quick-entry tokens.
+ *
+ * A plain <input> layered over an aria-hidden mirror of its text. The
+ * mirror renders the same text transparently with colored backgrounds
+ * behind each token from parseQuickEntry, and follows the input's
+ * horizontal scroll. Colors match the fields they set: due dates red,
+ * defer dates icebox blue, areas and projects their entity colors.
+ */
+
+const tokenStyles: Record<QuickEntryTokenKind, string> = {
+  scheduled: 'bg-primary/15 ring-primary/15',
+  due: 'bg-destructive/15 ring-destructive/15',
+  defer: 'bg-status-icebox/15 ring-status-icebox/15',
+  area: 'bg-entity-area/15 ring-entity-area/15',
+  project: 'bg-entity-project/15 ring-entity-project/15',
+}
+
+interface QuickEntryInputProps extends Omit<
+  React.ComponentProps<'input'>,
+  'value'
+> {
+  value: string
+  tokens: QuickEntryToken[]
+}
+
+export function QuickEntryInput({
+  value,
+  tokens,
+  className,
+  onScroll,
+  onSelect,
+  ...props
+}: QuickEntryInputProps) {
+  const [scrollLeft, setScrollLeft] = React.useState(0)
+
+  // Caret moves can scroll the input without a scroll event in some browsers
+  const syncScroll = (e: React.SyntheticEvent<HTMLInputElement>) => {
+    setScrollLeft(e.currentTarget.scrollLeft)
+  }
+
+  const segments: React.ReactNode[] = []
+  let position = 0
+  for (const token of tokens) {
+    segments.push(value.slice(position, token.start))
+    segments.push(
+      <mark
+        key={token.start}
+        className={cn(
+          'rounded-xs ring-2 text-transparent',
+          tokenStyles[token.kind]
+        )}
+      >
+        {value.slice(token.start, token.end)}
+      </mark>
+    )
+    position = token.end
+  }
+  segments.push(value.slice(position))
+
+  return (
+    <div className={cn('relative min-w-0', className)}>
+      <div
+        aria-hidden
+        className="pointer-events-none absolute inset-0 overflow-hidden whitespace-pre text-sm text-transparent"
+      >
+        <div style={{ transform: `translateX(${-scrollLeft}px)` }}>
+          {segments}
+        </div>
+      </div>
+      <input
+        type="text"
+        value={value}
+        onScroll={(e) => {
+          syncScroll(e)
+          onScroll?.(e)
+        }}
+        onSelect={(e) => {
+          syncScroll(e)
+          onSelect?.(e)
+        }}
+        className="relative w-full bg-transparent outline-none text-sm placeholder:text-muted-foreground"
+        {...props}
+      />
+    </div>
+  )
+}
@@ -3,8 +3,8 @@ import { useDroppable } from '@dnd-kit/core'
 
 import { cn } from '@/lib/utils'
 import type { Task } from '@/types/data'
-import type { HeadingColor } from '@/types/headings'
-import type { ResolvedOrderedItem } from '@/hooks/use-today-order'
+import type { HeadingColor, ResolvedOrderedItem } from '@/types/headings'
+import type { QuickEntryFields } from '@/lib/quick-entry'
 import { SectionHeader } from './section-header'
 import { DraggableTaskList, TaskList } from './task-list'
 import { OrderedItemList } from './ordered-item-list'
@@ -14,7 +14,8 @@ import { useTaskDragPreview } from './task-dnd-context'
  * SectionTaskGroup - Collapsible section with a task list (and optional headings).
  *
  * Used in TodayView for sections like "Scheduled for Today", "Overdue", etc.
- * Also used in AreaView/NoAreaView for the "Loose Tasks" section.
+ * Also used in AreaView/NoAreaView for the "Loose Tasks" section (with
+ * headings in AreaView).
  *
  * Two modes:
  * 1. Task-only: Pass `tasks` + `onTasksReorder` for simple task list
@@ -36,7 +37,10 @@ interface BaseSectionProps {
   /** Called when a task's open-detail button is clicked */
   onTaskOpenDetail?: (taskId: string) => void
   /** Called when Cmd/Ctrl+N is pressed to create a task */
-  onCreateTask?: (afterTaskId: string | null) => string | void
+  onCreateTask?: (
+    afterTaskId: string | null,
+    quickEntry?: QuickEntryFields
+  ) => string | void
   /** Function to get context name for a task (project/area name) */
   getContextName?: (task: Task) => string | undefined
   /** Whether to show scheduled dates (default: true) */
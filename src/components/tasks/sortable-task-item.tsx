@@ -2,6 +2,8 @@ import * as React from 'react'
 import { useSortable } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
 import { cn } from '@/lib/utils'
 import { TaskItem, type TaskItemProps } from './task-item'
 import { useTaskDragPreview } from './task-dnd-context'
@@ -13,11 +15,17 @@ import { useTaskDragPreview } from './task-dnd-context'
  * - Drag handle behavior (whole row is draggable)
  * - Transform/transition during drag
  * - Cross-container gap animation (shows space where item will land)
+ * - Dimming while it moves along with a dragged multi-selection
+ * - The blockers the task is waiting on (getTaskWaitingOn) and its timer
+ *   (toggleTaskTimer)
  *
  * The gap animation uses crossContainerHover from TaskDndContext to show a
  * margin-top when another container's task is being dragged above this item.
  */
-export interface SortableTaskItemProps extends Omit<TaskItemProps, 'className'> {
+export interface SortableTaskItemProps extends Omit<
+  TaskItemProps,
+  'className' | 'waitingOn' | 'onTimerToggle'
+> {
   /** Unique drag ID for this item (should be unique across all containers) */
   dragId: string
   /** Container ID for cross-container drag detection */
@@ -40,6 +48,7 @@ export function SortableTaskItem({
   isEditing,
   ...taskItemProps
 }: SortableTaskItemProps) {
+  const { getTaskWaitingOn, toggleTaskTimer } = useAppData()
   const {
     attributes,
     listeners,
@@ -58,7 +67,9 @@ export function SortableTaskItem({
 
   // Check if we should show a gap before this item (cross-container drag)
   // Don't show gap once the dropped task has appeared in this container
-  const { crossContainerHover } = useTaskDragPreview()
+  const { crossContainerHover, dragPreview } = useTaskDragPreview()
+  const isMovingWithDrag =
+    dragPreview?.type === 'task' && dragPreview.taskIds.includes(task.id)
   const showGapBefore =
     crossContainerHover?.targetContainerId === containerId &&
     crossContainerHover?.insertBeforeId === task.id &&
@@ -80,7 +91,7 @@ export function SortableTaskItem({
       {...dragProps}
       className={cn(
         'touch-manipulation',
-        isDragging && 'opacity-50',
+        (isDragging || isMovingWithDrag) && 'opacity-50',
         // CSS gap animation for cross-container drag
         showGapBefore && 'mt-10 transition-[margin] duration-150 ease-out',
         className
@@ -89,6 +100,8 @@ export function SortableTaskItem({
       <TaskItem
         task={task}
         isEditing={isEditing}
+        waitingOn={getTaskWaitingOn(task.id)}
+        onTimerToggle={() => toggleTaskTimer(task.id)}
         {...taskItemProps}
       />
     </div>
@@ -0,0 +1,123 @@
+import * as React from 'react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { DependencyCycleError } from '@/lib/project-dependencies'
+import { isTaskFinished } from '@/lib/task-dependencies'
+import { cn } from '@/lib/utils'
+import {
+  Combobox,
+  ComboboxChip,
+  ComboboxChips,
+  ComboboxChipsInput,
+  ComboboxContent,
+  ComboboxEmpty,
+  ComboboxItem,
+  ComboboxList,
+  ComboboxValue,
+  useComboboxAnchor,
+} from '@/components/ui/combobox'
+import type { Task } from '@/types/data'
+
+/**
+ * TaskBlockersEditor - Chips input for the tasks a task waits on.
+ *
+ * Used in TaskDetailPanel; the task counterpart of ProjectBlockersEditor.
+ * Suggests unfinished tasks by title, and shows finished blockers struck
+ * through. A choice that would make tasks wait on each other is refused,
+ * with the cycle explained below the input. Key it by task ID so the
+ * message doesn't carry over to another task.
+ */
+interface TaskBlockersEditorProps {
+  task: Task
+}
+
+export function TaskBlockersEditor({ task }: TaskBlockersEditorProps) {
+  const { data, getTaskById, updateTaskBlockedBy } = useAppData()
+  const anchor = useComboboxAnchor()
+  const [inputValue, setInputValue] = React.useState('')
+  const [error, setError] = React.useState<string>()
+
+  const value = (task.blockedBy ?? []).filter((id) => getTaskById(id))
+  const items = data.tasks
+    .filter(
+      (t) => t.id !== task.id && (!isTaskFinished(t) || value.includes(t.id))
+    )
+    .map((t) => t.id)
+  const search = inputValue.trim().toLowerCase()
+  const filteredItems = items.filter((id) =>
+    getTaskById(id)?.title.toLowerCase().includes(search)
+  )
+
+  const handleChange = (blockedBy: string[]) => {
+    setInputValue('')
+    try {
+      updateTaskBlockedBy(task.id, blockedBy)
+      setError(undefined)
+    } catch (e) {
+      if (!(e instanceof DependencyCycleError)) throw e
+      setError(e.message)
+    }
+  }
+
+  const renderTask = (id: string) => {
+    const blocker = getTaskById(id)
+    if (!blocker) return null
+    return (
+      <span
+        className={cn(
+          'truncate',
+          isTaskFinished(blocker) && 'line-through text-muted-foreground'
+        )}
+      >
+        {blocker.title}
+      </span>
+    )
+  }
+
+  return (
+    <div className="space-y-1">
+      <Combobox
+        multiple
+        items={items}
+        filteredItems={filteredItems}
+        value={value}
+        onValueChange={handleChange}
+        inputValue={inputValue}
+        onInputValueChange={setInputValue}
+      >
+        <ComboboxChips ref={anchor}>
+          <ComboboxValue>
+            {(selected: string[]) => (
+              <>
+                {selected.map((id) => (
+                  <ComboboxChip key={id}>{renderTask(id)}</ComboboxChip>
+                ))}
+                <ComboboxChipsInput
+                  placeholder={
+                    selected.length === 0 ? 'Waiting on...' : undefined
+                  }
+                />
+              </>
+            )}
+          </ComboboxValue>
+        </ComboboxChips>
+        <ComboboxContent anchor={anchor}>
+          <ComboboxEmpty>No tasks found</ComboboxEmpty>
+          <ComboboxList>
+            {(id: string) => (
+              <ComboboxItem key={id} value={id}>
+                {renderTask(id)}
+              </ComboboxItem>
+            )}
+          </ComboboxList>
+        </ComboboxContent>
+      </Combobox>
+      {error && (
+        <p role="alert" className="text-xs text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,246 @@
+import * as React from 'react'
+import {
+  DndContext,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  closestCenter,
+  type DragEndEvent,
+} from '@dnd-kit/core'
+import {
+  SortableContext,
+  arrayMove,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable'
+import { CSS } from '@dnd-kit/utilities'
+import { GripVertical, Plus, SquareArrowOutUpRight, X } from 'lucide-react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { createChecklistItem } from '@/lib/checklist'
+import { cn } from '@/lib/utils'
+import type { ChecklistItem, Task } from '@/types/data'
+import { TaskStatusCheckbox } from './task-status-checkbox'
+
+/**
+ * TaskChecklistEditor - The checklist section of TaskDetailPanel.
+ *
+ * Items are ticked off with their checkbox, renamed in place (clearing the
+ * title removes the item) and reordered by dragging the grip. Hovering an
+ * item shows buttons to turn it into a task of its own or remove it. Type
+ * in the last row and press Enter to add an item; focus stays there so
+ * several can be added in a row.
+ */
+interface TaskChecklistEditorProps {
+  task: Task
+}
+
+export function TaskChecklistEditor({ task }: TaskChecklistEditorProps) {
+  const { updateTaskChecklist, convertChecklistItemToTask } = useAppData()
+  const [newTitle, setNewTitle] = React.useState('')
+  const addInputRef = React.useRef<HTMLInputElement>(null)
+
+  const items = task.checklist ?? []
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 4,
+      },
+    })
+  )
+
+  const updateItem = (itemId: string, changes: Partial<ChecklistItem>) =>
+    updateTaskChecklist(
+      task.id,
+      items.map((item) => (item.id === itemId ? { ...item, ...changes } : item))
+    )
+
+  const removeItem = (itemId: string) =>
+    updateTaskChecklist(
+      task.id,
+      items.filter((item) => item.id !== itemId)
+    )
+
+  const handleRename = (item: ChecklistItem, title: string) => {
+    const trimmed = title.trim()
+    if (trimmed === item.title) return
+    if (trimmed) {
+      updateItem(item.id, { title: trimmed })
+    } else {
+      removeItem(item.id)
+    }
+  }
+
+  const handleAdd = () => {
+    const title = newTitle.trim()
+    if (!title) return
+    updateTaskChecklist(task.id, [...items, createChecklistItem(title)])
+    setNewTitle('')
+  }
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return
+    const ids = items.map((item) => item.id)
+    updateTaskChecklist(
+      task.id,
+      arrayMove(
+        items,
+        ids.indexOf(String(active.id)),
+        ids.indexOf(String(over.id))
+      )
+    )
+  }
+
+  return (
+    <div className="space-y-0.5">
+      <DndContext
+        sensors={sensors}
+        collisionDetection={closestCenter}
+        onDragEnd={handleDragEnd}
+      >
+        <SortableContext
+          items={items.map((item) => item.id)}
+          strategy={verticalListSortingStrategy}
+        >
+          {items.map((item) => (
+            <ChecklistItemRow
+              key={item.id}
+              item={item}
+              onToggle={() => updateItem(item.id, { done: !item.done })}
+              onRename={(title) => handleRename(item, title)}
+              onConvert={() => convertChecklistItemToTask(task.id, item.id)}
+              onRemove={() => removeItem(item.id)}
+              onSubmit={() => addInputRef.current?.focus()}
+            />
+          ))}
+        </SortableContext>
+      </DndContext>
+
+      <div className="flex items-center gap-2 pl-5">
+        <Plus className="size-4 shrink-0 text-muted-foreground" />
+        <input
+          ref={addInputRef}
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              handleAdd()
+            } else if (e.key === 'Escape') {
+              setNewTitle('')
+              e.currentTarget.blur()
+            }
+          }}
+          onBlur={handleAdd}
+          placeholder="Add checklist item..."
+          className="flex-1 min-w-0 bg-transparent py-1 text-sm outline-none placeholder:text-muted-foreground"
+        />
+      </div>
+    </div>
+  )
+}
+
+// -----------------------------------------------------------------------------
+// Checklist Item Row
+// -----------------------------------------------------------------------------
+
+interface ChecklistItemRowProps {
+  item: ChecklistItem
+  onToggle: () => void
+  onRename: (title: string) => void
+  onConvert: () => void
+  onRemove: () => void
+  /** Enter in the title - moves on to adding an item */
+  onSubmit: () => void
+}
+
+function ChecklistItemRow({
+  item,
+  onToggle,
+  onRename,
+  onConvert,
+  onRemove,
+  onSubmit,
+}: ChecklistItemRowProps) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    setActivatorNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: item.id })
+
+  const style: React.CSSProperties = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  }
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={cn(
+        'group flex items-center gap-2 rounded-md',
+        isDragging && 'relative z-10 bg-card shadow-sm'
+      )}
+    >
+      <button
+        type="button"
+        ref={setActivatorNodeRef}
+        {...attributes}
+        {...listeners}
+        className="-mr-1 cursor-grab text-muted-foreground/50 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 active:cursor-grabbing"
+        aria-label="Reorder item"
+      >
+        <GripVertical className="size-3.5" />
+      </button>
+      <TaskStatusCheckbox
+        status={item.done ? 'done' : 'ready'}
+        onToggle={onToggle}
+      />
+      {/* Keyed by title so undo or another edit shows up in the input */}
+      <input
+        key={item.title}
+        defaultValue={item.title}
+        onBlur={(e) => onRename(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault()
+            e.currentTarget.blur()
+            onSubmit()
+          } else if (e.key === 'Escape') {
+            e.currentTarget.value = item.title
+            e.currentTarget.blur()
+          }
+        }}
+        className={cn(
+          'flex-1 min-w-0 bg-transparent py-1 text-sm outline-none',
+          item.done && 'line-through text-muted-foreground'
+        )}
+        aria-label="Checklist item"
+      />
+      <div className="flex shrink-0 items-center opacity-0 group-hover:opacity-100 group-focus-within:opacity-100">
+        <button
+          type="button"
+          onClick={onConvert}
+          className="rounded p-1 text-muted-foreground hover:bg-accent hover:text-foreground"
+          title="Convert to task"
+        >
+          <SquareArrowOutUpRight className="size-3.5" />
+        </button>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="rounded p-1 text-muted-foreground hover:bg-accent hover:text-foreground"
+          title="Remove item"
+        >
+          <X className="size-3.5" />
+        </button>
+      </div>
+    </div>
+  )
+}
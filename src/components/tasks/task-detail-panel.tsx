@@ -12,13 +12,21 @@ import {
 // TODO(tauri-integration): Migrate to TanStack Query
 import { useAppData } from '@/context/app-data-context'
 import { useTaskDetailStore } from '@/store/task-detail-store'
+import { useTaskCommandActions } from '@/hooks/use-task-command-actions'
 
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { SearchableSelect } from '@/components/ui/searchable-select'
 import { DateButton } from '@/components/ui/date-button'
+import { TagEditor } from '@/components/tags'
+import { TaskTimeEntries } from '@/components/time-tracking'
 import { TaskStatusCheckbox } from './task-status-checkbox'
 import { TaskStatusPill } from './task-status-pill'
+import { TaskRecurrenceButton } from './task-recurrence-button'
+import { TaskTimeButton } from './task-time-button'
+import { TaskEstimateButton } from './task-estimate-button'
+import { TaskBlockersEditor } from './task-blockers-editor'
+import { TaskChecklistEditor } from './task-checklist-editor'
 import { LazyMilkdownEditor } from './lazy-milkdown-editor'
 
 /**
@@ -29,7 +37,11 @@ import { LazyMilkdownEditor } from './lazy-milkdown-editor'
  *
  * Sections:
  * - Header: Status checkbox, title (editable), close button
- * - Metadata: Project selector, area selector, status pill, date buttons
+ * - Metadata: Project selector, area selector, status pill, repeat rule,
+ *   estimate, date buttons (with a start time once scheduled), tags,
+ *   blockers (tasks it waits on)
+ * - Checklist: Items to tick off (TaskChecklistEditor), scrolls when long
+ * - Time: Timer and tracked time entries (TaskTimeEntries)
  * - Notes: Full markdown editor (LazyMilkdownEditor)
  * - Footer: Created/updated timestamps, task ID
  *
@@ -44,14 +56,20 @@ export function TaskDetailPanel() {
     updateTaskTitle,
     updateTaskStatus,
     updateTaskScheduled,
+    updateTaskStartTime,
+    updateTaskDuration,
+    updateTaskEstimate,
     updateTaskDue,
     updateTaskDeferUntil,
     updateTaskNotes,
     updateTaskProject,
     updateTaskArea,
+    updateTaskRecurrence,
+    updateTaskTags,
     toggleTaskStatus,
     getProjectById,
     getAreaById,
+    getAllTags,
   } = useAppData()
 
   const task = openTaskId ? getTaskById(openTaskId) : null
@@ -79,6 +97,8 @@ export function TaskDetailPanel() {
     return activeAreas
   }, [task?.areaId, activeAreas, getAreaById])
 
+  useTaskCommandActions(task ?? null)
+
   if (!task) {
     return (
       <div className="flex h-full items-center justify-center text-muted-foreground text-sm p-6">
@@ -148,6 +168,14 @@ export function TaskDetailPanel() {
             status={task.status}
             onStatusChange={(newStatus) => updateTaskStatus(task.id, newStatus)}
           />
+          <TaskRecurrenceButton
+            task={task}
+            onChange={(recurrence) => updateTaskRecurrence(task.id, recurrence)}
+          />
+          <TaskEstimateButton
+            task={task}
+            onChange={(estimate) => updateTaskEstimate(task.id, estimate)}
+          />
           <div className="flex-1 min-w-4" />
           <div className="flex items-center gap-1.5 @[280px]:gap-2">
             <DateButton
@@ -157,6 +185,15 @@ export function TaskDetailPanel() {
               tooltip="Scheduled"
               variant="scheduled"
             />
+            {task.scheduled && (
+              <TaskTimeButton
+                task={task}
+                onStartTimeChange={(time) => updateTaskStartTime(task.id, time)}
+                onDurationChange={(minutes) =>
+                  updateTaskDuration(task.id, minutes)
+                }
+              />
+            )}
             <DateButton
               icon={<Flag className="size-3" />}
               value={task.due}
@@ -173,6 +210,24 @@ export function TaskDetailPanel() {
             />
           </div>
         </div>
+
+        <TagEditor
+          value={task.tags ?? []}
+          onChange={(tags) => updateTaskTags(task.id, tags)}
+          suggestions={getAllTags().map((t) => t.tag)}
+        />
+
+        <TaskBlockersEditor key={task.id} task={task} />
+      </div>
+
+      {/* Checklist */}
+      <div className="px-4 pb-3 max-h-64 overflow-y-auto">
+        <TaskChecklistEditor task={task} />
+      </div>
+
+      {/* Time tracking */}
+      <div className="px-4 pb-3 max-h-48 overflow-y-auto">
+        <TaskTimeEntries task={task} />
       </div>
 
       {/* Notes - fills remaining space with card background */}
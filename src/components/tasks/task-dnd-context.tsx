@@ -14,10 +14,13 @@ import {
 } from '@dnd-kit/core'
 import { arrayMove } from '@dnd-kit/sortable'
 
+import { moveItemsTogether } from '@/lib/task-selection'
+import { useTaskSelectionStore } from '@/store/task-selection-store'
 import type { Task } from '@/types/data'
 import type { Heading } from '@/types/headings'
 import { TaskDragPreview } from './task-list'
 import { HeadingDragPreview } from '@/components/headings'
+import { DragHistoryGroup } from '@/components/history/drag-history-group'
 
 /**
  * TaskDndContext - Shared drag-and-drop context for cross-container task movement.
@@ -30,6 +33,8 @@ import { HeadingDragPreview } from '@/components/headings'
  * - Same-container reorder: Reordering tasks within a single list
  * - Visual feedback: Shows gap where task will drop (via crossContainerHover state)
  * - Heading support: Can also drag headings within their container
+ * - Multi-item drag: Dragging a task of the multi-selection (see
+ *   task-selection-store) moves all selected tasks, in display order
  *
  * Each TaskList renders with a projectId/sectionId that becomes the container ID.
  * Drag IDs include the container prefix to ensure uniqueness across lists.
@@ -96,6 +101,8 @@ interface TaskDragPreviewState {
   taskId: string
   task: Task
   sourceContainerId: string
+  /** The tasks moving: just taskId, or the multi-selection in display order */
+  taskIds: string[]
 }
 
 interface HeadingDragPreviewState {
@@ -153,12 +160,14 @@ interface TaskDndContextProps {
   /** All tasks organized by projectId */
   tasksByProject: Map<string, Task[]>
   /**
-   * Called when a task is moved to a different project.
-   * @param insertBeforeTaskId - Insert before this task, or null to append at end
+   * Called when tasks are moved to a different project.
+   * @param taskIds - The dragged task, or the multi-selection in display
+   *   order (some may already be in the target project)
+   * @param insertBeforeTaskId - Insert before this task, or null to append at
+   *   end. Never one of the moved tasks.
    */
-  onTaskMove: (
-    taskId: string,
-    fromProjectId: string,
+  onTasksMove: (
+    taskIds: string[],
     toProjectId: string,
     insertBeforeTaskId: string | null
   ) => void
@@ -179,6 +188,27 @@ interface TaskDndContextProps {
   getHeadingById?: (headingId: string) => Heading | undefined
 }
 
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Where moved tasks go when dropped onto `overTaskId`: before it, or - if it
+ * is one of the moved tasks - before the next task of the list that isn't.
+ */
+function getInsertBeforeTaskId(
+  targetTasks: Task[],
+  overTaskId: string,
+  movedIds: string[]
+): string | null {
+  if (!movedIds.includes(overTaskId)) return overTaskId
+  const index = targetTasks.findIndex((t) => t.id === overTaskId)
+  return (
+    targetTasks.slice(index + 1).find((t) => !movedIds.includes(t.id))?.id ??
+    null
+  )
+}
+
 // -----------------------------------------------------------------------------
 // TaskDndContext - Shared context for cross-project drag
 // -----------------------------------------------------------------------------
@@ -195,7 +225,7 @@ interface TaskDndContextProps {
 export function TaskDndContext({
   children,
   tasksByProject,
-  onTaskMove,
+  onTasksMove,
   onTasksReorder,
   onItemsReorder,
   getTaskById,
@@ -234,6 +264,20 @@ export function TaskDndContext({
     }),
   }
 
+  // The dragged task, or all selected tasks if it is one of several
+  const getDraggedTaskIds = (taskId: string): string[] => {
+    const { selectedIds } = useTaskSelectionStore.getState()
+    if (selectedIds.length < 2 || !selectedIds.includes(taskId)) {
+      return [taskId]
+    }
+    const selected = new Set(selectedIds)
+    const inDisplayOrder = [...tasksByProject.values()]
+      .flat()
+      .map((t) => t.id)
+      .filter((id) => selected.has(id))
+    return [...new Set(inDisplayOrder)]
+  }
+
   const handleDragStart = (event: DragStartEvent) => {
     const data = event.active.data.current as DragItemData | undefined
 
@@ -245,6 +289,7 @@ export function TaskDndContext({
           taskId: data.taskId,
           task,
           sourceContainerId: data.projectId,
+          taskIds: getDraggedTaskIds(data.taskId),
         })
       }
     } else if (data?.type === 'heading' && getHeadingById) {
@@ -373,18 +418,25 @@ export function TaskDndContext({
             ? overData.projectId
             : dragPreview.sourceContainerId
 
-    if (targetContainerId !== dragPreview.sourceContainerId) {
+    // A multi-selection spanning lists moves into the target list as a whole
+    const targetTasks = tasksByProject.get(targetContainerId) ?? []
+    const isMove =
+      targetContainerId !== dragPreview.sourceContainerId ||
+      dragPreview.taskIds.some((id) => !targetTasks.some((t) => t.id === id))
+
+    if (isMove) {
       // Cross-project move
       // Insert before the task we dropped on, or null to append at end
       const insertBeforeTaskId =
-        overData?.type === 'task' ? overData.taskId : null
-
-      onTaskMove(
-        dragPreview.taskId,
-        dragPreview.sourceContainerId,
-        targetContainerId,
-        insertBeforeTaskId
-      )
+        overData?.type === 'task'
+          ? getInsertBeforeTaskId(
+              targetTasks,
+              overData.taskId,
+              dragPreview.taskIds
+            )
+          : null
+
+      onTasksMove(dragPreview.taskIds, targetContainerId, insertBeforeTaskId)
       setLastDroppedTaskId(dragPreview.taskId)
       // DON'T clear crossContainerHover here - let TaskList do it when the
       // dropped task appears in the target list. This prevents the visual jump
@@ -392,7 +444,22 @@ export function TaskDndContext({
       setDragPreview(null)
     } else {
       // Same-container operation
-      if (active.id !== over.id) {
+      if (dragPreview.taskIds.length > 1) {
+        // Multi-selection reorder: move the selected tasks together
+        if (overData?.type === 'task') {
+          const newTasks = moveItemsTogether(
+            targetTasks,
+            (t) => t.id,
+            new Set(dragPreview.taskIds),
+            activeData.taskId,
+            overData.taskId
+          )
+          if (newTasks !== targetTasks) {
+            onTasksReorder(targetContainerId, newTasks)
+            setLastDroppedTaskId(activeData.taskId)
+          }
+        }
+      } else if (active.id !== over.id) {
         // Same-container reorder
         if (onItemsReorder) {
           // Use items reorder callback (for mixed containers with headings)
@@ -443,13 +510,17 @@ export function TaskDndContext({
         onDragEnd={handleDragEnd}
         onDragCancel={handleDragCancel}
       >
+        <DragHistoryGroup />
         {children}
 
         {/* Drag Overlay */}
         <DragOverlay dropAnimation={dropAnimation}>
           {dragPreview &&
             (dragPreview.type === 'task' ? (
-              <TaskDragPreview task={dragPreview.task} />
+              <TaskDragPreview
+                task={dragPreview.task}
+                count={dragPreview.taskIds.length}
+              />
             ) : (
               <HeadingDragPreview heading={dragPreview.heading} />
             ))}
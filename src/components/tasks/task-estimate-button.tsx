@@ -0,0 +1,113 @@
+import { Timer } from 'lucide-react'
+
+import { cn } from '@/lib/utils'
+import { formatDuration, parseDuration } from '@/lib/time-blocks'
+import type { Task } from '@/types/data'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import { dateButtonStyles } from '@/components/ui/date-button'
+
+/**
+ * TaskEstimateButton - How much effort a task is expected to take.
+ *
+ * Used in TaskDetailPanel next to the repeat button. Styled like DateButton:
+ * shows the estimate ("1h 30m") or "Estimate" when unset. The popover takes
+ * a typed duration ("45m", "1.5h", "1h 30m") or one of the presets. Estimates
+ * add up in the calendars' day totals and a project's remaining work
+ * (lib/workload).
+ */
+interface TaskEstimateButtonProps {
+  task: Task
+  onChange: (estimate: number | undefined) => void
+}
+
+const presets = [15, 30, 60, 120, 240]
+
+export function TaskEstimateButton({
+  task,
+  onChange,
+}: TaskEstimateButtonProps) {
+  const styles = dateButtonStyles.scheduled
+  const label = task.estimate ? formatDuration(task.estimate) : undefined
+
+  const handleCommit = (input: HTMLInputElement) => {
+    const value = input.value.trim()
+    if (!value) {
+      if (task.estimate) onChange(undefined)
+      return
+    }
+    const minutes = parseDuration(value)
+    if (minutes === undefined) {
+      // Unreadable - show the current estimate again
+      input.value = label ?? ''
+    } else if (minutes !== task.estimate) {
+      onChange(minutes)
+    }
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger
+        render={
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn(
+              'h-6 @[280px]:h-7 gap-0.5 @[280px]:gap-1 px-1.5 @[280px]:px-2 text-2xs @[280px]:text-xs font-normal border-0',
+              label ? styles.active : styles.base
+            )}
+            title="Estimate"
+          />
+        }
+      >
+        <Timer className="size-3" />
+        <span className="truncate">{label ?? 'Estimate'}</span>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 space-y-3 p-3" align="start">
+        {/* Keyed by the estimate so a preset or undo shows up in the input */}
+        <Input
+          key={task.estimate ?? 0}
+          defaultValue={label ?? ''}
+          placeholder="e.g. 45m, 1h 30m"
+          onBlur={(e) => handleCommit(e.currentTarget)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              handleCommit(e.currentTarget)
+            }
+          }}
+          className="h-7"
+          aria-label="Estimate"
+        />
+        <div className="flex flex-wrap gap-1">
+          {presets.map((minutes) => (
+            <Button
+              key={minutes}
+              variant={minutes === task.estimate ? 'secondary' : 'outline'}
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => onChange(minutes)}
+            >
+              {formatDuration(minutes)}
+            </Button>
+          ))}
+        </div>
+        {label && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full"
+            onClick={() => onChange(undefined)}
+          >
+            Clear estimate
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -1,16 +1,45 @@
 import * as React from 'react'
-import { Flag, CircleChevronRight } from 'lucide-react'
+import {
+  Flag,
+  CircleChevronRight,
+  CircleCheck,
+  Copy,
+  Pencil,
+  PanelRightOpen,
+  Play,
+  RotateCcw,
+  Square,
+  Trash2,
+} from 'lucide-react'
 
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuShortcut,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu'
 import { cn } from '@/lib/utils'
 import { formatRelativeDate, isOverdue } from '@/lib/date-utils'
-import type { Task } from '@/types/data'
+import { getRunningEntry } from '@/lib/time-tracking'
+import type { ChecklistItem, Task } from '@/types/data'
+import { TagChips } from '@/components/tags/tag-chips'
+import { TaskTimerButton } from '@/components/time-tracking/task-timer-button'
 import { TaskStatusCheckbox } from './task-status-checkbox'
+import { WaitingOnBadge } from './waiting-on-badge'
+import { ChecklistProgressBadge } from './checklist-progress-badge'
 
 /**
  * TaskItem - Pure presentational component for a task row in list views.
  *
  * Displays: status checkbox, title (inline-editable), open-detail button,
- * and right-aligned metadata (context name, scheduled date, due date).
+ * timer button (shown on hover, or with the time while it runs) and
+ * right-aligned metadata (tags, checklist progress, blockers it's waiting
+ * on, context name, scheduled, due and completion dates). Right-click opens
+ * a context menu with the row's actions (open, edit, complete, start/stop
+ * timer, reopen, duplicate, delete) - only actions with a handler are
+ * shown.
  *
  * This is the base visual component - no drag-and-drop awareness.
  * Wrap with SortableTaskItem or TaskListItem for DnD support.
@@ -24,19 +53,32 @@ export interface TaskItemProps {
   task: Task
   isSelected: boolean
   isEditing: boolean
-  onSelect: () => void
+  /** Called on click, with the event for its modifier keys */
+  onSelect: (event?: React.MouseEvent) => void
   onStartEdit: () => void
   onEndEdit: () => void
   onTitleChange: (newTitle: string) => void
   onStatusToggle: () => void
   /** Called when the open-detail chevron is clicked */
   onOpenDetail?: () => void
+  /** Start or stop the task's timer (see toggleTaskTimer) */
+  onTimerToggle?: () => void
+  /** Context menu: reopen this task (shown when it is done or dropped) */
+  onReopen?: () => void
+  /** Context menu: duplicate this task */
+  onDuplicate?: () => void
+  /** Context menu: delete this task (caller handles confirmation) */
+  onDelete?: () => void
   /** Optional context label (project or area name) shown on the right */
   contextName?: string
+  /** Unfinished tasks this one waits on (see getTaskWaitingOn) */
+  waitingOn?: Task[]
   /** Whether to show the scheduled date (default: true if exists) */
   showScheduled?: boolean
   /** Whether to show the due date (default: true if exists) */
   showDue?: boolean
+  /** Whether to show when the task was completed or dropped (default: false) */
+  showCompleted?: boolean
   className?: string
 }
 
@@ -54,9 +96,15 @@ export function TaskItem({
   onTitleChange,
   onStatusToggle,
   onOpenDetail,
+  onTimerToggle,
+  onReopen,
+  onDuplicate,
+  onDelete,
   contextName,
+  waitingOn,
   showScheduled = true,
   showDue = true,
+  showCompleted = false,
   className,
 }: TaskItemProps) {
   const inputRef = React.useRef<HTMLInputElement>(null)
@@ -81,7 +129,7 @@ export function TaskItem({
     // Don't select if clicking on the checkbox or input
     if ((e.target as HTMLElement).closest('button')) return
     if ((e.target as HTMLElement).closest('input')) return
-    onSelect()
+    onSelect(e)
   }
 
   const handleDoubleClick = (e: React.MouseEvent) => {
@@ -116,89 +164,155 @@ export function TaskItem({
 
   const isDone = task.status === 'done'
   const isDropped = task.status === 'dropped'
+  const isTimerRunning = getRunningEntry(task) !== undefined
 
   return (
-    <div
-      className={cn(
-        'group relative flex items-center gap-3 px-2 py-2 rounded-lg cursor-default transition-all',
-        'select-none',
-        // Editing: thin primary border, no background
-        isEditing && 'ring-2 ring-primary bg-transparent',
-        // Selected but not editing: blue background
-        isSelected && !isEditing && 'bg-primary/20 dark:bg-primary/30',
-        // Not selected: subtle hover
-        !isSelected && !isEditing && 'hover:bg-muted/50',
-        className
-      )}
-      onClick={handleClick}
-      onDoubleClick={handleDoubleClick}
-      data-selected={isSelected}
-      data-editing={isEditing}
-      data-task-id={task.id}
-    >
-      {/* Status checkbox */}
-      <TaskStatusCheckbox status={task.status} onToggle={onStatusToggle} />
+    <ContextMenu>
+      <ContextMenuTrigger
+        render={<div />}
+        className={cn(
+          'group relative flex items-center gap-3 px-2 py-2 rounded-lg cursor-default transition-all',
+          'select-none',
+          // Editing: thin primary border, no background
+          isEditing && 'ring-2 ring-primary bg-transparent',
+          // Selected but not editing: blue background
+          isSelected && !isEditing && 'bg-primary/20 dark:bg-primary/30',
+          // Not selected: subtle hover
+          !isSelected && !isEditing && 'hover:bg-muted/50',
+          className
+        )}
+        onClick={handleClick}
+        onDoubleClick={handleDoubleClick}
+        onContextMenu={() => {
+          if (!isEditing) onSelect()
+        }}
+        data-selected={isSelected}
+        data-editing={isEditing}
+        data-task-id={task.id}
+      >
+        {/* Status checkbox */}
+        <TaskStatusCheckbox status={task.status} onToggle={onStatusToggle} />
 
-      {/* Title - editable or display */}
-      {isEditing ? (
-        <input
-          ref={inputRef}
-          type="text"
-          value={editValue}
-          onChange={(e) => setEditValue(e.target.value)}
-          onBlur={handleInputBlur}
-          onKeyDown={handleInputKeyDown}
-          className="flex-1 bg-transparent outline-none text-sm placeholder:text-muted-foreground"
-          placeholder="Task title..."
-        />
-      ) : (
-        <>
-          {/* Title */}
-          <span
-            className={cn(
-              'text-sm truncate min-w-0',
-              (isDone || isDropped) && 'line-through text-muted-foreground'
-            )}
-          >
-            {task.title}
-          </span>
-
-          {/* Open detail button - immediately after title */}
-          {onOpenDetail && (
-            <button
-              type="button"
-              onClick={(e) => {
-                e.stopPropagation()
-                onOpenDetail()
-              }}
+        {/* Title - editable or display */}
+        {isEditing ? (
+          <input
+            ref={inputRef}
+            type="text"
+            value={editValue}
+            onChange={(e) => setEditValue(e.target.value)}
+            onBlur={handleInputBlur}
+            onKeyDown={handleInputKeyDown}
+            className="flex-1 bg-transparent outline-none text-sm placeholder:text-muted-foreground"
+            placeholder="Task title..."
+          />
+        ) : (
+          <>
+            {/* Title */}
+            <span
               className={cn(
-                'shrink-0 p-1.5 -m-1 rounded-full text-primary/70',
-                'hover:text-primary hover:bg-primary/10',
-                'transition-opacity duration-100',
-                // Show on hover (with delay) or when selected
-                isSelected
-                  ? 'opacity-100 delay-150'
-                  : 'opacity-0 group-hover:opacity-100 group-hover:delay-150'
+                'text-sm truncate min-w-0',
+                (isDone || isDropped) && 'line-through text-muted-foreground'
               )}
-              title="Open details"
             >
-              <CircleChevronRight className="size-4" />
-            </button>
-          )}
+              {task.title}
+            </span>
 
-          {/* Spacer pushes metadata to the right */}
-          <div className="flex-1 min-w-2" />
+            {/* Open detail button - immediately after title */}
+            {onOpenDetail && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onOpenDetail()
+                }}
+                className={cn(
+                  'shrink-0 p-1.5 -m-1 rounded-full text-primary/70',
+                  'hover:text-primary hover:bg-primary/10',
+                  'transition-opacity duration-100',
+                  // Show on hover (with delay) or when selected
+                  isSelected
+                    ? 'opacity-100 delay-150'
+                    : 'opacity-0 group-hover:opacity-100 group-hover:delay-150'
+                )}
+                title="Open details"
+              >
+                <CircleChevronRight className="size-4" />
+              </button>
+            )}
 
-          {/* Right-aligned metadata */}
-          <TaskMetadata
-            contextName={contextName}
-            scheduled={showScheduled ? task.scheduled : undefined}
-            due={showDue ? task.due : undefined}
-            isDone={isDone || isDropped}
-          />
-        </>
-      )}
-    </div>
+            {/* Spacer pushes metadata to the right */}
+            <div className="flex-1 min-w-2" />
+
+            {/* Timer - on hover, or always while it runs */}
+            {onTimerToggle && (
+              <TaskTimerButton
+                task={task}
+                onToggle={onTimerToggle}
+                revealOnHover={!isSelected}
+              />
+            )}
+
+            {/* Right-aligned metadata */}
+            <TaskMetadata
+              tags={task.tags}
+              checklist={task.checklist}
+              waitingOn={waitingOn}
+              contextName={contextName}
+              scheduled={showScheduled ? task.scheduled : undefined}
+              due={showDue ? task.due : undefined}
+              completed={showCompleted ? task.completedAt : undefined}
+              isDone={isDone || isDropped}
+            />
+          </>
+        )}
+      </ContextMenuTrigger>
+
+      <ContextMenuContent>
+        {onOpenDetail && (
+          <ContextMenuItem onClick={onOpenDetail}>
+            <PanelRightOpen />
+            Open details
+          </ContextMenuItem>
+        )}
+        <ContextMenuItem onClick={onStartEdit}>
+          <Pencil />
+          Edit title
+          <ContextMenuShortcut>↵</ContextMenuShortcut>
+        </ContextMenuItem>
+        <ContextMenuItem onClick={onStatusToggle}>
+          <CircleCheck />
+          {isDone ? 'Mark as not done' : 'Mark as done'}
+          <ContextMenuShortcut>Space</ContextMenuShortcut>
+        </ContextMenuItem>
+        {onTimerToggle && (
+          <ContextMenuItem onClick={onTimerToggle}>
+            {isTimerRunning ? <Square /> : <Play />}
+            {isTimerRunning ? 'Stop timer' : 'Start timer'}
+          </ContextMenuItem>
+        )}
+        {onReopen && (isDone || isDropped) && (
+          <ContextMenuItem onClick={onReopen}>
+            <RotateCcw />
+            Reopen
+          </ContextMenuItem>
+        )}
+        {(onDuplicate || onDelete) && <ContextMenuSeparator />}
+        {onDuplicate && (
+          <ContextMenuItem onClick={onDuplicate}>
+            <Copy />
+            Duplicate
+            <ContextMenuShortcut>⌘D</ContextMenuShortcut>
+          </ContextMenuItem>
+        )}
+        {onDelete && (
+          <ContextMenuItem variant="destructive" onClick={onDelete}>
+            <Trash2 />
+            Delete
+            <ContextMenuShortcut>⌫</ContextMenuShortcut>
+          </ContextMenuItem>
+        )}
+      </ContextMenuContent>
+    </ContextMenu>
   )
 }
 
@@ -207,26 +321,55 @@ export function TaskItem({
 // -----------------------------------------------------------------------------
 
 interface TaskMetadataProps {
+  tags?: string[]
+  checklist?: ChecklistItem[]
+  waitingOn?: Task[]
   contextName?: string
   scheduled?: string
   due?: string
+  completed?: string
   isDone: boolean
 }
 
 function TaskMetadata({
+  tags,
+  checklist,
+  waitingOn,
   contextName,
   scheduled,
   due,
+  completed,
   isDone,
 }: TaskMetadataProps) {
   // Don't render anything if no metadata
-  if (!contextName && !scheduled && !due) return null
+  if (
+    !tags?.length &&
+    !checklist?.length &&
+    !waitingOn?.length &&
+    !contextName &&
+    !scheduled &&
+    !due &&
+    !completed
+  ) {
+    return null
+  }
 
   // Mute everything if task is done
   const mutedClass = isDone ? 'opacity-50' : ''
 
   return (
-    <div className={cn('flex items-center gap-1.5 text-xs min-w-0', mutedClass)}>
+    <div
+      className={cn('flex items-center gap-1.5 text-xs min-w-0', mutedClass)}
+    >
+      {/* Tags - at most two, the rest as "+N" */}
+      <TagChips tags={tags} max={2} />
+
+      {/* Checklist progress - done/total */}
+      <ChecklistProgressBadge checklist={checklist} />
+
+      {/* Blockers it's waiting on - count, titles on hover */}
+      <WaitingOnBadge blockers={waitingOn} />
+
       {/* Context (project/area name) - flexible width, truncates */}
       {contextName && (
         <span className="text-muted-foreground truncate min-w-0 max-w-24">
@@ -246,15 +389,21 @@ function TaskMetadata({
         <span
           className={cn(
             'flex items-center gap-0.5 whitespace-nowrap shrink-0',
-            isOverdue(due) && !isDone
-              ? 'text-date-overdue'
-              : 'text-date-due/80'
+            isOverdue(due) && !isDone ? 'text-date-overdue' : 'text-date-due/80'
           )}
         >
           <Flag className="size-3" />
           {formatRelativeDate(due)}
         </span>
       )}
+
+      {/* Completion date with check - shrinks to fit */}
+      {completed && (
+        <span className="flex items-center gap-0.5 text-muted-foreground whitespace-nowrap shrink-0">
+          <CircleCheck className="size-3" />
+          {formatRelativeDate(completed)}
+        </span>
+      )}
     </div>
   )
 }
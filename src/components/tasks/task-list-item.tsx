@@ -13,10 +13,15 @@ import * as React from 'react'
 import { useSortable } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
 import { cn } from '@/lib/utils'
 import { TaskItem, type TaskItemProps } from './task-item'
 
-export interface TaskListItemProps extends Omit<TaskItemProps, 'className'> {
+export interface TaskListItemProps extends Omit<
+  TaskItemProps,
+  'className' | 'waitingOn' | 'onTimerToggle'
+> {
   /** Used for dnd-kit sortable */
   dragId: string
   /** Project ID for cross-container drag detection */
@@ -26,7 +31,8 @@ export interface TaskListItemProps extends Omit<TaskItemProps, 'className'> {
 
 /**
  * A sortable task list item for use within a SortableContext.
- * This is a wrapper around TaskItem that adds drag-and-drop support.
+ * This is a wrapper around TaskItem that adds drag-and-drop support, looks
+ * up the blockers the task is waiting on and toggles its timer.
  *
  * For cross-container drag scenarios with gap animations, use SortableTaskItem instead.
  */
@@ -38,6 +44,7 @@ export function TaskListItem({
   isEditing,
   ...taskItemProps
 }: TaskListItemProps) {
+  const { getTaskWaitingOn, toggleTaskTimer } = useAppData()
   const {
     attributes,
     listeners,
@@ -70,7 +77,13 @@ export function TaskListItem({
       {...dragProps}
       className={cn('touch-manipulation', isDragging && 'opacity-50', className)}
     >
-      <TaskItem task={task} isEditing={isEditing} {...taskItemProps} />
+      <TaskItem
+        task={task}
+        isEditing={isEditing}
+        waitingOn={getTaskWaitingOn(task.id)}
+        onTimerToggle={() => toggleTaskTimer(task.id)}
+        {...taskItemProps}
+      />
     </div>
   )
 }
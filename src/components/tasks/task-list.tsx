@@ -18,10 +18,21 @@ import {
 } from '@dnd-kit/sortable'
 
 import { cn } from '@/lib/utils'
+import { moveItemsTogether } from '@/lib/task-selection'
 import type { Task } from '@/types/data'
+import type { QuickEntryFields } from '@/lib/quick-entry'
 import { SortableTaskItem } from './sortable-task-item'
 import { TaskStatusCheckbox } from './task-status-checkbox'
 import { useTaskDragPreview } from './task-dnd-context'
+import { DeleteTaskDialog } from './delete-task-dialog'
+import { NewTaskRow } from './new-task-row'
+import { DragCountBadge } from './drag-count-badge'
+import { useTaskActions } from '@/hooks/use-task-actions'
+import {
+  useTaskSelection,
+  useTaskSelectionStore,
+} from '@/store/task-selection-store'
+import { DragHistoryGroup } from '@/components/history/drag-history-group'
 
 /**
  * Task List Components
@@ -32,13 +43,17 @@ import { useTaskDragPreview } from './task-dnd-context'
  *    Expects external DndContext, handles only same-container reordering.
  *    Used when multiple lists need cross-container drag support.
  *
- * 2. DraggableTaskList - Standalone with its own DndContext (e.g., ProjectView)
+ * 2. DraggableTaskList - Standalone with its own DndContext (e.g., TagView)
  *    Self-contained drag-and-drop. Use when there's only one list.
  *
  * Both provide:
  * - Keyboard navigation (arrows, Enter to edit, Space to toggle status)
- * - Cmd/Ctrl+N to create new task after selection
+ * - Cmd/Ctrl+N to create a new task after selection, typed into a
+ *   quick-entry row that understands dates, #areas and @projects
  * - Cmd/Ctrl+Arrow to reorder selected task
+ * - Multi-selection for bulk editing and dragging: Cmd/Ctrl-click,
+ *   Shift-click and Shift+Arrow (see task-selection-store)
+ * - Delete/Backspace to delete (with confirmation), Cmd/Ctrl+D to duplicate
  * - Visual selection and inline title editing
  */
 
@@ -54,8 +69,14 @@ interface BaseTaskListProps {
   onTaskStatusToggle: (taskId: string) => void
   /** Called when a task's open-detail button is clicked */
   onTaskOpenDetail?: (taskId: string) => void
-  /** Called when Cmd/Ctrl+N is pressed. Returns the new task ID to edit. */
-  onCreateTask?: (afterTaskId: string | null) => string | void
+  /**
+   * Called when a task is entered after Cmd/Ctrl+N, with the fields parsed
+   * from the quick-entry row. Returns the new task ID to select.
+   */
+  onCreateTask?: (
+    afterTaskId: string | null,
+    quickEntry?: QuickEntryFields
+  ) => string | void
   className?: string
   /** Function to get context name (project/area) for a task */
   getContextName?: (task: Task) => string | undefined
@@ -84,10 +105,14 @@ interface TaskListProps extends BaseTaskListProps {
  *
  * Keyboard shortcuts:
  * - Arrow Up/Down: Move selection
+ * - Shift + Arrow Up/Down: Extend the multi-selection
  * - Enter: Start editing selected task title
- * - Escape: Cancel editing, or deselect
+ * - Escape: Cancel editing, or deselect (including the multi-selection)
  * - Cmd/Ctrl + Arrow Up/Down: Reorder selected task
  * - Space: Toggle task status (done/ready)
+ * - Delete/Backspace: Delete selected task (asks for confirmation)
+ * - Cmd/Ctrl + D: Duplicate selected task
+ * - Cmd/Ctrl + N: New task after selected task (quick-entry row)
  */
 export function TaskList({
   tasks,
@@ -128,6 +153,37 @@ export function TaskList({
       : internalEditingTaskId
   const setEditingTaskId = onEditingTaskIdChange ?? setInternalEditingTaskId
 
+  // Quick-entry row for a new task, shown after this task (null: at the end)
+  const [newTaskAfterId, setNewTaskAfterId] = React.useState<
+    string | null | undefined
+  >(undefined)
+  const isCreating = newTaskAfterId !== undefined
+  // Just created from the quick-entry row, to select once it shows up
+  const [createdTaskId, setCreatedTaskId] = React.useState<string | null>(null)
+
+  const { requestDelete, duplicateTask, deleteDialogProps } = useTaskActions()
+
+  // Multi-selection; with one task selected the list shows selectedIndex
+  const taskIds = React.useMemo(() => tasks.map((t) => t.id), [tasks])
+  const { hasMultiSelection, isMultiSelected, selectByClick, extendSelection } =
+    useTaskSelection(taskIds)
+  const clearMultiSelection = useTaskSelectionStore(
+    (state) => state.clearSelection
+  )
+
+  // Move the keyboard selection, making it the only selected task
+  const moveSelection = (index: number) => {
+    setSelectedIndex(index)
+    selectByClick(tasks[index].id)
+  }
+
+  // Shift+Arrow: extend the multi-selection to the next/previous task
+  const extendSelectionBy = (offset: 1 | -1) => {
+    if (selectedIndex === null || !tasks[selectedIndex]) return
+    const toId = extendSelection(tasks[selectedIndex].id, offset)
+    if (toId) setSelectedIndex(selectedIndex + offset)
+  }
+
   // Get drag context for dropped task selection and cross-container gap animation
   const {
     lastDroppedTaskId,
@@ -171,6 +227,15 @@ export function TaskList({
     clearCrossContainerHover,
   ])
 
+  // Select a task created from the quick-entry row. Its tokens may have put
+  // it in another list or on another date - then the selection stays put
+  React.useEffect(() => {
+    if (!createdTaskId) return
+    const createdIndex = tasks.findIndex((t) => t.id === createdTaskId)
+    if (createdIndex !== -1) setSelectedIndex(createdIndex)
+    setCreatedTaskId(null)
+  }, [createdTaskId, tasks, setSelectedIndex])
+
   // Keep selection valid when tasks change
   React.useEffect(() => {
     if (selectedIndex !== null && selectedIndex >= tasks.length) {
@@ -189,13 +254,17 @@ export function TaskList({
   const handleKeyDown = (e: React.KeyboardEvent) => {
     // Don't handle keyboard events while editing
     if (editingTaskId) return
+    // Ignore keys from portalled popups (e.g., a row's context menu)
+    if (!containerRef.current?.contains(e.target as Node)) return
 
     const isMeta = e.metaKey || e.ctrlKey
 
     switch (e.key) {
       case 'ArrowDown':
         e.preventDefault()
-        if (isMeta && selectedIndex !== null) {
+        if (e.shiftKey && !isMeta) {
+          extendSelectionBy(1)
+        } else if (isMeta && selectedIndex !== null) {
           // Reorder: move task down
           if (selectedIndex < tasks.length - 1) {
             const newTasks = arrayMove(tasks, selectedIndex, selectedIndex + 1)
@@ -205,16 +274,18 @@ export function TaskList({
         } else {
           // Navigate down
           if (selectedIndex === null) {
-            setSelectedIndex(0)
+            moveSelection(0)
           } else if (selectedIndex < tasks.length - 1) {
-            setSelectedIndex(selectedIndex + 1)
+            moveSelection(selectedIndex + 1)
           }
         }
         break
 
       case 'ArrowUp':
         e.preventDefault()
-        if (isMeta && selectedIndex !== null) {
+        if (e.shiftKey && !isMeta) {
+          extendSelectionBy(-1)
+        } else if (isMeta && selectedIndex !== null) {
           // Reorder: move task up
           if (selectedIndex > 0) {
             const newTasks = arrayMove(tasks, selectedIndex, selectedIndex - 1)
@@ -224,9 +295,9 @@ export function TaskList({
         } else {
           // Navigate up
           if (selectedIndex === null) {
-            setSelectedIndex(tasks.length - 1)
+            moveSelection(tasks.length - 1)
           } else if (selectedIndex > 0) {
-            setSelectedIndex(selectedIndex - 1)
+            moveSelection(selectedIndex - 1)
           }
         }
         break
@@ -243,6 +314,7 @@ export function TaskList({
         if (selectedIndex !== null) {
           setSelectedIndex(null)
         }
+        clearMultiSelection()
         break
 
       case ' ':
@@ -252,37 +324,42 @@ export function TaskList({
         }
         break
 
+      case 'Backspace':
+      case 'Delete':
+        if (selectedIndex !== null && tasks[selectedIndex]) {
+          e.preventDefault()
+          requestDelete(tasks[selectedIndex].id)
+        }
+        break
+
+      case 'd':
+      case 'D':
+        if (isMeta && selectedIndex !== null && tasks[selectedIndex]) {
+          e.preventDefault()
+          duplicateTask(tasks[selectedIndex].id)
+        }
+        break
+
       case 'n':
       case 'N':
-        if (isMeta && onCreateTask) {
+        // Shift+Cmd+N is the global quick-capture shortcut
+        if (isMeta && !e.shiftKey && onCreateTask) {
           e.preventDefault()
-          const afterTaskId =
+          setNewTaskAfterId(
             selectedIndex !== null && tasks[selectedIndex]
               ? tasks[selectedIndex].id
               : null
-          const newTaskId = onCreateTask(afterTaskId)
-          // If a new task ID was returned, start editing it
-          if (newTaskId) {
-            // Find the index of the new task (it should be right after the selected one)
-            // We need to wait for the tasks to update, so we'll set editing state
-            // The new task will be in editing mode once it appears
-            setEditingTaskId(newTaskId)
-            // Select the new task (it will be after the current one)
-            if (selectedIndex !== null) {
-              setSelectedIndex(selectedIndex + 1)
-            } else {
-              setSelectedIndex(tasks.length) // Will be at the end
-            }
-          }
+          )
         }
         break
     }
   }
 
   // Selection handlers
-  const handleSelect = (index: number) => {
+  const handleSelect = (index: number, e?: React.MouseEvent) => {
     setSelectedIndex(index)
     setEditingTaskId(null)
+    selectByClick(tasks[index].id, e)
   }
 
   const handleStartEdit = (taskId: string) => {
@@ -295,6 +372,23 @@ export function TaskList({
     containerRef.current?.focus()
   }
 
+  const handleNewTaskSubmit = (quickEntry: QuickEntryFields) => {
+    const afterTaskId = newTaskAfterId ?? null
+    setNewTaskAfterId(undefined)
+    const newTaskId = onCreateTask?.(afterTaskId, quickEntry)
+    if (newTaskId) setCreatedTaskId(newTaskId)
+    containerRef.current?.focus()
+  }
+
+  const handleNewTaskCancel = () => {
+    setNewTaskAfterId(undefined)
+    containerRef.current?.focus()
+  }
+
+  const newTaskRow = isCreating && (
+    <NewTaskRow onSubmit={handleNewTaskSubmit} onCancel={handleNewTaskCancel} />
+  )
+
   // Generate drag IDs with project prefix for uniqueness across containers
   const dragIds = React.useMemo(
     () => tasks.map((t) => `task-${projectId}-${t.id}`),
@@ -330,49 +424,65 @@ export function TaskList({
   }
 
   return (
-    <div
-      ref={containerRef}
-      className={cn('outline-none', className)}
-      tabIndex={0}
-      onKeyDown={handleKeyDown}
-      onBlur={handleBlur}
-    >
-      <SortableContext items={dragIds} strategy={verticalListSortingStrategy}>
-        <div className="space-y-0.5">
-          {tasks.map((task, index) => (
-            <SortableTaskItem
-              key={task.id}
-              task={task}
-              dragId={dragIds[index]}
-              containerId={projectId}
-              droppedTaskInList={droppedTaskInList}
-              isSelected={selectedIndex === index}
-              isEditing={editingTaskId === task.id}
-              onSelect={() => handleSelect(index)}
-              onStartEdit={() => handleStartEdit(task.id)}
-              onEndEdit={handleEndEdit}
-              onTitleChange={(newTitle) =>
-                onTaskTitleChange(task.id, newTitle)
-              }
-              onStatusToggle={() => onTaskStatusToggle(task.id)}
-              onOpenDetail={
-                onTaskOpenDetail ? () => onTaskOpenDetail(task.id) : undefined
-              }
-              contextName={getContextName?.(task)}
-              showScheduled={showScheduled}
-              showDue={showDue}
+    <>
+      <div
+        ref={containerRef}
+        className={cn('outline-none', className)}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onBlur={handleBlur}
+      >
+        <SortableContext items={dragIds} strategy={verticalListSortingStrategy}>
+          <div className="space-y-0.5">
+            {tasks.map((task, index) => (
+              <React.Fragment key={task.id}>
+                <SortableTaskItem
+                  task={task}
+                  dragId={dragIds[index]}
+                  containerId={projectId}
+                  droppedTaskInList={droppedTaskInList}
+                  isSelected={
+                    hasMultiSelection
+                      ? isMultiSelected(task.id)
+                      : selectedIndex === index
+                  }
+                  isEditing={editingTaskId === task.id}
+                  onSelect={(e) => handleSelect(index, e)}
+                  onStartEdit={() => handleStartEdit(task.id)}
+                  onEndEdit={handleEndEdit}
+                  onTitleChange={(newTitle) =>
+                    onTaskTitleChange(task.id, newTitle)
+                  }
+                  onStatusToggle={() => onTaskStatusToggle(task.id)}
+                  onOpenDetail={
+                    onTaskOpenDetail
+                      ? () => onTaskOpenDetail(task.id)
+                      : undefined
+                  }
+                  onDuplicate={() => duplicateTask(task.id)}
+                  onDelete={() => requestDelete(task.id)}
+                  contextName={getContextName?.(task)}
+                  showScheduled={showScheduled}
+                  showDue={showDue}
+                />
+                {newTaskAfterId === task.id && newTaskRow}
+              </React.Fragment>
+            ))}
+            {newTaskAfterId === null && newTaskRow}
+            {/* Trailing gap for cross-container drag (append at end) */}
+            <div
+              className={cn(
+                'transition-[height] duration-150 ease-out',
+                showTrailingGap ? 'h-10' : 'h-0'
+              )}
             />
-          ))}
-          {/* Trailing gap for cross-container drag (append at end) */}
-          <div
-            className={cn(
-              'transition-[height] duration-150 ease-out',
-              showTrailingGap ? 'h-10' : 'h-0'
-            )}
-          />
-        </div>
-      </SortableContext>
-    </div>
+          </div>
+        </SortableContext>
+      </div>
+
+      {/* Outside the list so dialog key presses don't reach handleKeyDown */}
+      <DeleteTaskDialog {...deleteDialogProps} />
+    </>
   )
 }
 
@@ -384,7 +494,8 @@ type DraggableTaskListProps = BaseTaskListProps
 
 /**
  * A standalone task list with its own DndContext for drag-and-drop.
- * Use this when the task list is the only drag-drop container (e.g., ProjectView).
+ * Use this when the task list is the only drag-drop container (e.g., TagView).
+ * Dragging a task of a multi-selection moves the selection with it.
  */
 export function DraggableTaskList({
   tasks,
@@ -400,6 +511,8 @@ export function DraggableTaskList({
   showDue = true,
 }: DraggableTaskListProps) {
   const [activeTaskId, setActiveTaskId] = React.useState<string | null>(null)
+  // Selected tasks moving with the dragged one (empty for a single task)
+  const [draggedIds, setDraggedIds] = React.useState<string[]>([])
   const [selectedIndex, setSelectedIndex] = React.useState<number | null>(null)
   const [editingTaskId, setEditingTaskId] = React.useState<string | null>(null)
 
@@ -424,6 +537,12 @@ export function DraggableTaskList({
     const data = event.active.data.current as { taskId: string } | undefined
     if (data?.taskId) {
       setActiveTaskId(data.taskId)
+      const { selectedIds } = useTaskSelectionStore.getState()
+      setDraggedIds(
+        selectedIds.length > 1 && selectedIds.includes(data.taskId)
+          ? selectedIds
+          : []
+      )
       // Update selection to match dragged item
       const index = tasks.findIndex((t) => t.id === data.taskId)
       if (index !== -1) {
@@ -447,9 +566,19 @@ export function DraggableTaskList({
     const newIndex = tasks.findIndex((t) => t.id === overData.taskId)
 
     if (oldIndex !== -1 && newIndex !== -1) {
-      const newTasks = arrayMove(tasks, oldIndex, newIndex)
+      const newTasks =
+        draggedIds.length > 0
+          ? moveItemsTogether(
+              tasks,
+              (t) => t.id,
+              new Set(draggedIds),
+              activeData.taskId,
+              overData.taskId
+            )
+          : arrayMove(tasks, oldIndex, newIndex)
+      if (newTasks === tasks) return
       onTasksReorder(newTasks)
-      setSelectedIndex(newIndex)
+      setSelectedIndex(newTasks.findIndex((t) => t.id === activeData.taskId))
     }
   }
 
@@ -478,6 +607,7 @@ export function DraggableTaskList({
       onDragStart={handleDragStart}
       onDragEnd={handleDragEnd}
     >
+      <DragHistoryGroup />
       <TaskList
         tasks={tasks}
         projectId={projectId}
@@ -498,7 +628,9 @@ export function DraggableTaskList({
 
       {/* Drag Overlay */}
       <DragOverlay dropAnimation={dropAnimation}>
-        {activeTask && <TaskDragPreview task={activeTask} />}
+        {activeTask && (
+          <TaskDragPreview task={activeTask} count={draggedIds.length} />
+        )}
       </DragOverlay>
     </DndContext>
   )
@@ -508,7 +640,13 @@ export function DraggableTaskList({
 // Drag Preview
 // -----------------------------------------------------------------------------
 
-export function TaskDragPreview({ task }: { task: Task }) {
+interface TaskDragPreviewProps {
+  task: Task
+  /** Number of tasks being dragged, shown as a badge when more than one */
+  count?: number
+}
+
+export function TaskDragPreview({ task, count = 1 }: TaskDragPreviewProps) {
   return (
     <div className="flex items-center gap-3 px-2 py-2 rounded-lg bg-card shadow-xl border border-border/50">
       <TaskStatusCheckbox status={task.status} onToggle={() => {}} />
@@ -521,6 +659,7 @@ export function TaskDragPreview({ task }: { task: Task }) {
       >
         {task.title}
       </span>
+      {count > 1 && <DragCountBadge count={count} />}
     </div>
   )
 }
@@ -0,0 +1,290 @@
+import * as React from 'react'
+import { parseISO } from 'date-fns'
+import { Repeat } from 'lucide-react'
+
+import { cn } from '@/lib/utils'
+import { formatNthWeekday, formatRecurrence } from '@/lib/recurrence'
+import type { Recurrence, Task, Weekday } from '@/types/data'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { dateButtonStyles } from '@/components/ui/date-button'
+
+/**
+ * TaskRecurrenceButton - Repeat rule display with an editing popover.
+ *
+ * Used in TaskDetailPanel next to the date buttons. Styled like DateButton:
+ * shows a summary ("Every 2 weeks on Mon, Wed") or "Repeat" when unset.
+ *
+ * Picking a frequency fills in sensible defaults from the task's date
+ * (scheduled, else due, else today) - e.g., weekly on that weekday, monthly
+ * on that day of the month. Changes save immediately.
+ */
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+type Frequency =
+  | 'none'
+  | 'daily'
+  | 'weekly'
+  | 'monthly'
+  | 'yearly'
+  | 'after-completion'
+
+type MonthlyMode = 'monthly' | 'monthly-weekday'
+
+interface TaskRecurrenceButtonProps {
+  task: Task
+  onChange: (recurrence: Recurrence | undefined) => void
+}
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+const frequencyItems: { value: Frequency; label: string }[] = [
+  { value: 'none', label: 'Never' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+  { value: 'after-completion', label: 'After completion' },
+]
+
+const intervalUnits: Record<Exclude<Frequency, 'none'>, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+  yearly: 'year(s)',
+  'after-completion': 'day(s) after completion',
+}
+
+// Monday-first, matching the calendars
+const weekdayItems: { value: Weekday; label: string }[] = [
+  { value: 1, label: 'M' },
+  { value: 2, label: 'T' },
+  { value: 3, label: 'W' },
+  { value: 4, label: 'T' },
+  { value: 5, label: 'F' },
+  { value: 6, label: 'S' },
+  { value: 0, label: 'S' },
+]
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function getFrequency(rule: Recurrence | undefined): Frequency {
+  if (!rule) return 'none'
+  return rule.type === 'monthly-weekday' ? 'monthly' : rule.type
+}
+
+function getReferenceDate(task: Task): Date {
+  const value = task.scheduled ?? task.due ?? task.deferUntil
+  return value ? parseISO(value.slice(0, 10)) : new Date()
+}
+
+/** Which week of the month a date falls in (last week as -1) */
+function getWeekOfMonth(date: Date): 1 | 2 | 3 | 4 | -1 {
+  const week = Math.ceil(date.getDate() / 7)
+  return week > 4 ? -1 : (week as 1 | 2 | 3 | 4)
+}
+
+/** Default rule for a frequency, based on the task's date */
+function createRule(
+  frequency: Exclude<Frequency, 'none'>,
+  interval: number,
+  date: Date
+): Recurrence {
+  switch (frequency) {
+    case 'weekly':
+      return {
+        type: 'weekly',
+        interval,
+        weekdays: [date.getDay() as Weekday],
+      }
+    case 'monthly':
+      return { type: 'monthly', interval, day: date.getDate() }
+    default:
+      return { type: frequency, interval }
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export function TaskRecurrenceButton({
+  task,
+  onChange,
+}: TaskRecurrenceButtonProps) {
+  const rule = task.recurrence
+  const frequency = getFrequency(rule)
+  const referenceDate = getReferenceDate(task)
+  const styles = dateButtonStyles.scheduled
+
+  const handleFrequencyChange = (value: Frequency | null) => {
+    if (!value || value === frequency) return
+    if (value === 'none') {
+      onChange(undefined)
+      return
+    }
+    onChange(createRule(value, rule?.interval ?? 1, referenceDate))
+  }
+
+  const handleIntervalChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const interval = Number(e.target.value)
+    if (!rule || !Number.isInteger(interval) || interval < 1) return
+    onChange({ ...rule, interval })
+  }
+
+  const handleMonthlyModeChange = (mode: MonthlyMode | null) => {
+    if (!rule || !mode || mode === rule.type) return
+    onChange(
+      mode === 'monthly'
+        ? {
+            type: 'monthly',
+            interval: rule.interval,
+            day: referenceDate.getDate(),
+          }
+        : {
+            type: 'monthly-weekday',
+            interval: rule.interval,
+            week: getWeekOfMonth(referenceDate),
+            weekday: referenceDate.getDay() as Weekday,
+          }
+    )
+  }
+
+  // Label the monthly options with the rule's values, or the defaults
+  // switching would use
+  const monthDay = rule?.type === 'monthly' ? rule.day : referenceDate.getDate()
+  const nthWeekday =
+    rule?.type === 'monthly-weekday'
+      ? formatNthWeekday(rule.week, rule.weekday)
+      : formatNthWeekday(
+          getWeekOfMonth(referenceDate),
+          referenceDate.getDay() as Weekday
+        )
+  const monthlyItems: { value: MonthlyMode; label: string }[] = [
+    { value: 'monthly', label: `On day ${monthDay}` },
+    { value: 'monthly-weekday', label: `On the ${nthWeekday}` },
+  ]
+
+  return (
+    <Popover>
+      <PopoverTrigger
+        render={
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn(
+              'h-6 @[280px]:h-7 gap-0.5 @[280px]:gap-1 px-1.5 @[280px]:px-2 text-2xs @[280px]:text-xs font-normal border-0 max-w-40',
+              rule ? styles.active : styles.base
+            )}
+            title={rule ? formatRecurrence(rule) : 'Repeat'}
+          />
+        }
+      >
+        <Repeat className="size-3" />
+        <span className="truncate">
+          {rule ? formatRecurrence(rule) : 'Repeat'}
+        </span>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3 p-3" align="end">
+        <Select
+          items={frequencyItems}
+          value={frequency}
+          onValueChange={handleFrequencyChange}
+        >
+          <SelectTrigger size="sm" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {frequencyItems.map((item) => (
+              <SelectItem key={item.value} value={item.value}>
+                {item.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {rule && frequency !== 'none' && (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Every</span>
+            <Input
+              type="number"
+              min={1}
+              value={rule.interval}
+              onChange={handleIntervalChange}
+              className="h-7 w-14"
+            />
+            <span className="text-muted-foreground">
+              {intervalUnits[frequency]}
+            </span>
+          </div>
+        )}
+
+        {rule?.type === 'weekly' && (
+          <ToggleGroup
+            multiple
+            value={rule.weekdays.map(String)}
+            onValueChange={(values) => {
+              // Keep at least one weekday selected
+              if (values.length === 0) return
+              onChange({
+                ...rule,
+                weekdays: values.map((v) => Number(v) as Weekday),
+              })
+            }}
+            variant="outline"
+            size="sm"
+          >
+            {weekdayItems.map((item) => (
+              <ToggleGroupItem
+                key={item.value}
+                value={String(item.value)}
+                className="data-[pressed]:bg-muted data-[pressed]:shadow-inner"
+              >
+                {item.label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        )}
+
+        {(rule?.type === 'monthly' || rule?.type === 'monthly-weekday') && (
+          <Select
+            items={monthlyItems}
+            value={rule.type}
+            onValueChange={handleMonthlyModeChange}
+          >
+            <SelectTrigger size="sm" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {monthlyItems.map((item) => (
+                <SelectItem key={item.value} value={item.value}>
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,121 @@
+import { Clock } from 'lucide-react'
+
+import { cn } from '@/lib/utils'
+import {
+  formatDuration,
+  formatTimeBlock,
+  getBlockDuration,
+} from '@/lib/time-blocks'
+import type { Task } from '@/types/data'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { dateButtonStyles } from '@/components/ui/date-button'
+
+/**
+ * TaskTimeButton - Start time and duration of a scheduled task.
+ *
+ * Used in TaskDetailPanel next to the date buttons, once the task has a
+ * scheduled date. Styled like DateButton: shows the time block
+ * ("9:30–10:15") or "Time" when unset. The popover edits the start time
+ * and duration (lib/time-blocks); the same block can be dragged and
+ * resized on the WeekCalendar's timeline.
+ */
+interface TaskTimeButtonProps {
+  task: Task
+  onStartTimeChange: (startTime: string | undefined) => void
+  onDurationChange: (duration: number | undefined) => void
+}
+
+const durationOptions = [15, 30, 45, 60, 90, 120, 180, 240]
+
+export function TaskTimeButton({
+  task,
+  onStartTimeChange,
+  onDurationChange,
+}: TaskTimeButtonProps) {
+  const styles = dateButtonStyles.scheduled
+  const label = formatTimeBlock(task)
+  const duration = getBlockDuration(task)
+
+  // Keep a duration set by resizing on the timeline selectable
+  const durationItems = [...new Set([...durationOptions, duration])]
+    .sort((a, b) => a - b)
+    .map((minutes) => ({
+      value: String(minutes),
+      label: formatDuration(minutes),
+    }))
+
+  return (
+    <Popover>
+      <PopoverTrigger
+        render={
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn(
+              'h-6 @[280px]:h-7 gap-0.5 @[280px]:gap-1 px-1.5 @[280px]:px-2 text-2xs @[280px]:text-xs font-normal border-0',
+              label ? styles.active : styles.base
+            )}
+            title="Time"
+          />
+        }
+      >
+        <Clock className="size-3" />
+        <span className="truncate">{label ?? 'Time'}</span>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 space-y-3 p-3" align="end">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="w-16 text-muted-foreground">Starts</span>
+          <Input
+            type="time"
+            step={300}
+            value={task.startTime ?? ''}
+            onChange={(e) => onStartTimeChange(e.target.value || undefined)}
+            className="h-7 flex-1"
+          />
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <span className="w-16 text-muted-foreground">Takes</span>
+          <Select
+            items={durationItems}
+            value={String(duration)}
+            onValueChange={(value) => value && onDurationChange(Number(value))}
+          >
+            <SelectTrigger size="sm" className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {durationItems.map((item) => (
+                <SelectItem key={item.value} value={item.value}>
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {task.startTime && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full"
+            onClick={() => onStartTimeChange(undefined)}
+          >
+            Clear time
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,34 @@
+import { Link2 } from 'lucide-react'
+
+import { cn } from '@/lib/utils'
+import type { Task } from '@/types/data'
+
+/**
+ * WaitingOnBadge - "Waiting on" indicator for tasks with unfinished blockers.
+ *
+ * Shows a link icon with the number of blockers; hover for their titles.
+ * Used in TaskItem's metadata and TaskCard's footer. Renders nothing when
+ * there are no blockers.
+ */
+interface WaitingOnBadgeProps {
+  /** Unfinished blockers (see getTaskWaitingOn) */
+  blockers: Task[] | undefined
+  className?: string
+}
+
+export function WaitingOnBadge({ blockers, className }: WaitingOnBadgeProps) {
+  if (!blockers?.length) return null
+
+  return (
+    <span
+      className={cn(
+        'flex items-center gap-0.5 text-status-blocked whitespace-nowrap shrink-0',
+        className
+      )}
+      title={`Waiting on ${blockers.map((t) => `"${t.title}"`).join(', ')}`}
+    >
+      <Link2 className="size-3" />
+      {blockers.length}
+    </span>
+  )
+}
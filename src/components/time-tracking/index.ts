@@ -0,0 +1,3 @@
+export { TaskTimerButton } from './task-timer-button'
+export { TaskTimeEntries } from './task-time-entries'
+export { RunningTimer } from './running-timer'
@@ -0,0 +1,48 @@
+import { Square } from 'lucide-react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { formatElapsed, getEntryDuration } from '@/lib/time-tracking'
+import { useTaskDetailStore } from '@/store/task-detail-store'
+import { useNow } from '@/hooks/use-now'
+
+/**
+ * RunningTimer - The running timer, shown in ViewHeader on every view.
+ *
+ * Shows the timed task's title and the time elapsed. Clicking the title
+ * opens the task; the stop button stops the timer. Renders nothing while
+ * no timer runs.
+ */
+export function RunningTimer() {
+  const { getRunningTimer, stopTimer } = useAppData()
+  const openTask = useTaskDetailStore((state) => state.openTask)
+  const timer = getRunningTimer()
+  const now = useNow(timer !== undefined)
+
+  if (!timer) return null
+
+  return (
+    <div className="flex min-w-0 items-center gap-1 rounded-full bg-primary/10 py-0.5 ps-2.5 pe-0.5 text-xs text-primary">
+      <span className="size-1.5 shrink-0 rounded-full bg-primary animate-pulse" />
+      <button
+        type="button"
+        onClick={() => openTask(timer.task.id)}
+        className="hidden @md:block truncate max-w-40 ms-0.5 hover:underline"
+        title={`Open "${timer.task.title}"`}
+      >
+        {timer.task.title}
+      </button>
+      <span className="shrink-0 tabular-nums font-medium">
+        {formatElapsed(getEntryDuration(timer.entry, now))}
+      </span>
+      <button
+        type="button"
+        onClick={stopTimer}
+        className="shrink-0 rounded-full p-1 hover:bg-primary/20"
+        title="Stop timer"
+      >
+        <Square className="size-3 fill-current" />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,222 @@
+import * as React from 'react'
+import { format, parseISO } from 'date-fns'
+import { ChevronRight, Plus, Timer, X } from 'lucide-react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { cn } from '@/lib/utils'
+import { formatDuration } from '@/lib/time-blocks'
+import {
+  createTimeEntry,
+  getEntryDuration,
+  getRunningEntry,
+  getTrackedTime,
+} from '@/lib/time-tracking'
+import type { Task, TimeEntry } from '@/types/data'
+import { useNow } from '@/hooks/use-now'
+import { TaskTimerButton } from './task-timer-button'
+
+/**
+ * TaskTimeEntries - The time tracking section of TaskDetailPanel.
+ *
+ * The summary row shows the total time tracked, the timer button and a
+ * button to log time by hand (the last half hour, to adjust). Expanding it
+ * lists the entries, newest first, each with an editable day, start and
+ * end; an end before the start means the entry ran past midnight.
+ */
+interface TaskTimeEntriesProps {
+  task: Task
+}
+
+/** Minutes logged by "Add time", ending now */
+const MANUAL_ENTRY_MINUTES = 30
+
+export function TaskTimeEntries({ task }: TaskTimeEntriesProps) {
+  const { toggleTaskTimer, updateTaskTimeEntries } = useAppData()
+  const [isExpanded, setIsExpanded] = React.useState(false)
+  const now = useNow(getRunningEntry(task) !== undefined)
+
+  const entries = task.timeEntries ?? []
+  const total = Math.floor(getTrackedTime(task, now) / 60000)
+
+  const updateEntry = (entryId: string, changes: Partial<TimeEntry>) =>
+    updateTaskTimeEntries(
+      task.id,
+      entries.map((entry) =>
+        entry.id === entryId ? { ...entry, ...changes } : entry
+      )
+    )
+
+  const removeEntry = (entryId: string) =>
+    updateTaskTimeEntries(
+      task.id,
+      entries.filter((entry) => entry.id !== entryId)
+    )
+
+  const handleAdd = () => {
+    const end = new Date()
+    const start = new Date(end.getTime() - MANUAL_ENTRY_MINUTES * 60000)
+    updateTaskTimeEntries(task.id, [
+      ...entries,
+      createTimeEntry(start.toISOString(), end.toISOString()),
+    ])
+    setIsExpanded(true)
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2 text-sm">
+        <button
+          type="button"
+          onClick={() => setIsExpanded((prev) => !prev)}
+          disabled={entries.length === 0}
+          className="flex flex-1 min-w-0 items-center gap-1.5 text-muted-foreground enabled:hover:text-foreground"
+        >
+          <ChevronRight
+            className={cn(
+              'size-3.5 transition-transform',
+              isExpanded && entries.length > 0 && 'rotate-90',
+              entries.length === 0 && 'invisible'
+            )}
+          />
+          <Timer className="size-3.5" />
+          <span className="tabular-nums">
+            {entries.length > 0
+              ? `${formatDuration(total)} tracked`
+              : 'No time tracked'}
+          </span>
+        </button>
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="rounded p-1 text-muted-foreground hover:bg-accent hover:text-foreground"
+          title="Add time"
+        >
+          <Plus className="size-3.5" />
+        </button>
+        <TaskTimerButton
+          task={task}
+          onToggle={() => toggleTaskTimer(task.id)}
+        />
+      </div>
+
+      {isExpanded && (
+        <div className="space-y-0.5 ps-5">
+          {[...entries].reverse().map((entry) => (
+            <TimeEntryRow
+              key={entry.id}
+              entry={entry}
+              now={now}
+              onChange={(changes) => updateEntry(entry.id, changes)}
+              onRemove={() => removeEntry(entry.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// -----------------------------------------------------------------------------
+// Time Entry Row
+// -----------------------------------------------------------------------------
+
+interface TimeEntryRowProps {
+  entry: TimeEntry
+  now: number
+  onChange: (changes: Partial<TimeEntry>) => void
+  onRemove: () => void
+}
+
+/** ISO datetime for a local day ("yyyy-MM-dd") and time ("HH:mm") */
+function toISO(day: string, time: string): string {
+  return new Date(`${day}T${time}`).toISOString()
+}
+
+/** The end on the entry's start day, or the next if it's before the start */
+function getEnd(day: string, start: string, end: string): string {
+  const iso = toISO(day, end)
+  if (end >= start) return iso
+  const next = new Date(iso)
+  next.setDate(next.getDate() + 1)
+  return next.toISOString()
+}
+
+function TimeEntryRow({ entry, now, onChange, onRemove }: TimeEntryRowProps) {
+  const start = parseISO(entry.start)
+  const day = format(start, 'yyyy-MM-dd')
+  const startTime = format(start, 'HH:mm')
+  const endTime = entry.end ? format(parseISO(entry.end), 'HH:mm') : undefined
+
+  // Each field is committed on blur, so the entry isn't rewritten while a
+  // time is half typed
+  const handleDayChange = (value: string) => {
+    if (!value || value === day) return
+    onChange({
+      start: toISO(value, startTime),
+      end: endTime ? getEnd(value, startTime, endTime) : undefined,
+    })
+  }
+
+  const handleStartChange = (value: string) => {
+    if (!value || value === startTime) return
+    onChange({
+      start: toISO(day, value),
+      end: endTime ? getEnd(day, value, endTime) : undefined,
+    })
+  }
+
+  const handleEndChange = (value: string) => {
+    if (!value || value === endTime) return
+    onChange({ end: getEnd(day, startTime, value) })
+  }
+
+  const inputClass =
+    'bg-transparent rounded px-1 py-0.5 tabular-nums outline-none hover:bg-muted focus:bg-muted'
+
+  return (
+    <div className="group flex items-center gap-1 text-xs">
+      {/* Keyed by the value so undo or the timer shows up in the input */}
+      <input
+        key={`day-${day}`}
+        type="date"
+        defaultValue={day}
+        onBlur={(e) => handleDayChange(e.target.value)}
+        className={cn(inputClass, 'w-28')}
+        aria-label="Day"
+      />
+      <input
+        key={`start-${startTime}`}
+        type="time"
+        defaultValue={startTime}
+        onBlur={(e) => handleStartChange(e.target.value)}
+        className={inputClass}
+        aria-label="Start"
+      />
+      <span className="text-muted-foreground">–</span>
+      {endTime ? (
+        <input
+          key={`end-${endTime}`}
+          type="time"
+          defaultValue={endTime}
+          onBlur={(e) => handleEndChange(e.target.value)}
+          className={inputClass}
+          aria-label="End"
+        />
+      ) : (
+        <span className="px-1 text-primary">running</span>
+      )}
+      <span className="flex-1 text-end tabular-nums text-muted-foreground">
+        {formatDuration(Math.floor(getEntryDuration(entry, now) / 60000))}
+      </span>
+      <button
+        type="button"
+        onClick={onRemove}
+        className="rounded p-1 text-muted-foreground opacity-0 group-hover:opacity-100 focus-visible:opacity-100 hover:bg-accent hover:text-foreground"
+        title="Remove entry"
+      >
+        <X className="size-3.5" />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+import { Play, Square } from 'lucide-react'
+
+import { cn } from '@/lib/utils'
+import {
+  formatElapsed,
+  getEntryDuration,
+  getRunningEntry,
+} from '@/lib/time-tracking'
+import type { Task } from '@/types/data'
+import { useNow } from '@/hooks/use-now'
+
+/**
+ * TaskTimerButton - Start/stop button for a task's timer.
+ *
+ * Stopped, it's a play icon; running, a stop icon with the time elapsed,
+ * ticking every second. Used in TaskItem, TaskCard and TaskDetailPanel
+ * (TaskTimeEntries). Clicks don't reach the row or card underneath.
+ */
+interface TaskTimerButtonProps {
+  task: Task
+  onToggle: () => void
+  /** Hide the stopped button until the parent `group` is hovered */
+  revealOnHover?: boolean
+  className?: string
+}
+
+export function TaskTimerButton({
+  task,
+  onToggle,
+  revealOnHover = false,
+  className,
+}: TaskTimerButtonProps) {
+  const running = getRunningEntry(task)
+  const now = useNow(running !== undefined)
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation()
+        onToggle()
+      }}
+      className={cn(
+        'shrink-0 inline-flex items-center gap-1 rounded-full p-1 -m-0.5 text-xs tabular-nums transition-colors',
+        running
+          ? 'px-1.5 bg-primary/10 text-primary hover:bg-primary/20'
+          : 'text-muted-foreground hover:text-foreground hover:bg-muted',
+        !running &&
+          revealOnHover &&
+          'opacity-0 group-hover:opacity-100 focus-visible:opacity-100',
+        className
+      )}
+      title={running ? 'Stop timer' : 'Start timer'}
+    >
+      {running ? (
+        <>
+          <Square className="size-3 fill-current" />
+          {formatElapsed(getEntryDuration(running, now))}
+        </>
+      ) : (
+        <Play className="size-3" />
+      )}
+    </button>
+  )
+}
@@ -0,0 +1,56 @@
+import { Toast as ToastPrimitive } from '@base-ui/react/toast'
+import { XIcon } from 'lucide-react'
+
+import { toastManager } from '@/lib/toast'
+
+function ToastList() {
+  const { toasts } = ToastPrimitive.useToastManager()
+
+  return toasts.map((toast) => (
+    <ToastPrimitive.Root
+      key={toast.id}
+      toast={toast}
+      data-slot="toast"
+      className="bg-popover text-popover-foreground ring-foreground/10 flex w-72 items-start gap-2 rounded-lg px-3 py-2.5 text-sm shadow-md ring-1 transition-[opacity,translate] duration-150 data-starting-style:translate-y-2 data-starting-style:opacity-0 data-ending-style:opacity-0"
+    >
+      <div className="flex-1 min-w-0">
+        <ToastPrimitive.Title
+          data-slot="toast-title"
+          className="font-medium truncate"
+        />
+        <ToastPrimitive.Description
+          data-slot="toast-description"
+          className="text-muted-foreground text-xs"
+        />
+      </div>
+      <ToastPrimitive.Close
+        data-slot="toast-close"
+        aria-label="Dismiss"
+        className="text-muted-foreground hover:text-foreground -mr-1 rounded-sm p-0.5"
+      >
+        <XIcon className="size-3.5" />
+      </ToastPrimitive.Close>
+    </ToastPrimitive.Root>
+  ))
+}
+
+/**
+ * Renders toasts added via `showToast` from lib/toast.
+ * Mount once near the app root.
+ */
+function Toaster({ timeout = 3000 }: { timeout?: number }) {
+  return (
+    <ToastPrimitive.Provider toastManager={toastManager} timeout={timeout}>
+      <ToastPrimitive.Portal>
+        <ToastPrimitive.Viewport
+          data-slot="toast-viewport"
+          className="fixed bottom-4 left-1/2 z-50 flex -translate-x-1/2 flex-col items-center gap-2 outline-none"
+        >
+          <ToastList />
+        </ToastPrimitive.Viewport>
+      </ToastPrimitive.Portal>
+    </ToastPrimitive.Provider>
+  )
+}
+
+export { Toaster }
@@ -1,10 +1,10 @@
-import { List, Columns3, Calendar } from 'lucide-react'
+import { List, Columns3, Calendar, CalendarClock, Network } from 'lucide-react'
 
 import { cn } from '@/lib/utils'
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
 
 /**
- * ViewToggle - Icon toggle group for switching between list/kanban/calendar views.
+ * ViewToggle - Icon toggle group for switching between list/kanban/calendar/timeline/graph views.
  *
  * Used in ViewHeader to let users choose how they want to see their tasks.
  * Available modes are configurable - not all views support all modes.
@@ -12,7 +12,7 @@ import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
  * View mode state is managed by view-mode-store (Zustand) with separate
  * state per view type (e.g., AreaView can be list while WeekView is calendar).
  */
-export type ViewMode = 'list' | 'kanban' | 'calendar'
+export type ViewMode = 'list' | 'kanban' | 'calendar' | 'timeline' | 'graph'
 
 interface ViewToggleProps {
   value: ViewMode
@@ -26,6 +26,8 @@ const modeConfig: Record<ViewMode, { icon: typeof List; label: string }> = {
   list: { icon: List, label: 'List view' },
   kanban: { icon: Columns3, label: 'Kanban view' },
   calendar: { icon: Calendar, label: 'Calendar view' },
+  timeline: { icon: CalendarClock, label: 'Timeline view' },
+  graph: { icon: Network, label: 'Dependency graph' },
 }
 
 export function ViewToggle({
@@ -0,0 +1,64 @@
+import * as React from 'react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { useTagFilter } from '@/store/tag-filter-store'
+import { filterTasks as filterByCriteria } from '@/lib/task-filter'
+import { groupTasksByArea } from '@/lib/task-groups'
+import { AreaTaskGroupList } from '@/components/tasks/area-task-group-list'
+import { EmptyState } from '@/components/ui/empty-state'
+import type { TaskFilterCriteria } from '@/types/saved-filter'
+
+/**
+ * AnytimeView - Everything that can be worked on now.
+ *
+ * Lists ready and in-progress tasks that aren't deferred (no defer date, or
+ * one that has passed), grouped by area and project like AreaView. Tasks
+ * created here are ready. The header's tag filter applies.
+ */
+interface AnytimeViewProps {
+  onNavigateToProject: (projectId: string) => void
+  onNavigateToArea: (areaId: string) => void
+}
+
+const ANYTIME_CRITERIA: TaskFilterCriteria = {
+  statuses: ['ready', 'in-progress'],
+  deferred: false,
+}
+
+export function AnytimeView({
+  onNavigateToProject,
+  onNavigateToArea,
+}: AnytimeViewProps) {
+  const { data, getEffectiveAreaId } = useAppData()
+  const { tags, filterTasks } = useTagFilter()
+
+  const groups = React.useMemo(() => {
+    const available = filterByCriteria(data.tasks, ANYTIME_CRITERIA, {
+      getEffectiveAreaId,
+    })
+    return groupTasksByArea(filterTasks(available), data)
+  }, [data, getEffectiveAreaId, filterTasks])
+
+  if (groups.length === 0) {
+    return (
+      <EmptyState
+        title={
+          tags.length > 0
+            ? 'No available tasks match the tag filter.'
+            : 'Nothing available right now.'
+        }
+        description="Ready and in-progress tasks that aren't deferred will appear here."
+      />
+    )
+  }
+
+  return (
+    <AreaTaskGroupList
+      groups={groups}
+      newTaskOptions={{ status: 'ready', tags }}
+      onNavigateToProject={onNavigateToProject}
+      onNavigateToArea={onNavigateToArea}
+    />
+  )
+}
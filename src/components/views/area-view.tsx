@@ -1,10 +1,15 @@
 import * as React from 'react'
 import { ListTodo } from 'lucide-react'
+import { arrayMove } from '@dnd-kit/sortable'
 
 // TODO(tauri-integration): Migrate to TanStack Query
 import { useAppData } from '@/context/app-data-context'
 import { useTaskDetailStore } from '@/store/task-detail-store'
 import { useViewMode } from '@/store/view-mode-store'
+import { useTagFilter } from '@/store/tag-filter-store'
+import { useHeadingList } from '@/hooks/use-heading-list'
+import type { QuickEntryFields } from '@/lib/quick-entry'
+import { hasAllTags } from '@/lib/tags'
 import { ProjectTaskGroup } from '@/components/tasks/project-task-group'
 import { SectionTaskGroup } from '@/components/tasks/section-task-group'
 import {
@@ -14,12 +19,18 @@ import {
 } from '@/components/tasks/task-dnd-context'
 import { ProjectCard } from '@/components/cards/project-card'
 import { CollapsibleNotesSection } from '@/components/ui/collapsible-notes'
+import { ProjectDependencyGraph } from '@/components/projects/project-dependency-graph'
 import {
   AreaKanbanBoard,
   useAreaCollapsedColumns,
   LOOSE_TASKS_SWIMLANE_ID,
 } from '@/components/kanban'
 import type { Task, Project } from '@/types/data'
+import {
+  getAreaHeadingListKey,
+  parseOrderedItemDragId,
+  toOrderId,
+} from '@/types/headings'
 
 /**
  * AreaView - Shows all projects and tasks within a life area.
@@ -28,14 +39,17 @@ import type { Task, Project } from '@/types/data'
  * "Work"). This view displays:
  * 1. Area notes (collapsible) - background info about this life area
  * 2. Active Projects grid - cards for in-progress/ready/planning/blocked projects
- * 3. All Projects list OR Kanban - depends on view mode toggle
+ * 3. All Projects list, Kanban OR dependency graph - depends on view mode toggle
  *
- * Supports two view modes (toggled via ViewHeader):
+ * Supports three view modes (toggled via ViewHeader):
  * - "list" → Collapsible project groups with task lists + loose tasks section
  * - "kanban" → AreaKanbanBoard with swimlanes per project, tasks by status
+ * - "graph" → ProjectDependencyGraph of which projects block which
  *
  * Tasks can be dragged between projects in list mode. "Loose tasks" are tasks
- * directly under the area without a project.
+ * directly under the area without a project; in list mode they can be grouped
+ * under headings (see useHeadingList). The header's tag filter narrows the
+ * tasks in the list and kanban modes; project cards keep their full counts.
  */
 
 /** Active statuses for project cards grid */
@@ -54,6 +68,7 @@ interface AreaViewProps {
 export function AreaView({ areaId, onNavigateToProject }: AreaViewProps) {
   const { viewMode } = useViewMode('area')
   const { collapsedColumns, toggleColumn } = useAreaCollapsedColumns()
+  const { tags, filterTasks } = useTagFilter()
 
   const {
     getAreaById,
@@ -61,6 +76,8 @@ export function AreaView({ areaId, onNavigateToProject }: AreaViewProps) {
     getTasksByProjectId,
     getAreaDirectTasks,
     getProjectCompletion,
+    getProjectRemainingEstimate,
+    isProjectBlocked,
     getTaskById,
     createTask,
     updateTaskTitle,
@@ -76,9 +93,28 @@ export function AreaView({ areaId, onNavigateToProject }: AreaViewProps) {
   } = useAppData()
   const { openTask } = useTaskDetailStore()
 
+  // State for auto-editing a newly added heading
+  const [pendingEditItemId, setPendingEditItemId] = React.useState<
+    string | null
+  >(null)
+
   const area = getAreaById(areaId)
   const projects = getProjectsByAreaId(areaId)
-  const areaDirectTasks = getAreaDirectTasks(areaId)
+  const allAreaDirectTasks = React.useMemo(
+    () => getAreaDirectTasks(areaId),
+    [getAreaDirectTasks, areaId]
+  )
+  const areaDirectTasks = filterTasks(allAreaDirectTasks)
+
+  // Loose tasks and their headings; headings stay visible while the tag
+  // filter hides tasks
+  const looseList = useHeadingList(
+    getAreaHeadingListKey(areaId),
+    allAreaDirectTasks
+  )
+  const looseItems = looseList.items.filter(
+    (item) => item.type === 'heading' || hasAllTags(item.data, tags)
+  )
 
   // Split projects into active (for grid) and all (for task groups)
   const activeProjects = React.useMemo(() => {
@@ -93,45 +129,60 @@ export function AreaView({ areaId, onNavigateToProject }: AreaViewProps) {
     map.set(looseTasksProjectId, areaDirectTasks)
     // Add regular project tasks
     for (const project of projects) {
-      map.set(project.id, getTasksByProjectId(project.id))
+      map.set(project.id, filterTasks(getTasksByProjectId(project.id)))
     }
     return map
-  }, [projects, getTasksByProjectId, looseTasksProjectId, areaDirectTasks])
+  }, [
+    projects,
+    getTasksByProjectId,
+    looseTasksProjectId,
+    areaDirectTasks,
+    filterTasks,
+  ])
 
-  // Get task counts for ProjectCard
+  // Get task counts for ProjectCard (ignores the tag filter)
   const getTaskCounts = React.useCallback(
     (projectId: string) => {
-      const tasks = tasksByProject.get(projectId) ?? []
+      const tasks = getTasksByProjectId(projectId)
       const completedTaskCount = tasks.filter(
         (t) => t.status === 'done' || t.status === 'dropped'
       ).length
       return { taskCount: tasks.length, completedTaskCount }
     },
-    [tasksByProject]
+    [getTasksByProjectId]
   )
 
   // Factory function to create task creation handlers for each project
   const makeCreateTaskHandler = React.useCallback(
-    (projectId: string) => (afterTaskId: string | null) => {
-      return createTask({
-        projectId,
-        insertAfterId: afterTaskId ?? undefined,
-      })
-    },
-    [createTask]
+    (projectId: string) =>
+      (afterTaskId: string | null, quickEntry?: QuickEntryFields) => {
+        return createTask({
+          projectId,
+          tags,
+          insertAfterId: afterTaskId ?? undefined,
+          quickEntry,
+        })
+      },
+    [createTask, tags]
   )
 
   // Handler for creating area-direct tasks (no project)
+  const { createTask: createLooseTask, createHeading } = looseList
   const handleCreateAreaDirectTask = React.useCallback(
-    (afterTaskId: string | null) => {
-      return createTask({
-        areaId,
-        insertAfterId: afterTaskId ?? undefined,
-      })
+    (afterItemId: string | null, quickEntry?: QuickEntryFields) => {
+      return createLooseTask({ areaId, tags, quickEntry }, afterItemId)
     },
-    [createTask, areaId]
+    [createLooseTask, areaId, tags]
   )
 
+  const handleAddLooseHeading = React.useCallback(() => {
+    setPendingEditItemId(createHeading())
+  }, [createHeading])
+
+  const handleAutoEditConsumed = React.useCallback(() => {
+    setPendingEditItemId(null)
+  }, [])
+
   if (!area) {
     return (
       <div className="space-y-4">
@@ -156,19 +207,55 @@ export function AreaView({ areaId, onNavigateToProject }: AreaViewProps) {
     }
   }
 
-  const handleTaskMove = (
-    taskId: string,
-    _fromProjectId: string,
+  const handleTasksMove = (
+    taskIds: string[],
     toProjectId: string,
     insertBeforeTaskId: string | null
   ) => {
     if (isLooseTasksProjectId(toProjectId)) {
       // Moving to loose tasks: clear projectId and ensure areaId is set
-      moveTaskToLooseTasks(taskId, areaId, insertBeforeTaskId)
+      for (const taskId of taskIds) {
+        moveTaskToLooseTasks(taskId, areaId, insertBeforeTaskId)
+      }
+      // Land below a heading that sits right above the drop position
+      const orderIds = looseItems
+        .map(toOrderId)
+        .filter((id) => !taskIds.includes(id))
+      const index = insertBeforeTaskId
+        ? orderIds.indexOf(insertBeforeTaskId)
+        : -1
+      if (index !== -1) {
+        orderIds.splice(index, 0, ...taskIds)
+        looseList.reorderItems(orderIds)
+      }
     } else {
       // Moving to a project
-      moveTaskToProject(taskId, toProjectId, insertBeforeTaskId)
+      for (const taskId of taskIds) {
+        moveTaskToProject(taskId, toProjectId, insertBeforeTaskId)
+      }
+    }
+  }
+
+  // Drag reorder within a list: loose tasks have headings, projects don't
+  const handleItemsReorder = (
+    containerId: string,
+    activeDragId: string,
+    overDragId: string
+  ) => {
+    const active = parseOrderedItemDragId(containerId, activeDragId)
+    const over = parseOrderedItemDragId(containerId, overDragId)
+    if (!active || !over) return
+
+    if (isLooseTasksProjectId(containerId)) {
+      looseList.moveItem(toOrderId(active), toOrderId(over))
+      return
     }
+
+    const tasks = tasksByProject.get(containerId) ?? []
+    const oldIndex = tasks.findIndex((t) => t.id === active.id)
+    const newIndex = tasks.findIndex((t) => t.id === over.id)
+    if (oldIndex === -1 || newIndex === -1) return
+    handleTasksReorder(containerId, arrayMove(tasks, oldIndex, newIndex))
   }
 
   return (
@@ -197,6 +284,7 @@ export function AreaView({ areaId, onNavigateToProject }: AreaViewProps) {
                   completion={completion}
                   taskCount={taskCount}
                   completedTaskCount={completedTaskCount}
+                  remainingEstimate={getProjectRemainingEstimate(project.id)}
                   onClick={() => onNavigateToProject(project.id)}
                 />
               )
@@ -208,15 +296,21 @@ export function AreaView({ areaId, onNavigateToProject }: AreaViewProps) {
       {/* Projects/Tasks Content */}
       <section>
         <h2 className="text-sm font-medium text-muted-foreground mb-3">
-          {viewMode === 'list' ? 'All Projects' : 'Tasks by Status'}
+          {viewMode === 'list'
+            ? 'All Projects'
+            : viewMode === 'graph'
+              ? 'Dependencies'
+              : 'Tasks by Status'}
         </h2>
 
         {viewMode === 'list' ? (
           <TaskDndContext
             tasksByProject={tasksByProject}
-            onTaskMove={handleTaskMove}
+            onTasksMove={handleTasksMove}
             onTasksReorder={handleTasksReorder}
+            onItemsReorder={handleItemsReorder}
             getTaskById={getTaskById}
+            getHeadingById={looseList.getHeadingById}
           >
             <div className="space-y-4">
               {/* Area-direct tasks (tasks in this area but not in any project) */}
@@ -224,20 +318,24 @@ export function AreaView({ areaId, onNavigateToProject }: AreaViewProps) {
                 sectionId={looseTasksProjectId}
                 title="Loose Tasks"
                 icon={<ListTodo className="size-4" />}
-                tasks={areaDirectTasks}
-                onTasksReorder={(reorderedTasks) =>
-                  handleTasksReorder(looseTasksProjectId, reorderedTasks)
-                }
+                orderedItems={looseItems}
+                onItemsReorder={looseList.reorderItems}
                 onTaskTitleChange={(taskId, newTitle) =>
                   updateTaskTitle(taskId, newTitle)
                 }
                 onTaskStatusToggle={(taskId) => toggleTaskStatus(taskId)}
                 onTaskOpenDetail={openTask}
                 onCreateTask={handleCreateAreaDirectTask}
+                onAddHeading={handleAddLooseHeading}
+                onHeadingTitleChange={looseList.setHeadingTitle}
+                onHeadingColorChange={looseList.setHeadingColor}
+                onHeadingDelete={looseList.deleteHeading}
                 showScheduled={true}
                 showDue={true}
                 defaultExpanded={true}
                 useExternalDnd={true}
+                autoEditItemId={pendingEditItemId}
+                onAutoEditConsumed={handleAutoEditConsumed}
               />
 
               {projects.map((project) => {
@@ -250,6 +348,8 @@ export function AreaView({ areaId, onNavigateToProject }: AreaViewProps) {
                     project={project}
                     tasks={tasks}
                     completion={completion}
+                    isBlocked={isProjectBlocked(project.id)}
+                    remainingEstimate={getProjectRemainingEstimate(project.id)}
                     onOpenProject={() => onNavigateToProject(project.id)}
                     onTasksReorder={(reordered) =>
                       handleTasksReorder(project.id, reordered)
@@ -273,6 +373,11 @@ export function AreaView({ areaId, onNavigateToProject }: AreaViewProps) {
               )}
             </div>
           </TaskDndContext>
+        ) : viewMode === 'graph' ? (
+          <ProjectDependencyGraph
+            projects={projects}
+            onOpenProject={onNavigateToProject}
+          />
         ) : (
           <AreaKanbanBoard
             projects={projects}
@@ -0,0 +1,153 @@
+import * as React from 'react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { useTaskDetailStore } from '@/store/task-detail-store'
+import { useViewMode } from '@/store/view-mode-store'
+import { useSavedFilter } from '@/store/saved-filters-store'
+import { useTagFilter } from '@/store/tag-filter-store'
+import { useTaskQuery } from '@/hooks/use-task-query'
+import { filterTasks, getFilterTaskDefaults } from '@/lib/task-filter'
+import type { QuickEntryFields } from '@/lib/quick-entry'
+import { DraggableTaskList } from '@/components/tasks/task-list'
+import { KanbanBoard, useCollapsedColumns } from '@/components/kanban'
+import { EmptyState } from '@/components/ui/empty-state'
+import type { Task, TaskStatus } from '@/types/data'
+
+/**
+ * FilterView - Tasks matching a saved smart filter.
+ *
+ * Saved filters are user-defined perspectives listed in the sidebar (see
+ * saved-filters-store). The filter is re-evaluated on every change, so
+ * tasks edited out of its criteria drop out of the view. A filter's query
+ * (see lib/query) applies on top of its criteria; with sort: terms the
+ * query's order replaces the global task order. The header's tag filter
+ * narrows the result further.
+ *
+ * Supports two view modes (toggled via ViewHeader):
+ * - "list" → DraggableTaskList; reordering changes the global task order
+ * - "kanban" → KanbanBoard with tasks grouped by status columns
+ *
+ * New tasks take the filter's first status and its project or area when
+ * it names exactly one (see getFilterTaskDefaults).
+ */
+interface FilterViewProps {
+  filterId: string
+  onNavigateToProject: (projectId: string) => void
+  onNavigateToArea: (areaId: string) => void
+}
+
+export function FilterView({
+  filterId,
+  onNavigateToProject,
+  onNavigateToArea,
+}: FilterViewProps) {
+  const filter = useSavedFilter(filterId)
+  const { viewMode } = useViewMode('filter')
+  const { collapsedColumns, toggleColumn } = useCollapsedColumns()
+  const { tags, filterTasks: filterByTags } = useTagFilter()
+
+  const {
+    data,
+    createTask,
+    getTaskById,
+    getProjectById,
+    getAreaById,
+    getEffectiveAreaId,
+    getTaskContextName,
+    updateTaskTitle,
+    updateTaskStatus,
+    updateTaskScheduled,
+    updateTaskDue,
+    toggleTaskStatus,
+    reorderTasksByIds,
+  } = useAppData()
+  const { openTask } = useTaskDetailStore()
+
+  const criteria = filter?.criteria
+  const criteriaTasks = React.useMemo(
+    () =>
+      criteria ? filterTasks(data.tasks, criteria, { getEffectiveAreaId }) : [],
+    [data.tasks, criteria, getEffectiveAreaId]
+  )
+  const { tasks: queryTasks } = useTaskQuery(filter?.query ?? '', criteriaTasks)
+  const tasks = filterByTags(queryTasks)
+
+  const handleReorder = React.useCallback(
+    (reorderedTasks: Task[]) => {
+      reorderTasksByIds(reorderedTasks.map((t) => t.id))
+    },
+    [reorderTasksByIds]
+  )
+
+  const handleCreateTask = React.useCallback(
+    (afterTaskId: string | null, quickEntry?: QuickEntryFields) => {
+      return createTask({
+        ...(criteria && getFilterTaskDefaults(criteria)),
+        tags,
+        insertAfterId: afterTaskId ?? undefined,
+        quickEntry,
+      })
+    },
+    [createTask, criteria, tags]
+  )
+
+  if (!filter) {
+    return (
+      <div className="space-y-4">
+        <p className="text-muted-foreground">Filter not found.</p>
+      </div>
+    )
+  }
+
+  if (viewMode === 'kanban') {
+    return (
+      <KanbanBoard
+        tasks={tasks}
+        collapsedColumns={collapsedColumns}
+        onColumnCollapseChange={toggleColumn}
+        onTaskStatusChange={updateTaskStatus}
+        onTasksReorder={(_status: TaskStatus, reorderedTasks: Task[]) =>
+          handleReorder(reorderedTasks)
+        }
+        getTaskById={getTaskById}
+        getProjectName={(projectId) => getProjectById(projectId)?.title}
+        getAreaName={(areaId) => getAreaById(areaId)?.title}
+        onTaskTitleChange={updateTaskTitle}
+        onTaskScheduledChange={updateTaskScheduled}
+        onTaskDueChange={updateTaskDue}
+        onTaskEditClick={openTask}
+        onProjectClick={onNavigateToProject}
+        onAreaClick={onNavigateToArea}
+        onCreateTask={(status) =>
+          createTask({
+            ...getFilterTaskDefaults(filter.criteria),
+            tags,
+            status,
+          })
+        }
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <DraggableTaskList
+        tasks={tasks}
+        projectId={filterId}
+        onTasksReorder={handleReorder}
+        onTaskTitleChange={updateTaskTitle}
+        onTaskStatusToggle={toggleTaskStatus}
+        onTaskOpenDetail={openTask}
+        onCreateTask={handleCreateTask}
+        getContextName={getTaskContextName}
+      />
+      {tasks.length === 0 && (
+        <EmptyState
+          title="No matching tasks."
+          description="Tasks that match this filter will appear here."
+        />
+      )}
+    </div>
+  )
+}
@@ -1,12 +1,17 @@
 import * as React from 'react'
+import { PlusCircle } from 'lucide-react'
 
 // TODO(tauri-integration): Migrate to TanStack Query
 import { useAppData } from '@/context/app-data-context'
-import type { Task } from '@/types/data'
 import { useTaskDetailStore } from '@/store/task-detail-store'
-import { useInboxOrder } from '@/hooks/use-inbox-order'
-import { DraggableTaskList } from '@/components/tasks/task-list'
+import { useHeadingList } from '@/hooks/use-heading-list'
+import { useTagFilter } from '@/store/tag-filter-store'
+import type { QuickEntryFields } from '@/lib/quick-entry'
+import { hasAllTags } from '@/lib/tags'
+import { DraggableOrderedItemList } from '@/components/tasks/ordered-item-list'
+import { Button } from '@/components/ui/button'
 import { EmptyState } from '@/components/ui/empty-state'
+import { INBOX_HEADING_LIST } from '@/types/headings'
 
 /**
  * InboxView - Displays all tasks with "inbox" status.
@@ -21,33 +26,33 @@ import { EmptyState } from '@/components/ui/empty-state'
  * - Changing status to "next", "waiting", etc.
  * - Completing or dropping it
  *
- * Display order is managed by useInboxOrder hook, separate from entity data.
+ * Tasks can be grouped under headings; the order and headings are kept with
+ * the data (see useHeadingList). The header's tag filter narrows the list
+ * without losing hidden tasks' order.
  */
 export function InboxView() {
-  const {
-    data,
-    createTask,
-    updateTaskTitle,
-    toggleTaskStatus,
-    getTaskContextName,
-  } = useAppData()
+  const { data, updateTaskTitle, toggleTaskStatus, getTaskContextName } =
+    useAppData()
   const { openTask } = useTaskDetailStore()
+  const { tags } = useTagFilter()
+
+  // State for auto-editing a newly added heading
+  const [pendingEditItemId, setPendingEditItemId] = React.useState<
+    string | null
+  >(null)
 
   // Get all tasks with inbox status
   const inboxTasks = React.useMemo(() => {
     return data.tasks.filter((t) => t.status === 'inbox')
   }, [data.tasks])
 
-  // Manage display order for inbox tasks
-  const { setOrder, getOrderedTasks } = useInboxOrder(inboxTasks)
-  const orderedInboxTasks = getOrderedTasks()
-
-  const handleReorder = React.useCallback(
-    (reorderedTasks: Task[]) => {
-      setOrder(reorderedTasks)
-    },
-    [setOrder]
+  // Tasks and headings in display order; headings stay visible while the
+  // tag filter hides tasks
+  const headingList = useHeadingList(INBOX_HEADING_LIST, inboxTasks)
+  const items = headingList.items.filter(
+    (item) => item.type === 'heading' || hasAllTags(item.data, tags)
   )
+  const hasVisibleTasks = items.some((item) => item.type === 'task')
 
   const handleTitleChange = React.useCallback(
     (taskId: string, newTitle: string) => {
@@ -70,34 +75,58 @@ export function InboxView() {
     [openTask]
   )
 
+  const { createTask: createListTask, createHeading } = headingList
   const handleCreateTask = React.useCallback(
-    (afterTaskId: string | null) => {
-      return createTask({
-        status: 'inbox',
-        insertAfterId: afterTaskId ?? undefined,
-      })
+    (afterItemId: string | null, quickEntry?: QuickEntryFields) => {
+      return createListTask({ status: 'inbox', tags, quickEntry }, afterItemId)
     },
-    [createTask]
+    [createListTask, tags]
   )
 
+  const handleAddHeading = React.useCallback(() => {
+    setPendingEditItemId(createHeading())
+  }, [createHeading])
+
+  const handleAutoEditConsumed = React.useCallback(() => {
+    setPendingEditItemId(null)
+  }, [])
+
   return (
     <div className="space-y-4">
-      {orderedInboxTasks.length > 0 ? (
-        <DraggableTaskList
-          tasks={orderedInboxTasks}
-          projectId="inbox"
-          onTasksReorder={handleReorder}
-          onTaskTitleChange={handleTitleChange}
-          onTaskStatusToggle={handleStatusToggle}
-          onTaskOpenDetail={handleOpenDetail}
-          onCreateTask={handleCreateTask}
-          getContextName={getTaskContextName}
-          showScheduled={true}
-          showDue={true}
-        />
+      {hasVisibleTasks ? (
+        <>
+          <div className="flex justify-end">
+            <Button variant="ghost" size="xs" onClick={handleAddHeading}>
+              <PlusCircle />
+              Heading
+            </Button>
+          </div>
+          <DraggableOrderedItemList
+            items={items}
+            containerId="inbox"
+            onItemsReorder={headingList.reorderItems}
+            onTaskTitleChange={handleTitleChange}
+            onTaskStatusToggle={handleStatusToggle}
+            onTaskOpenDetail={handleOpenDetail}
+            onCreateTask={handleCreateTask}
+            onHeadingTitleChange={headingList.setHeadingTitle}
+            onHeadingColorChange={headingList.setHeadingColor}
+            onHeadingDelete={headingList.deleteHeading}
+            getHeadingById={headingList.getHeadingById}
+            getContextName={getTaskContextName}
+            showScheduled={true}
+            showDue={true}
+            autoEditItemId={pendingEditItemId}
+            onAutoEditConsumed={handleAutoEditConsumed}
+          />
+        </>
       ) : (
         <EmptyState
-          title="Inbox is empty."
+          title={
+            tags.length > 0
+              ? 'No inbox tasks match the tag filter.'
+              : 'Inbox is empty.'
+          }
           description="Newly captured tasks will appear here."
         />
       )}
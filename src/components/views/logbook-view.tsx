@@ -0,0 +1,166 @@
+import * as React from 'react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { useTaskDetailStore } from '@/store/task-detail-store'
+import { useTagFilter } from '@/store/tag-filter-store'
+import { useTaskActions } from '@/hooks/use-task-actions'
+import {
+  getLogbookTasks,
+  groupLogbookTasks,
+  type LogbookGrouping,
+} from '@/lib/logbook'
+import { TaskItem } from '@/components/tasks/task-item'
+import { DeleteTaskDialog } from '@/components/tasks/delete-task-dialog'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { EmptyState } from '@/components/ui/empty-state'
+
+/**
+ * LogbookView - History of completed and dropped tasks.
+ *
+ * Tasks are listed newest first, grouped by the day, week or month they
+ * were completed (see lib/logbook), with their project or area as context.
+ * The history loads a page at a time as the end of the list scrolls into
+ * view.
+ *
+ * Reopening a task (its checkbox, done or dropped, or "Reopen" in its
+ * context menu) sets it back to ready, which takes it out of the logbook.
+ * The header's tag filter applies.
+ */
+
+const groupingOptions: { value: LogbookGrouping; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+]
+
+/** Tasks rendered per page of history */
+const PAGE_SIZE = 50
+
+export function LogbookView() {
+  const { data, updateTaskTitle, updateTaskStatus, getTaskContextName } =
+    useAppData()
+  const { openTask } = useTaskDetailStore()
+  const { tags, filterTasks } = useTagFilter()
+  const { requestDelete, deleteDialogProps } = useTaskActions()
+
+  const [grouping, setGrouping] = React.useState<LogbookGrouping>('day')
+  const [limit, setLimit] = React.useState(PAGE_SIZE)
+  const [selectedTaskId, setSelectedTaskId] = React.useState<string | null>(
+    null
+  )
+  const [editingTaskId, setEditingTaskId] = React.useState<string | null>(null)
+
+  const loggedTasks = React.useMemo(
+    () => filterTasks(getLogbookTasks(data.tasks)),
+    [data.tasks, filterTasks]
+  )
+  const hasMore = limit < loggedTasks.length
+
+  const groups = React.useMemo(
+    () => groupLogbookTasks(loggedTasks.slice(0, limit), grouping),
+    [loggedTasks, limit, grouping]
+  )
+
+  // Load the next page when the end of the list scrolls into view
+  const sentinelRef = React.useRef<HTMLDivElement>(null)
+  React.useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore) return
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          setLimit((current) => current + PAGE_SIZE)
+        }
+      },
+      { rootMargin: '200px' }
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, limit])
+
+  const handleReopen = React.useCallback(
+    (taskId: string) => {
+      updateTaskStatus(taskId, 'ready')
+    },
+    [updateTaskStatus]
+  )
+
+  const handleGroupingChange = (values: string[]) => {
+    // base-ui uses arrays - take the newly pressed value
+    const next = values.find((v) => v !== grouping)
+    if (next) setGrouping(next as LogbookGrouping)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <ToggleGroup
+          value={[grouping]}
+          onValueChange={handleGroupingChange}
+          variant="outline"
+          size="sm"
+          className="bg-muted/50"
+        >
+          {groupingOptions.map(({ value, label }) => (
+            <ToggleGroupItem
+              key={value}
+              value={value}
+              className="data-[pressed]:bg-muted data-[pressed]:shadow-inner"
+            >
+              {label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <span className="text-sm text-muted-foreground">
+          {loggedTasks.length} {loggedTasks.length === 1 ? 'task' : 'tasks'}
+        </span>
+      </div>
+
+      {groups.map((group) => (
+        <section key={group.key}>
+          <h2 className="text-sm font-medium text-muted-foreground mb-2">
+            {group.label}
+          </h2>
+          <div className="space-y-0.5">
+            {group.tasks.map((task) => (
+              <TaskItem
+                key={task.id}
+                task={task}
+                isSelected={selectedTaskId === task.id}
+                isEditing={editingTaskId === task.id}
+                onSelect={() => setSelectedTaskId(task.id)}
+                onStartEdit={() => setEditingTaskId(task.id)}
+                onEndEdit={() => setEditingTaskId(null)}
+                onTitleChange={(title) => updateTaskTitle(task.id, title)}
+                onStatusToggle={() => handleReopen(task.id)}
+                onOpenDetail={() => openTask(task.id)}
+                onReopen={() => handleReopen(task.id)}
+                onDelete={() => requestDelete(task.id)}
+                contextName={getTaskContextName(task)}
+                showScheduled={false}
+                showDue={false}
+                showCompleted={grouping !== 'day'}
+              />
+            ))}
+          </div>
+        </section>
+      ))}
+
+      {hasMore && <div ref={sentinelRef} className="h-8" />}
+
+      {loggedTasks.length === 0 && (
+        <EmptyState
+          title={
+            tags.length > 0
+              ? 'No logged tasks match the tag filter.'
+              : 'The logbook is empty.'
+          }
+          description="Completed and dropped tasks will appear here."
+        />
+      )}
+
+      <DeleteTaskDialog {...deleteDialogProps} />
+    </div>
+  )
+}
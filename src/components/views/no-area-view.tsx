@@ -5,9 +5,12 @@ import { ListTodo } from 'lucide-react'
 import { useAppData } from '@/context/app-data-context'
 import { useTaskDetailStore } from '@/store/task-detail-store'
 import { useViewMode } from '@/store/view-mode-store'
+import { useTagFilter } from '@/store/tag-filter-store'
+import type { QuickEntryFields } from '@/lib/quick-entry'
 import { ProjectTaskGroup } from '@/components/tasks/project-task-group'
 import { SectionTaskGroup } from '@/components/tasks/section-task-group'
 import { TaskDndContext } from '@/components/tasks/task-dnd-context'
+import { ProjectDependencyGraph } from '@/components/projects/project-dependency-graph'
 import { AreaKanbanBoard, useAreaCollapsedColumns } from '@/components/kanban'
 import type { Task } from '@/types/data'
 
@@ -18,9 +21,10 @@ import type { Task } from '@/types/data'
  * - Projects that have no areaId set
  * - "Loose tasks" that have neither projectId nor areaId
  *
- * Supports the same view modes as AreaView (list and kanban). In list mode,
+ * Supports the same view modes as AreaView (list, kanban and graph). In list mode,
  * tasks can be dragged between orphan projects. This view helps users find
- * and organize items that haven't been assigned to a life area yet.
+ * and organize items that haven't been assigned to a life area yet. The
+ * header's tag filter narrows the tasks in the list and kanban modes.
  */
 interface NoAreaViewProps {
   onNavigateToProject: (projectId: string) => void
@@ -34,12 +38,15 @@ interface NoAreaViewProps {
 export function NoAreaView({ onNavigateToProject }: NoAreaViewProps) {
   const { viewMode } = useViewMode('area')
   const { collapsedColumns, toggleColumn } = useAreaCollapsedColumns()
+  const { tags, filterTasks } = useTagFilter()
 
   const {
     getOrphanProjects,
     getOrphanTasks,
     getTasksByProjectId,
     getProjectCompletion,
+    getProjectRemainingEstimate,
+    isProjectBlocked,
     getTaskById,
     createTask,
     updateTaskTitle,
@@ -54,36 +61,41 @@ export function NoAreaView({ onNavigateToProject }: NoAreaViewProps) {
   const { openTask } = useTaskDetailStore()
 
   const projects = getOrphanProjects()
-  const orphanTasks = getOrphanTasks()
+  const orphanTasks = filterTasks(getOrphanTasks())
 
   // Build tasksByProject map for TaskDndContext
   const tasksByProject = React.useMemo(() => {
     const map = new Map<string, Task[]>()
     for (const project of projects) {
-      map.set(project.id, getTasksByProjectId(project.id))
+      map.set(project.id, filterTasks(getTasksByProjectId(project.id)))
     }
     return map
-  }, [projects, getTasksByProjectId])
+  }, [projects, getTasksByProjectId, filterTasks])
 
   // Factory function to create task creation handlers for each project
   const makeCreateTaskHandler = React.useCallback(
-    (projectId: string) => (afterTaskId: string | null) => {
-      return createTask({
-        projectId,
-        insertAfterId: afterTaskId ?? undefined,
-      })
-    },
-    [createTask]
+    (projectId: string) =>
+      (afterTaskId: string | null, quickEntry?: QuickEntryFields) => {
+        return createTask({
+          projectId,
+          tags,
+          insertAfterId: afterTaskId ?? undefined,
+          quickEntry,
+        })
+      },
+    [createTask, tags]
   )
 
   // Handler for creating orphan tasks (no project, no area)
   const handleCreateOrphanTask = React.useCallback(
-    (afterTaskId: string | null) => {
+    (afterTaskId: string | null, quickEntry?: QuickEntryFields) => {
       return createTask({
+        tags,
         insertAfterId: afterTaskId ?? undefined,
+        quickEntry,
       })
     },
-    [createTask]
+    [createTask, tags]
   )
 
   const handleTasksReorder = (projectId: string, reorderedTasks: Task[]) => {
@@ -93,12 +105,8 @@ export function NoAreaView({ onNavigateToProject }: NoAreaViewProps) {
     )
   }
 
-  const handleTaskMove = (
-    taskId: string,
-    _fromProjectId: string,
-    toProjectId: string
-  ) => {
-    moveTaskToProject(taskId, toProjectId)
+  const handleTasksMove = (taskIds: string[], toProjectId: string) => {
+    for (const taskId of taskIds) moveTaskToProject(taskId, toProjectId)
   }
 
   return (
@@ -106,13 +114,17 @@ export function NoAreaView({ onNavigateToProject }: NoAreaViewProps) {
       {/* Projects/Tasks Content */}
       <section>
         <h2 className="text-sm font-medium text-muted-foreground mb-3">
-          {viewMode === 'list' ? 'All Projects & Tasks' : 'Tasks by Status'}
+          {viewMode === 'list'
+            ? 'All Projects & Tasks'
+            : viewMode === 'graph'
+              ? 'Dependencies'
+              : 'Tasks by Status'}
         </h2>
 
         {viewMode === 'list' ? (
           <TaskDndContext
             tasksByProject={tasksByProject}
-            onTaskMove={handleTaskMove}
+            onTasksMove={handleTasksMove}
             onTasksReorder={handleTasksReorder}
             getTaskById={getTaskById}
           >
@@ -149,6 +161,8 @@ export function NoAreaView({ onNavigateToProject }: NoAreaViewProps) {
                     project={project}
                     tasks={tasks}
                     completion={completion}
+                    isBlocked={isProjectBlocked(project.id)}
+                    remainingEstimate={getProjectRemainingEstimate(project.id)}
                     onOpenProject={() => onNavigateToProject(project.id)}
                     onTasksReorder={(reordered) =>
                       handleTasksReorder(project.id, reordered)
@@ -172,6 +186,11 @@ export function NoAreaView({ onNavigateToProject }: NoAreaViewProps) {
               )}
             </div>
           </TaskDndContext>
+        ) : viewMode === 'graph' ? (
+          <ProjectDependencyGraph
+            projects={projects}
+            onOpenProject={onNavigateToProject}
+          />
         ) : (
           <AreaKanbanBoard
             projects={projects}
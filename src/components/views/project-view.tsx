@@ -1,13 +1,20 @@
 import * as React from 'react'
+import { PlusCircle } from 'lucide-react'
 
 // TODO(tauri-integration): Migrate to TanStack Query
 import { useAppData } from '@/context/app-data-context'
 import { useTaskDetailStore } from '@/store/task-detail-store'
 import { useViewMode } from '@/store/view-mode-store'
-import { DraggableTaskList } from '@/components/tasks/task-list'
+import { useTagFilter } from '@/store/tag-filter-store'
+import { useHeadingList } from '@/hooks/use-heading-list'
+import type { QuickEntryFields } from '@/lib/quick-entry'
+import { hasAllTags } from '@/lib/tags'
+import { DraggableOrderedItemList } from '@/components/tasks/ordered-item-list'
+import { Button } from '@/components/ui/button'
 import { CollapsibleNotesSection } from '@/components/ui/collapsible-notes'
 import { KanbanBoard, useCollapsedColumns } from '@/components/kanban'
 import type { Task } from '@/types/data'
+import { getProjectHeadingListKey } from '@/types/headings'
 
 /**
  * ProjectView - Shows all tasks within a single project.
@@ -18,11 +25,14 @@ import type { Task } from '@/types/data'
  * 2. Tasks section - all tasks belonging to this project
  *
  * Supports two view modes (toggled via ViewHeader):
- * - "list" → DraggableTaskList with inline editing and reordering
+ * - "list" → DraggableOrderedItemList with inline editing and reordering,
+ *   and headings to group the tasks (kept with the project, see
+ *   useHeadingList)
  * - "kanban" → KanbanBoard with tasks grouped by status columns
  *
  * The project status pill in ViewHeader allows changing project status
- * (planning, ready, in-progress, blocked, done, dropped).
+ * (planning, ready, in-progress, blocked, done, dropped). The header's tag
+ * filter narrows the tasks; new tasks get the filter's tags.
  */
 interface ProjectViewProps {
   projectId: string
@@ -31,6 +41,7 @@ interface ProjectViewProps {
 export function ProjectView({ projectId }: ProjectViewProps) {
   const { viewMode } = useViewMode('project')
   const { collapsedColumns, toggleColumn } = useCollapsedColumns()
+  const { tags, filterTasks } = useTagFilter()
 
   const {
     getProjectById,
@@ -47,19 +58,43 @@ export function ProjectView({ projectId }: ProjectViewProps) {
   } = useAppData()
   const { openTask } = useTaskDetailStore()
 
+  // State for auto-editing a newly added heading
+  const [pendingEditItemId, setPendingEditItemId] = React.useState<
+    string | null
+  >(null)
+
   const project = getProjectById(projectId)
-  const tasks = getTasksByProjectId(projectId)
+  const allTasks = React.useMemo(
+    () => getTasksByProjectId(projectId),
+    [getTasksByProjectId, projectId]
+  )
+  const tasks = filterTasks(allTasks)
+
+  const headingList = useHeadingList(
+    getProjectHeadingListKey(projectId),
+    allTasks
+  )
+  // Headings stay visible while the tag filter hides tasks
+  const items = headingList.items.filter(
+    (item) => item.type === 'heading' || hasAllTags(item.data, tags)
+  )
 
+  const { createTask: createListTask, createHeading } = headingList
   const handleCreateTask = React.useCallback(
-    (afterTaskId: string | null) => {
-      return createTask({
-        projectId,
-        insertAfterId: afterTaskId ?? undefined,
-      })
+    (afterItemId: string | null, quickEntry?: QuickEntryFields) => {
+      return createListTask({ projectId, tags, quickEntry }, afterItemId)
     },
-    [createTask, projectId]
+    [createListTask, projectId, tags]
   )
 
+  const handleAddHeading = React.useCallback(() => {
+    setPendingEditItemId(createHeading())
+  }, [createHeading])
+
+  const handleAutoEditConsumed = React.useCallback(() => {
+    setPendingEditItemId(null)
+  }, [])
+
   if (!project) {
     return (
       <div className="space-y-4">
@@ -68,13 +103,6 @@ export function ProjectView({ projectId }: ProjectViewProps) {
     )
   }
 
-  const handleTasksReorder = (reorderedTasks: Task[]) => {
-    reorderProjectTasks(
-      projectId,
-      reorderedTasks.map((t) => t.id)
-    )
-  }
-
   const handleTaskTitleChange = (taskId: string, newTitle: string) => {
     updateTaskTitle(taskId, newTitle)
   }
@@ -95,24 +123,38 @@ export function ProjectView({ projectId }: ProjectViewProps) {
 
       {/* Tasks Section */}
       <section>
-        <h2 className="text-sm font-medium text-muted-foreground mb-3">
-          Tasks
-        </h2>
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-sm font-medium text-muted-foreground">Tasks</h2>
+          {viewMode === 'list' && (
+            <Button variant="ghost" size="xs" onClick={handleAddHeading}>
+              <PlusCircle />
+              Heading
+            </Button>
+          )}
+        </div>
 
         {viewMode === 'list' ? (
           <>
-            <DraggableTaskList
-              tasks={tasks}
-              projectId={projectId}
-              onTasksReorder={handleTasksReorder}
+            <DraggableOrderedItemList
+              items={items}
+              containerId={projectId}
+              onItemsReorder={headingList.reorderItems}
               onTaskTitleChange={handleTaskTitleChange}
               onTaskStatusToggle={handleTaskStatusToggle}
               onTaskOpenDetail={openTask}
               onCreateTask={handleCreateTask}
+              onHeadingTitleChange={headingList.setHeadingTitle}
+              onHeadingColorChange={headingList.setHeadingColor}
+              onHeadingDelete={headingList.deleteHeading}
+              getHeadingById={headingList.getHeadingById}
+              autoEditItemId={pendingEditItemId}
+              onAutoEditConsumed={handleAutoEditConsumed}
             />
-            {tasks.length === 0 && (
+            {items.length === 0 && (
               <p className="text-muted-foreground text-sm">
-                No tasks in this project yet.
+                {tags.length > 0
+                  ? 'No tasks in this project match the tag filter.'
+                  : 'No tasks in this project yet.'}
               </p>
             )}
           </>
@@ -155,7 +197,7 @@ export function ProjectView({ projectId }: ProjectViewProps) {
             onTaskScheduledChange={updateTaskScheduled}
             onTaskDueChange={updateTaskDue}
             onTaskEditClick={openTask}
-            onCreateTask={(status) => createTask({ projectId, status })}
+            onCreateTask={(status) => createTask({ projectId, tags, status })}
           />
         )}
       </section>
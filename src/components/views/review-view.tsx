@@ -0,0 +1,359 @@
+import * as React from 'react'
+import { formatDistanceToNow, parseISO } from 'date-fns'
+import {
+  ChevronLeft,
+  ChevronRight,
+  CircleCheck,
+  FolderIcon,
+  Plus,
+} from 'lucide-react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { useTaskDetailStore } from '@/store/task-detail-store'
+import { useTaskActions } from '@/hooks/use-task-actions'
+import {
+  getReviewFindings,
+  getReviewItemEntity,
+  getReviewItemId,
+  getReviewItems,
+  hasNoFindings,
+  isReviewDue,
+  STALE_TASK_DAYS,
+  type ReviewItem,
+} from '@/lib/review'
+import { getUnfinishedBlockers } from '@/lib/project-dependencies'
+import { cn } from '@/lib/utils'
+import { TaskItem } from '@/components/tasks/task-item'
+import { DeleteTaskDialog } from '@/components/tasks/delete-task-dialog'
+import { ProjectStatusIndicator } from '@/components/sidebar/draggable-project'
+import { Button } from '@/components/ui/button'
+import { EmptyState } from '@/components/ui/empty-state'
+import type { Project, Task } from '@/types/data'
+
+/**
+ * ReviewView - Guided weekly review of active areas and projects.
+ *
+ * Steps through each active area followed by its active projects (see
+ * lib/review), starting at the first one that is due. Each step lists what
+ * needs attention: stale and overdue tasks, projects without a next action
+ * and blocked projects. "Mark Reviewed" records `lastReviewedAt` and moves
+ * on to the next item that is due; the step list on the left shows which
+ * items have been reviewed within the review interval.
+ */
+interface ReviewViewProps {
+  onNavigateToProject: (projectId: string) => void
+  onNavigateToArea: (areaId: string) => void
+}
+
+export function ReviewView({
+  onNavigateToProject,
+  onNavigateToArea,
+}: ReviewViewProps) {
+  const {
+    data,
+    getActiveAreas,
+    getActiveProjects,
+    getProjectCompletion,
+    isProjectBlocked,
+    getTaskWaitingOn,
+    createTask,
+    updateTaskTitle,
+    toggleTaskStatus,
+    markProjectReviewed,
+    markAreaReviewed,
+  } = useAppData()
+  const { openTask } = useTaskDetailStore()
+  const { requestDelete, deleteDialogProps } = useTaskActions()
+
+  const [currentId, setCurrentId] = React.useState<string | null>(null)
+  const [selectedTaskId, setSelectedTaskId] = React.useState<string | null>(
+    null
+  )
+  const [editingTaskId, setEditingTaskId] = React.useState<string | null>(null)
+
+  const items = React.useMemo(
+    () => getReviewItems(getActiveAreas(), getActiveProjects()),
+    [getActiveAreas, getActiveProjects]
+  )
+  const dueCount = items.filter((item) =>
+    isReviewDue(getReviewItemEntity(item))
+  ).length
+
+  // Start at the first item that is due
+  const currentIndex = Math.max(
+    0,
+    currentId
+      ? items.findIndex((item) => getReviewItemId(item) === currentId)
+      : items.findIndex((item) => isReviewDue(getReviewItemEntity(item)))
+  )
+  const current = items[currentIndex] as ReviewItem | undefined
+
+  const findings = React.useMemo(
+    () => (current ? getReviewFindings(current, data) : undefined),
+    [current, data]
+  )
+
+  if (!current || !findings) {
+    return (
+      <EmptyState
+        title="Nothing to review."
+        description="Active areas and projects will appear here."
+      />
+    )
+  }
+
+  const entity = getReviewItemEntity(current)
+  const lastReviewed = entity.lastReviewedAt
+    ? `Last reviewed ${formatDistanceToNow(parseISO(entity.lastReviewedAt), {
+        addSuffix: true,
+      })}`
+    : 'Never reviewed'
+
+  const goTo = (index: number) => {
+    const item = items[index]
+    if (item) setCurrentId(getReviewItemId(item))
+  }
+
+  const handleMarkReviewed = () => {
+    if (current.type === 'project') {
+      markProjectReviewed(current.project.id)
+    } else {
+      markAreaReviewed(current.area.id)
+    }
+    // Move on to the next item still due, else just the next one
+    const nextDue = items.findIndex(
+      (item, index) =>
+        index > currentIndex && isReviewDue(getReviewItemEntity(item))
+    )
+    goTo(nextDue !== -1 ? nextDue : currentIndex + 1)
+  }
+
+  const handleAddNextAction = (project: Project) => {
+    const taskId = createTask({ projectId: project.id, status: 'ready' })
+    openTask(taskId)
+  }
+
+  const renderTasks = (tasks: Task[]) =>
+    tasks.map((task) => (
+      <TaskItem
+        key={task.id}
+        task={task}
+        isSelected={selectedTaskId === task.id}
+        isEditing={editingTaskId === task.id}
+        onSelect={() => setSelectedTaskId(task.id)}
+        onStartEdit={() => setEditingTaskId(task.id)}
+        onEndEdit={() => setEditingTaskId(null)}
+        onTitleChange={(title) => updateTaskTitle(task.id, title)}
+        onStatusToggle={() => toggleTaskStatus(task.id)}
+        onOpenDetail={() => openTask(task.id)}
+        onDelete={() => requestDelete(task.id)}
+        waitingOn={getTaskWaitingOn(task.id)}
+      />
+    ))
+
+  const renderProjectLink = (project: Project) => (
+    <button
+      type="button"
+      onClick={() => onNavigateToProject(project.id)}
+      className="flex items-center gap-2 min-w-0 text-sm hover:underline"
+    >
+      <ProjectStatusIndicator
+        status={project.status}
+        completion={getProjectCompletion(project.id)}
+        isBlocked={isProjectBlocked(project.id)}
+      />
+      <span className="truncate">{project.title}</span>
+    </button>
+  )
+
+  return (
+    <div className="flex gap-8">
+      {/* Steps */}
+      <nav className="w-56 shrink-0 space-y-3">
+        <p className="text-sm text-muted-foreground">
+          {dueCount === 0
+            ? 'Everything is reviewed.'
+            : `${dueCount} of ${items.length} due for review`}
+        </p>
+        <div className="space-y-0.5">
+          {items.map((item, index) => {
+            const itemEntity = getReviewItemEntity(item)
+            return (
+              <button
+                key={getReviewItemId(item)}
+                type="button"
+                onClick={() => goTo(index)}
+                className={cn(
+                  'flex items-center gap-2 w-full rounded-md px-2 py-1 text-start text-sm hover:bg-muted/50 transition-colors',
+                  item.type === 'project' && 'ps-6',
+                  index === currentIndex && 'bg-muted font-medium'
+                )}
+              >
+                <span className="truncate flex-1">{itemEntity.title}</span>
+                {isReviewDue(itemEntity) ? (
+                  <span
+                    className="size-1.5 shrink-0 rounded-full bg-icon-review"
+                    title="Review due"
+                  />
+                ) : (
+                  <CircleCheck className="size-3.5 shrink-0 text-status-done" />
+                )}
+              </button>
+            )
+          })}
+        </div>
+      </nav>
+
+      {/* Current item */}
+      <div className="flex-1 min-w-0 space-y-6">
+        <header className="space-y-1">
+          <p className="text-xs text-muted-foreground">
+            Step {currentIndex + 1} of {items.length} ·{' '}
+            {current.type === 'project' ? 'Project' : 'Area'}
+          </p>
+          <button
+            type="button"
+            onClick={() =>
+              current.type === 'project'
+                ? onNavigateToProject(current.project.id)
+                : onNavigateToArea(current.area.id)
+            }
+            className="flex items-center gap-2 text-xl font-semibold hover:underline"
+          >
+            {current.type === 'project' ? (
+              <ProjectStatusIndicator
+                status={current.project.status}
+                completion={getProjectCompletion(current.project.id)}
+                isBlocked={isProjectBlocked(current.project.id)}
+              />
+            ) : (
+              <FolderIcon className="size-5 text-icon-folder" />
+            )}
+            {entity.title}
+          </button>
+          <p className="text-sm text-muted-foreground">{lastReviewed}</p>
+        </header>
+
+        {hasNoFindings(findings) && (
+          <EmptyState
+            className="py-6"
+            title="Nothing needs attention."
+            description="No stale or overdue tasks, and every project has a next action."
+          />
+        )}
+
+        {findings.overdueTasks.length > 0 && (
+          <FindingsSection title="Overdue">
+            {renderTasks(findings.overdueTasks)}
+          </FindingsSection>
+        )}
+
+        {findings.staleTasks.length > 0 && (
+          <FindingsSection
+            title={`Untouched for ${STALE_TASK_DAYS}+ days`}
+            description="Still relevant? Update, defer or drop them."
+          >
+            {renderTasks(findings.staleTasks)}
+          </FindingsSection>
+        )}
+
+        {findings.projectsWithoutNextAction.length > 0 && (
+          <FindingsSection
+            title="No next action"
+            description="Projects without a ready or in-progress task."
+          >
+            {findings.projectsWithoutNextAction.map((project) => (
+              <div
+                key={project.id}
+                className="flex items-center justify-between gap-2 py-1"
+              >
+                {renderProjectLink(project)}
+                <Button
+                  variant="ghost"
+                  size="xs"
+                  onClick={() => handleAddNextAction(project)}
+                >
+                  <Plus />
+                  Next Action
+                </Button>
+              </div>
+            ))}
+          </FindingsSection>
+        )}
+
+        {findings.blockedProjects.length > 0 && (
+          <FindingsSection title="Blocked">
+            {findings.blockedProjects.map((project) => {
+              const blockers = getUnfinishedBlockers(project, data.projects)
+              return (
+                <div key={project.id} className="py-1">
+                  {renderProjectLink(project)}
+                  {blockers.length > 0 && (
+                    <p className="ps-6 text-xs text-muted-foreground">
+                      Waiting on {blockers.map((p) => p.title).join(', ')}
+                    </p>
+                  )}
+                </div>
+              )
+            })}
+          </FindingsSection>
+        )}
+
+        {/* Step controls */}
+        <div className="flex items-center gap-2 pt-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={currentIndex === 0}
+            onClick={() => goTo(currentIndex - 1)}
+          >
+            <ChevronLeft />
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={currentIndex === items.length - 1}
+            onClick={() => goTo(currentIndex + 1)}
+          >
+            Next
+            <ChevronRight />
+          </Button>
+          <Button size="sm" className="ml-auto" onClick={handleMarkReviewed}>
+            <CircleCheck />
+            Mark Reviewed
+          </Button>
+        </div>
+      </div>
+
+      <DeleteTaskDialog {...deleteDialogProps} />
+    </div>
+  )
+}
+
+// -----------------------------------------------------------------------------
+// Findings Section
+// -----------------------------------------------------------------------------
+
+interface FindingsSectionProps {
+  title: string
+  description?: string
+  children: React.ReactNode
+}
+
+function FindingsSection({
+  title,
+  description,
+  children,
+}: FindingsSectionProps) {
+  return (
+    <section>
+      <h2 className="text-sm font-medium text-muted-foreground">{title}</h2>
+      {description && (
+        <p className="text-xs text-muted-foreground/70">{description}</p>
+      )}
+      <div className="mt-2 space-y-0.5">{children}</div>
+    </section>
+  )
+}
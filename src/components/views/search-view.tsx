@@ -0,0 +1,216 @@
+import * as React from 'react'
+import {
+  Circle,
+  CircleCheck,
+  CircleDot,
+  FolderIcon,
+  SearchIcon,
+} from 'lucide-react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { useTaskDetailStore } from '@/store/task-detail-store'
+import { useTaskQuery } from '@/hooks/use-task-query'
+import { looksLikeQuery } from '@/lib/query'
+import type { SearchEntityKind, SearchResult, TextRange } from '@/lib/search'
+import { cn } from '@/lib/utils'
+import type { Selection } from '@/types/navigation'
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from '@/components/ui/input-group'
+import { EmptyState } from '@/components/ui/empty-state'
+
+/**
+ * SearchView - Full-text search across tasks, projects and areas.
+ *
+ * Matches titles, descriptions and notes (see lib/search). Results are
+ * grouped by entity type, best matches first, with matched words
+ * highlighted and an excerpt of the description or notes where the match
+ * was found.
+ *
+ * Input with a `field:` term (e.g. `status:ready due:<+7d`) runs as a task
+ * query instead (see lib/query); results come back in query order, and a
+ * syntax error is shown with the offending part of the query marked.
+ *
+ * Clicking a task opens it in the detail panel; clicking a project or area
+ * navigates to it.
+ */
+
+const groups: { kind: SearchEntityKind; heading: string }[] = [
+  { kind: 'area', heading: 'Areas' },
+  { kind: 'project', heading: 'Projects' },
+  { kind: 'task', heading: 'Tasks' },
+]
+
+/** `text` with `ranges` wrapped in <mark> */
+function Highlighted({ text, ranges }: { text: string; ranges: TextRange[] }) {
+  const parts: React.ReactNode[] = []
+  let last = 0
+  for (const { start, end } of ranges) {
+    if (start > last) parts.push(text.slice(last, start))
+    parts.push(
+      <mark key={start} className="rounded-sm bg-primary/15 text-foreground">
+        {text.slice(start, end)}
+      </mark>
+    )
+    last = end
+  }
+  parts.push(text.slice(last))
+  return <>{parts}</>
+}
+
+interface SearchViewProps {
+  onNavigate: (selection: Selection) => void
+}
+
+export function SearchView({ onNavigate }: SearchViewProps) {
+  const { search, getTaskById, getTaskContextName } = useAppData()
+  const openTask = useTaskDetailStore((s) => s.openTask)
+  const [query, setQuery] = React.useState('')
+  // Keep typing responsive in large vaults
+  const deferredQuery = React.useDeferredValue(query)
+
+  const isQuery = looksLikeQuery(deferredQuery)
+  const taskQuery = useTaskQuery(isQuery ? deferredQuery : '')
+
+  const results: SearchResult[] = isQuery
+    ? taskQuery.tasks.map((task) => ({
+        kind: 'task',
+        id: task.id,
+        title: task.title,
+        titleHighlights: [],
+        score: 0,
+      }))
+    : search(deferredQuery)
+
+  const handleSelect = (result: SearchResult) => {
+    if (result.kind === 'task') {
+      openTask(result.id)
+    } else {
+      onNavigate({ type: result.kind, id: result.id })
+    }
+  }
+
+  const renderIcon = (kind: SearchEntityKind, isClosed: boolean) => {
+    if (kind === 'area') {
+      return <FolderIcon className="size-4 text-icon-folder" />
+    }
+    if (kind === 'project') {
+      return <CircleDot className="size-4 text-entity-project" />
+    }
+    const StatusIcon = isClosed ? CircleCheck : Circle
+    return <StatusIcon className="size-4 text-muted-foreground" />
+  }
+
+  return (
+    <div className="space-y-6">
+      <InputGroup className="max-w-xl">
+        <InputGroupAddon>
+          <SearchIcon />
+        </InputGroupAddon>
+        <InputGroupInput
+          autoFocus
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search titles, descriptions and notes..."
+          aria-label="Search"
+        />
+      </InputGroup>
+
+      {!deferredQuery.trim() ? (
+        <EmptyState
+          title="Search your tasks, projects and areas."
+          description="Words match by prefix; every word must match. Filter tasks with fields like status:ready, area:Health or due:<+7d."
+        />
+      ) : taskQuery.error ? (
+        <div className="space-y-1 px-2">
+          <p className="text-sm text-destructive">{taskQuery.error.message}</p>
+          <p className="font-mono text-xs text-muted-foreground whitespace-pre-wrap">
+            <Highlighted
+              text={deferredQuery}
+              ranges={[
+                {
+                  start: taskQuery.error.start,
+                  // Keep zero-width spans (e.g. at the end) visible
+                  end: Math.max(taskQuery.error.end, taskQuery.error.start + 1),
+                },
+              ]}
+            />
+          </p>
+        </div>
+      ) : results.length === 0 ? (
+        <EmptyState title={`No results for “${deferredQuery.trim()}”.`} />
+      ) : (
+        groups.map(({ kind, heading }) => {
+          const items = results.filter((r) => r.kind === kind)
+          if (items.length === 0) return null
+          return (
+            <section key={kind} className="space-y-1">
+              <h2 className="text-xs font-medium text-muted-foreground px-2">
+                {heading}
+                <span className="ms-1.5 tabular-nums">{items.length}</span>
+              </h2>
+              <ul>
+                {items.map((result) => {
+                  const task =
+                    result.kind === 'task' ? getTaskById(result.id) : undefined
+                  const isClosed =
+                    task?.status === 'done' || task?.status === 'dropped'
+                  const contextName = task && getTaskContextName(task)
+                  return (
+                    <li key={result.id}>
+                      <button
+                        type="button"
+                        onClick={() => handleSelect(result)}
+                        className="w-full flex gap-2 rounded-md px-2 py-1.5 text-left hover:bg-accent focus-visible:bg-accent outline-none"
+                      >
+                        <span className="mt-0.5 shrink-0">
+                          {renderIcon(result.kind, isClosed)}
+                        </span>
+                        <span className="min-w-0 flex-1">
+                          <span className="flex items-baseline gap-2">
+                            <span
+                              className={cn(
+                                'truncate text-sm',
+                                isClosed && 'line-through text-muted-foreground'
+                              )}
+                            >
+                              {result.title ? (
+                                <Highlighted
+                                  text={result.title}
+                                  ranges={result.titleHighlights}
+                                />
+                              ) : (
+                                'Untitled'
+                              )}
+                            </span>
+                            {contextName && (
+                              <span className="shrink-0 text-xs text-muted-foreground">
+                                {contextName}
+                              </span>
+                            )}
+                          </span>
+                          {result.snippet && (
+                            <span className="block text-xs text-muted-foreground line-clamp-2">
+                              <Highlighted
+                                text={result.snippet.text}
+                                ranges={result.snippet.highlights}
+                              />
+                            </span>
+                          )}
+                        </span>
+                      </button>
+                    </li>
+                  )
+                })}
+              </ul>
+            </section>
+          )
+        })
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+import * as React from 'react'
+import { Play } from 'lucide-react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { useTagFilter } from '@/store/tag-filter-store'
+import { filterTasks as filterByCriteria } from '@/lib/task-filter'
+import { getGroupTasks, groupTasksByArea } from '@/lib/task-groups'
+import { AreaTaskGroupList } from '@/components/tasks/area-task-group-list'
+import { Button } from '@/components/ui/button'
+import { EmptyState } from '@/components/ui/empty-state'
+import type { Task } from '@/types/data'
+import type { TaskFilterCriteria } from '@/types/saved-filter'
+
+/**
+ * SomedayView - Ideas and tasks put on ice.
+ *
+ * Lists icebox tasks grouped by area and project like AreaView. "Activate"
+ * sets an area's tasks (or, from the header, every listed task) to ready in
+ * a single undo step. Tasks created here go to the icebox. The header's tag
+ * filter applies, including to what gets activated.
+ */
+interface SomedayViewProps {
+  onNavigateToProject: (projectId: string) => void
+  onNavigateToArea: (areaId: string) => void
+}
+
+const SOMEDAY_CRITERIA: TaskFilterCriteria = { statuses: ['icebox'] }
+
+export function SomedayView({
+  onNavigateToProject,
+  onNavigateToArea,
+}: SomedayViewProps) {
+  const { data, getEffectiveAreaId, updateTaskStatus, groupChanges } =
+    useAppData()
+  const { tags, filterTasks } = useTagFilter()
+
+  const somedayTasks = React.useMemo(
+    () =>
+      filterTasks(
+        filterByCriteria(data.tasks, SOMEDAY_CRITERIA, { getEffectiveAreaId })
+      ),
+    [data.tasks, getEffectiveAreaId, filterTasks]
+  )
+  const groups = React.useMemo(
+    () => groupTasksByArea(somedayTasks, data),
+    [somedayTasks, data]
+  )
+
+  const activateTasks = (tasks: Task[]) => {
+    groupChanges(() => {
+      for (const task of tasks) updateTaskStatus(task.id, 'ready')
+    }, 'Activate tasks')
+  }
+
+  if (groups.length === 0) {
+    return (
+      <EmptyState
+        title={
+          tags.length > 0
+            ? 'No someday tasks match the tag filter.'
+            : 'Nothing on ice.'
+        }
+        description="Tasks with the icebox status will appear here."
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <span className="text-sm text-muted-foreground">
+          {somedayTasks.length} {somedayTasks.length === 1 ? 'task' : 'tasks'}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          className="ml-auto"
+          onClick={() => activateTasks(somedayTasks)}
+        >
+          <Play />
+          Activate All
+        </Button>
+      </div>
+
+      <AreaTaskGroupList
+        groups={groups}
+        newTaskOptions={{ status: 'icebox', tags }}
+        renderGroupActions={(group) => (
+          <Button
+            variant="ghost"
+            size="xs"
+            className="text-muted-foreground"
+            onClick={() => activateTasks(getGroupTasks(group))}
+          >
+            <Play />
+            Activate
+          </Button>
+        )}
+        onNavigateToProject={onNavigateToProject}
+        onNavigateToArea={onNavigateToArea}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,181 @@
+import * as React from 'react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { useTaskDetailStore } from '@/store/task-detail-store'
+import { useViewMode } from '@/store/view-mode-store'
+import { useTagFilter } from '@/store/tag-filter-store'
+import type { QuickEntryFields } from '@/lib/quick-entry'
+import { ProjectCard } from '@/components/cards/project-card'
+import { DraggableTaskList } from '@/components/tasks/task-list'
+import { KanbanBoard, useCollapsedColumns } from '@/components/kanban'
+import { EmptyState } from '@/components/ui/empty-state'
+import type { Task, TaskStatus } from '@/types/data'
+
+/**
+ * TagView - Projects and tasks with a tag, opened from the sidebar's tag
+ * browser.
+ *
+ * Layout:
+ * 1. Tagged projects grid (only when there are any)
+ * 2. Tagged tasks as a list or kanban (toggled via ViewHeader); reordering
+ *    changes the global task order
+ *
+ * New tasks get the tag. The header's tag filter narrows the tasks further.
+ */
+interface TagViewProps {
+  tag: string
+  onNavigateToProject: (projectId: string) => void
+  onNavigateToArea: (areaId: string) => void
+}
+
+export function TagView({
+  tag,
+  onNavigateToProject,
+  onNavigateToArea,
+}: TagViewProps) {
+  const { viewMode } = useViewMode('tag')
+  const { collapsedColumns, toggleColumn } = useCollapsedColumns()
+  const { tags: filterTags, filterTasks } = useTagFilter()
+
+  const {
+    data,
+    createTask,
+    getTaskById,
+    getProjectById,
+    getAreaById,
+    getTaskCounts,
+    getProjectRemainingEstimate,
+    getProjectCompletion,
+    getTaskContextName,
+    updateTaskTitle,
+    updateTaskStatus,
+    updateTaskScheduled,
+    updateTaskDue,
+    toggleTaskStatus,
+    reorderTasksByIds,
+  } = useAppData()
+  const { openTask } = useTaskDetailStore()
+
+  const projects = React.useMemo(
+    () => data.projects.filter((p) => p.tags?.includes(tag)),
+    [data.projects, tag]
+  )
+
+  const tasks = React.useMemo(
+    () => filterTasks(data.tasks.filter((t) => t.tags?.includes(tag))),
+    [data.tasks, tag, filterTasks]
+  )
+
+  const newTaskTags = React.useMemo(
+    () => [tag, ...filterTags],
+    [tag, filterTags]
+  )
+
+  const handleReorder = React.useCallback(
+    (reorderedTasks: Task[]) => {
+      reorderTasksByIds(reorderedTasks.map((t) => t.id))
+    },
+    [reorderTasksByIds]
+  )
+
+  const handleCreateTask = React.useCallback(
+    (afterTaskId: string | null, quickEntry?: QuickEntryFields) => {
+      return createTask({
+        tags: newTaskTags,
+        insertAfterId: afterTaskId ?? undefined,
+        quickEntry,
+      })
+    },
+    [createTask, newTaskTags]
+  )
+
+  return (
+    <div className="space-y-8">
+      {projects.length > 0 && (
+        <section>
+          <h2 className="text-sm font-medium text-muted-foreground mb-3">
+            Projects
+          </h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {projects.map((project) => {
+              const { taskCount, completedTaskCount } = getTaskCounts(
+                project.id
+              )
+              return (
+                <ProjectCard
+                  key={project.id}
+                  project={project}
+                  completion={getProjectCompletion(project.id)}
+                  taskCount={taskCount}
+                  completedTaskCount={completedTaskCount}
+                  remainingEstimate={getProjectRemainingEstimate(project.id)}
+                  areaName={
+                    project.areaId
+                      ? getAreaById(project.areaId)?.title
+                      : undefined
+                  }
+                  onClick={() => onNavigateToProject(project.id)}
+                  onAreaClick={
+                    project.areaId
+                      ? () => onNavigateToArea(project.areaId!)
+                      : undefined
+                  }
+                />
+              )
+            })}
+          </div>
+        </section>
+      )}
+
+      <section>
+        {projects.length > 0 && (
+          <h2 className="text-sm font-medium text-muted-foreground mb-3">
+            Tasks
+          </h2>
+        )}
+
+        {viewMode === 'kanban' ? (
+          <KanbanBoard
+            tasks={tasks}
+            collapsedColumns={collapsedColumns}
+            onColumnCollapseChange={toggleColumn}
+            onTaskStatusChange={updateTaskStatus}
+            onTasksReorder={(_status: TaskStatus, reorderedTasks: Task[]) =>
+              handleReorder(reorderedTasks)
+            }
+            getTaskById={getTaskById}
+            getProjectName={(projectId) => getProjectById(projectId)?.title}
+            getAreaName={(areaId) => getAreaById(areaId)?.title}
+            onTaskTitleChange={updateTaskTitle}
+            onTaskScheduledChange={updateTaskScheduled}
+            onTaskDueChange={updateTaskDue}
+            onTaskEditClick={openTask}
+            onProjectClick={onNavigateToProject}
+            onAreaClick={onNavigateToArea}
+            onCreateTask={(status) => createTask({ tags: newTaskTags, status })}
+          />
+        ) : (
+          <div className="space-y-4">
+            <DraggableTaskList
+              tasks={tasks}
+              projectId={`tag-${tag}`}
+              onTasksReorder={handleReorder}
+              onTaskTitleChange={updateTaskTitle}
+              onTaskStatusToggle={toggleTaskStatus}
+              onTaskOpenDetail={openTask}
+              onCreateTask={handleCreateTask}
+              getContextName={getTaskContextName}
+            />
+            {tasks.length === 0 && (
+              <EmptyState
+                title={`No tasks tagged #${tag}.`}
+                description="Tasks you add here get the tag."
+              />
+            )}
+          </div>
+        )}
+      </section>
+    </div>
+  )
+}
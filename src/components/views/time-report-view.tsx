@@ -0,0 +1,272 @@
+import * as React from 'react'
+import {
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfWeek,
+  subMonths,
+  subWeeks,
+} from 'date-fns'
+import { FolderIcon } from 'lucide-react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { useTaskDetailStore } from '@/store/task-detail-store'
+import { formatDuration } from '@/lib/time-blocks'
+import {
+  getTimeReport,
+  type AreaTime,
+  type ProjectTime,
+  type TimeRange,
+} from '@/lib/time-tracking'
+import { cn } from '@/lib/utils'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { EmptyState } from '@/components/ui/empty-state'
+
+/**
+ * TimeReportView - Time tracked per area and project over a date range.
+ *
+ * The range is a preset (this or last week or month) or any two days typed
+ * in. Time is totalled per area, then per project and task (see
+ * lib/time-tracking); client areas are marked billable and add up to the
+ * billable total. Area and project names navigate to them; task names open
+ * the task.
+ */
+interface TimeReportViewProps {
+  onNavigateToProject: (projectId: string) => void
+  onNavigateToArea: (areaId: string) => void
+}
+
+type RangePreset = 'this-week' | 'last-week' | 'this-month' | 'last-month'
+
+const presetOptions: { value: RangePreset; label: string }[] = [
+  { value: 'this-week', label: 'This Week' },
+  { value: 'last-week', label: 'Last Week' },
+  { value: 'this-month', label: 'This Month' },
+  { value: 'last-month', label: 'Last Month' },
+]
+
+function getPresetRange(preset: RangePreset, today = new Date()): TimeRange {
+  const [start, end] = {
+    'this-week': () => [startOfWeek(today, { weekStartsOn: 1 }), today],
+    'last-week': () => {
+      const day = subWeeks(today, 1)
+      return [
+        startOfWeek(day, { weekStartsOn: 1 }),
+        endOfWeek(day, { weekStartsOn: 1 }),
+      ]
+    },
+    'this-month': () => [startOfMonth(today), today],
+    'last-month': () => {
+      const day = subMonths(today, 1)
+      return [startOfMonth(day), endOfMonth(day)]
+    },
+  }[preset]()
+  return { from: format(start, 'yyyy-MM-dd'), to: format(end, 'yyyy-MM-dd') }
+}
+
+/** Report times are shown to the minute */
+function formatTime(ms: number): string {
+  return formatDuration(Math.round(ms / 60000))
+}
+
+export function TimeReportView({
+  onNavigateToProject,
+  onNavigateToArea,
+}: TimeReportViewProps) {
+  const { data } = useAppData()
+  // null once a day has been typed in
+  const [preset, setPreset] = React.useState<RangePreset | null>('this-week')
+  const [range, setRange] = React.useState(() => getPresetRange('this-week'))
+
+  const report = React.useMemo(() => getTimeReport(data, range), [data, range])
+
+  const handlePresetChange = (values: string[]) => {
+    // base-ui uses arrays - take the newly pressed value
+    const next = values.find((v) => v !== preset) as RangePreset | undefined
+    if (!next) return
+    setPreset(next)
+    setRange(getPresetRange(next))
+  }
+
+  const handleRangeChange = (changes: Partial<TimeRange>) => {
+    const next = { ...range, ...changes }
+    if (!next.from || !next.to) return
+    setPreset(null)
+    // Keep the range the right way round
+    setRange(next.from > next.to ? { from: next.to, to: next.from } : next)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <ToggleGroup
+          value={preset ? [preset] : []}
+          onValueChange={handlePresetChange}
+          variant="outline"
+          size="sm"
+          className="bg-muted/50"
+        >
+          {presetOptions.map(({ value, label }) => (
+            <ToggleGroupItem
+              key={value}
+              value={value}
+              className="data-[pressed]:bg-muted data-[pressed]:shadow-inner"
+            >
+              {label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
+          <Input
+            type="date"
+            value={range.from}
+            onChange={(e) => handleRangeChange({ from: e.target.value })}
+            className="h-7 w-36"
+            aria-label="From"
+          />
+          <span>–</span>
+          <Input
+            type="date"
+            value={range.to}
+            onChange={(e) => handleRangeChange({ to: e.target.value })}
+            className="h-7 w-36"
+            aria-label="To"
+          />
+        </div>
+      </div>
+
+      {report.areas.length > 0 ? (
+        <>
+          <div className="flex gap-8">
+            <Total label="Total" time={report.total} />
+            <Total label="Billable" time={report.billable} />
+          </div>
+
+          {report.areas.map((areaTime) => (
+            <AreaSection
+              key={areaTime.area?.id ?? ''}
+              areaTime={areaTime}
+              onNavigateToProject={onNavigateToProject}
+              onNavigateToArea={onNavigateToArea}
+            />
+          ))}
+        </>
+      ) : (
+        <EmptyState
+          title="No time tracked in this range."
+          description="Start a timer on a task, or add time in its details."
+        />
+      )}
+    </div>
+  )
+}
+
+// -----------------------------------------------------------------------------
+// Report Sections
+// -----------------------------------------------------------------------------
+
+function Total({ label, time }: { label: string; time: number }) {
+  return (
+    <div>
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-2xl font-semibold tabular-nums">{formatTime(time)}</p>
+    </div>
+  )
+}
+
+interface AreaSectionProps extends TimeReportViewProps {
+  areaTime: AreaTime
+}
+
+function AreaSection({
+  areaTime,
+  onNavigateToProject,
+  onNavigateToArea,
+}: AreaSectionProps) {
+  const { area, billable, time, projects } = areaTime
+
+  return (
+    <section>
+      <div className="flex items-center gap-2 border-b pb-1.5 mb-1">
+        {area ? (
+          <button
+            type="button"
+            onClick={() => onNavigateToArea(area.id)}
+            className="truncate font-medium hover:underline"
+          >
+            {area.title}
+          </button>
+        ) : (
+          <span className="font-medium text-muted-foreground">No Area</span>
+        )}
+        {billable && <Badge variant="secondary">Billable</Badge>}
+        <span className="ms-auto tabular-nums font-medium">
+          {formatTime(time)}
+        </span>
+      </div>
+      <div className="space-y-1">
+        {projects.map((projectTime) => (
+          <ProjectRows
+            key={projectTime.project?.id ?? ''}
+            projectTime={projectTime}
+            onNavigateToProject={onNavigateToProject}
+          />
+        ))}
+      </div>
+    </section>
+  )
+}
+
+interface ProjectRowsProps {
+  projectTime: ProjectTime
+  onNavigateToProject: (projectId: string) => void
+}
+
+function ProjectRows({ projectTime, onNavigateToProject }: ProjectRowsProps) {
+  const { openTask } = useTaskDetailStore()
+  const { project, time, tasks } = projectTime
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 py-1 text-sm">
+        <FolderIcon
+          className={cn(
+            'size-3.5 shrink-0',
+            project ? 'text-icon-folder' : 'text-icon-folder-none'
+          )}
+        />
+        {project ? (
+          <button
+            type="button"
+            onClick={() => onNavigateToProject(project.id)}
+            className="truncate hover:underline"
+          >
+            {project.title}
+          </button>
+        ) : (
+          <span className="text-muted-foreground">No Project</span>
+        )}
+        <span className="ms-auto tabular-nums">{formatTime(time)}</span>
+      </div>
+      {tasks.map(({ task, time }) => (
+        <div
+          key={task.id}
+          className="flex items-center gap-2 py-0.5 ps-5.5 text-sm text-muted-foreground"
+        >
+          <button
+            type="button"
+            onClick={() => openTask(task.id)}
+            className="truncate hover:text-foreground hover:underline"
+          >
+            {task.title}
+          </button>
+          <span className="ms-auto tabular-nums">{formatTime(time)}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -4,13 +4,24 @@ import { Sun, Flag, Sunrise } from 'lucide-react'
 // TODO(tauri-integration): Migrate to TanStack Query
 import { useAppData } from '@/context/app-data-context'
 import { useTaskDetailStore } from '@/store/task-detail-store'
-import { useTodayOrder, type TodaySectionId } from '@/hooks/use-today-order'
+import {
+  useTodayOrder,
+  type OrderedTodaySectionId,
+} from '@/hooks/use-today-order'
+import { useHeadingList } from '@/hooks/use-heading-list'
+import { useTagFilter } from '@/store/tag-filter-store'
 import { SectionTaskGroup } from '@/components/tasks/section-task-group'
 import { TaskDndContext } from '@/components/tasks/task-dnd-context'
 import { isOverdue, isToday } from '@/lib/date-utils'
+import type { QuickEntryFields } from '@/lib/quick-entry'
+import { hasAllTags, mergeFilteredOrder } from '@/lib/tags'
 import type { Task } from '@/types/data'
 import { EmptyState } from '@/components/ui/empty-state'
-import { toHeadingId, type HeadingColor } from '@/types/headings'
+import {
+  TODAY_HEADING_LIST,
+  parseOrderedItemDragId,
+  toOrderId,
+} from '@/types/headings'
 import { arrayMove } from '@dnd-kit/sortable'
 
 /**
@@ -22,10 +33,14 @@ import { arrayMove } from '@dnd-kit/sortable'
  * 3. "Became Available Today" - Tasks whose deferUntil date is today
  *
  * The "Scheduled for Today" section supports inline headings for manual
- * organization. Tasks can be dragged between sections (only TO scheduled).
- * Tasks can also be reordered within sections.
+ * organization; its headings and order are kept with the data (see
+ * useHeadingList). Tasks can be dragged between sections (only TO
+ * scheduled). Tasks can also be reordered within sections.
  *
- * Display order is managed by useTodayOrder hook, separate from entity data.
+ * The other sections' display order is managed by useTodayOrder hook,
+ * separate from entity data. The header's tag filter hides tasks from the
+ * sections; reordering a filtered section keeps the hidden tasks in place
+ * (see mergeFilteredOrder).
  */
 interface TodayViewProps {
   onNavigateToProject?: (projectId: string) => void
@@ -44,6 +59,7 @@ export function TodayView(_props: TodayViewProps) {
     getTaskById,
   } = useAppData()
   const { openTask } = useTaskDetailStore()
+  const { tags } = useTagFilter()
 
   // State for auto-editing newly created items
   const [pendingEditItemId, setPendingEditItemId] = React.useState<
@@ -87,33 +103,54 @@ export function TodayView(_props: TodayViewProps) {
     })
   }, [data.tasks, today])
 
-  // Manage display order for each section (with heading support)
+  // Manage display order for the task-only sections
+  const { setSectionTaskOrder: setFullSectionTaskOrder, getOrderedTasks } =
+    useTodayOrder({
+      overdueOrDueToday,
+      becameAvailableToday,
+    })
+
+  // "Scheduled for Today" has headings, kept with the data
   const {
-    headings,
-    setSectionTaskOrder,
-    setSectionItemOrder,
-    getOrderedTasks,
-    getOrderedItems,
+    items: allScheduledItems,
+    getHeadingById,
+    reorderItems: reorderScheduledItems,
+    moveItem: moveScheduledItem,
+    createTask: createScheduledTask,
     createHeading,
-    updateHeading,
+    setHeadingTitle,
+    setHeadingColor,
     deleteHeading,
-  } = useTodayOrder({
-    scheduledToday,
-    overdueOrDueToday,
-    becameAvailableToday,
-  })
-
-  // Get heading by ID for drag preview
-  const getHeadingById = React.useCallback(
-    (headingId: string) => headings[headingId],
-    [headings]
-  )
+  } = useHeadingList(TODAY_HEADING_LIST, scheduledToday)
 
-  // Get ordered items for "Scheduled for Today" (supports headings)
-  const orderedScheduledItems = getOrderedItems('scheduled-today')
   // Get ordered tasks for other sections (task-only mode)
-  const orderedOverdueOrDueToday = getOrderedTasks('overdue-due-today')
-  const orderedBecameAvailableToday = getOrderedTasks('became-available-today')
+  const allOverdueOrDueToday = getOrderedTasks('overdue-due-today')
+  const allBecameAvailableToday = getOrderedTasks('became-available-today')
+
+  // Apply the tag filter (headings always stay visible)
+  const orderedScheduledItems = allScheduledItems.filter(
+    (item) => item.type === 'heading' || hasAllTags(item.data, tags)
+  )
+  const orderedOverdueOrDueToday = allOverdueOrDueToday.filter((t) =>
+    hasAllTags(t, tags)
+  )
+  const orderedBecameAvailableToday = allBecameAvailableToday.filter((t) =>
+    hasAllTags(t, tags)
+  )
+
+  // Order setters take the visible order; merge the hidden tasks back in
+  const setSectionTaskOrder = React.useCallback(
+    (sectionId: OrderedTodaySectionId, reorderedTasks: Task[]) => {
+      setFullSectionTaskOrder(
+        sectionId,
+        mergeFilteredOrder(
+          getOrderedTasks(sectionId).map((t) => t.id),
+          reorderedTasks.map((t) => t.id)
+        )
+      )
+    },
+    [getOrderedTasks, setFullSectionTaskOrder]
+  )
 
   // Also need task-only version for TaskDndContext compatibility
   const orderedScheduledTasks = React.useMemo(
@@ -137,24 +174,24 @@ export function TodayView(_props: TodayViewProps) {
     orderedBecameAvailableToday,
   ])
 
-  // Handler for cross-section task move (TaskDndContext callback)
-  const handleTaskMove = React.useCallback(
+  // Handler for cross-section task moves (TaskDndContext callback)
+  const handleTasksMove = React.useCallback(
     (
-      taskId: string,
-      _fromSectionId: string,
+      taskIds: string[],
       toSectionId: string,
       insertBeforeTaskId: string | null
     ) => {
       // Only allow moving TO "scheduled-today"
       if (toSectionId !== 'scheduled-today') return
 
-      // Update the scheduled date
-      updateTaskScheduled(taskId, today)
+      // Update the scheduled dates
+      for (const taskId of taskIds) updateTaskScheduled(taskId, today)
 
-      // Build current order IDs (preserving headings with their prefix)
-      const currentOrderIds = orderedScheduledItems.map((item) =>
-        item.type === 'heading' ? toHeadingId(item.id) : item.id
-      )
+      // Build current order IDs (preserving headings with their prefix),
+      // leaving out moved tasks that were already in the section
+      const currentOrderIds = orderedScheduledItems
+        .map(toOrderId)
+        .filter((id) => !taskIds.includes(id))
 
       let newOrderIds: string[]
 
@@ -164,119 +201,67 @@ export function TodayView(_props: TodayViewProps) {
         if (insertIndex !== -1) {
           newOrderIds = [
             ...currentOrderIds.slice(0, insertIndex),
-            taskId,
+            ...taskIds,
             ...currentOrderIds.slice(insertIndex),
           ]
         } else {
-          newOrderIds = [...currentOrderIds, taskId]
+          newOrderIds = [...currentOrderIds, ...taskIds]
         }
       } else {
         // Append to end
-        newOrderIds = [...currentOrderIds, taskId]
+        newOrderIds = [...currentOrderIds, ...taskIds]
       }
 
-      // Use setSectionItemOrder to preserve headings
-      setSectionItemOrder('scheduled-today', newOrderIds)
+      reorderScheduledItems(newOrderIds)
     },
-    [updateTaskScheduled, today, orderedScheduledItems, setSectionItemOrder]
+    [updateTaskScheduled, today, orderedScheduledItems, reorderScheduledItems]
   )
 
   // Handler for same-section reordering (TaskDndContext callback)
   const handleTasksReorder = React.useCallback(
     (sectionId: string, reorderedTasks: Task[]) => {
-      setSectionTaskOrder(sectionId as TodaySectionId, reorderedTasks)
+      if (sectionId === 'scheduled-today') {
+        reorderScheduledItems(reorderedTasks.map((t) => t.id))
+      } else {
+        setSectionTaskOrder(sectionId as OrderedTodaySectionId, reorderedTasks)
+      }
     },
-    [setSectionTaskOrder]
+    [reorderScheduledItems, setSectionTaskOrder]
   )
 
   // Factory for reorder handlers (for task-only sections)
   const makeReorderHandler = React.useCallback(
-    (sectionId: TodaySectionId) => (reorderedTasks: Task[]) => {
+    (sectionId: OrderedTodaySectionId) => (reorderedTasks: Task[]) => {
       setSectionTaskOrder(sectionId, reorderedTasks)
     },
     [setSectionTaskOrder]
   )
 
-  // Handler for mixed items reorder (Scheduled for Today section)
-  const handleScheduledItemsReorder = React.useCallback(
-    (orderedIds: string[]) => {
-      setSectionItemOrder('scheduled-today', orderedIds)
-    },
-    [setSectionItemOrder]
-  )
-
   // Handler for drag-based reordering (TaskDndContext callback)
   // Converts drag IDs back to order IDs and applies the reorder
   const handleDragItemsReorder = React.useCallback(
     (containerId: string, activeDragId: string, overDragId: string) => {
-      // Parse drag ID to extract type and item ID
-      // Drag ID format: "type-containerId-itemId"
-      const parseDragId = (
-        dragId: string
-      ): { type: 'heading' | 'task'; id: string } | null => {
-        const headingPrefix = `heading-${containerId}-`
-        if (dragId.startsWith(headingPrefix)) {
-          return { type: 'heading', id: dragId.slice(headingPrefix.length) }
-        }
-        const taskPrefix = `task-${containerId}-`
-        if (dragId.startsWith(taskPrefix)) {
-          return { type: 'task', id: dragId.slice(taskPrefix.length) }
-        }
-        return null
-      }
+      const active = parseOrderedItemDragId(containerId, activeDragId)
+      const over = parseOrderedItemDragId(containerId, overDragId)
+      if (!active || !over) return
 
-      // Convert parsed drag ID to order ID format
-      const toOrderId = (parsed: {
-        type: 'heading' | 'task'
-        id: string
-      }): string => {
-        return parsed.type === 'heading' ? toHeadingId(parsed.id) : parsed.id
+      if (containerId === 'scheduled-today') {
+        moveScheduledItem(toOrderId(active), toOrderId(over))
+        return
       }
 
-      const activeParsed = parseDragId(activeDragId)
-      const overParsed = parseDragId(overDragId)
-
-      if (!activeParsed || !overParsed) return
-
-      const activeOrderId = toOrderId(activeParsed)
-      const overOrderId = toOrderId(overParsed)
-
-      // Get current order for the section
-      const currentItems =
-        containerId === 'scheduled-today'
-          ? orderedScheduledItems
-          : containerId === 'overdue-due-today'
-            ? orderedOverdueOrDueToday.map((t) => ({
-                type: 'task' as const,
-                id: t.id,
-                data: t,
-              }))
-            : orderedBecameAvailableToday.map((t) => ({
-                type: 'task' as const,
-                id: t.id,
-                data: t,
-              }))
-
-      // Build current order IDs
-      const currentOrderIds = currentItems.map((item) =>
-        item.type === 'heading' ? toHeadingId(item.id) : item.id
-      )
-
-      // Find indices and apply arrayMove
-      const oldIndex = currentOrderIds.indexOf(activeOrderId)
-      const newIndex = currentOrderIds.indexOf(overOrderId)
-
+      // Task-only sections
+      const sectionTasks = tasksBySection.get(containerId) ?? []
+      const oldIndex = sectionTasks.findIndex((t) => t.id === active.id)
+      const newIndex = sectionTasks.findIndex((t) => t.id === over.id)
       if (oldIndex === -1 || newIndex === -1) return
 
-      const newOrderIds = arrayMove(currentOrderIds, oldIndex, newIndex)
-      setSectionItemOrder(containerId as TodaySectionId, newOrderIds)
+      setSectionTaskOrder(
+        containerId as OrderedTodaySectionId,
+        arrayMove(sectionTasks, oldIndex, newIndex)
+      )
     },
-    [
-      orderedScheduledItems,
-      orderedOverdueOrDueToday,
-      orderedBecameAvailableToday,
-      setSectionItemOrder,
-    ]
+    [moveScheduledItem, tasksBySection, setSectionTaskOrder]
   )
 
   const handleTitleChange = React.useCallback(
@@ -302,26 +287,26 @@ export function TodayView(_props: TodayViewProps) {
 
   // Create task handler for "Scheduled for Today" section
   const handleCreateScheduledTask = React.useCallback(
-    (afterItemId: string | null) => {
-      return createTask({
-        scheduled: today,
-        insertAfterId: afterItemId ?? undefined,
-      })
+    (afterItemId: string | null, quickEntry?: QuickEntryFields) => {
+      return createScheduledTask(
+        { scheduled: today, tags, quickEntry },
+        afterItemId
+      )
     },
-    [createTask, today]
+    [createScheduledTask, today, tags]
   )
 
   // Add task from header button
   const handleAddScheduledTask = React.useCallback(() => {
-    const newTaskId = createTask({ scheduled: today })
+    const newTaskId = createScheduledTask({ scheduled: today, tags }, null)
     // Trigger auto-edit for the new task
     setPendingEditItemId(newTaskId)
     return newTaskId
-  }, [createTask, today])
+  }, [createScheduledTask, today, tags])
 
   // Heading handlers for Scheduled section
   const handleAddHeading = React.useCallback(() => {
-    const headingId = createHeading('scheduled-today')
+    const headingId = createHeading()
     // Trigger auto-edit for the new heading
     setPendingEditItemId(headingId)
   }, [createHeading])
@@ -331,47 +316,30 @@ export function TodayView(_props: TodayViewProps) {
     setPendingEditItemId(null)
   }, [])
 
-  const handleHeadingTitleChange = React.useCallback(
-    (headingId: string, newTitle: string) => {
-      updateHeading(headingId, { title: newTitle })
-    },
-    [updateHeading]
-  )
-
-  const handleHeadingColorChange = React.useCallback(
-    (headingId: string, color: HeadingColor) => {
-      updateHeading(headingId, { color })
-    },
-    [updateHeading]
-  )
-
-  const handleHeadingDelete = React.useCallback(
-    (headingId: string) => {
-      deleteHeading('scheduled-today', headingId)
-    },
-    [deleteHeading]
-  )
-
   // Create task handler for due/overdue section (set due date to today)
   const handleCreateDueTask = React.useCallback(
-    (afterTaskId: string | null) => {
+    (afterTaskId: string | null, quickEntry?: QuickEntryFields) => {
       return createTask({
         due: today,
+        tags,
         insertAfterId: afterTaskId ?? undefined,
+        quickEntry,
       })
     },
-    [createTask, today]
+    [createTask, today, tags]
   )
 
   // Create task handler for "became available" section (schedule for today)
   const handleCreateAvailableTask = React.useCallback(
-    (afterTaskId: string | null) => {
+    (afterTaskId: string | null, quickEntry?: QuickEntryFields) => {
       return createTask({
         scheduled: today,
+        tags,
         insertAfterId: afterTaskId ?? undefined,
+        quickEntry,
       })
     },
-    [createTask, today]
+    [createTask, today, tags]
   )
 
   // Check if there are any tasks to show
@@ -383,7 +351,7 @@ export function TodayView(_props: TodayViewProps) {
   return (
     <TaskDndContext
       tasksByProject={tasksBySection}
-      onTaskMove={handleTaskMove}
+      onTasksMove={handleTasksMove}
       onTasksReorder={handleTasksReorder}
       onItemsReorder={handleDragItemsReorder}
       getTaskById={getTaskById}
@@ -396,16 +364,16 @@ export function TodayView(_props: TodayViewProps) {
           title="Scheduled for Today"
           icon={<Sun className="size-4" />}
           orderedItems={orderedScheduledItems}
-          onItemsReorder={handleScheduledItemsReorder}
+          onItemsReorder={reorderScheduledItems}
           onTaskTitleChange={handleTitleChange}
           onTaskStatusToggle={handleStatusToggle}
           onTaskOpenDetail={handleOpenDetail}
           onCreateTask={handleCreateScheduledTask}
           onAddTask={handleAddScheduledTask}
           onAddHeading={handleAddHeading}
-          onHeadingTitleChange={handleHeadingTitleChange}
-          onHeadingColorChange={handleHeadingColorChange}
-          onHeadingDelete={handleHeadingDelete}
+          onHeadingTitleChange={setHeadingTitle}
+          onHeadingColorChange={setHeadingColor}
+          onHeadingDelete={deleteHeading}
           getContextName={getTaskContextName}
           showScheduled={false}
           showDue={true}
@@ -457,7 +425,11 @@ export function TodayView(_props: TodayViewProps) {
         {/* Empty state */}
         {!hasAnyItems && (
           <EmptyState
-            title="Nothing scheduled for today."
+            title={
+              tags.length > 0
+                ? 'No tasks for today match the tag filter.'
+                : 'Nothing scheduled for today.'
+            }
             description="Schedule tasks to see them here."
           />
         )}
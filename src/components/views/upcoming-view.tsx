@@ -0,0 +1,86 @@
+import * as React from 'react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { useTaskDetailStore } from '@/store/task-detail-store'
+import { useTagFilter } from '@/store/tag-filter-store'
+import { UpcomingAgenda } from '@/components/calendar/upcoming-agenda'
+import type { Task } from '@/types/data'
+
+/**
+ * UpcomingView - Rolling agenda of the days ahead.
+ *
+ * Unlike WeekView (one calendar week) and CalendarView (a month grid), the
+ * agenda always starts today and runs for a configurable number of days.
+ * Each day lists scheduled tasks, deadlines, tasks becoming available and
+ * upcoming occurrences of recurring tasks; tasks can be dragged between
+ * days to reschedule them.
+ *
+ * The header's tag filter applies; new tasks get its tags.
+ */
+interface UpcomingViewProps {
+  onNavigateToProject?: (projectId: string) => void
+  onNavigateToArea?: (areaId: string) => void
+}
+
+export function UpcomingView({
+  onNavigateToProject,
+  onNavigateToArea,
+}: UpcomingViewProps) {
+  const {
+    data,
+    getTaskById,
+    getProjectById,
+    getAreaById,
+    createTask,
+    updateTaskStatus,
+    updateTaskTitle,
+    updateTaskScheduled,
+    updateTaskDue,
+  } = useAppData()
+  const { openTask } = useTaskDetailStore()
+  const { tags, filterTasks } = useTagFilter()
+
+  const tasks = React.useMemo(
+    () => filterTasks(data.tasks),
+    [data.tasks, filterTasks]
+  )
+
+  // Get context (project/area names and IDs) for a task
+  const getTaskContext = React.useCallback(
+    (task: Task) => {
+      const project = task.projectId
+        ? getProjectById(task.projectId)
+        : undefined
+      // Direct area on task overrides project's area
+      const areaId = task.areaId ?? project?.areaId
+      const area = areaId ? getAreaById(areaId) : undefined
+
+      return {
+        projectName: project?.title,
+        projectId: project?.id,
+        areaName: area?.title,
+        areaId: area?.id,
+      }
+    },
+    [getProjectById, getAreaById]
+  )
+
+  return (
+    <UpcomingAgenda
+      tasks={tasks}
+      getTaskById={getTaskById}
+      getTaskContext={getTaskContext}
+      onTaskScheduleChange={updateTaskScheduled}
+      onTaskStatusChange={updateTaskStatus}
+      onTaskTitleChange={updateTaskTitle}
+      onTaskDueChange={updateTaskDue}
+      onTaskOpenDetail={openTask}
+      onNavigateToProject={onNavigateToProject}
+      onNavigateToArea={onNavigateToArea}
+      onCreateTask={(scheduledDate) =>
+        createTask({ tags, scheduled: scheduledDate })
+      }
+    />
+  )
+}
@@ -5,6 +5,7 @@ import { startOfWeek, endOfWeek, isWithinInterval, parseISO } from 'date-fns'
 import { useAppData } from '@/context/app-data-context'
 import { useTaskDetailStore } from '@/store/task-detail-store'
 import { useViewMode } from '@/store/view-mode-store'
+import { useTagFilter } from '@/store/tag-filter-store'
 import { WeekCalendar } from '@/components/calendar/week-calendar'
 import { KanbanBoard, useCollapsedColumns } from '@/components/kanban'
 import type { Task, TaskStatus } from '@/types/data'
@@ -12,15 +13,17 @@ import type { Task, TaskStatus } from '@/types/data'
 /**
  * WeekView - Shows tasks scheduled or due within the current week.
  *
- * Supports two view modes (toggled via ViewHeader):
+ * Supports three view modes (toggled via ViewHeader):
  * - "calendar" → WeekCalendar (7-day column layout with drag-drop scheduling)
+ * - "timeline" → WeekCalendar's hourly timeline (time blocking)
  * - "kanban" → KanbanBoard (tasks grouped by status)
  *
  * In calendar mode, tasks can be dragged to different days to reschedule.
+ * In timeline mode, they can also be dragged to a time and resized.
  * In kanban mode, tasks can be moved between status columns.
  *
  * Filters tasks where scheduled OR due date falls within Monday-Sunday of
- * the current week.
+ * the current week. Both modes apply the header's tag filter.
  */
 interface WeekViewProps {
   onNavigateToProject?: (projectId: string) => void
@@ -33,6 +36,7 @@ export function WeekView({
 }: WeekViewProps) {
   const { viewMode } = useViewMode('this-week')
   const { collapsedColumns, toggleColumn } = useCollapsedColumns()
+  const { tags, filterTasks } = useTagFilter()
 
   const {
     data,
@@ -43,11 +47,18 @@ export function WeekView({
     updateTaskStatus,
     updateTaskTitle,
     updateTaskScheduled,
+    updateTaskStartTime,
+    updateTaskDuration,
     updateTaskDue,
     reorderTasksByIds,
   } = useAppData()
   const { openTask } = useTaskDetailStore()
 
+  const taggedTasks = React.useMemo(
+    () => filterTasks(data.tasks),
+    [data.tasks, filterTasks]
+  )
+
   // Filter tasks for this week (scheduled or due within the week)
   const thisWeekTasks = React.useMemo(() => {
     const now = new Date()
@@ -55,7 +66,7 @@ export function WeekView({
     const weekEnd = endOfWeek(now, { weekStartsOn: 1 })
     const interval = { start: weekStart, end: weekEnd }
 
-    return data.tasks.filter((task) => {
+    return taggedTasks.filter((task) => {
       // Check if scheduled date is within this week
       if (task.scheduled) {
         try {
@@ -82,7 +93,7 @@ export function WeekView({
 
       return false
     })
-  }, [data.tasks])
+  }, [taggedTasks])
 
   // Get context (project/area names and IDs) for a task
   const getTaskContext = React.useCallback(
@@ -166,12 +177,15 @@ export function WeekView({
 
   return (
     <div className="h-full flex flex-col">
-      {viewMode === 'calendar' ? (
+      {viewMode === 'calendar' || viewMode === 'timeline' ? (
         <WeekCalendar
-          tasks={data.tasks}
+          layout={viewMode === 'timeline' ? 'timeline' : 'columns'}
+          tasks={taggedTasks}
           getTaskById={getTaskById}
           getTaskContext={getTaskContext}
           onTaskScheduleChange={handleScheduleChange}
+          onTaskStartTimeChange={updateTaskStartTime}
+          onTaskDurationChange={updateTaskDuration}
           onTaskStatusChange={handleStatusChange}
           onTaskTitleChange={handleTitleChange}
           onTaskDueChange={handleDueChange}
@@ -179,7 +193,7 @@ export function WeekView({
           onNavigateToProject={onNavigateToProject}
           onNavigateToArea={onNavigateToArea}
           onCreateTask={(scheduledDate) =>
-            createTask({ scheduled: scheduledDate })
+            createTask({ tags, scheduled: scheduledDate })
           }
           className="flex-1"
         />
@@ -199,7 +213,7 @@ export function WeekView({
           onTaskEditClick={handleOpenDetail}
           onProjectClick={onNavigateToProject}
           onAreaClick={onNavigateToArea}
-          onCreateTask={(status) => createTask({ status })}
+          onCreateTask={(status) => createTask({ tags, status })}
         />
       )}
     </div>
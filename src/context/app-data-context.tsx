@@ -4,10 +4,67 @@ import {
   useContext,
   useState,
   useCallback,
+  useEffect,
   useMemo,
+  useRef,
 } from 'react'
-import type { AppData, Area, Project, Task } from '@/types/data'
+import type {
+  AppData,
+  Area,
+  ChecklistItem,
+  Project,
+  Recurrence,
+  Task,
+  TimeEntry,
+} from '@/types/data'
+import {
+  getProjectHeadingListKey,
+  isHeadingId,
+  toHeadingId,
+  type Heading,
+} from '@/types/headings'
 import { appData as initialAppData } from '@/data/app-data'
+import { createIndexedDbStorage, type StorageAdapter } from '@/lib/storage'
+import { useSavedFiltersStore } from '@/store/saved-filters-store'
+import type { SavedFilter } from '@/types/saved-filter'
+import {
+  createHistoryStack,
+  pushHistoryEntry,
+  redoHistory,
+  undoHistory,
+  type HistoryStack,
+} from '@/lib/history'
+import { showToast } from '@/lib/toast'
+import { getNextRecurrenceDates } from '@/lib/recurrence'
+import type { QuickEntryFields } from '@/lib/quick-entry'
+import { collectTags, normalizeTags, type TagSummary } from '@/lib/tags'
+import {
+  assertNoBlockingCycle,
+  isProjectBlocked as isBlockedByDependencies,
+} from '@/lib/project-dependencies'
+import {
+  getUnfinishedTaskBlockers,
+  withUnblockedTasks,
+  withoutDeletedTasks,
+} from '@/lib/task-dependencies'
+import {
+  findHeadingListKey,
+  insertIntoOrder,
+  withoutOrderIds,
+} from '@/lib/headings'
+import { resetChecklist } from '@/lib/checklist'
+import {
+  createTimeEntry,
+  getRunningEntry,
+  stopTimeEntries,
+} from '@/lib/time-tracking'
+import {
+  createSearchIndex,
+  querySearchIndex,
+  updateSearchIndex,
+  type SearchOptions,
+  type SearchResult,
+} from '@/lib/search'
 
 // -----------------------------------------------------------------------------
 // Context Types
@@ -22,24 +79,123 @@ export interface CreateTaskOptions {
   scheduled?: string
   due?: string
   deferUntil?: string
+  notes?: string
+  /** Normalized on creation (see lib/tags) */
+  tags?: string[]
   /** Insert after this task ID (for list views) */
   insertAfterId?: string
+  /**
+   * Fields parsed from quick-entry input (see parseQuickEntry). These win
+   * over the options above; a parsed project clears the area and vice versa
+   * (given both, the project is kept).
+   */
+  quickEntry?: QuickEntryFields
+}
+
+/** Options for creating a new project */
+export interface CreateProjectOptions {
+  title?: string
+  areaId?: string
+  status?: Project['status']
+}
+
+/** Options for creating a new area */
+export interface CreateAreaOptions {
+  title?: string
+  type?: string
+}
+
+/** Editable project fields (empty strings clear optional fields) */
+export type ProjectChanges = Partial<Omit<Project, 'id' | 'frontmatter'>>
+
+/** Editable area fields (empty strings clear optional fields) */
+export type AreaChanges = Partial<Omit<Area, 'id' | 'frontmatter'>>
+
+/** What happens to a project's tasks when the project is deleted */
+export type ProjectTasksAction = 'move-to-area' | 'delete'
+
+export interface DeleteProjectOptions {
+  /**
+   * 'move-to-area' (default): tasks become loose tasks in the project's area
+   * (or have no area if the project had none). 'delete': tasks are removed.
+   */
+  tasks?: ProjectTasksAction
 }
 
 interface AppDataContextValue {
   data: AppData
   // Mutations
   createTask: (options?: CreateTaskOptions) => string // returns new task ID
+  duplicateTask: (taskId: string) => string | undefined // returns new task ID
+  createProject: (options?: CreateProjectOptions) => string // returns new project ID
+  createArea: (options?: CreateAreaOptions) => string // returns new area ID
+  updateProject: (projectId: string, changes: ProjectChanges) => void
+  updateArea: (areaId: string, changes: AreaChanges) => void
+  deleteTask: (taskId: string) => void
+  deleteProject: (projectId: string, options?: DeleteProjectOptions) => void
+  archiveArea: (areaId: string) => void
+  unarchiveArea: (areaId: string) => void
   updateProjectArea: (projectId: string, newAreaId: string | null) => void
   updateProjectStatus: (projectId: string, newStatus: Project['status']) => void
+  /**
+   * Set the projects a project waits on. Throws a DependencyCycleError
+   * (lib/project-dependencies) instead if they would form a cycle.
+   */
+  updateProjectBlockedBy: (projectId: string, blockedBy: string[]) => void
+  /** Record that a project or area was just reviewed (see lib/review) */
+  markProjectReviewed: (projectId: string) => void
+  markAreaReviewed: (areaId: string) => void
   updateTaskTitle: (taskId: string, newTitle: string) => void
+  /** Set the scheduled date; clearing it clears the start time too */
   updateTaskScheduled: (taskId: string, date: string | undefined) => void
+  /** Set the time of day ("HH:mm") on the scheduled date (lib/time-blocks) */
+  updateTaskStartTime: (taskId: string, startTime: string | undefined) => void
+  /** Set how many minutes the task's time block takes */
+  updateTaskDuration: (taskId: string, duration: number | undefined) => void
+  /** Set the estimated effort in minutes (lib/workload) */
+  updateTaskEstimate: (taskId: string, estimate: number | undefined) => void
   updateTaskDue: (taskId: string, date: string | undefined) => void
   updateTaskDeferUntil: (taskId: string, date: string | undefined) => void
   updateTaskStatus: (taskId: string, newStatus: Task['status']) => void
   updateTaskNotes: (taskId: string, notes: string | undefined) => void
   updateTaskProject: (taskId: string, projectId: string | undefined) => void
   updateTaskArea: (taskId: string, areaId: string | undefined) => void
+  updateTaskRecurrence: (
+    taskId: string,
+    recurrence: Recurrence | undefined
+  ) => void
+  /** Replace a task's tags (normalized; see lib/tags) */
+  updateTaskTags: (taskId: string, tags: string[]) => void
+  /**
+   * Set the tasks a task waits on. Throws a DependencyCycleError
+   * (lib/project-dependencies) instead if they would form a cycle.
+   */
+  updateTaskBlockedBy: (taskId: string, blockedBy: string[]) => void
+  /** Replace a task's checklist (add, edit, tick, reorder or remove items) */
+  updateTaskChecklist: (taskId: string, checklist: ChecklistItem[]) => void
+  /**
+   * Turn a checklist item into a task of its own, in the same project or
+   * area and placed after the task. Returns the new task ID.
+   */
+  convertChecklistItemToTask: (
+    taskId: string,
+    itemId: string
+  ) => string | undefined
+  /**
+   * Start the task's timer (stopping any other that runs), or stop it if it
+   * runs. Completing a task also stops its timer (lib/time-tracking)
+   */
+  toggleTaskTimer: (taskId: string) => void
+  /** Stop whichever timer runs */
+  stopTimer: () => void
+  /** Replace a task's time entries (add, edit or remove them by hand) */
+  updateTaskTimeEntries: (taskId: string, timeEntries: TimeEntry[]) => void
+  /** Replace a project's tags (normalized; see lib/tags) */
+  updateProjectTags: (projectId: string, tags: string[]) => void
+  /** Rename a tag on every task and project (merging into `newTag`) */
+  renameTag: (tag: string, newTag: string) => void
+  /** Remove a tag from every task and project */
+  deleteTag: (tag: string) => void
   toggleTaskStatus: (taskId: string) => void
   reorderProjectTasks: (projectId: string, reorderedTaskIds: string[]) => void
   reorderAreaLooseTasks: (areaId: string, reorderedTaskIds: string[]) => void
@@ -54,6 +210,30 @@ interface AppDataContextValue {
     areaId: string,
     insertBeforeTaskId?: string | null
   ) => void
+  /**
+   * Add an untitled heading to a list (see types/headings), after
+   * `afterItemId` in `order` - the list's current order. Returns its ID.
+   */
+  createHeading: (
+    listKey: string,
+    order: string[],
+    afterItemId?: string | null
+  ) => string
+  updateHeading: (
+    headingId: string,
+    changes: Partial<Pick<Heading, 'title' | 'color'>>
+  ) => void
+  deleteHeading: (headingId: string) => void
+  /**
+   * Store a list's order of tasks and headings. The tasks also move among
+   * themselves, as with reorderTasksByIds.
+   */
+  setHeadingListOrder: (listKey: string, order: string[]) => void
+  /**
+   * Replace all data with a vault's (see readVault in lib/s1). Heading lists
+   * other than projects' aren't in the vault and are cleared. Undoable.
+   */
+  importVault: (data: AppData) => void
   // Lookups (derived from data)
   getAreaById: (id: string) => Area | undefined
   getProjectById: (id: string) => Project | undefined
@@ -62,15 +242,43 @@ interface AppDataContextValue {
   getOrphanProjects: () => Project[]
   getTasksByProjectId: (projectId: string) => Task[]
   getProjectCompletion: (projectId: string) => number
+  /** Blocked by its status, or waiting on a project that isn't done */
+  isProjectBlocked: (projectId: string) => boolean
+  /** The unfinished tasks a task waits on (see lib/task-dependencies) */
+  getTaskWaitingOn: (taskId: string) => Task[]
+  /** The task whose timer runs, with the running entry */
+  getRunningTimer: () => { task: Task; entry: TimeEntry } | undefined
   getTaskCounts: (projectId: string) => {
     taskCount: number
     completedTaskCount: number
   }
+  /** Minutes estimated for the project's open tasks */
+  getProjectRemainingEstimate: (projectId: string) => number
   getActiveProjects: () => Project[]
   getActiveAreas: () => Area[]
   getAreaDirectTasks: (areaId: string) => Task[]
   getOrphanTasks: () => Task[]
   getTaskContextName: (task: Task) => string | undefined
+  /** The task's own area, else its project's */
+  getEffectiveAreaId: (task: Task) => string | undefined
+  /** Every tag in use, alphabetically, with usage counts */
+  getAllTags: () => TagSummary[]
+  /** Full-text search over titles, descriptions and notes */
+  search: (query: string, options?: SearchOptions) => SearchResult[]
+  // History
+  undo: () => void
+  redo: () => void
+  canUndo: boolean
+  canRedo: boolean
+  /**
+   * Record every mutation until the matching endHistoryGroup as a single
+   * undo step (e.g., everything one drag changes). Groups nest; the label
+   * defaults to that of the first mutation inside.
+   */
+  beginHistoryGroup: (label?: string) => void
+  endHistoryGroup: () => void
+  /** Run `fn` inside a history group */
+  groupChanges: (fn: () => void, label?: string) => void
 }
 
 const AppDataContext = createContext<AppDataContextValue | null>(null)
@@ -79,114 +287,790 @@ const AppDataContext = createContext<AppDataContextValue | null>(null)
 // Provider
 // -----------------------------------------------------------------------------
 
-// Generate a unique ID for new tasks
+// Generate unique IDs for new entities
 function generateTaskId(): string {
   return `task-${crypto.randomUUID()}`
 }
 
-export function AppDataProvider({ children }: { children: React.ReactNode }) {
+function generateProjectId(): string {
+  return `project-${crypto.randomUUID()}`
+}
+
+function generateAreaId(): string {
+  return `area-${crypto.randomUUID()}`
+}
+
+// Merge edits into a project/area, dropping optional fields set to ''
+function applyEntityChanges<T extends { title: string }>(
+  entity: T,
+  changes: NoInfer<Partial<T>>
+): T {
+  const next: Record<string, unknown> = { ...entity, ...changes }
+  for (const [key, value] of Object.entries(changes)) {
+    if (key !== 'title' && value === '') next[key] = undefined
+  }
+  return next as T
+}
+
+/** Overlay parsed quick-entry fields on a view's task defaults */
+function withQuickEntry(options: CreateTaskOptions): CreateTaskOptions {
+  const { quickEntry, ...defaults } = options
+  if (!quickEntry) return defaults
+
+  const merged: CreateTaskOptions = { ...defaults, title: quickEntry.title }
+  if (quickEntry.scheduled) merged.scheduled = quickEntry.scheduled
+  if (quickEntry.due) merged.due = quickEntry.due
+  if (quickEntry.deferUntil) merged.deferUntil = quickEntry.deferUntil
+  // A task lives in either a project or an area, so an explicit choice
+  // replaces whichever context the view supplied. Given both, the project
+  // wins (it already belongs to an area)
+  if (quickEntry.projectId) {
+    merged.projectId = quickEntry.projectId
+    merged.areaId = undefined
+  } else if (quickEntry.areaId) {
+    merged.projectId = undefined
+    merged.areaId = quickEntry.areaId
+  }
+  return merged
+}
+
+/**
+ * If `taskId` was just completed and repeats, insert its next instance
+ * after it, with its checklist unticked and no time tracked. The rule moves
+ * to the new instance so that reopening and re-completing the old one
+ * doesn't spawn a duplicate.
+ */
+function withNextRecurrence(
+  before: Task[],
+  after: Task[],
+  taskId: string,
+  now: string
+): Task[] {
+  const previous = before.find((t) => t.id === taskId)
+  const index = after.findIndex((t) => t.id === taskId)
+  const completed = after[index]
+  if (!previous?.recurrence || !completed) return after
+  if (previous.status === 'done' || completed.status !== 'done') return after
+
+  const next: Task = {
+    ...structuredClone(completed),
+    id: generateTaskId(),
+    status: 'ready',
+    createdAt: now,
+    updatedAt: now,
+    completedAt: undefined,
+    checklist: resetChecklist(completed.checklist),
+    timeEntries: undefined,
+    ...getNextRecurrenceDates(previous, now),
+  }
+
+  return [
+    ...after.slice(0, index),
+    { ...completed, recurrence: undefined },
+    next,
+    ...after.slice(index + 1),
+  ]
+}
+
+/**
+ * Put the listed tasks in the given order, each taking a position one of
+ * them held before. All other tasks stay where they are.
+ */
+function withTasksReordered(tasks: Task[], reorderedTaskIds: string[]): Task[] {
+  // Create a set of IDs being reordered for quick lookup
+  const reorderSet = new Set(reorderedTaskIds)
+
+  // Get the tasks being reordered in their new order
+  const reorderedTasks = reorderedTaskIds
+    .map((id) => tasks.find((t) => t.id === id))
+    .filter((t): t is Task => t !== undefined)
+
+  // Rebuild the array: for each task in the original order,
+  // if it's being reordered, take the next task from reorderedTasks instead
+  const result: Task[] = []
+  let reorderIndex = 0
+
+  for (const task of tasks) {
+    if (reorderSet.has(task.id)) {
+      if (reorderIndex < reorderedTasks.length) {
+        result.push(reorderedTasks[reorderIndex])
+        reorderIndex++
+      }
+    } else {
+      result.push(task)
+    }
+  }
+
+  return result
+}
+
+// Text edits to a single field coalesce into one undo step, like task titles
+const COALESCED_FIELDS = new Set(['title', 'description', 'notes', 'type'])
+
+function getEditCoalesceKey(
+  kind: 'project' | 'area',
+  id: string,
+  changes: object
+): string | undefined {
+  const keys = Object.keys(changes)
+  if (keys.length !== 1 || !COALESCED_FIELDS.has(keys[0])) return undefined
+  return `${kind}-${keys[0]}:${id}`
+}
+
+// Returned for tasks that aren't waiting on anything, so the result is stable
+const NO_TASKS: Task[] = []
+
+// Shared default so every provider in the app talks to the same database
+const defaultStorage = createIndexedDbStorage()
+
+interface AppDataProviderProps {
+  children: React.ReactNode
+  /** Where app data is persisted (default: IndexedDB) */
+  storage?: StorageAdapter
+}
+
+/**
+ * Holds all entity data in React state and keeps it in sync with storage.
+ *
+ * On mount the provider hydrates from the storage adapter (seeding it with
+ * the mock data on first run), then writes every subsequent change through.
+ * Children are not rendered until hydration completes so that hooks which
+ * derive initial state from `data` (e.g., useSidebarOrder) see stored data.
+ * The sidebar's saved filters (saved-filters-store) are kept in sync with
+ * storage the same way, as their own document.
+ *
+ * Every mutation is recorded in an in-memory undo history (see lib/history).
+ * History is session-only and is cleared when another tab changes the data.
+ */
+export function AppDataProvider({
+  children,
+  storage = defaultStorage,
+}: AppDataProviderProps) {
   const [data, setData] = useState<AppData>(() =>
     structuredClone(initialAppData)
   )
+  const [isHydrated, setIsHydrated] = useState(false)
+
+  // Last value received from storage - used to avoid writing it straight back
+  const storedDataRef = useRef<AppData | null>(null)
+  const storedFiltersRef = useRef<SavedFilter[] | null>(null)
+
+  // Latest data, updated synchronously so consecutive mutations in the same
+  // event (and the history snapshots they record) build on each other
+  const dataRef = useRef(data)
+
+  const historyRef = useRef<HistoryStack<AppData>>(createHistoryStack())
+  const [historyStatus, setHistoryStatus] = useState({
+    canUndo: false,
+    canRedo: false,
+  })
+
+  // Open history group - mutations inside it aren't recorded individually
+  const groupRef = useRef<{
+    label?: string
+    before: AppData
+    depth: number
+  } | null>(null)
+
+  const setHistory = useCallback((stack: HistoryStack<AppData>) => {
+    historyRef.current = stack
+    setHistoryStatus({
+      canUndo: stack.past.length > 0,
+      canRedo: stack.future.length > 0,
+    })
+  }, [])
 
-  // Mutations
-  const createTask = useCallback((options: CreateTaskOptions = {}): string => {
-    const now = new Date().toISOString()
-    const newId = generateTaskId()
-
-    const newTask: Task = {
-      id: newId,
-      title: options.title ?? '',
-      status: options.status ?? 'ready',
-      createdAt: now,
-      updatedAt: now,
-      projectId: options.projectId,
-      areaId: options.areaId,
-      scheduled: options.scheduled,
-      due: options.due,
-      deferUntil: options.deferUntil,
+  // Replace data wholesale (storage loads, undo/redo) without recording
+  const replaceData = useCallback((next: AppData) => {
+    dataRef.current = next
+    setData(next)
+  }, [])
+
+  // Hydrate from storage and subscribe to external changes (other tabs)
+  useEffect(() => {
+    let cancelled = false
+    const { setFilters } = useSavedFiltersStore.getState()
+
+    const loadData = storage
+      .load('app-data')
+      .then((stored) => {
+        if (cancelled) return
+        if (stored) {
+          storedDataRef.current = stored
+          replaceData(stored)
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load app data, using sample data', error)
+      })
+
+    const loadFilters = storage
+      .load('saved-filters')
+      .then((stored) => {
+        if (cancelled || !stored) return
+        storedFiltersRef.current = stored
+        setFilters(stored)
+      })
+      .catch((error) => {
+        console.error('Failed to load saved filters, using defaults', error)
+      })
+
+    Promise.all([loadData, loadFilters]).finally(() => {
+      if (!cancelled) setIsHydrated(true)
+    })
+
+    const unwatch = storage.watch('app-data', (stored) => {
+      storedDataRef.current = stored
+      replaceData(stored)
+      // Snapshots no longer reflect what's stored - undoing would clobber
+      // the other instance's changes
+      setHistory(createHistoryStack())
+    })
+    const unwatchFilters = storage.watch('saved-filters', (stored) => {
+      storedFiltersRef.current = stored
+      setFilters(stored)
+    })
+
+    return () => {
+      cancelled = true
+      unwatch()
+      unwatchFilters()
     }
+  }, [storage, replaceData, setHistory])
 
-    setData((prev) => {
-      let newTasks: Task[]
+  // Write-through: persist every change once hydrated
+  useEffect(() => {
+    if (!isHydrated || data === storedDataRef.current) return
+    storage.save('app-data', data).catch((error) => {
+      console.error('Failed to save app data', error)
+    })
+  }, [data, isHydrated, storage])
+
+  useEffect(() => {
+    if (!isHydrated) return
+    return useSavedFiltersStore.subscribe(({ filters }, previous) => {
+      if (filters === previous.filters) return
+      if (filters === storedFiltersRef.current) return
+      storage.save('saved-filters', filters).catch((error) => {
+        console.error('Failed to save saved filters', error)
+      })
+    })
+  }, [isHydrated, storage])
 
-      if (options.insertAfterId) {
-        // Insert after specific task
-        const insertIndex = prev.tasks.findIndex(
-          (t) => t.id === options.insertAfterId
-        )
-        if (insertIndex !== -1) {
-          newTasks = [
-            ...prev.tasks.slice(0, insertIndex + 1),
-            newTask,
-            ...prev.tasks.slice(insertIndex + 1),
-          ]
+  // History
+
+  /**
+   * Apply a mutation and record it as an undo step.
+   * Every mutation below goes through here. No-op recipes (returning
+   * `prev`) are not recorded.
+   */
+  const applyChange = useCallback(
+    (
+      label: string,
+      recipe: (prev: AppData) => AppData,
+      options: { coalesceKey?: string } = {}
+    ) => {
+      const before = dataRef.current
+      const after = recipe(before)
+      if (after === before) return
+
+      replaceData(after)
+
+      const group = groupRef.current
+      if (group) {
+        group.label ??= label
+        return
+      }
+
+      setHistory(
+        pushHistoryEntry(historyRef.current, {
+          label,
+          before,
+          after,
+          coalesceKey: options.coalesceKey,
+          timestamp: Date.now(),
+        })
+      )
+    },
+    [replaceData, setHistory]
+  )
+
+  const beginHistoryGroup = useCallback((label?: string) => {
+    if (groupRef.current) {
+      groupRef.current.depth++
+      return
+    }
+    groupRef.current = { label, before: dataRef.current, depth: 1 }
+  }, [])
+
+  const endHistoryGroup = useCallback(() => {
+    const group = groupRef.current
+    if (!group) return
+
+    group.depth--
+    if (group.depth > 0) return
+    groupRef.current = null
+
+    const after = dataRef.current
+    if (after === group.before) return
+
+    setHistory(
+      pushHistoryEntry(historyRef.current, {
+        label: group.label ?? 'Change',
+        before: group.before,
+        after,
+        timestamp: Date.now(),
+      })
+    )
+  }, [setHistory])
+
+  const groupChanges = useCallback(
+    (fn: () => void, label?: string) => {
+      beginHistoryGroup(label)
+      try {
+        fn()
+      } finally {
+        endHistoryGroup()
+      }
+    },
+    [beginHistoryGroup, endHistoryGroup]
+  )
+
+  const undo = useCallback(() => {
+    if (groupRef.current) return
+    const result = undoHistory(historyRef.current)
+    if (!result) return
+
+    replaceData(result.entry.before)
+    setHistory(result.stack)
+    showToast(`Undid: ${result.entry.label}`)
+  }, [replaceData, setHistory])
+
+  const redo = useCallback(() => {
+    if (groupRef.current) return
+    const result = redoHistory(historyRef.current)
+    if (!result) return
+
+    replaceData(result.entry.after)
+    setHistory(result.stack)
+    showToast(`Redid: ${result.entry.label}`)
+  }, [replaceData, setHistory])
+
+  // Mutations
+  const createTask = useCallback(
+    (createOptions: CreateTaskOptions = {}): string => {
+      const options = withQuickEntry(createOptions)
+      const now = new Date().toISOString()
+      const newId = generateTaskId()
+      const tags = normalizeTags(options.tags ?? [])
+
+      const newTask: Task = {
+        id: newId,
+        title: options.title ?? '',
+        status: options.status ?? 'ready',
+        createdAt: now,
+        updatedAt: now,
+        projectId: options.projectId,
+        areaId: options.areaId,
+        scheduled: options.scheduled,
+        due: options.due,
+        deferUntil: options.deferUntil,
+        tags: tags.length > 0 ? tags : undefined,
+        notes: options.notes || undefined,
+      }
+
+      applyChange('Create task', (prev) => {
+        let newTasks: Task[]
+
+        if (options.insertAfterId) {
+          // Insert after specific task
+          const insertIndex = prev.tasks.findIndex(
+            (t) => t.id === options.insertAfterId
+          )
+          if (insertIndex !== -1) {
+            newTasks = [
+              ...prev.tasks.slice(0, insertIndex + 1),
+              newTask,
+              ...prev.tasks.slice(insertIndex + 1),
+            ]
+          } else {
+            newTasks = [...prev.tasks, newTask]
+          }
         } else {
+          // Append to end
           newTasks = [...prev.tasks, newTask]
         }
-      } else {
-        // Append to end
-        newTasks = [...prev.tasks, newTask]
+
+        return { ...prev, tasks: newTasks }
+      })
+
+      return newId
+    },
+    [applyChange]
+  )
+
+  const duplicateTask = useCallback(
+    (taskId: string): string | undefined => {
+      const original = dataRef.current.tasks.find((t) => t.id === taskId)
+      if (!original) return undefined
+
+      const now = new Date().toISOString()
+      const newId = generateTaskId()
+      // The time spent stays with the original
+      const copy: Task = {
+        ...structuredClone(original),
+        id: newId,
+        createdAt: now,
+        updatedAt: now,
+        timeEntries: undefined,
       }
 
-      return { ...prev, tasks: newTasks }
-    })
+      // Insert directly after the original
+      applyChange('Duplicate task', (prev) => {
+        const index = prev.tasks.findIndex((t) => t.id === taskId)
+        return {
+          ...prev,
+          tasks: [
+            ...prev.tasks.slice(0, index + 1),
+            copy,
+            ...prev.tasks.slice(index + 1),
+          ],
+        }
+      })
 
-    return newId
-  }, [])
+      return newId
+    },
+    [applyChange]
+  )
+
+  const deleteTask = useCallback(
+    (taskId: string) => {
+      applyChange('Delete task', (prev) => {
+        if (!prev.tasks.some((t) => t.id === taskId)) return prev
+        const now = new Date().toISOString()
+        const deletedIds = new Set([taskId])
+        return {
+          ...prev,
+          tasks: withoutDeletedTasks(prev.tasks, deletedIds, now),
+          headings: withoutOrderIds(prev.headings, deletedIds),
+        }
+      })
+    },
+    [applyChange]
+  )
+
+  const createProject = useCallback(
+    (options: CreateProjectOptions = {}): string => {
+      const newId = generateProjectId()
+      const newProject: Project = {
+        id: newId,
+        title: options.title ?? '',
+        areaId: options.areaId,
+        status: options.status ?? 'planning',
+      }
+
+      applyChange('Create project', (prev) => ({
+        ...prev,
+        projects: [...prev.projects, newProject],
+      }))
+
+      return newId
+    },
+    [applyChange]
+  )
+
+  const createArea = useCallback(
+    (options: CreateAreaOptions = {}): string => {
+      const newId = generateAreaId()
+      const newArea: Area = {
+        id: newId,
+        title: options.title ?? '',
+        status: 'active',
+        type: options.type,
+      }
+
+      applyChange('Create area', (prev) => ({
+        ...prev,
+        areas: [...prev.areas, newArea],
+      }))
+
+      return newId
+    },
+    [applyChange]
+  )
+
+  const updateProject = useCallback(
+    (projectId: string, changes: ProjectChanges) => {
+      applyChange(
+        'title' in changes ? 'Rename project' : 'Edit project',
+        (prev) => ({
+          ...prev,
+          projects: prev.projects.map((p) =>
+            p.id === projectId ? applyEntityChanges(p, changes) : p
+          ),
+        }),
+        { coalesceKey: getEditCoalesceKey('project', projectId, changes) }
+      )
+    },
+    [applyChange]
+  )
+
+  const updateArea = useCallback(
+    (areaId: string, changes: AreaChanges) => {
+      applyChange(
+        'title' in changes ? 'Rename area' : 'Edit area',
+        (prev) => ({
+          ...prev,
+          areas: prev.areas.map((a) =>
+            a.id === areaId ? applyEntityChanges(a, changes) : a
+          ),
+        }),
+        { coalesceKey: getEditCoalesceKey('area', areaId, changes) }
+      )
+    },
+    [applyChange]
+  )
+
+  const deleteProject = useCallback(
+    (projectId: string, options: DeleteProjectOptions = {}) => {
+      const tasksAction = options.tasks ?? 'move-to-area'
+
+      applyChange('Delete project', (prev) => {
+        const project = prev.projects.find((p) => p.id === projectId)
+        if (!project) return prev
+
+        const now = new Date().toISOString()
+        const deletedIds = new Set(
+          tasksAction === 'delete'
+            ? prev.tasks
+                .filter((t) => t.projectId === projectId)
+                .map((t) => t.id)
+            : []
+        )
+        const tasks =
+          tasksAction === 'delete'
+            ? withoutDeletedTasks(prev.tasks, deletedIds, now)
+            : prev.tasks.map((t) =>
+                t.projectId === projectId
+                  ? {
+                      ...t,
+                      projectId: undefined,
+                      // Keep an explicit task area, otherwise inherit the project's
+                      areaId: t.areaId ?? project.areaId ?? undefined,
+                      updatedAt: now,
+                    }
+                  : t
+              )
+
+        // Drop dangling blocked-by references to the deleted project
+        const projects = prev.projects
+          .filter((p) => p.id !== projectId)
+          .map((p) =>
+            p.blockedBy?.includes(projectId)
+              ? {
+                  ...p,
+                  blockedBy: p.blockedBy.filter((id) => id !== projectId),
+                }
+              : p
+          )
+
+        // The project's headings go with it, and deleted tasks leave the
+        // other lists' orders
+        const headings = { ...withoutOrderIds(prev.headings, deletedIds) }
+        delete headings[getProjectHeadingListKey(projectId)]
+
+        return { ...prev, projects, tasks, headings }
+      })
+    },
+    [applyChange]
+  )
+
+  const archiveArea = useCallback(
+    (areaId: string) => {
+      applyChange('Archive area', (prev) => ({
+        ...prev,
+        areas: prev.areas.map((a) =>
+          a.id === areaId ? { ...a, status: 'archived' as const } : a
+        ),
+      }))
+    },
+    [applyChange]
+  )
+
+  const unarchiveArea = useCallback(
+    (areaId: string) => {
+      applyChange('Unarchive area', (prev) => ({
+        ...prev,
+        areas: prev.areas.map((a) =>
+          a.id === areaId ? { ...a, status: 'active' as const } : a
+        ),
+      }))
+    },
+    [applyChange]
+  )
 
   const updateProjectArea = useCallback(
     (projectId: string, newAreaId: string | null) => {
-      setData((prev) => ({
+      applyChange('Move project', (prev) => ({
         ...prev,
         projects: prev.projects.map((p) =>
           p.id === projectId ? { ...p, areaId: newAreaId ?? undefined } : p
         ),
       }))
     },
-    []
+    [applyChange]
   )
 
   const updateProjectStatus = useCallback(
     (projectId: string, newStatus: Project['status']) => {
-      setData((prev) => ({
+      applyChange('Change project status', (prev) => ({
         ...prev,
         projects: prev.projects.map((p) =>
           p.id === projectId ? { ...p, status: newStatus } : p
         ),
       }))
     },
-    []
+    [applyChange]
   )
 
-  const updateTaskTitle = useCallback((taskId: string, newTitle: string) => {
-    setData((prev) => ({
-      ...prev,
-      tasks: prev.tasks.map((t) =>
-        t.id === taskId
-          ? { ...t, title: newTitle, updatedAt: new Date().toISOString() }
-          : t
-      ),
-    }))
-  }, [])
+  const updateProjectBlockedBy = useCallback(
+    (projectId: string, blockedBy: string[]) => {
+      const unique = [...new Set(blockedBy)]
+      applyChange('Change blockers', (prev) => {
+        assertNoBlockingCycle(prev.projects, projectId, unique)
+        return {
+          ...prev,
+          projects: prev.projects.map((p) =>
+            p.id === projectId
+              ? { ...p, blockedBy: unique.length > 0 ? unique : undefined }
+              : p
+          ),
+        }
+      })
+    },
+    [applyChange]
+  )
+
+  const markProjectReviewed = useCallback(
+    (projectId: string) => {
+      const lastReviewedAt = new Date().toISOString()
+      applyChange('Mark project reviewed', (prev) => ({
+        ...prev,
+        projects: prev.projects.map((p) =>
+          p.id === projectId ? { ...p, lastReviewedAt } : p
+        ),
+      }))
+    },
+    [applyChange]
+  )
+
+  const markAreaReviewed = useCallback(
+    (areaId: string) => {
+      const lastReviewedAt = new Date().toISOString()
+      applyChange('Mark area reviewed', (prev) => ({
+        ...prev,
+        areas: prev.areas.map((a) =>
+          a.id === areaId ? { ...a, lastReviewedAt } : a
+        ),
+      }))
+    },
+    [applyChange]
+  )
+
+  const updateTaskTitle = useCallback(
+    (taskId: string, newTitle: string) => {
+      applyChange(
+        'Rename task',
+        (prev) => ({
+          ...prev,
+          tasks: prev.tasks.map((t) =>
+            t.id === taskId
+              ? { ...t, title: newTitle, updatedAt: new Date().toISOString() }
+              : t
+          ),
+        }),
+        { coalesceKey: `title:${taskId}` }
+      )
+    },
+    [applyChange]
+  )
 
   const updateTaskScheduled = useCallback(
     (taskId: string, date: string | undefined) => {
-      setData((prev) => ({
+      applyChange('Change scheduled date', (prev) => ({
         ...prev,
         tasks: prev.tasks.map((t) =>
           t.id === taskId
-            ? { ...t, scheduled: date, updatedAt: new Date().toISOString() }
+            ? {
+                ...t,
+                scheduled: date,
+                startTime: date ? t.startTime : undefined,
+                updatedAt: new Date().toISOString(),
+              }
             : t
         ),
       }))
     },
-    []
+    [applyChange]
+  )
+
+  const updateTaskStartTime = useCallback(
+    (taskId: string, startTime: string | undefined) => {
+      applyChange('Change start time', (prev) => ({
+        ...prev,
+        tasks: prev.tasks.map((t) =>
+          t.id === taskId
+            ? {
+                ...t,
+                startTime: startTime || undefined,
+                updatedAt: new Date().toISOString(),
+              }
+            : t
+        ),
+      }))
+    },
+    [applyChange]
+  )
+
+  const updateTaskDuration = useCallback(
+    (taskId: string, duration: number | undefined) => {
+      applyChange('Change duration', (prev) => ({
+        ...prev,
+        tasks: prev.tasks.map((t) =>
+          t.id === taskId
+            ? {
+                ...t,
+                duration: duration && duration > 0 ? duration : undefined,
+                updatedAt: new Date().toISOString(),
+              }
+            : t
+        ),
+      }))
+    },
+    [applyChange]
+  )
+
+  const updateTaskEstimate = useCallback(
+    (taskId: string, estimate: number | undefined) => {
+      applyChange('Change estimate', (prev) => ({
+        ...prev,
+        tasks: prev.tasks.map((t) =>
+          t.id === taskId
+            ? {
+                ...t,
+                estimate: estimate && estimate > 0 ? estimate : undefined,
+                updatedAt: new Date().toISOString(),
+              }
+            : t
+        ),
+      }))
+    },
+    [applyChange]
   )
 
   const updateTaskDue = useCallback(
     (taskId: string, date: string | undefined) => {
-      setData((prev) => ({
+      applyChange('Change due date', (prev) => ({
         ...prev,
         tasks: prev.tasks.map((t) =>
           t.id === taskId
@@ -195,12 +1079,12 @@ export function AppDataProvider({ children }: { children: React.ReactNode }) {
         ),
       }))
     },
-    []
+    [applyChange]
   )
 
   const updateTaskDeferUntil = useCallback(
     (taskId: string, date: string | undefined) => {
-      setData((prev) => ({
+      applyChange('Change defer date', (prev) => ({
         ...prev,
         tasks: prev.tasks.map((t) =>
           t.id === taskId
@@ -209,110 +1093,396 @@ export function AppDataProvider({ children }: { children: React.ReactNode }) {
         ),
       }))
     },
-    []
+    [applyChange]
   )
 
   const updateTaskNotes = useCallback(
     (taskId: string, notes: string | undefined) => {
-      setData((prev) => ({
+      applyChange(
+        'Edit notes',
+        (prev) => ({
+          ...prev,
+          tasks: prev.tasks.map((t) =>
+            t.id === taskId
+              ? {
+                  ...t,
+                  notes: notes || undefined,
+                  updatedAt: new Date().toISOString(),
+                }
+              : t
+          ),
+        }),
+        { coalesceKey: `notes:${taskId}` }
+      )
+    },
+    [applyChange]
+  )
+
+  const updateTaskProject = useCallback(
+    (taskId: string, projectId: string | undefined) => {
+      applyChange('Change task project', (prev) => ({
         ...prev,
         tasks: prev.tasks.map((t) =>
           t.id === taskId
             ? {
                 ...t,
-                notes: notes || undefined,
+                projectId: projectId || undefined,
                 updatedAt: new Date().toISOString(),
               }
             : t
         ),
       }))
     },
-    []
+    [applyChange]
   )
 
-  const updateTaskProject = useCallback(
-    (taskId: string, projectId: string | undefined) => {
-      setData((prev) => ({
+  const updateTaskArea = useCallback(
+    (taskId: string, areaId: string | undefined) => {
+      applyChange('Change task area', (prev) => ({
         ...prev,
         tasks: prev.tasks.map((t) =>
           t.id === taskId
             ? {
                 ...t,
-                projectId: projectId || undefined,
+                areaId: areaId || undefined,
                 updatedAt: new Date().toISOString(),
               }
             : t
         ),
       }))
     },
-    []
+    [applyChange]
   )
 
-  const updateTaskArea = useCallback(
-    (taskId: string, areaId: string | undefined) => {
-      setData((prev) => ({
+  const updateTaskRecurrence = useCallback(
+    (taskId: string, recurrence: Recurrence | undefined) => {
+      applyChange('Change repeat', (prev) => ({
+        ...prev,
+        tasks: prev.tasks.map((t) =>
+          t.id === taskId
+            ? { ...t, recurrence, updatedAt: new Date().toISOString() }
+            : t
+        ),
+      }))
+    },
+    [applyChange]
+  )
+
+  const updateTaskTags = useCallback(
+    (taskId: string, tags: string[]) => {
+      const normalized = normalizeTags(tags)
+      applyChange('Change tags', (prev) => ({
         ...prev,
         tasks: prev.tasks.map((t) =>
           t.id === taskId
             ? {
                 ...t,
-                areaId: areaId || undefined,
+                tags: normalized.length > 0 ? normalized : undefined,
                 updatedAt: new Date().toISOString(),
               }
             : t
         ),
       }))
     },
-    []
+    [applyChange]
   )
 
-  const updateTaskStatus = useCallback(
-    (taskId: string, newStatus: Task['status']) => {
-      setData((prev) => ({
+  const updateTaskBlockedBy = useCallback(
+    (taskId: string, blockedBy: string[]) => {
+      const unique = [...new Set(blockedBy)]
+      applyChange('Change blockers', (prev) => {
+        assertNoBlockingCycle(prev.tasks, taskId, unique)
+        return {
+          ...prev,
+          tasks: prev.tasks.map((t) =>
+            t.id === taskId
+              ? {
+                  ...t,
+                  blockedBy: unique.length > 0 ? unique : undefined,
+                  updatedAt: new Date().toISOString(),
+                }
+              : t
+          ),
+        }
+      })
+    },
+    [applyChange]
+  )
+
+  const updateTaskChecklist = useCallback(
+    (taskId: string, checklist: ChecklistItem[]) => {
+      applyChange('Edit checklist', (prev) => ({
         ...prev,
-        tasks: prev.tasks.map((t) => {
-          if (t.id !== taskId) return t
-          const now = new Date().toISOString()
-          const completedAt =
-            newStatus === 'done' || newStatus === 'dropped' ? now : undefined
-          return { ...t, status: newStatus, updatedAt: now, completedAt }
-        }),
+        tasks: prev.tasks.map((t) =>
+          t.id === taskId
+            ? {
+                ...t,
+                checklist: checklist.length > 0 ? checklist : undefined,
+                updatedAt: new Date().toISOString(),
+              }
+            : t
+        ),
       }))
     },
-    []
+    [applyChange]
+  )
+
+  const convertChecklistItemToTask = useCallback(
+    (taskId: string, itemId: string): string | undefined => {
+      const parent = dataRef.current.tasks.find((t) => t.id === taskId)
+      const item = parent?.checklist?.find((i) => i.id === itemId)
+      if (!parent || !item) return undefined
+
+      const now = new Date().toISOString()
+      const newId = generateTaskId()
+      const newTask: Task = {
+        id: newId,
+        title: item.title,
+        status: item.done ? 'done' : 'ready',
+        createdAt: now,
+        updatedAt: now,
+        completedAt: item.done ? now : undefined,
+        projectId: parent.projectId,
+        areaId: parent.areaId,
+      }
+
+      applyChange('Convert to task', (prev) => {
+        const index = prev.tasks.findIndex((t) => t.id === taskId)
+        const checklist = prev.tasks[index].checklist?.filter(
+          (i) => i.id !== itemId
+        )
+        const updated: Task = {
+          ...prev.tasks[index],
+          checklist: checklist?.length ? checklist : undefined,
+          updatedAt: now,
+        }
+        return {
+          ...prev,
+          tasks: [
+            ...prev.tasks.slice(0, index),
+            updated,
+            newTask,
+            ...prev.tasks.slice(index + 1),
+          ],
+        }
+      })
+
+      return newId
+    },
+    [applyChange]
+  )
+
+  const toggleTaskTimer = useCallback(
+    (taskId: string) => {
+      const task = dataRef.current.tasks.find((t) => t.id === taskId)
+      if (!task) return
+      const isRunning = getRunningEntry(task) !== undefined
+
+      applyChange(isRunning ? 'Stop timer' : 'Start timer', (prev) => {
+        const now = new Date().toISOString()
+        return {
+          ...prev,
+          tasks: prev.tasks.map((t) => {
+            // Only one timer runs at a time
+            const timeEntries = stopTimeEntries(t.timeEntries, now)
+            if (t.id === taskId && !isRunning) {
+              return {
+                ...t,
+                timeEntries: [...(timeEntries ?? []), createTimeEntry(now)],
+                updatedAt: now,
+              }
+            }
+            return timeEntries === t.timeEntries
+              ? t
+              : { ...t, timeEntries, updatedAt: now }
+          }),
+        }
+      })
+    },
+    [applyChange]
+  )
+
+  const stopTimer = useCallback(() => {
+    applyChange('Stop timer', (prev) => {
+      const now = new Date().toISOString()
+      let stopped = false
+      const tasks = prev.tasks.map((t) => {
+        const timeEntries = stopTimeEntries(t.timeEntries, now)
+        if (timeEntries === t.timeEntries) return t
+        stopped = true
+        return { ...t, timeEntries, updatedAt: now }
+      })
+      return stopped ? { ...prev, tasks } : prev
+    })
+  }, [applyChange])
+
+  const updateTaskTimeEntries = useCallback(
+    (taskId: string, timeEntries: TimeEntry[]) => {
+      applyChange('Edit time entries', (prev) => ({
+        ...prev,
+        tasks: prev.tasks.map((t) =>
+          t.id === taskId
+            ? {
+                ...t,
+                timeEntries: timeEntries.length > 0 ? timeEntries : undefined,
+                updatedAt: new Date().toISOString(),
+              }
+            : t
+        ),
+      }))
+    },
+    [applyChange]
+  )
+
+  const updateProjectTags = useCallback(
+    (projectId: string, tags: string[]) => {
+      const normalized = normalizeTags(tags)
+      applyChange('Change tags', (prev) => ({
+        ...prev,
+        projects: prev.projects.map((p) =>
+          p.id === projectId
+            ? { ...p, tags: normalized.length > 0 ? normalized : undefined }
+            : p
+        ),
+      }))
+    },
+    [applyChange]
+  )
+
+  const renameTag = useCallback(
+    (tag: string, newTag: string) => {
+      const [renamed] = normalizeTags([newTag])
+      if (!renamed || renamed === tag) return
+
+      // Swap the tag in place; drop it instead if `newTag` is already there
+      const retag = <T extends { tags?: string[] }>(entity: T): T => {
+        if (!entity.tags?.includes(tag)) return entity
+        return {
+          ...entity,
+          tags: normalizeTags(
+            entity.tags.map((t) => (t === tag ? renamed : t))
+          ),
+        }
+      }
+
+      applyChange('Rename tag', (prev) => {
+        const now = new Date().toISOString()
+        return {
+          ...prev,
+          tasks: prev.tasks.map((t) => {
+            const next = retag(t)
+            return next === t ? t : { ...next, updatedAt: now }
+          }),
+          projects: prev.projects.map(retag),
+        }
+      })
+    },
+    [applyChange]
+  )
+
+  const deleteTag = useCallback(
+    (tag: string) => {
+      const untag = <T extends { tags?: string[] }>(entity: T): T => {
+        if (!entity.tags?.includes(tag)) return entity
+        const tags = entity.tags.filter((t) => t !== tag)
+        return { ...entity, tags: tags.length > 0 ? tags : undefined }
+      }
+
+      applyChange('Delete tag', (prev) => {
+        const now = new Date().toISOString()
+        return {
+          ...prev,
+          tasks: prev.tasks.map((t) => {
+            const next = untag(t)
+            return next === t ? t : { ...next, updatedAt: now }
+          }),
+          projects: prev.projects.map(untag),
+        }
+      })
+    },
+    [applyChange]
   )
 
-  const toggleTaskStatus = useCallback((taskId: string) => {
-    setData((prev) => ({
-      ...prev,
-      tasks: prev.tasks.map((t) => {
-        if (t.id !== taskId) return t
+  const updateTaskStatus = useCallback(
+    (taskId: string, newStatus: Task['status']) => {
+      applyChange('Change task status', (prev) => {
         const now = new Date().toISOString()
-        // Toggle between ready and done
-        if (t.status === 'done') {
+        const tasks = prev.tasks.map((t) => {
+          if (t.id !== taskId) return t
+          const isClosed = newStatus === 'done' || newStatus === 'dropped'
           return {
             ...t,
-            status: 'ready' as const,
+            status: newStatus,
             updatedAt: now,
-            completedAt: undefined,
+            completedAt: isClosed ? now : undefined,
+            timeEntries: isClosed
+              ? stopTimeEntries(t.timeEntries, now)
+              : t.timeEntries,
           }
-        } else {
-          return {
-            ...t,
-            status: 'done' as const,
-            updatedAt: now,
-            completedAt: now,
+        })
+        return {
+          ...prev,
+          tasks: withUnblockedTasks(
+            prev.tasks,
+            withNextRecurrence(prev.tasks, tasks, taskId, now),
+            now
+          ),
+        }
+      })
+    },
+    [applyChange]
+  )
+
+  const toggleTaskStatus = useCallback(
+    (taskId: string) => {
+      const task = dataRef.current.tasks.find((t) => t.id === taskId)
+      const label = task?.status === 'done' ? 'Reopen task' : 'Complete task'
+      applyChange(label, (prev) => {
+        const now = new Date().toISOString()
+        const tasks = prev.tasks.map((t) => {
+          if (t.id !== taskId) return t
+          // Toggle between ready and done
+          if (t.status === 'done') {
+            return {
+              ...t,
+              status: 'ready' as const,
+              updatedAt: now,
+              completedAt: undefined,
+            }
+          } else {
+            return {
+              ...t,
+              status: 'done' as const,
+              updatedAt: now,
+              completedAt: now,
+              timeEntries: stopTimeEntries(t.timeEntries, now),
+            }
           }
+        })
+        return {
+          ...prev,
+          tasks: withUnblockedTasks(
+            prev.tasks,
+            withNextRecurrence(prev.tasks, tasks, taskId, now),
+            now
+          ),
         }
-      }),
-    }))
-  }, [])
+      })
+    },
+    [applyChange]
+  )
 
   const reorderProjectTasks = useCallback(
     (projectId: string, reorderedTaskIds: string[]) => {
-      setData((prev) => {
+      applyChange('Reorder tasks', (prev) => {
+        // Only the listed tasks move, so a filtered list (e.g., by tag)
+        // leaves the project's hidden tasks where they are
+        const reorderSet = new Set(reorderedTaskIds)
+        const isReordered = (t: Task) =>
+          t.projectId === projectId && reorderSet.has(t.id)
+
         // Get tasks for this project
-        const projectTasks = prev.tasks.filter((t) => t.projectId === projectId)
+        const projectTasks = prev.tasks.filter(isReordered)
 
         // Reorder the project tasks according to the new order
         const reorderedProjectTasks = reorderedTaskIds
@@ -326,7 +1496,7 @@ export function AppDataProvider({ children }: { children: React.ReactNode }) {
         let projectTaskIndex = 0
 
         for (const task of prev.tasks) {
-          if (task.projectId === projectId) {
+          if (isReordered(task)) {
             if (projectTaskIndex < reorderedProjectTasks.length) {
               result.push(reorderedProjectTasks[projectTaskIndex])
               projectTaskIndex++
@@ -339,16 +1509,19 @@ export function AppDataProvider({ children }: { children: React.ReactNode }) {
         return { ...prev, tasks: result }
       })
     },
-    []
+    [applyChange]
   )
 
   const reorderAreaLooseTasks = useCallback(
     (areaId: string, reorderedTaskIds: string[]) => {
-      setData((prev) => {
+      applyChange('Reorder tasks', (prev) => {
+        // Only the listed tasks move (see reorderProjectTasks)
+        const reorderSet = new Set(reorderedTaskIds)
+        const isReordered = (t: Task) =>
+          t.areaId === areaId && !t.projectId && reorderSet.has(t.id)
+
         // Get loose tasks for this area (tasks with areaId but no projectId)
-        const looseTasks = prev.tasks.filter(
-          (t) => t.areaId === areaId && !t.projectId
-        )
+        const looseTasks = prev.tasks.filter(isReordered)
 
         // Reorder the loose tasks according to the new order
         const reorderedLooseTasks = reorderedTaskIds
@@ -360,7 +1533,7 @@ export function AppDataProvider({ children }: { children: React.ReactNode }) {
         let looseTaskIndex = 0
 
         for (const task of prev.tasks) {
-          if (task.areaId === areaId && !task.projectId) {
+          if (isReordered(task)) {
             if (looseTaskIndex < reorderedLooseTasks.length) {
               result.push(reorderedLooseTasks[looseTaskIndex])
               looseTaskIndex++
@@ -373,38 +1546,18 @@ export function AppDataProvider({ children }: { children: React.ReactNode }) {
         return { ...prev, tasks: result }
       })
     },
-    []
+    [applyChange]
   )
 
-  const reorderTasksByIds = useCallback((reorderedTaskIds: string[]) => {
-    setData((prev) => {
-      // Create a set of IDs being reordered for quick lookup
-      const reorderSet = new Set(reorderedTaskIds)
-
-      // Get the tasks being reordered in their new order
-      const reorderedTasks = reorderedTaskIds
-        .map((id) => prev.tasks.find((t) => t.id === id))
-        .filter((t): t is Task => t !== undefined)
-
-      // Rebuild the array: for each task in the original order,
-      // if it's being reordered, take the next task from reorderedTasks instead
-      const result: Task[] = []
-      let reorderIndex = 0
-
-      for (const task of prev.tasks) {
-        if (reorderSet.has(task.id)) {
-          if (reorderIndex < reorderedTasks.length) {
-            result.push(reorderedTasks[reorderIndex])
-            reorderIndex++
-          }
-        } else {
-          result.push(task)
-        }
-      }
-
-      return { ...prev, tasks: result }
-    })
-  }, [])
+  const reorderTasksByIds = useCallback(
+    (reorderedTaskIds: string[]) => {
+      applyChange('Reorder tasks', (prev) => ({
+        ...prev,
+        tasks: withTasksReordered(prev.tasks, reorderedTaskIds),
+      }))
+    },
+    [applyChange]
+  )
 
   const moveTaskToProject = useCallback(
     (
@@ -412,7 +1565,7 @@ export function AppDataProvider({ children }: { children: React.ReactNode }) {
       newProjectId: string,
       insertBeforeTaskId?: string | null
     ) => {
-      setData((prev) => {
+      applyChange('Move task to project', (prev) => {
         const task = prev.tasks.find((t) => t.id === taskId)
         if (!task || task.projectId === newProjectId) return prev
 
@@ -460,12 +1613,12 @@ export function AppDataProvider({ children }: { children: React.ReactNode }) {
         return { ...prev, tasks: newTasks }
       })
     },
-    []
+    [applyChange]
   )
 
   const moveTaskToLooseTasks = useCallback(
     (taskId: string, areaId: string, insertBeforeTaskId?: string | null) => {
-      setData((prev) => {
+      applyChange('Move task to area', (prev) => {
         const task = prev.tasks.find((t) => t.id === taskId)
         if (!task) return prev
 
@@ -518,7 +1671,111 @@ export function AppDataProvider({ children }: { children: React.ReactNode }) {
         return { ...prev, tasks: newTasks }
       })
     },
-    []
+    [applyChange]
+  )
+
+  const createHeading = useCallback(
+    (listKey: string, order: string[], afterItemId?: string | null) => {
+      const heading: Heading = {
+        id: crypto.randomUUID(),
+        title: '',
+        color: 'default',
+      }
+
+      applyChange('Add heading', (prev) => ({
+        ...prev,
+        headings: {
+          ...prev.headings,
+          [listKey]: {
+            headings: [...(prev.headings?.[listKey]?.headings ?? []), heading],
+            order: insertIntoOrder(order, toHeadingId(heading.id), afterItemId),
+          },
+        },
+      }))
+
+      return heading.id
+    },
+    [applyChange]
+  )
+
+  const updateHeading = useCallback(
+    (headingId: string, changes: Partial<Pick<Heading, 'title' | 'color'>>) => {
+      applyChange(
+        'title' in changes ? 'Rename heading' : 'Edit heading',
+        (prev) => {
+          const listKey = findHeadingListKey(prev.headings, headingId)
+          if (!listKey) return prev
+          const list = prev.headings![listKey]
+
+          return {
+            ...prev,
+            headings: {
+              ...prev.headings,
+              [listKey]: {
+                ...list,
+                headings: list.headings.map((h) =>
+                  h.id === headingId ? { ...h, ...changes } : h
+                ),
+              },
+            },
+          }
+        },
+        {
+          coalesceKey:
+            'title' in changes ? `heading-title:${headingId}` : undefined,
+        }
+      )
+    },
+    [applyChange]
+  )
+
+  const deleteHeading = useCallback(
+    (headingId: string) => {
+      applyChange('Delete heading', (prev) => {
+        const listKey = findHeadingListKey(prev.headings, headingId)
+        if (!listKey) return prev
+        const list = prev.headings![listKey]
+
+        return {
+          ...prev,
+          headings: {
+            ...prev.headings,
+            [listKey]: {
+              headings: list.headings.filter((h) => h.id !== headingId),
+              order: list.order.filter((id) => id !== toHeadingId(headingId)),
+            },
+          },
+        }
+      })
+    },
+    [applyChange]
+  )
+
+  const setHeadingListOrder = useCallback(
+    (listKey: string, order: string[]) => {
+      applyChange('Reorder tasks', (prev) => ({
+        ...prev,
+        tasks: withTasksReordered(
+          prev.tasks,
+          order.filter((id) => !isHeadingId(id))
+        ),
+        headings: {
+          ...prev.headings,
+          [listKey]: {
+            headings: prev.headings?.[listKey]?.headings ?? [],
+            order,
+          },
+        },
+      }))
+    },
+    [applyChange]
+  )
+
+  const importVault = useCallback(
+    (vaultData: AppData) => {
+      applyChange('Import vault', () => vaultData)
+    },
+    [applyChange]
   )
 
   // Lookups
@@ -563,15 +1820,24 @@ export function AppDataProvider({ children }: { children: React.ReactNode }) {
 
   // Pre-computed project stats - O(T) once when tasks change, O(1) per lookup
   const projectStats = useMemo(() => {
-    const stats = new Map<string, { total: number; completed: number }>()
+    const stats = new Map<
+      string,
+      { total: number; completed: number; remainingEstimate: number }
+    >()
 
     for (const task of data.tasks) {
       if (!task.projectId) continue
 
-      const existing = stats.get(task.projectId) ?? { total: 0, completed: 0 }
+      const existing = stats.get(task.projectId) ?? {
+        total: 0,
+        completed: 0,
+        remainingEstimate: 0,
+      }
       existing.total++
       if (task.status === 'done' || task.status === 'dropped') {
         existing.completed++
+      } else {
+        existing.remainingEstimate += task.estimate ?? 0
       }
       stats.set(task.projectId, existing)
     }
@@ -589,6 +1855,49 @@ export function AppDataProvider({ children }: { children: React.ReactNode }) {
     [projectStats]
   )
 
+  // Pre-computed blocked state - follows blockers' statuses
+  const blockedProjectIds = useMemo(
+    () =>
+      new Set(
+        data.projects
+          .filter((p) => isBlockedByDependencies(p, data.projects))
+          .map((p) => p.id)
+      ),
+    [data.projects]
+  )
+
+  const isProjectBlocked = useCallback(
+    (projectId: string): boolean => blockedProjectIds.has(projectId),
+    [blockedProjectIds]
+  )
+
+  // Pre-computed unfinished blockers - only tasks that have any
+  const taskWaitingOn = useMemo(() => {
+    const waitingOn = new Map<string, Task[]>()
+    for (const task of data.tasks) {
+      if (!task.blockedBy?.length) continue
+      const blockers = getUnfinishedTaskBlockers(task, data.tasks)
+      if (blockers.length > 0) waitingOn.set(task.id, blockers)
+    }
+    return waitingOn
+  }, [data.tasks])
+
+  const getTaskWaitingOn = useCallback(
+    (taskId: string): Task[] => taskWaitingOn.get(taskId) ?? NO_TASKS,
+    [taskWaitingOn]
+  )
+
+  // Found once per change to tasks, read on every render of the header
+  const runningTimer = useMemo(() => {
+    for (const task of data.tasks) {
+      const entry = getRunningEntry(task)
+      if (entry) return { task, entry }
+    }
+    return undefined
+  }, [data.tasks])
+
+  const getRunningTimer = useCallback(() => runningTimer, [runningTimer])
+
   const getTaskCounts = useCallback(
     (projectId: string): { taskCount: number; completedTaskCount: number } => {
       const stats = projectStats.get(projectId)
@@ -600,6 +1909,12 @@ export function AppDataProvider({ children }: { children: React.ReactNode }) {
     [projectStats]
   )
 
+  const getProjectRemainingEstimate = useCallback(
+    (projectId: string): number =>
+      projectStats.get(projectId)?.remainingEstimate ?? 0,
+    [projectStats]
+  )
+
   const getActiveProjects = useCallback((): Project[] => {
     return data.projects.filter(
       (p) => p.status !== 'done' && p.status !== 'paused'
@@ -636,25 +1951,84 @@ export function AppDataProvider({ children }: { children: React.ReactNode }) {
     [data.projects, data.areas]
   )
 
+  const getEffectiveAreaId = useCallback(
+    (task: Task): string | undefined => {
+      if (task.areaId) return task.areaId
+      if (!task.projectId) return undefined
+      const project = data.projects.find((p) => p.id === task.projectId)
+      return project?.areaId ?? undefined
+    },
+    [data.projects]
+  )
+
+  const getAllTags = useCallback(() => collectTags(data), [data])
+
+  // Search - the index is patched with just the entities each change touched
+  const [searchIndex] = useState(createSearchIndex)
+
+  useEffect(() => {
+    updateSearchIndex(searchIndex, data)
+  }, [searchIndex, data])
+
+  const search = useCallback(
+    (query: string, options?: SearchOptions): SearchResult[] => {
+      // Catch up first when called during the render that follows a change
+      updateSearchIndex(searchIndex, data)
+      return querySearchIndex(searchIndex, query, options)
+    },
+    [searchIndex, data]
+  )
+
   const value: AppDataContextValue = {
     data,
     createTask,
+    duplicateTask,
+    createProject,
+    createArea,
+    updateProject,
+    updateArea,
+    deleteTask,
+    deleteProject,
+    archiveArea,
+    unarchiveArea,
     updateProjectArea,
     updateProjectStatus,
+    updateProjectBlockedBy,
+    markProjectReviewed,
+    markAreaReviewed,
     updateTaskTitle,
     updateTaskScheduled,
+    updateTaskStartTime,
+    updateTaskDuration,
+    updateTaskEstimate,
     updateTaskDue,
     updateTaskDeferUntil,
     updateTaskStatus,
     updateTaskNotes,
     updateTaskProject,
     updateTaskArea,
+    updateTaskRecurrence,
+    updateTaskTags,
+    updateTaskBlockedBy,
+    updateTaskChecklist,
+    convertChecklistItemToTask,
+    toggleTaskTimer,
+    stopTimer,
+    updateTaskTimeEntries,
+    updateProjectTags,
+    renameTag,
+    deleteTag,
     toggleTaskStatus,
     reorderProjectTasks,
     reorderAreaLooseTasks,
     reorderTasksByIds,
     moveTaskToProject,
     moveTaskToLooseTasks,
+    createHeading,
+    updateHeading,
+    deleteHeading,
+    setHeadingListOrder,
+    importVault,
     getAreaById,
     getProjectById,
     getTaskById,
@@ -662,14 +2036,30 @@ export function AppDataProvider({ children }: { children: React.ReactNode }) {
     getOrphanProjects,
     getTasksByProjectId,
     getProjectCompletion,
+    isProjectBlocked,
+    getTaskWaitingOn,
+    getRunningTimer,
     getTaskCounts,
+    getProjectRemainingEstimate,
     getActiveProjects,
     getActiveAreas,
     getAreaDirectTasks,
     getOrphanTasks,
     getTaskContextName,
+    getEffectiveAreaId,
+    getAllTags,
+    search,
+    undo,
+    redo,
+    canUndo: historyStatus.canUndo,
+    canRedo: historyStatus.canRedo,
+    beginHistoryGroup,
+    endHistoryGroup,
+    groupChanges,
   }
 
+  if (!isHydrated) return null
+
   return (
     <AppDataContext.Provider value={value}>{children}</AppDataContext.Provider>
   )
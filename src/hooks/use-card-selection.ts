@@ -0,0 +1,51 @@
+import type { KeyboardEvent, MouseEvent } from 'react'
+import {
+  useTaskSelection,
+  useTaskSelectionStore,
+} from '@/store/task-selection-store'
+
+/**
+ * Multi-selection for a task card in a kanban column or calendar day (see
+ * task-selection-store): Cmd/Ctrl-click and Shift-click select, and
+ * Shift+Arrow extends the selection to the next/previous card, moving
+ * focus along. Escape clears it.
+ *
+ * Modifier clicks only select, so they don't open the task or start
+ * editing. The cards of a list must share a parent element for focus to
+ * follow Shift+Arrow.
+ *
+ * @param taskId - The card's task
+ * @param orderedIds - Task IDs of the card's column or day, in order
+ * @returns
+ *   - `isSelected` - Whether the card is one of several selected tasks
+ *   - `selectionProps` - Spread onto the card's focusable wrapper
+ */
+export function useCardSelection(taskId: string, orderedIds: string[]) {
+  const { isMultiSelected, selectByClick, extendSelection } =
+    useTaskSelection(orderedIds)
+  const clearSelection = useTaskSelectionStore((state) => state.clearSelection)
+
+  const selectionProps = {
+    'data-task-id': taskId,
+    onClickCapture: (e: MouseEvent) => {
+      selectByClick(taskId, e)
+      if (e.shiftKey || e.metaKey || e.ctrlKey) e.stopPropagation()
+    },
+    onKeyDown: (e: KeyboardEvent<HTMLElement>) => {
+      if (e.key === 'Escape') {
+        clearSelection()
+        return
+      }
+      if (!e.shiftKey || (e.key !== 'ArrowDown' && e.key !== 'ArrowUp')) return
+      e.preventDefault()
+      const toId = extendSelection(taskId, e.key === 'ArrowDown' ? 1 : -1)
+      if (toId) {
+        e.currentTarget.parentElement
+          ?.querySelector<HTMLElement>(`[data-task-id="${toId}"]`)
+          ?.focus()
+      }
+    },
+  }
+
+  return { isSelected: isMultiSelected(taskId), selectionProps }
+}
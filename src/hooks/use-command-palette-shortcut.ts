@@ -0,0 +1,24 @@
+import { useEffect } from 'react'
+import { useCommandPaletteStore } from '@/store/command-palette-store'
+import { hasModifierKey } from '@/lib/keyboard'
+
+/**
+ * Global Cmd+K (Ctrl+K elsewhere) binding that toggles the command palette.
+ * Works from text fields too, like the quick-capture shortcut.
+ */
+export function useCommandPaletteShortcut() {
+  const toggle = useCommandPaletteStore((s) => s.toggle)
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!hasModifierKey(event) || event.shiftKey || event.altKey) return
+      if (event.key.toLowerCase() !== 'k') return
+
+      event.preventDefault()
+      toggle()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [toggle])
+}
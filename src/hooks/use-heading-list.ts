@@ -0,0 +1,110 @@
+import { useCallback, useMemo } from 'react'
+import { arrayMove } from '@dnd-kit/sortable'
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData, type CreateTaskOptions } from '@/context/app-data-context'
+import { insertIntoOrder, resolveOrderedItems } from '@/lib/headings'
+import { mergeFilteredOrder } from '@/lib/tags'
+import type { Task } from '@/types/data'
+import type { HeadingColor } from '@/types/headings'
+import { toOrderId } from '@/types/headings'
+
+/**
+ * Tasks and persisted headings of one list (see types/headings), for
+ * OrderedItemList.
+ *
+ * `tasks` are the list's tasks in data order, unfiltered - views filter the
+ * returned items themselves (keeping headings), and pass the visible order
+ * to reorderItems, which keeps hidden tasks in place (see
+ * mergeFilteredOrder). Reordering also moves the tasks in the data, so other
+ * views showing them agree.
+ *
+ * @param listKey - Key of the list in AppData.headings
+ * @param tasks - The list's tasks (memoize this)
+ * @returns Ordered items and functions to change them
+ */
+export function useHeadingList(listKey: string, tasks: Task[]) {
+  const {
+    data,
+    createTask: createAppTask,
+    createHeading: createListHeading,
+    updateHeading,
+    deleteHeading,
+    setHeadingListOrder,
+    groupChanges,
+  } = useAppData()
+  const list = data.headings?.[listKey]
+
+  // Tasks and headings in display order
+  const items = useMemo(() => resolveOrderedItems(tasks, list), [tasks, list])
+  const orderIds = useMemo(() => items.map(toOrderId), [items])
+
+  const getHeadingById = useCallback(
+    (headingId: string) => list?.headings.find((h) => h.id === headingId),
+    [list]
+  )
+
+  // Set the order of the visible items (order IDs, prefixed for headings)
+  const reorderItems = useCallback(
+    (visibleIds: string[]) => {
+      setHeadingListOrder(listKey, mergeFilteredOrder(orderIds, visibleIds))
+    },
+    [listKey, orderIds, setHeadingListOrder]
+  )
+
+  // Move one item to where another is (for drag-and-drop)
+  const moveItem = useCallback(
+    (activeId: string, overId: string) => {
+      const oldIndex = orderIds.indexOf(activeId)
+      const newIndex = orderIds.indexOf(overId)
+      if (oldIndex === -1 || newIndex === -1) return
+      setHeadingListOrder(listKey, arrayMove(orderIds, oldIndex, newIndex))
+    },
+    [listKey, orderIds, setHeadingListOrder]
+  )
+
+  // Create a task after an item (heading or task), or at the end
+  const createTask = useCallback(
+    (options: CreateTaskOptions, afterItemId: string | null): string => {
+      let taskId = ''
+      groupChanges(() => {
+        taskId = createAppTask(options)
+        setHeadingListOrder(
+          listKey,
+          insertIntoOrder(orderIds, taskId, afterItemId)
+        )
+      }, 'Create task')
+      return taskId
+    },
+    [listKey, orderIds, createAppTask, setHeadingListOrder, groupChanges]
+  )
+
+  // Add an untitled heading after an item, or at the end. Returns its ID.
+  const createHeading = useCallback(
+    (afterItemId?: string | null) =>
+      createListHeading(listKey, orderIds, afterItemId),
+    [listKey, orderIds, createListHeading]
+  )
+
+  const setHeadingTitle = useCallback(
+    (headingId: string, title: string) => updateHeading(headingId, { title }),
+    [updateHeading]
+  )
+
+  const setHeadingColor = useCallback(
+    (headingId: string, color: HeadingColor) =>
+      updateHeading(headingId, { color }),
+    [updateHeading]
+  )
+
+  return {
+    items,
+    getHeadingById,
+    reorderItems,
+    moveItem,
+    createTask,
+    createHeading,
+    setHeadingTitle,
+    setHeadingColor,
+    deleteHeading,
+  }
+}
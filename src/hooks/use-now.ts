@@ -0,0 +1,18 @@
+import * as React from 'react'
+
+/**
+ * The current time in milliseconds, refreshed every `interval` ms while
+ * `enabled` - for readings of a running timer. While disabled it keeps the
+ * last value and nothing re-renders.
+ */
+export function useNow(enabled = true, interval = 1000): number {
+  const [now, setNow] = React.useState(() => Date.now())
+
+  React.useEffect(() => {
+    if (!enabled) return
+    const id = window.setInterval(() => setNow(Date.now()), interval)
+    return () => window.clearInterval(id)
+  }, [enabled, interval])
+
+  return now
+}
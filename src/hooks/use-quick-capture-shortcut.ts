@@ -0,0 +1,37 @@
+import { useEffect } from 'react'
+import { hasModifierKey } from '@/lib/keyboard'
+
+/**
+ * Global shortcut for the quick-capture dialog.
+ *
+ * - Ctrl+Space
+ * - Shift+Cmd+N (Shift+Ctrl+N elsewhere)
+ *
+ * Unlike the undo shortcuts this also fires from text fields - neither
+ * combination types anything, and capturing mid-edit is the point.
+ */
+export function useQuickCaptureShortcut(onOpen: () => void) {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.altKey) return
+
+      const isCtrlSpace =
+        event.ctrlKey &&
+        !event.metaKey &&
+        !event.shiftKey &&
+        event.code === 'Space'
+      const isShiftModN =
+        hasModifierKey(event) &&
+        event.shiftKey &&
+        event.key.toLowerCase() === 'n'
+
+      if (isCtrlSpace || isShiftModN) {
+        event.preventDefault()
+        onOpen()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onOpen])
+}
@@ -2,9 +2,55 @@ import { useState, useCallback, useMemo } from 'react'
 import { arrayMove } from '@dnd-kit/sortable'
 // TODO(tauri-integration): Migrate to TanStack Query
 import { useAppData } from '@/context/app-data-context'
+import type { Area, Project } from '@/types/data'
 import type { SidebarOrder } from '@/types/sidebar-order'
 import { ORPHAN_CONTAINER_ID } from '@/types/sidebar-order'
 
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function getContainerId(project: Project): string {
+  return project.areaId ?? ORPHAN_CONTAINER_ID
+}
+
+/**
+ * Area IDs in display order. IDs of deleted areas are dropped and areas
+ * missing from the order (e.g., just created) are appended.
+ */
+function getAreaIds(order: SidebarOrder, areas: Area[]): string[] {
+  const existing = new Set(areas.map((a) => a.id))
+  const ids = order.areaOrder.filter((id) => existing.has(id))
+  const placed = new Set(ids)
+  return [...ids, ...areas.filter((a) => !placed.has(a.id)).map((a) => a.id)]
+}
+
+/**
+ * Project IDs for a container in display order. Projects that are no longer
+ * in the container (deleted, or moved to another area outside the sidebar)
+ * are dropped; projects missing from the order are appended.
+ */
+function getContainerProjectIds(
+  order: SidebarOrder,
+  projects: Project[],
+  containerId: string
+): string[] {
+  const inContainer = projects.filter((p) => getContainerId(p) === containerId)
+  const inContainerIds = new Set(inContainer.map((p) => p.id))
+  const ids = (order.projectOrder[containerId] ?? []).filter((id) =>
+    inContainerIds.has(id)
+  )
+  const placed = new Set(ids)
+  return [
+    ...ids,
+    ...inContainer.filter((p) => !placed.has(p.id)).map((p) => p.id),
+  ]
+}
+
+// -----------------------------------------------------------------------------
+// Hook
+// -----------------------------------------------------------------------------
+
 /**
  * Manages sidebar display order separately from entity data.
  *
@@ -15,9 +61,14 @@ import { ORPHAN_CONTAINER_ID } from '@/types/sidebar-order'
  * 1. The display order (local state)
  * 2. The project's areaId (via updateProjectArea from AppDataContext)
  *
+ * The order is reconciled with the data on read: new areas and projects
+ * (and projects whose area was changed elsewhere, e.g. in the project
+ * editor) are placed at the end of their container.
+ *
  * @returns Object with ordered data and reorder functions:
  *   - `order` - Internal display-order state (SidebarOrder) with areaOrder and projectOrder maps
- *   - `orderedAreas` - Area objects in display order
+ *   - `orderedAreas` - Active (non-archived) Area objects in display order
+ *   - `archivedAreas` - Archived areas in display order (hidden from the main list)
  *   - `orderedOrphanProjects` - Projects without an area, in display order
  *   - `getOrderedProjects(containerId)` - Get projects for an area in display order
  *   - `reorderAreas(activeId, overId)` - Swap two areas in the sidebar
@@ -49,24 +100,32 @@ export function useSidebarOrder() {
   })
 
   // Reorder areas
-  const reorderAreas = useCallback((activeId: string, overId: string) => {
-    setOrder((prev) => {
-      const oldIndex = prev.areaOrder.indexOf(activeId)
-      const newIndex = prev.areaOrder.indexOf(overId)
-      if (oldIndex === -1 || newIndex === -1) return prev
-
-      return {
-        ...prev,
-        areaOrder: arrayMove(prev.areaOrder, oldIndex, newIndex),
-      }
-    })
-  }, [])
+  const reorderAreas = useCallback(
+    (activeId: string, overId: string) => {
+      setOrder((prev) => {
+        const areaIds = getAreaIds(prev, data.areas)
+        const oldIndex = areaIds.indexOf(activeId)
+        const newIndex = areaIds.indexOf(overId)
+        if (oldIndex === -1 || newIndex === -1) return prev
+
+        return {
+          ...prev,
+          areaOrder: arrayMove(areaIds, oldIndex, newIndex),
+        }
+      })
+    },
+    [data.areas]
+  )
 
   // Reorder projects within the same container
   const reorderProjectsInArea = useCallback(
     (containerId: string, activeId: string, overId: string) => {
       setOrder((prev) => {
-        const containerProjects = prev.projectOrder[containerId] ?? []
+        const containerProjects = getContainerProjectIds(
+          prev,
+          data.projects,
+          containerId
+        )
         const oldIndex = containerProjects.indexOf(activeId)
         const newIndex = containerProjects.indexOf(overId)
         if (oldIndex === -1 || newIndex === -1) return prev
@@ -80,7 +139,7 @@ export function useSidebarOrder() {
         }
       })
     },
-    []
+    [data.projects]
   )
 
   // Move project to a different area (updates both order and entity data)
@@ -93,8 +152,16 @@ export function useSidebarOrder() {
     ) => {
       // Update display order
       setOrder((prev) => {
-        const fromProjects = [...(prev.projectOrder[fromContainerId] ?? [])]
-        const toProjects = [...(prev.projectOrder[toContainerId] ?? [])]
+        const fromProjects = getContainerProjectIds(
+          prev,
+          data.projects,
+          fromContainerId
+        )
+        const toProjects = getContainerProjectIds(
+          prev,
+          data.projects,
+          toContainerId
+        ).filter((id) => id !== projectId)
 
         // Remove from source
         const sourceIndex = fromProjects.indexOf(projectId)
@@ -121,25 +188,33 @@ export function useSidebarOrder() {
         toContainerId === ORPHAN_CONTAINER_ID ? null : toContainerId
       updateProjectArea(projectId, newAreaId)
     },
-    [updateProjectArea]
+    [data.projects, updateProjectArea]
   )
 
-  // Get ordered areas (returns Area objects in display order)
-  const orderedAreas = useMemo(() => {
-    return order.areaOrder
+  // Get areas in display order, split by archived status
+  const [orderedAreas, archivedAreas] = useMemo(() => {
+    const areas = getAreaIds(order, data.areas)
       .map((id) => data.areas.find((a) => a.id === id))
       .filter((a): a is NonNullable<typeof a> => a !== undefined)
-  }, [order.areaOrder, data.areas])
+    return [
+      areas.filter((a) => a.status !== 'archived'),
+      areas.filter((a) => a.status === 'archived'),
+    ]
+  }, [order, data.areas])
 
   // Get ordered projects for a container
   const getOrderedProjects = useCallback(
     (containerId: string) => {
-      const projectIds = order.projectOrder[containerId] ?? []
+      const projectIds = getContainerProjectIds(
+        order,
+        data.projects,
+        containerId
+      )
       return projectIds
         .map((id) => data.projects.find((p) => p.id === id))
         .filter((p): p is NonNullable<typeof p> => p !== undefined)
     },
-    [order.projectOrder, data.projects]
+    [order, data.projects]
   )
 
   // Get ordered orphan projects
@@ -150,6 +225,7 @@ export function useSidebarOrder() {
   return {
     order,
     orderedAreas,
+    archivedAreas,
     orderedOrphanProjects,
     getOrderedProjects,
     reorderAreas,
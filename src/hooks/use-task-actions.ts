@@ -0,0 +1,50 @@
+import { useState, useCallback } from 'react'
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { useTaskDetailStore } from '@/store/task-detail-store'
+import type { Task } from '@/types/data'
+
+/**
+ * Delete/duplicate actions shared by the task list components.
+ *
+ * Deleting goes through a confirmation dialog: `requestDelete(taskId)`
+ * opens it and `deleteDialogProps` should be spread onto a
+ * <DeleteTaskDialog />. Confirming closes the detail panel if it was
+ * showing the deleted task.
+ *
+ * @returns
+ *   - `requestDelete(taskId)` - Ask for confirmation before deleting
+ *   - `duplicateTask(taskId)` - Duplicate immediately, returns the new ID
+ *   - `deleteDialogProps` - Props for DeleteTaskDialog
+ */
+export function useTaskActions() {
+  const { getTaskById, deleteTask, duplicateTask } = useAppData()
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null)
+
+  const pendingDeleteTask: Task | null = pendingDeleteId
+    ? (getTaskById(pendingDeleteId) ?? null)
+    : null
+
+  const confirmDelete = useCallback(
+    (taskId: string) => {
+      deleteTask(taskId)
+      const { openTaskId, closeTask } = useTaskDetailStore.getState()
+      if (openTaskId === taskId) closeTask()
+    },
+    [deleteTask]
+  )
+
+  const handleOpenChange = useCallback((open: boolean) => {
+    if (!open) setPendingDeleteId(null)
+  }, [])
+
+  return {
+    requestDelete: setPendingDeleteId,
+    duplicateTask,
+    deleteDialogProps: {
+      task: pendingDeleteTask,
+      onOpenChange: handleOpenChange,
+      onConfirm: confirmDelete,
+    },
+  }
+}
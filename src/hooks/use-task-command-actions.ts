@@ -0,0 +1,95 @@
+import { useMemo } from 'react'
+import { format } from 'date-fns'
+import { CircleDashed, CircleDot, FolderOpen, Sun } from 'lucide-react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import {
+  useCommandActions,
+  type CommandAction,
+} from '@/store/command-palette-store'
+import {
+  taskPrimaryStatuses,
+  taskSecondaryStatuses,
+  taskStatusConfig,
+} from '@/config/status'
+import type { Task } from '@/types/data'
+
+/**
+ * Command palette actions for a focused task (the one open in
+ * TaskDetailPanel): change status, schedule for today, move to project.
+ * Contributes nothing while `task` is null.
+ */
+export function useTaskCommandActions(task: Task | null) {
+  const {
+    getActiveProjects,
+    updateTaskStatus,
+    updateTaskScheduled,
+    updateTaskProject,
+  } = useAppData()
+
+  const taskId = task?.id
+  const title = task?.title
+  const status = task?.status
+  const projectId = task?.projectId
+
+  const actions = useMemo((): CommandAction[] => {
+    if (!taskId) return []
+    const group = `Task: ${title || 'Untitled'}`
+
+    return [
+      {
+        id: 'task-status',
+        label: 'Change status…',
+        group,
+        icon: CircleDashed,
+        keywords: ['mark', 'done', 'complete'],
+        placeholder: 'Set status...',
+        getChildren: () =>
+          [...taskPrimaryStatuses, ...taskSecondaryStatuses]
+            .filter((s) => s !== status)
+            .map((s) => ({
+              id: `task-status-${s}`,
+              label: taskStatusConfig[s].label,
+              run: () => updateTaskStatus(taskId, s),
+            })),
+      },
+      {
+        id: 'task-schedule-today',
+        label: 'Schedule for today',
+        group,
+        icon: Sun,
+        keywords: ['date', 'today'],
+        run: () =>
+          updateTaskScheduled(taskId, format(new Date(), 'yyyy-MM-dd')),
+      },
+      {
+        id: 'task-move-to-project',
+        label: 'Move to project…',
+        group,
+        icon: FolderOpen,
+        placeholder: 'Move to project...',
+        getChildren: () =>
+          getActiveProjects()
+            .filter((p) => p.id !== projectId)
+            .map((p) => ({
+              id: `task-move-${p.id}`,
+              label: p.title,
+              icon: CircleDot,
+              run: () => updateTaskProject(taskId, p.id),
+            })),
+      },
+    ]
+  }, [
+    taskId,
+    title,
+    status,
+    projectId,
+    getActiveProjects,
+    updateTaskStatus,
+    updateTaskScheduled,
+    updateTaskProject,
+  ])
+
+  useCommandActions(actions)
+}
@@ -0,0 +1,34 @@
+import { useMemo } from 'react'
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import { runTaskQuery, tryParseQuery } from '@/lib/query'
+import type { Task } from '@/types/data'
+
+/**
+ * Run a task query (see lib/query) against the app data.
+ *
+ * Evaluates over `tasks` when given (e.g., tasks already narrowed by a
+ * saved filter's criteria), else over all tasks. Blank text leaves the
+ * tasks as they are; invalid text matches nothing.
+ *
+ * @returns
+ *   - `tasks` - Matching tasks in query order
+ *   - `error` - The QuerySyntaxError, if the text doesn't parse
+ */
+export function useTaskQuery(text: string, tasks?: Task[]) {
+  const { data, getEffectiveAreaId, getAreaById, getProjectById } = useAppData()
+  const source = tasks ?? data.tasks
+
+  const parsed = useMemo(() => tryParseQuery(text), [text])
+
+  const matching = useMemo(() => {
+    if (!parsed.query) return []
+    return runTaskQuery(source, parsed.query, {
+      getEffectiveAreaId,
+      getAreaById,
+      getProjectById,
+    })
+  }, [parsed, source, getEffectiveAreaId, getAreaById, getProjectById])
+
+  return { tasks: matching, error: parsed.error }
+}
@@ -0,0 +1,40 @@
+import { useEffect } from 'react'
+import { useAppData } from '@/context/app-data-context'
+import { hasModifierKey, isEditableTarget } from '@/lib/keyboard'
+
+/**
+ * Global undo/redo shortcuts for app data.
+ *
+ * - Cmd+Z: undo
+ * - Shift+Cmd+Z (or Ctrl+Y): redo
+ *
+ * Ignored while focus is in a text field so the field's own text undo
+ * still works.
+ */
+export function useUndoShortcuts() {
+  const { undo, redo } = useAppData()
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!hasModifierKey(event) || event.altKey) return
+      if (isEditableTarget(event.target)) return
+
+      const key = event.key.toLowerCase()
+
+      if (key === 'z') {
+        event.preventDefault()
+        if (event.shiftKey) {
+          redo()
+        } else {
+          undo()
+        }
+      } else if (key === 'y' && event.ctrlKey && !event.metaKey) {
+        event.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+}
@@ -0,0 +1,101 @@
+import { useMemo } from 'react'
+import { FolderInput, FolderOutput } from 'lucide-react'
+
+// TODO(tauri-integration): Migrate to TanStack Query
+import { useAppData } from '@/context/app-data-context'
+import {
+  useCommandActions,
+  type CommandAction,
+} from '@/store/command-palette-store'
+import { readVault, writeVault } from '@/lib/s1'
+import {
+  canExportVault,
+  exportVaultFiles,
+  pickVaultFiles,
+} from '@/lib/vault-io'
+import { showToast } from '@/lib/toast'
+
+/**
+ * Command palette actions to load a vault folder of S1 files into the app
+ * (replacing its data, undoable) and to write the app's data back out as
+ * one. Export is only offered where the browser can write folders (see
+ * lib/vault-io).
+ */
+export function useVaultCommandActions() {
+  const { data, importVault } = useAppData()
+
+  const actions = useMemo((): CommandAction[] => {
+    const handleImport = async () => {
+      const files = await pickVaultFiles()
+      if (!files) return
+
+      const { data: vaultData, errors } = readVault(files)
+      if (
+        vaultData.tasks.length === 0 &&
+        vaultData.projects.length === 0 &&
+        vaultData.areas.length === 0
+      ) {
+        showToast('No vault files found', {
+          description: 'Pick the folder holding areas/, projects/ and tasks/.',
+        })
+        return
+      }
+
+      importVault(vaultData)
+      showToast(
+        `Imported ${vaultData.tasks.length} tasks, ` +
+          `${vaultData.projects.length} projects and ` +
+          `${vaultData.areas.length} areas`,
+        {
+          description:
+            errors.length > 0
+              ? `Skipped ${errors.length} unreadable files, e.g. ` +
+                `${errors[0].path}: ${errors[0].message}`
+              : undefined,
+        }
+      )
+    }
+
+    const handleExport = async () => {
+      const files = writeVault(data)
+      if (await exportVaultFiles(files)) {
+        showToast(`Exported ${files.length} files`)
+      }
+    }
+
+    // Reading or writing files can fail part-way (permissions, disk)
+    const run = (action: () => Promise<void>, failure: string) => () => {
+      action().catch((error) => {
+        console.error(failure, error)
+        showToast(failure, {
+          description: error instanceof Error ? error.message : undefined,
+        })
+      })
+    }
+
+    return [
+      {
+        id: 'vault-import',
+        label: 'Import vault…',
+        group: 'Vault',
+        icon: FolderInput,
+        keywords: ['open', 'load', 'markdown', 's1'],
+        run: run(handleImport, 'Failed to import vault'),
+      },
+      ...(canExportVault()
+        ? [
+            {
+              id: 'vault-export',
+              label: 'Export vault…',
+              group: 'Vault',
+              icon: FolderOutput,
+              keywords: ['save', 'write', 'markdown', 's1'],
+              run: run(handleExport, 'Failed to export vault'),
+            },
+          ]
+        : []),
+    ]
+  }, [data, importVault])
+
+  useCommandActions(actions)
+}
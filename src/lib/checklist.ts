@@ -0,0 +1,27 @@
+import type { ChecklistItem } from '@/types/data'
+
+/**
+ * Helpers for a task's checklist (`Task.checklist`).
+ */
+
+export function createChecklistItem(title: string): ChecklistItem {
+  return { id: crypto.randomUUID(), title, done: false }
+}
+
+/** How many items are ticked off, of how many. Undefined without items */
+export function getChecklistProgress(
+  checklist: ChecklistItem[] | undefined
+): { done: number; total: number } | undefined {
+  if (!checklist?.length) return undefined
+  return {
+    done: checklist.filter((item) => item.done).length,
+    total: checklist.length,
+  }
+}
+
+/** The same items, all unticked (for the next instance of a repeating task) */
+export function resetChecklist(
+  checklist: ChecklistItem[] | undefined
+): ChecklistItem[] | undefined {
+  return checklist?.map((item) => ({ ...item, done: false }))
+}
@@ -0,0 +1,105 @@
+import type { Task } from '@/types/data'
+import {
+  isHeadingId,
+  parseHeadingId,
+  type HeadingList,
+  type ResolvedOrderedItem,
+} from '@/types/headings'
+
+/**
+ * Persisted headings (AppData.headings).
+ *
+ * A list's order stores task IDs and heading IDs, but tasks are always shown
+ * in the order given (their data order), so reordering them elsewhere is
+ * never undone here. Instead each heading is anchored to the task that
+ * follows it in the stored order: it is shown right before that task, or
+ * before the next stored task still in the list if that one has left.
+ * Headings with nothing after them go at the end.
+ */
+
+/** Interleave a list's headings with its tasks */
+export function resolveOrderedItems(
+  tasks: Task[],
+  list: HeadingList | undefined
+): ResolvedOrderedItem[] {
+  const taskItems = tasks.map(
+    (task): ResolvedOrderedItem => ({ type: 'task', id: task.id, data: task })
+  )
+  if (!list || list.headings.length === 0) return taskItems
+
+  const taskIds = new Set(tasks.map((t) => t.id))
+  const headingsById = new Map(list.headings.map((h) => [h.id, h]))
+  const anchored = new Map<string, ResolvedOrderedItem[]>()
+  let pending: ResolvedOrderedItem[] = []
+
+  for (const id of list.order) {
+    if (isHeadingId(id)) {
+      const heading = headingsById.get(parseHeadingId(id))
+      if (!heading) continue
+      pending.push({ type: 'heading', id: heading.id, data: heading })
+      headingsById.delete(heading.id)
+    } else if (taskIds.has(id) && pending.length > 0) {
+      anchored.set(id, pending)
+      pending = []
+    }
+  }
+
+  // Headings missing from the order are kept too
+  const trailing: ResolvedOrderedItem[] = [
+    ...pending,
+    ...[...headingsById.values()].map(
+      (heading): ResolvedOrderedItem => ({
+        type: 'heading',
+        id: heading.id,
+        data: heading,
+      })
+    ),
+  ]
+
+  return [
+    ...taskItems.flatMap((item) => [...(anchored.get(item.id) ?? []), item]),
+    ...trailing,
+  ]
+}
+
+/** Insert `id` after `afterId` in an order (at the end if not found) */
+export function insertIntoOrder(
+  order: string[],
+  id: string,
+  afterId?: string | null
+): string[] {
+  const index = afterId ? order.indexOf(afterId) : -1
+  if (index === -1) return [...order, id]
+  return [...order.slice(0, index + 1), id, ...order.slice(index + 1)]
+}
+
+/** The key of the list a heading belongs to */
+export function findHeadingListKey(
+  headings: Record<string, HeadingList> | undefined,
+  headingId: string
+): string | undefined {
+  return Object.keys(headings ?? {}).find((key) =>
+    headings![key].headings.some((h) => h.id === headingId)
+  )
+}
+
+/**
+ * Take deleted tasks out of every list's order. Headings anchored to one
+ * move on to the next stored task, as they would when resolving. Lists
+ * (and the record) without any of them are kept as they are.
+ */
+export function withoutOrderIds(
+  headings: Record<string, HeadingList> | undefined,
+  ids: Set<string>
+): Record<string, HeadingList> | undefined {
+  if (!headings) return headings
+  let changed = false
+  const next = Object.fromEntries(
+    Object.entries(headings).map(([key, list]) => {
+      if (!list.order.some((id) => ids.has(id))) return [key, list]
+      changed = true
+      return [key, { ...list, order: list.order.filter((id) => !ids.has(id)) }]
+    })
+  )
+  return changed ? next : headings
+}
@@ -0,0 +1,94 @@
+/**
+ * Undo/redo history for snapshot-based state.
+ *
+ * Each entry records the state before and after a single user action, so
+ * undoing is a matter of restoring `before` and redoing restores `after`.
+ * State is expected to be immutable (structural sharing keeps snapshots cheap).
+ *
+ * These helpers are pure - the caller owns the stack and decides when to
+ * push. See AppDataProvider for how mutations are recorded.
+ */
+
+export interface HistoryEntry<T> {
+  /** Human-readable description, e.g. "Complete task" */
+  label: string
+  before: T
+  after: T
+  /**
+   * Consecutive entries with the same key are merged (e.g. keystrokes
+   * while editing a title) so they undo as one step.
+   */
+  coalesceKey?: string
+  /** When the entry was last updated (ms since epoch) */
+  timestamp: number
+}
+
+export interface HistoryStack<T> {
+  past: HistoryEntry<T>[]
+  future: HistoryEntry<T>[]
+}
+
+/** Maximum number of undo steps kept */
+export const HISTORY_LIMIT = 100
+
+/** Edits with the same coalesce key within this window merge into one step */
+export const COALESCE_WINDOW_MS = 1000
+
+export function createHistoryStack<T>(): HistoryStack<T> {
+  return { past: [], future: [] }
+}
+
+/**
+ * Record a new entry. Clears the redo stack, merges with the previous entry
+ * when coalescing applies, and drops the oldest entries beyond HISTORY_LIMIT.
+ */
+export function pushHistoryEntry<T>(
+  stack: HistoryStack<T>,
+  entry: HistoryEntry<T>
+): HistoryStack<T> {
+  const last = stack.past[stack.past.length - 1]
+  const shouldCoalesce =
+    last !== undefined &&
+    entry.coalesceKey !== undefined &&
+    last.coalesceKey === entry.coalesceKey &&
+    entry.timestamp - last.timestamp <= COALESCE_WINDOW_MS
+
+  const past = shouldCoalesce
+    ? [...stack.past.slice(0, -1), { ...entry, before: last.before }]
+    : [...stack.past, entry]
+
+  return {
+    past: past.length > HISTORY_LIMIT ? past.slice(-HISTORY_LIMIT) : past,
+    future: [],
+  }
+}
+
+/**
+ * Move the most recent entry to the redo stack.
+ * Returns null when there is nothing to undo.
+ */
+export function undoHistory<T>(
+  stack: HistoryStack<T>
+): { stack: HistoryStack<T>; entry: HistoryEntry<T> } | null {
+  const entry = stack.past[stack.past.length - 1]
+  if (!entry) return null
+  return {
+    stack: { past: stack.past.slice(0, -1), future: [...stack.future, entry] },
+    entry,
+  }
+}
+
+/**
+ * Move the most recently undone entry back to the undo stack.
+ * Returns null when there is nothing to redo.
+ */
+export function redoHistory<T>(
+  stack: HistoryStack<T>
+): { stack: HistoryStack<T>; entry: HistoryEntry<T> } | null {
+  const entry = stack.future[stack.future.length - 1]
+  if (!entry) return null
+  return {
+    stack: { past: [...stack.past, entry], future: stack.future.slice(0, -1) },
+    entry,
+  }
+}
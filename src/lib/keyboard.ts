@@ -0,0 +1,21 @@
+/**
+ * Keyboard shortcut helpers shared by global key handlers.
+ */
+
+/**
+ * Whether a key event's target handles text input itself (inputs, textareas,
+ * contenteditable editors like Milkdown). Global shortcuts should leave
+ * these alone so native behaviour such as text undo keeps working.
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  if (target.isContentEditable) return true
+
+  const tagName = target.tagName
+  return tagName === 'INPUT' || tagName === 'TEXTAREA' || tagName === 'SELECT'
+}
+
+/** Cmd on macOS, Ctrl elsewhere */
+export function hasModifierKey(event: KeyboardEvent): boolean {
+  return event.metaKey || event.ctrlKey
+}
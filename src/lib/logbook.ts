@@ -0,0 +1,121 @@
+import {
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns'
+
+import type { Task } from '@/types/data'
+
+/**
+ * Logbook grouping of completed and dropped tasks.
+ *
+ * Tasks are logged by `completedAt`. Tasks closed before it was recorded
+ * fall back to `updatedAt`. Weeks start on Monday, as in WeekView.
+ */
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type LogbookGrouping = 'day' | 'week' | 'month'
+
+export interface LogbookGroup {
+  /** Stable key: the group's first day (YYYY-MM-DD) */
+  key: string
+  label: string
+  tasks: Task[]
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const
+
+/** Whether a task belongs in the logbook */
+export function isLogged(task: Task): boolean {
+  return task.status === 'done' || task.status === 'dropped'
+}
+
+/** When a logged task was completed or dropped */
+export function getLoggedAt(task: Task): string {
+  return task.completedAt ?? task.updatedAt
+}
+
+function startOfGroup(date: Date, grouping: LogbookGrouping): Date {
+  switch (grouping) {
+    case 'day':
+      return date
+    case 'week':
+      return startOfWeek(date, WEEK_OPTIONS)
+    case 'month':
+      return startOfMonth(date)
+  }
+}
+
+function groupLabel(date: Date, grouping: LogbookGrouping, now: Date): string {
+  // Older groups name the year only when it isn't the current one
+  const withYear = (pattern: string) =>
+    date.getFullYear() === now.getFullYear() ? pattern : `${pattern}, yyyy`
+
+  switch (grouping) {
+    case 'day': {
+      const days = differenceInCalendarDays(now, date)
+      if (days === 0) return 'Today'
+      if (days === 1) return 'Yesterday'
+      if (days < 7) return format(date, 'EEEE')
+      return format(date, withYear('EEEE, MMM d'))
+    }
+    case 'week': {
+      const weeks = differenceInCalendarWeeks(now, date, WEEK_OPTIONS)
+      if (weeks === 0) return 'This Week'
+      if (weeks === 1) return 'Last Week'
+      return `Week of ${format(date, withYear('MMM d'))}`
+    }
+    case 'month':
+      if (differenceInCalendarMonths(now, date) === 0) return 'This Month'
+      return format(date, 'MMMM yyyy')
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Grouping
+// -----------------------------------------------------------------------------
+
+/** Logged tasks, most recently completed first */
+export function getLogbookTasks(tasks: Task[]): Task[] {
+  return tasks
+    .filter(isLogged)
+    .sort((a, b) => getLoggedAt(b).localeCompare(getLoggedAt(a)))
+}
+
+/**
+ * Group tasks (already sorted by getLogbookTasks) by the day, week or month
+ * they were logged, newest group first.
+ */
+export function groupLogbookTasks(
+  tasks: Task[],
+  grouping: LogbookGrouping,
+  now = new Date()
+): LogbookGroup[] {
+  const groups: LogbookGroup[] = []
+  for (const task of tasks) {
+    const start = startOfGroup(parseISO(getLoggedAt(task)), grouping)
+    const key = format(start, 'yyyy-MM-dd')
+    const last = groups[groups.length - 1]
+    if (last?.key === key) {
+      last.tasks.push(task)
+    } else {
+      groups.push({
+        key,
+        label: groupLabel(start, grouping, now),
+        tasks: [task],
+      })
+    }
+  }
+  return groups
+}
@@ -0,0 +1,195 @@
+import type { Project } from '@/types/data'
+
+/**
+ * Blocking relationships between projects (`Project.blockedBy`).
+ *
+ * A project listing another in `blockedBy` waits on it: it counts as
+ * blocked until every blocker is done, whatever its own status says.
+ * Relationships must not form a cycle. IDs that no longer resolve to a
+ * project are ignored.
+ *
+ * Cycle detection works on anything with `blockedBy` (see Blockable), so
+ * task dependencies (lib/task-dependencies) share it.
+ */
+
+// -----------------------------------------------------------------------------
+// Errors
+// -----------------------------------------------------------------------------
+
+/** Raised when a change to `blockedBy` would make projects wait on each other */
+export class DependencyCycleError extends Error {
+  /** IDs around the cycle; the first is repeated at the end */
+  readonly cycle: string[]
+
+  constructor(message: string, cycle: string[]) {
+    super(message)
+    this.name = 'DependencyCycleError'
+    this.cycle = cycle
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+/** Something that can wait on others of its kind (a project or a task) */
+export interface Blockable {
+  id: string
+  title: string
+  blockedBy?: string[]
+}
+
+/** A blocking edge: `to` waits on `from` */
+export interface DependencyEdge {
+  from: string
+  to: string
+}
+
+// -----------------------------------------------------------------------------
+// Blockers
+// -----------------------------------------------------------------------------
+
+/** The projects a project waits on (that still exist) */
+export function getBlockers(project: Project, projects: Project[]): Project[] {
+  return (project.blockedBy ?? [])
+    .map((id) => projects.find((p) => p.id === id))
+    .filter((p): p is Project => p !== undefined)
+}
+
+/** Blockers that aren't done yet */
+export function getUnfinishedBlockers(
+  project: Project,
+  projects: Project[]
+): Project[] {
+  return getBlockers(project, projects).filter((p) => p.status !== 'done')
+}
+
+/**
+ * Whether a project is blocked: its status says so, or it waits on a
+ * project that isn't done. Done and paused projects never count.
+ */
+export function isProjectBlocked(
+  project: Project,
+  projects: Project[]
+): boolean {
+  if (project.status === 'done' || project.status === 'paused') return false
+  return (
+    project.status === 'blocked' ||
+    getUnfinishedBlockers(project, projects).length > 0
+  )
+}
+
+/** Every blocking edge between the given projects and the projects they wait on */
+export function getDependencyEdges(projects: Project[]): DependencyEdge[] {
+  return projects.flatMap((project) =>
+    (project.blockedBy ?? []).map((from) => ({ from, to: project.id }))
+  )
+}
+
+// -----------------------------------------------------------------------------
+// Cycle Detection
+// -----------------------------------------------------------------------------
+
+/**
+ * The cycle that setting `itemId`'s blockers to `blockedBy` would
+ * create, or undefined if there is none. An item waiting on itself is a
+ * cycle of one.
+ */
+export function findBlockingCycle(
+  items: Blockable[],
+  itemId: string,
+  blockedBy: string[]
+): string[] | undefined {
+  const blockersOf = (id: string) =>
+    id === itemId
+      ? blockedBy
+      : (items.find((item) => item.id === id)?.blockedBy ?? [])
+
+  // Depth-first from the new blockers, looking for a path back
+  const visited = new Set<string>()
+  const visit = (id: string, path: string[]): string[] | undefined => {
+    if (id === itemId) return [...path, id]
+    if (visited.has(id)) return undefined
+    visited.add(id)
+    for (const next of blockersOf(id)) {
+      const cycle = visit(next, [...path, id])
+      if (cycle) return cycle
+    }
+    return undefined
+  }
+
+  for (const blockerId of blockedBy) {
+    const cycle = visit(blockerId, [itemId])
+    if (cycle) return cycle
+  }
+  return undefined
+}
+
+/**
+ * Throw a DependencyCycleError naming the items involved if setting
+ * `itemId`'s blockers to `blockedBy` would create a cycle.
+ */
+export function assertNoBlockingCycle(
+  items: Blockable[],
+  itemId: string,
+  blockedBy: string[]
+): void {
+  const cycle = findBlockingCycle(items, itemId, blockedBy)
+  if (!cycle) return
+
+  const title = (id: string) =>
+    `"${items.find((item) => item.id === id)?.title ?? id}"`
+  const message =
+    cycle.length === 2
+      ? `${title(itemId)} can't be blocked by itself.`
+      : `${title(itemId)} can't wait on ${title(cycle[1])}: that would ` +
+        `make a cycle (${cycle.map(title).join(' → ')}).`
+  throw new DependencyCycleError(message, cycle)
+}
+
+// -----------------------------------------------------------------------------
+// Layout
+// -----------------------------------------------------------------------------
+
+/** Where a node sits in the dependency graph */
+export interface GraphNodePosition {
+  column: number
+  row: number
+}
+
+/**
+ * Lay out a dependency graph left to right: projects nobody in `nodeIds`
+ * blocks go in the first column, and every other project one column after
+ * its furthest blocker. Rows follow the order of `nodeIds`. Cycles loaded
+ * from files are tolerated (the edge closing one is ignored).
+ */
+export function layoutDependencyGraph(
+  nodeIds: string[],
+  edges: DependencyEdge[]
+): Map<string, GraphNodePosition> {
+  const nodes = new Set(nodeIds)
+  const columns = new Map<string, number>()
+  const inProgress = new Set<string>()
+
+  const columnOf = (id: string): number => {
+    const known = columns.get(id)
+    if (known !== undefined) return known
+    if (inProgress.has(id)) return 0
+    inProgress.add(id)
+    const blockers = edges.filter((e) => e.to === id && nodes.has(e.from))
+    const column = Math.max(0, ...blockers.map((e) => columnOf(e.from) + 1))
+    inProgress.delete(id)
+    columns.set(id, column)
+    return column
+  }
+
+  const rowsUsed = new Map<number, number>()
+  const positions = new Map<string, GraphNodePosition>()
+  for (const id of nodeIds) {
+    const column = columnOf(id)
+    const row = rowsUsed.get(column) ?? 0
+    rowsUsed.set(column, row + 1)
+    positions.set(id, { column, row })
+  }
+  return positions
+}
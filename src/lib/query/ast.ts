@@ -0,0 +1,104 @@
+import type { TaskStatus } from '@/types/data'
+
+/**
+ * Typed AST for the task query language.
+ *
+ * Every node carries the [start, end) span of the source text it was
+ * parsed from, so errors and highlights can point back into the input.
+ */
+
+// -----------------------------------------------------------------------------
+// Errors
+// -----------------------------------------------------------------------------
+
+/** A syntax error at [start, end) of the query text */
+export class QuerySyntaxError extends Error {
+  readonly start: number
+  readonly end: number
+
+  constructor(message: string, start: number, end: number) {
+    super(message)
+    this.name = 'QuerySyntaxError'
+    this.start = start
+    this.end = end
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Values
+// -----------------------------------------------------------------------------
+
+export interface QuerySpan {
+  start: number
+  end: number
+}
+
+export type DateField = 'due' | 'scheduled' | 'defer' | 'created' | 'completed'
+
+export type CompareOp = '<' | '<=' | '=' | '>=' | '>'
+
+/**
+ * A date in a comparison. Relative dates ("today", "+7d") are resolved when
+ * the query runs, so saved queries keep rolling forward.
+ */
+export type DateValue =
+  | { kind: 'absolute'; date: string } // YYYY-MM-DD
+  | { kind: 'relative'; amount: number; unit: 'd' | 'w' | 'm' }
+
+export type HasProperty =
+  | 'project'
+  | 'area'
+  | 'notes'
+  | 'due'
+  | 'scheduled'
+  | 'defer'
+  | 'recurrence'
+  | 'tags'
+
+export type IsState = 'open' | 'closed' | 'overdue' | 'deferred' | 'recurring'
+
+export type SortField =
+  | 'due'
+  | 'scheduled'
+  | 'defer'
+  | 'created'
+  | 'updated'
+  | 'title'
+  | 'status'
+
+// -----------------------------------------------------------------------------
+// Nodes
+// -----------------------------------------------------------------------------
+
+export type QueryNode =
+  | ({ type: 'and'; children: QueryNode[] } & QuerySpan)
+  | ({ type: 'or'; children: QueryNode[] } & QuerySpan)
+  | ({ type: 'not'; child: QueryNode } & QuerySpan)
+  /** Free text, matched against title and notes */
+  | ({ type: 'text'; value: string } & QuerySpan)
+  | ({ type: 'status'; values: TaskStatus[] } & QuerySpan)
+  /** Area or project, by title (case-insensitive) or ID */
+  | ({ type: 'area' | 'project'; value: string } & QuerySpan)
+  /** Any of the (normalized) tags */
+  | ({ type: 'tag'; values: string[] } & QuerySpan)
+  | ({
+      type: 'date'
+      field: DateField
+      op: CompareOp
+      value: DateValue
+    } & QuerySpan)
+  | ({ type: 'has'; property: HasProperty } & QuerySpan)
+  | ({ type: 'is'; state: IsState } & QuerySpan)
+
+export interface SortKey {
+  field: SortField
+  descending: boolean
+}
+
+/** A parsed query: an optional filter expression plus sort keys */
+export interface TaskQuery {
+  /** Null when the query only sorts (or is empty) */
+  filter: QueryNode | null
+  /** In priority order; later keys break ties */
+  sort: SortKey[]
+}
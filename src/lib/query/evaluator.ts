@@ -0,0 +1,261 @@
+import { addDays, addMonths, addWeeks, format } from 'date-fns'
+
+import type { Area, Project, Task, TaskStatus } from '@/types/data'
+import type {
+  DateField,
+  DateValue,
+  QueryNode,
+  SortField,
+  SortKey,
+  TaskQuery,
+} from './ast'
+
+/**
+ * Query evaluator.
+ *
+ * Runs a parsed TaskQuery over tasks. Dates are compared as `YYYY-MM-DD`
+ * strings in local time (a due datetime counts for its day); a comparison
+ * against a date the task doesn't have is false - use `has:` / `-has:` to
+ * match on absence.
+ */
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface QueryContext {
+  /** Resolves a task's area, falling back to its project's */
+  getEffectiveAreaId: (task: Task) => string | undefined
+  getAreaById: (id: string) => Area | undefined
+  getProjectById: (id: string) => Project | undefined
+  /** Defaults to now */
+  now?: Date
+}
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+/** Workflow order for sort:status */
+const STATUS_ORDER: TaskStatus[] = [
+  'inbox',
+  'ready',
+  'in-progress',
+  'blocked',
+  'icebox',
+  'done',
+  'dropped',
+]
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function toDay(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
+
+function resolveDate(value: DateValue, now: Date): string {
+  if (value.kind === 'absolute') return value.date
+  const shift = { d: addDays, w: addWeeks, m: addMonths }[value.unit]
+  return toDay(shift(now, value.amount))
+}
+
+function getTaskDate(task: Task, field: DateField): string | undefined {
+  switch (field) {
+    case 'due':
+      return task.due?.slice(0, 10)
+    case 'scheduled':
+      return task.scheduled?.slice(0, 10)
+    case 'defer':
+      return task.deferUntil?.slice(0, 10)
+    // Timestamps are UTC; compare them by local day
+    case 'created':
+      return toDay(new Date(task.createdAt))
+    case 'completed':
+      return task.completedAt ? toDay(new Date(task.completedAt)) : undefined
+  }
+}
+
+function isClosed(task: Task): boolean {
+  return task.status === 'done' || task.status === 'dropped'
+}
+
+/** Title or ID match, ignoring case */
+function matchesEntity(
+  entity: Area | Project | undefined,
+  value: string
+): boolean {
+  if (!entity) return false
+  const wanted = value.toLowerCase()
+  return entity.id === value || entity.title.toLowerCase() === wanted
+}
+
+// -----------------------------------------------------------------------------
+// Matching
+// -----------------------------------------------------------------------------
+
+/** Check a task against a filter expression */
+export function matchesQuery(
+  task: Task,
+  node: QueryNode,
+  context: QueryContext
+): boolean {
+  const now = context.now ?? new Date()
+  const today = toDay(now)
+
+  switch (node.type) {
+    case 'and':
+      return node.children.every((child) => matchesQuery(task, child, context))
+    case 'or':
+      return node.children.some((child) => matchesQuery(task, child, context))
+    case 'not':
+      return !matchesQuery(task, node.child, context)
+
+    case 'text': {
+      const needle = node.value.toLowerCase()
+      return (
+        task.title.toLowerCase().includes(needle) ||
+        Boolean(task.notes?.toLowerCase().includes(needle))
+      )
+    }
+
+    case 'status':
+      return node.values.includes(task.status)
+
+    case 'area': {
+      const areaId = context.getEffectiveAreaId(task)
+      return matchesEntity(
+        areaId ? context.getAreaById(areaId) : undefined,
+        node.value
+      )
+    }
+
+    case 'project':
+      return matchesEntity(
+        task.projectId ? context.getProjectById(task.projectId) : undefined,
+        node.value
+      )
+
+    case 'tag':
+      return node.values.some((tag) => task.tags?.includes(tag))
+
+    case 'date': {
+      const date = getTaskDate(task, node.field)
+      if (!date) return false
+      const target = resolveDate(node.value, now)
+      switch (node.op) {
+        case '<':
+          return date < target
+        case '<=':
+          return date <= target
+        case '=':
+          return date === target
+        case '>=':
+          return date >= target
+        case '>':
+          return date > target
+      }
+      break
+    }
+
+    case 'has':
+      switch (node.property) {
+        case 'project':
+          return Boolean(task.projectId)
+        case 'area':
+          return Boolean(context.getEffectiveAreaId(task))
+        case 'notes':
+          return Boolean(task.notes?.trim())
+        case 'due':
+          return Boolean(task.due)
+        case 'scheduled':
+          return Boolean(task.scheduled)
+        case 'defer':
+          return Boolean(task.deferUntil)
+        case 'recurrence':
+          return Boolean(task.recurrence)
+        case 'tags':
+          return Boolean(task.tags?.length)
+      }
+      break
+
+    case 'is':
+      switch (node.state) {
+        case 'open':
+          return !isClosed(task)
+        case 'closed':
+          return isClosed(task)
+        case 'overdue':
+          return (
+            !isClosed(task) &&
+            Boolean(task.due && task.due.slice(0, 10) < today)
+          )
+        case 'deferred':
+          return Boolean(task.deferUntil && task.deferUntil > today)
+        case 'recurring':
+          return Boolean(task.recurrence)
+      }
+      break
+  }
+  return false
+}
+
+// -----------------------------------------------------------------------------
+// Sorting
+// -----------------------------------------------------------------------------
+
+function getSortValue(
+  task: Task,
+  field: SortField
+): string | number | undefined {
+  switch (field) {
+    case 'title':
+      return task.title.toLowerCase()
+    case 'status':
+      return STATUS_ORDER.indexOf(task.status)
+    case 'updated':
+      return task.updatedAt
+    default:
+      return getTaskDate(task, field)
+  }
+}
+
+/**
+ * Sort tasks by `keys` (stable, so ties keep their existing order). Tasks
+ * without a value for a key go last in either direction.
+ */
+export function sortTasks(tasks: Task[], keys: SortKey[]): Task[] {
+  if (keys.length === 0) return tasks
+  return [...tasks].sort((a, b) => {
+    for (const { field, descending } of keys) {
+      const av = getSortValue(a, field)
+      const bv = getSortValue(b, field)
+      if (av === bv) continue
+      if (av === undefined) return 1
+      if (bv === undefined) return -1
+      const order = av < bv ? -1 : 1
+      return descending ? -order : order
+    }
+    return 0
+  })
+}
+
+// -----------------------------------------------------------------------------
+// Running
+// -----------------------------------------------------------------------------
+
+/** Tasks matching `query.filter`, ordered by `query.sort` */
+export function runTaskQuery(
+  tasks: Task[],
+  query: TaskQuery,
+  context: QueryContext
+): Task[] {
+  const { filter } = query
+  // One "now" for the whole run
+  const runContext = { ...context, now: context.now ?? new Date() }
+  const matching = filter
+    ? tasks.filter((task) => matchesQuery(task, filter, runContext))
+    : tasks
+  return sortTasks(matching, query.sort)
+}
@@ -0,0 +1,21 @@
+export {
+  QuerySyntaxError,
+  type CompareOp,
+  type DateField,
+  type DateValue,
+  type HasProperty,
+  type IsState,
+  type QueryNode,
+  type QuerySpan,
+  type SortField,
+  type SortKey,
+  type TaskQuery,
+} from './ast'
+export { tokenizeQuery, type QueryToken } from './tokenizer'
+export { looksLikeQuery, parseQuery, tryParseQuery } from './parser'
+export {
+  matchesQuery,
+  runTaskQuery,
+  sortTasks,
+  type QueryContext,
+} from './evaluator'
@@ -0,0 +1,429 @@
+import { isValid, parseISO } from 'date-fns'
+
+import type { TaskStatus } from '@/types/data'
+import { normalizeTags } from '@/lib/tags'
+import {
+  QuerySyntaxError,
+  type CompareOp,
+  type DateField,
+  type DateValue,
+  type HasProperty,
+  type IsState,
+  type QueryNode,
+  type SortField,
+  type SortKey,
+  type TaskQuery,
+} from './ast'
+import { tokenizeQuery, type QueryToken } from './tokenizer'
+
+/**
+ * Query parser.
+ *
+ * Grammar (terms are ANDed; OR binds looser than AND):
+ *
+ *   query   := or?
+ *   or      := and ("OR" and)*
+ *   and     := unary+
+ *   unary   := "-" unary | primary
+ *   primary := "(" or ")" | text | field ":" value
+ *
+ * Fields:
+ * - status:ready,in-progress
+ * - area:Health, project:"Launch website" (title or ID)
+ * - tag:errands,phone (any of; a leading '#' is optional)
+ * - due:, scheduled:, defer:, created:, completed: - an optional operator
+ *   (<, <=, =, >=, >) and a date: today, tomorrow, yesterday, YYYY-MM-DD or
+ *   a relative offset like +7d, -2w, +1m
+ * - has:project|area|notes|due|scheduled|defer|recurrence|tags
+ * - is:open|closed|overdue|deferred|recurring
+ * - sort:due,-created (top level only; "-" sorts descending)
+ */
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+const STATUSES: TaskStatus[] = [
+  'inbox',
+  'icebox',
+  'ready',
+  'in-progress',
+  'blocked',
+  'dropped',
+  'done',
+]
+
+const DATE_FIELDS: Record<string, DateField> = {
+  due: 'due',
+  scheduled: 'scheduled',
+  defer: 'defer',
+  created: 'created',
+  completed: 'completed',
+}
+
+const HAS_PROPERTIES: HasProperty[] = [
+  'project',
+  'area',
+  'notes',
+  'due',
+  'scheduled',
+  'defer',
+  'recurrence',
+  'tags',
+]
+
+const IS_STATES: IsState[] = [
+  'open',
+  'closed',
+  'overdue',
+  'deferred',
+  'recurring',
+]
+
+const SORT_FIELDS: SortField[] = [
+  'due',
+  'scheduled',
+  'defer',
+  'created',
+  'updated',
+  'title',
+  'status',
+]
+
+const FIELDS = [
+  'status',
+  'area',
+  'project',
+  'tag',
+  ...Object.keys(DATE_FIELDS),
+  'has',
+  'is',
+  'sort',
+]
+
+const NAMED_DATES: Record<string, DateValue> = {
+  today: { kind: 'relative', amount: 0, unit: 'd' },
+  tomorrow: { kind: 'relative', amount: 1, unit: 'd' },
+  yesterday: { kind: 'relative', amount: -1, unit: 'd' },
+}
+
+const FIELD_TERM_PATTERN = /(?:^|[\s(-])[a-z]+:/i
+const COMPARISON_PATTERN = /^(<=|>=|<|>|=)?(.*)$/
+const RELATIVE_DATE_PATTERN = /^([+-]?\d+)([dwm])$/
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+type FieldToken = Extract<QueryToken, { kind: 'field' }>
+
+/** `value` if it is one of `allowed`, else undefined */
+function oneOf<T extends string>(allowed: T[], value: string): T | undefined {
+  return (allowed as string[]).includes(value) ? (value as T) : undefined
+}
+
+function parseDate(text: string): DateValue | undefined {
+  const lower = text.toLowerCase()
+  if (Object.hasOwn(NAMED_DATES, lower)) return NAMED_DATES[lower]
+
+  const relative = lower.match(RELATIVE_DATE_PATTERN)
+  if (relative) {
+    return {
+      kind: 'relative',
+      amount: Number(relative[1]),
+      unit: relative[2] as 'd' | 'w' | 'm',
+    }
+  }
+
+  if (ISO_DATE_PATTERN.test(text) && isValid(parseISO(text))) {
+    return { kind: 'absolute', date: text }
+  }
+  return undefined
+}
+
+// -----------------------------------------------------------------------------
+// Parser
+// -----------------------------------------------------------------------------
+
+/**
+ * Parse query text into a TaskQuery. Throws QuerySyntaxError pointing at
+ * the offending part of `input`.
+ */
+export function parseQuery(input: string): TaskQuery {
+  const tokens = tokenizeQuery(input)
+  const sort: SortKey[] = []
+  let index = 0
+
+  const peek = (): QueryToken | undefined => tokens[index]
+
+  // True when the next token can't start a term
+  const atTermEnd = () => {
+    const next = peek()
+    return !next || next.kind === 'rparen' || next.kind === 'or'
+  }
+
+  // Where a field's value text starts in input (inside quotes if quoted)
+  const valueOffset = (token: FieldToken) =>
+    token.valueStart + (input[token.valueStart] === '"' ? 1 : 0)
+
+  // Split a field value on commas, reporting each item's position in input
+  const splitValues = (token: FieldToken) => {
+    let position = valueOffset(token)
+    return token.value.split(',').map((item) => {
+      const start = position
+      position += item.length + 1
+      return { item, start, end: start + item.length }
+    })
+  }
+
+  const parseField = (token: FieldToken, nested: boolean): QueryNode | null => {
+    const field = token.field.toLowerCase()
+    const { start, end } = token
+
+    // Report an invalid value, listing what would have been accepted
+    const invalid = (
+      what: string,
+      allowed: string[],
+      from = token.valueStart,
+      to = end
+    ) =>
+      new QuerySyntaxError(
+        `Unknown ${what} "${input.slice(from, to)}" (expected ${allowed.join(', ')})`,
+        from,
+        to
+      )
+
+    switch (field) {
+      case 'status': {
+        const values = splitValues(token).map(({ item, start, end }) => {
+          const status = oneOf(STATUSES, item.toLowerCase())
+          if (!status) throw invalid('status', STATUSES, start, end)
+          return status
+        })
+        return { type: 'status', values, start, end }
+      }
+
+      case 'area':
+      case 'project':
+        return { type: field, value: token.value, start, end }
+
+      case 'tag': {
+        const values = normalizeTags(splitValues(token).map((v) => v.item))
+        if (values.length === 0) {
+          throw new QuerySyntaxError('Expected a tag after "tag:"', start, end)
+        }
+        return { type: 'tag', values, start, end }
+      }
+
+      case 'has': {
+        const property = oneOf(HAS_PROPERTIES, token.value.toLowerCase())
+        if (!property) throw invalid('property', HAS_PROPERTIES)
+        return { type: 'has', property, start, end }
+      }
+
+      case 'is': {
+        const state = oneOf(IS_STATES, token.value.toLowerCase())
+        if (!state) throw invalid('state', IS_STATES)
+        return { type: 'is', state, start, end }
+      }
+
+      case 'sort': {
+        if (nested) {
+          throw new QuerySyntaxError(
+            'sort: must be at the top level (not negated, grouped or in an OR)',
+            start,
+            end
+          )
+        }
+        for (const { item, start, end } of splitValues(token)) {
+          const descending = item.startsWith('-')
+          const name = (descending ? item.slice(1) : item).toLowerCase()
+          const sortField = oneOf(SORT_FIELDS, name)
+          if (!sortField) throw invalid('sort field', SORT_FIELDS, start, end)
+          sort.push({ field: sortField, descending })
+        }
+        return null
+      }
+    }
+
+    if (Object.hasOwn(DATE_FIELDS, field)) {
+      const [, op = '=', dateText] = token.value.match(COMPARISON_PATTERN)!
+      const dateStart =
+        valueOffset(token) + token.value.length - dateText.length
+      if (!dateText) {
+        throw new QuerySyntaxError(
+          `Expected a date after "${token.field}:${op}"`,
+          start,
+          end
+        )
+      }
+      const value = parseDate(dateText)
+      if (!value) {
+        throw new QuerySyntaxError(
+          `Invalid date "${dateText}" (expected today, tomorrow, yesterday, YYYY-MM-DD or an offset like +7d)`,
+          dateStart,
+          dateStart + dateText.length
+        )
+      }
+      return {
+        type: 'date',
+        field: DATE_FIELDS[field],
+        op: op as CompareOp,
+        value,
+        start,
+        end,
+      }
+    }
+
+    throw new QuerySyntaxError(
+      `Unknown field "${token.field}" (expected ${FIELDS.join(', ')})`,
+      start,
+      token.valueStart - 1
+    )
+  }
+
+  // Returns null for terms that don't filter (sort:)
+  const parsePrimary = (nested: boolean): QueryNode | null => {
+    const token = tokens[index++]
+
+    switch (token.kind) {
+      case 'lparen': {
+        if (peek()?.kind === 'rparen') {
+          throw new QuerySyntaxError(
+            'Empty parentheses',
+            token.start,
+            peek()!.end
+          )
+        }
+        const expr = parseOr(true)
+        const close = peek()
+        if (close?.kind !== 'rparen') {
+          throw new QuerySyntaxError(
+            'Missing closing parenthesis',
+            token.start,
+            token.end
+          )
+        }
+        index++
+        return expr && { ...expr, start: token.start, end: close.end }
+      }
+      case 'text':
+        return {
+          type: 'text',
+          value: token.value,
+          start: token.start,
+          end: token.end,
+        }
+      case 'field':
+        return parseField(token, nested)
+      default:
+        // rparen, or and not are handled by the callers
+        throw new QuerySyntaxError('Unexpected token', token.start, token.end)
+    }
+  }
+
+  const parseUnary = (nested: boolean): QueryNode | null => {
+    const token = peek()!
+    if (token.kind !== 'not') return parsePrimary(nested)
+
+    index++
+    if (atTermEnd()) {
+      throw new QuerySyntaxError(
+        'Expected a term after "-"',
+        token.start,
+        token.end
+      )
+    }
+    const child = parseUnary(true)!
+    return { type: 'not', child, start: token.start, end: child.end }
+  }
+
+  const parseAnd = (nested: boolean): QueryNode | null => {
+    const children: QueryNode[] = []
+    while (!atTermEnd()) {
+      const child = parseUnary(nested)
+      if (child) children.push(child)
+    }
+    if (children.length <= 1) return children[0] ?? null
+    return {
+      type: 'and',
+      children,
+      start: children[0].start,
+      end: children.at(-1)!.end,
+    }
+  }
+
+  const parseOr = (nested: boolean): QueryNode | null => {
+    const first = peek()
+    if (first?.kind === 'or') {
+      throw new QuerySyntaxError(
+        'Expected a term before OR',
+        first.start,
+        first.end
+      )
+    }
+
+    const children: QueryNode[] = []
+    let left = parseAnd(nested)
+
+    while (peek()?.kind === 'or') {
+      const or = tokens[index++]
+      if (atTermEnd()) {
+        throw new QuerySyntaxError('Expected a term after OR', or.start, or.end)
+      }
+      // Operands of OR filter, so sort: isn't allowed in them
+      const right = parseAnd(true)
+      if (!left || !right) {
+        throw new QuerySyntaxError(
+          'OR needs a filter term on both sides',
+          or.start,
+          or.end
+        )
+      }
+      if (children.length === 0) children.push(left)
+      children.push(right)
+      left = right
+    }
+
+    if (children.length === 0) return left
+    return {
+      type: 'or',
+      children,
+      start: children[0].start,
+      end: children.at(-1)!.end,
+    }
+  }
+
+  const filter = parseOr(false)
+
+  const extra = peek()
+  if (extra) {
+    // parseOr only stops early at an unmatched ")"
+    throw new QuerySyntaxError('Unexpected ")"', extra.start, extra.end)
+  }
+
+  return { filter, sort }
+}
+
+/** Parse query text, returning a syntax error instead of throwing it */
+export function tryParseQuery(
+  input: string
+):
+  | { query: TaskQuery; error: null }
+  | { query: null; error: QuerySyntaxError } {
+  try {
+    return { query: parseQuery(input), error: null }
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return { query: null, error }
+    throw error
+  }
+}
+
+/**
+ * Whether `input` uses any `field:` term - for inputs that accept both free
+ * text and queries (SearchView, CommandPalette).
+ */
+export function looksLikeQuery(input: string): boolean {
+  return FIELD_TERM_PATTERN.test(input)
+}
@@ -0,0 +1,145 @@
+import { QuerySyntaxError } from './ast'
+
+/**
+ * Query tokenizer.
+ *
+ * Splits query text into terms and operators:
+ * - `field:value` and `field:"quoted value"`
+ * - bare words and `"quoted phrases"` (free text)
+ * - `-` directly before a term or group (negation)
+ * - `OR` (uppercase; terms are ANDed otherwise)
+ * - `(` and `)`
+ */
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type QueryToken =
+  | { kind: 'lparen' | 'rparen' | 'not' | 'or'; start: number; end: number }
+  | { kind: 'text'; value: string; start: number; end: number }
+  | {
+      kind: 'field'
+      field: string
+      value: string
+      start: number
+      end: number
+      /** Where the value starts (after the colon) */
+      valueStart: number
+    }
+
+// -----------------------------------------------------------------------------
+// Tokenizer
+// -----------------------------------------------------------------------------
+
+const isSpace = (ch: string) => /\s/.test(ch)
+
+/** Characters that end an unquoted word */
+const isDelimiter = (ch: string) =>
+  isSpace(ch) || ch === '(' || ch === ')' || ch === '"'
+
+/**
+ * Tokenize `input`. Throws QuerySyntaxError for an unterminated quote or a
+ * field without a value.
+ */
+export function tokenizeQuery(input: string): QueryToken[] {
+  const tokens: QueryToken[] = []
+  let pos = 0
+
+  // Read a quoted string starting at `pos` (on the opening quote)
+  const readQuoted = (): { value: string; end: number } => {
+    const close = input.indexOf('"', pos + 1)
+    if (close === -1) {
+      throw new QuerySyntaxError('Unterminated quote', pos, input.length)
+    }
+    return { value: input.slice(pos + 1, close), end: close + 1 }
+  }
+
+  // Read an unquoted run up to the next delimiter (and, optionally, colon)
+  const readWord = (stopAtColon: boolean): number => {
+    let end = pos
+    while (
+      end < input.length &&
+      !isDelimiter(input[end]) &&
+      !(stopAtColon && input[end] === ':')
+    ) {
+      end++
+    }
+    return end
+  }
+
+  while (pos < input.length) {
+    const ch = input[pos]
+
+    if (isSpace(ch)) {
+      pos++
+      continue
+    }
+
+    if (ch === '(' || ch === ')') {
+      tokens.push({
+        kind: ch === '(' ? 'lparen' : 'rparen',
+        start: pos,
+        end: pos + 1,
+      })
+      pos++
+      continue
+    }
+
+    // `-` negates only when attached to what follows ("-has:due", "-(...)")
+    if (ch === '-' && pos + 1 < input.length && !isSpace(input[pos + 1])) {
+      tokens.push({ kind: 'not', start: pos, end: pos + 1 })
+      pos++
+      continue
+    }
+
+    if (ch === '"') {
+      const { value, end } = readQuoted()
+      tokens.push({ kind: 'text', value, start: pos, end })
+      pos = end
+      continue
+    }
+
+    const start = pos
+    const nameEnd = readWord(true)
+
+    if (input[nameEnd] === ':' && nameEnd > start) {
+      const field = input.slice(start, nameEnd)
+      pos = nameEnd + 1
+      const valueStart = pos
+
+      let value: string
+      if (input[pos] === '"') {
+        const quoted = readQuoted()
+        value = quoted.value
+        pos = quoted.end
+      } else {
+        const valueEnd = readWord(false)
+        value = input.slice(pos, valueEnd)
+        pos = valueEnd
+      }
+
+      if (!value) {
+        throw new QuerySyntaxError(
+          `Expected a value after "${field}:"`,
+          start,
+          valueStart
+        )
+      }
+
+      tokens.push({ kind: 'field', field, value, start, end: pos, valueStart })
+      continue
+    }
+
+    // A plain word
+    pos = readWord(false)
+    const word = input.slice(start, pos)
+    tokens.push(
+      word === 'OR'
+        ? { kind: 'or', start, end: pos }
+        : { kind: 'text', value: word, start, end: pos }
+    )
+  }
+
+  return tokens
+}
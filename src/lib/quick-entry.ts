@@ -0,0 +1,401 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  format,
+  getDaysInMonth,
+  isBefore,
+  isValid,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns'
+
+import type { Area, Project, Task } from '@/types/data'
+
+/**
+ * Natural-language parsing for quick task entry.
+ *
+ * Turns input like "Call dentist tomorrow due fri #Health @Website redesign"
+ * into a title plus task fields:
+ * - Dates: "today", "tomorrow", "friday", "next fri", "next week",
+ *   "in 3 days", "dec 5", "5 december", "2026-12-05"
+ * - A bare date (optionally "on fri") sets `scheduled`. Weekday
+ *   abbreviations are ordinary words too ("sun room", "sat"), so they only
+ *   count after one of the keywords below or "next". Months only count
+ *   with a day ("may 3"), so "we may leave" stays a title
+ * - "due fri" / "by fri" sets `due`
+ * - "defer fri" / "start fri" / "starting fri" sets `deferUntil`
+ * - "#Area" and "@Project" match titles case-insensitively; titles may
+ *   contain spaces and the longest match wins
+ *
+ * Only the first token for each field is used - later ones stay in the
+ * title. Unrecognized words (including "#Unknown") are left untouched.
+ * Token positions are returned so inputs can highlight them while typing.
+ */
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type QuickEntryTokenKind =
+  | 'scheduled'
+  | 'due'
+  | 'defer'
+  | 'area'
+  | 'project'
+
+/** A recognized span of the input, [start, end) */
+export interface QuickEntryToken {
+  kind: QuickEntryTokenKind
+  start: number
+  end: number
+  /** Date (yyyy-MM-dd) for date tokens, area/project ID otherwise */
+  value: string
+}
+
+/** Task fields filled in by quick entry */
+export type QuickEntryFields = Pick<
+  Task,
+  'title' | 'scheduled' | 'due' | 'deferUntil' | 'areaId' | 'projectId'
+>
+
+export interface QuickEntryResult extends QuickEntryFields {
+  tokens: QuickEntryToken[]
+}
+
+export interface QuickEntryContext {
+  areas: Area[]
+  projects: Project[]
+  /** Reference date for relative dates (default: now) */
+  now?: Date
+}
+
+interface Word {
+  text: string
+  start: number
+  end: number
+}
+
+interface DateMatch {
+  date: Date
+  /** Number of words the date expression spans */
+  length: number
+}
+
+// -----------------------------------------------------------------------------
+// Vocabulary
+// -----------------------------------------------------------------------------
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0,
+  monday: 1,
+  tuesday: 2,
+  wednesday: 3,
+  thursday: 4,
+  friday: 5,
+  saturday: 6,
+}
+
+const WEEKDAY_ABBREVIATIONS: Record<string, number> = {
+  sun: 0,
+  mon: 1,
+  tue: 2,
+  tues: 2,
+  wed: 3,
+  thu: 4,
+  thur: 4,
+  thurs: 4,
+  fri: 5,
+  sat: 6,
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 0,
+  january: 0,
+  feb: 1,
+  february: 1,
+  mar: 2,
+  march: 2,
+  apr: 3,
+  april: 3,
+  may: 4,
+  jun: 5,
+  june: 5,
+  jul: 6,
+  july: 6,
+  aug: 7,
+  august: 7,
+  sep: 8,
+  sept: 8,
+  september: 8,
+  oct: 9,
+  october: 9,
+  nov: 10,
+  november: 10,
+  dec: 11,
+  december: 11,
+}
+
+const DATE_PREFIXES: Record<string, 'scheduled' | 'due' | 'defer'> = {
+  on: 'scheduled',
+  due: 'due',
+  by: 'due',
+  defer: 'defer',
+  start: 'defer',
+  starting: 'defer',
+}
+
+const FIELD_BY_KIND = {
+  scheduled: 'scheduled',
+  due: 'due',
+  defer: 'deferUntil',
+  area: 'areaId',
+  project: 'projectId',
+} as const satisfies Record<QuickEntryTokenKind, keyof QuickEntryFields>
+
+// -----------------------------------------------------------------------------
+// Dates
+// -----------------------------------------------------------------------------
+
+/** Own-property lookup, so words like "constructor" don't match */
+function lookup<T>(table: Record<string, T>, key: string | undefined) {
+  return key !== undefined && Object.hasOwn(table, key) ? table[key] : undefined
+}
+
+/** Next given weekday strictly after `today` */
+function getUpcomingWeekday(today: Date, weekday: number): Date {
+  const diff = (weekday - today.getDay() + 7) % 7
+  return addDays(today, diff === 0 ? 7 : diff)
+}
+
+/** Day number like "5", "5th", "22nd" */
+function parseDayNumber(text: string | undefined): number | undefined {
+  const match = text?.match(/^(\d{1,2})(st|nd|rd|th)?$/)
+  return match ? Number(match[1]) : undefined
+}
+
+/** Next occurrence of a month/day on or after `today` */
+function getUpcomingMonthDay(
+  today: Date,
+  month: number,
+  day: number
+): Date | undefined {
+  // Look a few years ahead so Feb 29 finds the next leap year
+  const firstYear = today.getFullYear()
+  for (let year = firstYear; year <= firstYear + 8; year++) {
+    if (day > getDaysInMonth(new Date(year, month))) continue
+    const date = new Date(year, month, day)
+    if (!isBefore(date, today)) return date
+  }
+  return undefined
+}
+
+/**
+ * Match a date expression at the start of `words` (lowercased).
+ * `afterKeyword` allows a lone weekday abbreviation ("due fri").
+ */
+function matchDate(
+  words: string[],
+  today: Date,
+  afterKeyword: boolean
+): DateMatch | undefined {
+  const [first, second, third] = words
+
+  if (first === 'today' || first === 'tonight') {
+    return { date: today, length: 1 }
+  }
+  if (first === 'tomorrow' || first === 'tmrw') {
+    return { date: addDays(today, 1), length: 1 }
+  }
+  const weekday =
+    lookup(WEEKDAYS, first) ??
+    (afterKeyword ? lookup(WEEKDAY_ABBREVIATIONS, first) : undefined)
+  if (weekday !== undefined) {
+    return { date: getUpcomingWeekday(today, weekday), length: 1 }
+  }
+
+  if (first === 'next' && second) {
+    const nextWeek = startOfWeek(addWeeks(today, 1), { weekStartsOn: 1 })
+    if (second === 'week') return { date: nextWeek, length: 2 }
+    if (second === 'month') {
+      return { date: startOfMonth(addMonths(today, 1)), length: 2 }
+    }
+    const nextWeekday =
+      lookup(WEEKDAYS, second) ?? lookup(WEEKDAY_ABBREVIATIONS, second)
+    if (nextWeekday !== undefined) {
+      // The weekday in next week (Monday-first, like the calendars)
+      const offset = (nextWeekday + 6) % 7
+      return { date: addDays(nextWeek, offset), length: 2 }
+    }
+  }
+
+  // "in 3 days", "in a week", "in 2 months"
+  if (first === 'in' && second && third) {
+    const amount = second === 'a' || second === 'an' ? 1 : Number(second)
+    if (Number.isInteger(amount) && amount > 0) {
+      if (/^days?$/.test(third)) {
+        return { date: addDays(today, amount), length: 3 }
+      }
+      if (/^weeks?$/.test(third)) {
+        return { date: addWeeks(today, amount), length: 3 }
+      }
+      if (/^months?$/.test(third)) {
+        return { date: addMonths(today, amount), length: 3 }
+      }
+    }
+  }
+
+  // "dec 5" / "december 5th"
+  const month = lookup(MONTHS, first)
+  if (month !== undefined) {
+    const day = parseDayNumber(second)
+    const date = day && getUpcomingMonthDay(today, month, day)
+    if (date) return { date, length: 2 }
+  }
+
+  // "5 dec" / "5th december"
+  const day = parseDayNumber(first)
+  const dayMonth = lookup(MONTHS, second)
+  if (day && dayMonth !== undefined) {
+    const date = getUpcomingMonthDay(today, dayMonth, day)
+    if (date) return { date, length: 2 }
+  }
+
+  // "2026-12-05"
+  if (/^\d{4}-\d{2}-\d{2}$/.test(first)) {
+    const date = parseISO(first)
+    if (isValid(date)) return { date, length: 1 }
+  }
+
+  return undefined
+}
+
+// -----------------------------------------------------------------------------
+// Areas & Projects
+// -----------------------------------------------------------------------------
+
+/**
+ * Match the longest title from `items` right after the sigil at `start`.
+ * The title must end at a word boundary. Returns the item and match end.
+ */
+function matchTitle<T extends { id: string; title: string }>(
+  input: string,
+  start: number,
+  items: T[]
+): { item: T; end: number } | undefined {
+  const rest = input.slice(start + 1).toLowerCase()
+  let best: { item: T; end: number } | undefined
+
+  for (const item of items) {
+    const title = item.title.trim().toLowerCase()
+    if (!title || !rest.startsWith(title)) continue
+    const next = rest[title.length]
+    if (next !== undefined && !/\s/.test(next)) continue
+    const end = start + 1 + title.length
+    if (!best || end > best.end) best = { item, end }
+  }
+
+  return best
+}
+
+// -----------------------------------------------------------------------------
+// Parser
+// -----------------------------------------------------------------------------
+
+/** Split into words with their positions in the input */
+function getWords(input: string): Word[] {
+  return Array.from(input.matchAll(/\S+/g), (m) => ({
+    text: m[0],
+    start: m.index,
+    end: m.index + m[0].length,
+  }))
+}
+
+/** Index of the first word starting at or after `position` */
+function findWordIndex(words: Word[], position: number): number {
+  const index = words.findIndex((w) => w.start >= position)
+  return index === -1 ? words.length : index
+}
+
+/** Parse quick-entry input into a title, task fields and token positions */
+export function parseQuickEntry(
+  input: string,
+  { areas, projects, now = new Date() }: QuickEntryContext
+): QuickEntryResult {
+  const today = startOfDay(now)
+  const words = getWords(input)
+  const lower = words.map((w) => w.text.toLowerCase())
+  const tokens: QuickEntryToken[] = []
+  const used = new Set<QuickEntryTokenKind>()
+
+  let i = 0
+  while (i < words.length) {
+    const word = words[i]
+    let token: QuickEntryToken | undefined
+    let nextIndex = i + 1
+
+    if (word.text.startsWith('#') || word.text.startsWith('@')) {
+      const kind = word.text.startsWith('#') ? 'area' : 'project'
+      const match = matchTitle<Area | Project>(
+        input,
+        word.start,
+        kind === 'area' ? areas : projects
+      )
+      if (match) {
+        token = {
+          kind,
+          start: word.start,
+          end: match.end,
+          value: match.item.id,
+        }
+        nextIndex = findWordIndex(words, match.end)
+      }
+    } else {
+      const prefix = lookup(DATE_PREFIXES, lower[i])
+      const offset = prefix ? 1 : 0
+      const kind = prefix ?? 'scheduled'
+      const match = matchDate(
+        lower.slice(i + offset, i + offset + 3),
+        today,
+        prefix !== undefined
+      )
+      if (match) {
+        const last = words[i + offset + match.length - 1]
+        token = {
+          kind,
+          start: word.start,
+          end: last.end,
+          value: format(match.date, 'yyyy-MM-dd'),
+        }
+        nextIndex = i + offset + match.length
+      }
+    }
+
+    // Repeats of a field are skipped over but stay in the title
+    if (token && !used.has(token.kind)) {
+      tokens.push(token)
+      used.add(token.kind)
+    }
+    i = nextIndex
+  }
+
+  // Title is whatever is left, with the gaps collapsed
+  let title = ''
+  let position = 0
+  for (const token of tokens) {
+    title += input.slice(position, token.start) + ' '
+    position = token.end
+  }
+  title += input.slice(position)
+
+  const result: QuickEntryResult = {
+    title: title.replace(/\s+/g, ' ').trim(),
+    tokens,
+  }
+  for (const token of tokens) {
+    result[FIELD_BY_KIND[token.kind]] = token.value
+  }
+  return result
+}
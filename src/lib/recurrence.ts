@@ -0,0 +1,366 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarDays,
+  format,
+  getDaysInMonth,
+  isAfter,
+  isBefore,
+  parseISO,
+  setDate,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns'
+
+import type { Recurrence, Task, Weekday } from '@/types/data'
+
+/**
+ * Recurrence rules for repeating tasks.
+ *
+ * Completing a recurring task spawns the next instance with its dates
+ * shifted to the next occurrence (see AppDataProvider). The calendars use
+ * `getProjectedDates` to preview future occurrences without creating tasks.
+ *
+ * Rules are stored in S1 files as RRULE-style strings (`toRRule` /
+ * `parseRRule`), e.g. `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE`. The
+ * after-completion rule has no RRULE equivalent and is written as
+ * `FREQ=DAILY;INTERVAL=3;X-FROM=COMPLETION`.
+ */
+
+// Stop runaway loops (e.g., projecting a daily rule from years ago)
+const MAX_STEPS = 5000
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const ORDINALS: Record<number, string> = {
+  1: '1st',
+  2: '2nd',
+  3: '3rd',
+  4: '4th',
+  [-1]: 'last',
+}
+
+// -----------------------------------------------------------------------------
+// Date Helpers
+// -----------------------------------------------------------------------------
+
+/** Parse the date part of an ISO date/datetime as a local day */
+function toDay(value: string): Date {
+  return startOfDay(parseISO(value.slice(0, 10)))
+}
+
+/** Shift an ISO date or datetime by whole days, keeping its format */
+function shiftDate(value: string, days: number): string {
+  const shifted = format(addDays(toDay(value), days), 'yyyy-MM-dd')
+  return shifted + value.slice(10)
+}
+
+/** Monday-first position, so weeks run Mon-Sun like the calendars */
+function weekPosition(weekday: number): number {
+  return (weekday + 6) % 7
+}
+
+/** The nth (or last, for -1) given weekday of the month containing `month` */
+function getNthWeekdayOfMonth(
+  month: Date,
+  week: number,
+  weekday: Weekday
+): Date {
+  const first = startOfMonth(month)
+  if (week === -1) {
+    const last = setDate(first, getDaysInMonth(first))
+    return addDays(last, -((last.getDay() - weekday + 7) % 7))
+  }
+  const firstMatch = addDays(first, (weekday - first.getDay() + 7) % 7)
+  return addWeeks(firstMatch, week - 1)
+}
+
+/** Day of month clamped to the month's length (e.g., 31 -> Feb 28) */
+function getDayOfMonth(month: Date, day: number): Date {
+  const first = startOfMonth(month)
+  return setDate(first, Math.min(day, getDaysInMonth(first)))
+}
+
+// -----------------------------------------------------------------------------
+// Occurrences
+// -----------------------------------------------------------------------------
+
+/** The first occurrence strictly after `from` (a local day) */
+export function getNextOccurrence(rule: Recurrence, from: Date): Date {
+  const interval = Math.max(1, Math.floor(rule.interval))
+  const day = startOfDay(from)
+
+  switch (rule.type) {
+    case 'daily':
+    case 'after-completion':
+      return addDays(day, interval)
+
+    case 'weekly': {
+      const weekdays = [
+        ...new Set(rule.weekdays.length > 0 ? rule.weekdays : [day.getDay()]),
+      ].sort((a, b) => weekPosition(a) - weekPosition(b))
+
+      // Later this week
+      const laterThisWeek = weekdays.find(
+        (w) => weekPosition(w) > weekPosition(day.getDay())
+      )
+      if (laterThisWeek !== undefined) {
+        return addDays(
+          day,
+          weekPosition(laterThisWeek) - weekPosition(day.getDay())
+        )
+      }
+
+      // First matching day `interval` weeks on
+      const nextWeek = addWeeks(startOfWeek(day, { weekStartsOn: 1 }), interval)
+      return addDays(nextWeek, weekPosition(weekdays[0]))
+    }
+
+    case 'monthly': {
+      const thisMonth = getDayOfMonth(day, rule.day)
+      if (isAfter(thisMonth, day)) return thisMonth
+      return getDayOfMonth(addMonths(startOfMonth(day), interval), rule.day)
+    }
+
+    case 'monthly-weekday': {
+      const thisMonth = getNthWeekdayOfMonth(day, rule.week, rule.weekday)
+      if (isAfter(thisMonth, day)) return thisMonth
+      return getNthWeekdayOfMonth(
+        addMonths(startOfMonth(day), interval),
+        rule.week,
+        rule.weekday
+      )
+    }
+
+    case 'yearly':
+      return addYears(day, interval)
+  }
+}
+
+/** The date a task's recurrence steps from: scheduled, else due, else defer */
+function getAnchor(task: Task): string | undefined {
+  return task.scheduled ?? task.due ?? task.deferUntil
+}
+
+/**
+ * Dates for the instance that follows `task` once it's completed at
+ * `completedAt`. All of scheduled/due/deferUntil move by the same number of
+ * days. Occurrences that were missed while the task sat overdue are skipped.
+ * A task without dates gets the next occurrence as its scheduled date.
+ */
+export function getNextRecurrenceDates(
+  task: Task,
+  completedAt: string
+): Pick<Task, 'scheduled' | 'due' | 'deferUntil'> {
+  const rule = task.recurrence
+  // A UTC timestamp - its local day, not the day in its date part
+  const completedOn = startOfDay(new Date(completedAt))
+  const anchor = getAnchor(task)
+  if (!rule) return {}
+
+  const anchorDay = anchor ? toDay(anchor) : completedOn
+  let next = getNextOccurrence(
+    rule,
+    rule.type === 'after-completion' ? completedOn : anchorDay
+  )
+  for (let i = 0; i < MAX_STEPS && !isAfter(next, completedOn); i++) {
+    next = getNextOccurrence(rule, next)
+  }
+
+  if (!anchor) return { scheduled: format(next, 'yyyy-MM-dd') }
+
+  const days = differenceInCalendarDays(next, anchorDay)
+  return {
+    scheduled: task.scheduled && shiftDate(task.scheduled, days),
+    due: task.due && shiftDate(task.due, days),
+    deferUntil: task.deferUntil && shiftDate(task.deferUntil, days),
+  }
+}
+
+/**
+ * Future display dates (yyyy-MM-dd) of a recurring task within
+ * [start, end], excluding the task's own date. Calendars show a task on its
+ * scheduled date, else its defer date, so projections follow the same rule.
+ * After-completion rules can't be projected and return nothing.
+ */
+export function getProjectedDates(
+  task: Task,
+  start: Date,
+  end: Date
+): string[] {
+  const rule = task.recurrence
+  const anchor = getAnchor(task)
+  const display = task.scheduled ?? task.deferUntil
+  if (!rule || rule.type === 'after-completion' || !anchor || !display) {
+    return []
+  }
+  if (task.status === 'done' || task.status === 'dropped') return []
+
+  const offset = differenceInCalendarDays(toDay(display), toDay(anchor))
+  const dates: string[] = []
+  let occurrence = toDay(anchor)
+
+  for (let i = 0; i < MAX_STEPS; i++) {
+    occurrence = getNextOccurrence(rule, occurrence)
+    const date = addDays(occurrence, offset)
+    if (isAfter(date, end)) break
+    if (!isBefore(date, startOfDay(start))) {
+      dates.push(format(date, 'yyyy-MM-dd'))
+    }
+  }
+
+  return dates
+}
+
+/** Group projected occurrences of `tasks` by date for the given day keys */
+export function getProjectedTasksByDate(
+  tasks: Task[],
+  dateKeys: string[]
+): Map<string, Task[]> {
+  const map = new Map<string, Task[]>()
+  if (dateKeys.length === 0) return map
+
+  const start = toDay(dateKeys[0])
+  const end = toDay(dateKeys[dateKeys.length - 1])
+
+  for (const task of tasks) {
+    for (const date of getProjectedDates(task, start, end)) {
+      map.set(date, [...(map.get(date) ?? []), task])
+    }
+  }
+
+  return map
+}
+
+// -----------------------------------------------------------------------------
+// Formatting
+// -----------------------------------------------------------------------------
+
+/** e.g. "2nd Tue", "last Fri" */
+export function formatNthWeekday(week: number, weekday: Weekday): string {
+  return `${ORDINALS[week]} ${WEEKDAY_NAMES[weekday]}`
+}
+
+/** Human-readable summary, e.g. "Every 2 weeks on Mon, Wed" */
+export function formatRecurrence(rule: Recurrence): string {
+  const n = Math.max(1, rule.interval)
+  const every = (unit: string, single: string) =>
+    n === 1 ? single : `Every ${n} ${unit}`
+
+  switch (rule.type) {
+    case 'daily':
+      return every('days', 'Daily')
+    case 'weekly': {
+      const days = [...rule.weekdays]
+        .sort((a, b) => weekPosition(a) - weekPosition(b))
+        .map((d) => WEEKDAY_NAMES[d])
+      const base = every('weeks', 'Weekly')
+      return days.length > 0 ? `${base} on ${days.join(', ')}` : base
+    }
+    case 'monthly':
+      return `${every('months', 'Monthly')} on day ${rule.day}`
+    case 'monthly-weekday':
+      return `${every('months', 'Monthly')} on the ${formatNthWeekday(rule.week, rule.weekday)}`
+    case 'yearly':
+      return every('years', 'Yearly')
+    case 'after-completion':
+      return `${n} ${n === 1 ? 'day' : 'days'} after completion`
+  }
+}
+
+// -----------------------------------------------------------------------------
+// RRULE Conversion
+// -----------------------------------------------------------------------------
+
+/** Serialize a rule as an RRULE-style string */
+export function toRRule(rule: Recurrence): string {
+  const parts: string[] = []
+
+  switch (rule.type) {
+    case 'daily':
+    case 'after-completion':
+      parts.push('FREQ=DAILY')
+      break
+    case 'weekly':
+      parts.push('FREQ=WEEKLY')
+      break
+    case 'monthly':
+    case 'monthly-weekday':
+      parts.push('FREQ=MONTHLY')
+      break
+    case 'yearly':
+      parts.push('FREQ=YEARLY')
+      break
+  }
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+
+  if (rule.type === 'weekly' && rule.weekdays.length > 0) {
+    parts.push(`BYDAY=${rule.weekdays.map((d) => WEEKDAY_CODES[d]).join(',')}`)
+  }
+  if (rule.type === 'monthly') parts.push(`BYMONTHDAY=${rule.day}`)
+  if (rule.type === 'monthly-weekday') {
+    parts.push(`BYDAY=${rule.week}${WEEKDAY_CODES[rule.weekday]}`)
+  }
+  if (rule.type === 'after-completion') parts.push('X-FROM=COMPLETION')
+
+  return parts.join(';')
+}
+
+function parseWeekdayCode(code: string): Weekday | undefined {
+  const index = WEEKDAY_CODES.indexOf(code as (typeof WEEKDAY_CODES)[number])
+  return index === -1 ? undefined : (index as Weekday)
+}
+
+/** Parse an RRULE-style string. Returns undefined if it isn't supported. */
+export function parseRRule(value: string): Recurrence | undefined {
+  const fields = new Map<string, string>()
+  for (const part of value.replace(/^RRULE:/i, '').split(';')) {
+    const [key, val] = part.split('=')
+    if (key && val)
+      fields.set(key.trim().toUpperCase(), val.trim().toUpperCase())
+  }
+
+  const interval = Number(fields.get('INTERVAL') ?? '1')
+  if (!Number.isInteger(interval) || interval < 1) return undefined
+  const byDay = fields.get('BYDAY')
+
+  switch (fields.get('FREQ')) {
+    case 'DAILY':
+      return fields.get('X-FROM') === 'COMPLETION'
+        ? { type: 'after-completion', interval }
+        : { type: 'daily', interval }
+
+    case 'WEEKLY': {
+      const weekdays = (byDay ? byDay.split(',') : []).map(parseWeekdayCode)
+      if (weekdays.some((d) => d === undefined)) return undefined
+      return { type: 'weekly', interval, weekdays: weekdays as Weekday[] }
+    }
+
+    case 'MONTHLY': {
+      if (byDay) {
+        const match = byDay.match(/^(-1|[1-4])([A-Z]{2})$/)
+        const weekday = match ? parseWeekdayCode(match[2]) : undefined
+        if (!match || weekday === undefined) return undefined
+        return {
+          type: 'monthly-weekday',
+          interval,
+          week: Number(match[1]) as 1 | 2 | 3 | 4 | -1,
+          weekday,
+        }
+      }
+      const day = Number(fields.get('BYMONTHDAY'))
+      if (!Number.isInteger(day) || day < 1 || day > 31) return undefined
+      return { type: 'monthly', interval, day }
+    }
+
+    case 'YEARLY':
+      return { type: 'yearly', interval }
+
+    default:
+      return undefined
+  }
+}
@@ -0,0 +1,158 @@
+import { differenceInCalendarDays, format, parseISO } from 'date-fns'
+
+import type { AppData, Area, Project, Task } from '@/types/data'
+import { isProjectBlocked } from '@/lib/project-dependencies'
+
+/**
+ * Weekly review of active projects and areas.
+ *
+ * Each project and area records when it was last reviewed
+ * (`lastReviewedAt`); one that hasn't been reviewed within
+ * REVIEW_INTERVAL_DAYS is due. Findings point out what needs attention:
+ * stale and overdue tasks, projects without a next action, and blocked
+ * projects.
+ */
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type ReviewItem =
+  | { type: 'project'; project: Project }
+  | { type: 'area'; area: Area }
+
+export interface ReviewFindings {
+  /** Open tasks untouched for STALE_TASK_DAYS or more */
+  staleTasks: Task[]
+  /** Open tasks due before today */
+  overdueTasks: Task[]
+  /** Unblocked projects without a ready or in-progress task */
+  projectsWithoutNextAction: Project[]
+  /** Projects that are blocked (see lib/project-dependencies) */
+  blockedProjects: Project[]
+}
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+export const REVIEW_INTERVAL_DAYS = 7
+
+export const STALE_TASK_DAYS = 30
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+const isActiveProject = (project: Project) =>
+  project.status !== 'done' && project.status !== 'paused'
+
+const isOpenTask = (task: Task) =>
+  task.status !== 'done' && task.status !== 'dropped'
+
+/** Whether an entity hasn't been reviewed within the review interval */
+export function isReviewDue(
+  entity: { lastReviewedAt?: string },
+  now = new Date()
+): boolean {
+  if (!entity.lastReviewedAt) return true
+  const days = differenceInCalendarDays(now, parseISO(entity.lastReviewedAt))
+  return days >= REVIEW_INTERVAL_DAYS
+}
+
+/** Whether a project is due for review; done and paused ones never are */
+export function isProjectReviewDue(project: Project, now = new Date()) {
+  return isActiveProject(project) && isReviewDue(project, now)
+}
+
+/** Stable ID for a review item (IDs are unique across entity types) */
+export function getReviewItemId(item: ReviewItem): string {
+  return item.type === 'project' ? item.project.id : item.area.id
+}
+
+export function getReviewItemEntity(item: ReviewItem): Project | Area {
+  return item.type === 'project' ? item.project : item.area
+}
+
+// -----------------------------------------------------------------------------
+// Review Items
+// -----------------------------------------------------------------------------
+
+/**
+ * Everything to step through: each active area followed by its active
+ * projects, then active projects without an area. `areas` and `projects`
+ * are expected to be active already (getActiveAreas/getActiveProjects).
+ */
+export function getReviewItems(
+  areas: Area[],
+  projects: Project[]
+): ReviewItem[] {
+  const items: ReviewItem[] = []
+  const areaIds = new Set(areas.map((a) => a.id))
+
+  for (const area of areas) {
+    items.push({ type: 'area', area })
+    for (const project of projects) {
+      if (project.areaId === area.id) items.push({ type: 'project', project })
+    }
+  }
+  for (const project of projects) {
+    if (!project.areaId || !areaIds.has(project.areaId)) {
+      items.push({ type: 'project', project })
+    }
+  }
+  return items
+}
+
+// -----------------------------------------------------------------------------
+// Findings
+// -----------------------------------------------------------------------------
+
+/**
+ * What needs attention in a review item. A project is checked on its own
+ * tasks; an area on its loose tasks and its active projects.
+ */
+export function getReviewFindings(
+  item: ReviewItem,
+  data: AppData,
+  now = new Date()
+): ReviewFindings {
+  const projects =
+    item.type === 'project'
+      ? [item.project]
+      : data.projects.filter(
+          (p) => p.areaId === item.area.id && isActiveProject(p)
+        )
+  const tasks = data.tasks.filter((task) =>
+    item.type === 'project'
+      ? task.projectId === item.project.id
+      : task.areaId === item.area.id && !task.projectId
+  )
+  const openTasks = tasks.filter(isOpenTask)
+  const today = format(now, 'yyyy-MM-dd')
+
+  const hasNextAction = (project: Project) =>
+    data.tasks.some(
+      (t) =>
+        t.projectId === project.id &&
+        (t.status === 'ready' || t.status === 'in-progress')
+    )
+
+  return {
+    staleTasks: openTasks.filter(
+      (t) =>
+        t.status !== 'icebox' &&
+        differenceInCalendarDays(now, parseISO(t.updatedAt)) >= STALE_TASK_DAYS
+    ),
+    overdueTasks: openTasks.filter((t) => t.due && t.due.slice(0, 10) < today),
+    projectsWithoutNextAction: projects.filter(
+      (p) => !isProjectBlocked(p, data.projects) && !hasNextAction(p)
+    ),
+    blockedProjects: projects.filter((p) => isProjectBlocked(p, data.projects)),
+  }
+}
+
+/** Whether a review item has nothing that needs attention */
+export function hasNoFindings(findings: ReviewFindings): boolean {
+  return Object.values(findings).every((list) => list.length === 0)
+}
@@ -0,0 +1,62 @@
+import { parse, stringify } from 'yaml'
+
+/**
+ * Low-level helpers for markdown files with YAML frontmatter.
+ *
+ * Knows nothing about tasks/projects/areas - see serializer.ts for the
+ * S1 entity mapping.
+ */
+
+export interface FrontmatterDocument {
+  frontmatter: Record<string, unknown>
+  /** Markdown body with surrounding blank lines trimmed */
+  body: string
+}
+
+// Opening fence, optional YAML block, closing fence, then the body
+const FRONTMATTER_PATTERN =
+  /^---\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)([\s\S]*)$/
+
+/**
+ * Split a markdown file into its frontmatter object and body.
+ * Files without a frontmatter block are treated as body-only.
+ * Throws if the frontmatter is not a YAML mapping.
+ */
+export function splitFrontmatter(content: string): FrontmatterDocument {
+  const match = content.match(FRONTMATTER_PATTERN)
+  if (!match) {
+    return { frontmatter: {}, body: content.trim() }
+  }
+
+  const [, yamlSource = '', body] = match
+  const parsed: unknown = yamlSource.trim() ? parse(yamlSource) : {}
+
+  if (parsed === null || parsed === undefined) {
+    return { frontmatter: {}, body: body.trim() }
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Frontmatter must be a YAML mapping')
+  }
+
+  return { frontmatter: parsed as Record<string, unknown>, body: body.trim() }
+}
+
+/**
+ * Join a frontmatter object and markdown body into file content.
+ * Keys with undefined values are omitted. Key order is preserved.
+ */
+export function joinFrontmatter(
+  frontmatter: Record<string, unknown>,
+  body?: string
+): string {
+  const defined = Object.fromEntries(
+    Object.entries(frontmatter).filter(([, value]) => value !== undefined)
+  )
+  // lineWidth 0 disables folding so long titles stay on one line
+  const yamlSource = stringify(defined, { lineWidth: 0 })
+  const trimmedBody = body?.trim()
+
+  return trimmedBody
+    ? `---\n${yamlSource}---\n\n${trimmedBody}\n`
+    : `---\n${yamlSource}---\n`
+}
@@ -0,0 +1,21 @@
+export { splitFrontmatter, joinFrontmatter } from './frontmatter'
+export {
+  S1ParseError,
+  parseTask,
+  serializeTask,
+  parseProject,
+  serializeProject,
+  parseProjectHeadings,
+  parseArea,
+  serializeArea,
+  parseWikilink,
+  toWikilink,
+} from './serializer'
+export {
+  readVault,
+  writeVault,
+  VAULT_DIRECTORIES,
+  type VaultFile,
+  type VaultReadError,
+  type VaultReadResult,
+} from './vault'
@@ -0,0 +1,643 @@
+import type {
+  Area,
+  AreaStatus,
+  ChecklistItem,
+  Project,
+  ProjectStatus,
+  Recurrence,
+  Task,
+  TaskStatus,
+  TimeEntry,
+  UnknownFrontmatter,
+} from '@/types/data'
+import {
+  isHeadingId,
+  parseHeadingId,
+  toHeadingId,
+  type HeadingColor,
+  type HeadingList,
+} from '@/types/headings'
+import { parseRRule, toRRule } from '@/lib/recurrence'
+import { parseTime, toTime } from '@/lib/time-blocks'
+import { normalizeTags } from '@/lib/tags'
+import { joinFrontmatter, splitFrontmatter } from './frontmatter'
+
+/**
+ * Taskdn S1 entity serializer.
+ *
+ * Maps Task, Project and Area to/from markdown files with YAML frontmatter.
+ * Entity IDs are the file name without extension, and references between
+ * entities are wikilinks to that name (e.g. `area: "[[health]]"`).
+ *
+ * Frontmatter keys the app doesn't understand are kept on the entity's
+ * `frontmatter` field and written back after the known keys, so files
+ * round-trip without losing data added by other tools.
+ *
+ * A project's headings (AppData.headings) are kept in its body, after the
+ * notes - see "Project Headings" below. So is a task's checklist - see
+ * "Task Checklist".
+ */
+
+// -----------------------------------------------------------------------------
+// Errors
+// -----------------------------------------------------------------------------
+
+export class S1ParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'S1ParseError'
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Known Keys
+// -----------------------------------------------------------------------------
+
+const TASK_STATUSES: TaskStatus[] = [
+  'inbox',
+  'icebox',
+  'ready',
+  'in-progress',
+  'blocked',
+  'dropped',
+  'done',
+]
+
+const PROJECT_STATUSES: ProjectStatus[] = [
+  'planning',
+  'ready',
+  'blocked',
+  'in-progress',
+  'paused',
+  'done',
+]
+
+const AREA_STATUSES: AreaStatus[] = ['active', 'archived']
+
+// `project` (singular) is accepted on read for hand-written files but
+// always written back as the spec's `projects` array. A task belongs to one
+// project; further `projects` links are kept as `frontmatter.projects`
+// (IDs) and written back after it
+const TASK_KEYS = [
+  'title',
+  'status',
+  'created-at',
+  'updated-at',
+  'completed-at',
+  'area',
+  'projects',
+  'project',
+  'due',
+  'scheduled',
+  'start-time',
+  'duration',
+  'estimate',
+  'defer-until',
+  'recurrence',
+  'tags',
+  'blocked-by',
+  'time-entries',
+]
+
+const PROJECT_KEYS = [
+  'title',
+  'status',
+  'area',
+  'description',
+  'start-date',
+  'end-date',
+  'blocked-by',
+  'tags',
+  'last-reviewed-at',
+]
+
+// icon/color are app-specific but stored in the file so they survive a reload
+const AREA_KEYS = [
+  'title',
+  'status',
+  'type',
+  'description',
+  'last-reviewed-at',
+  'icon',
+  'color',
+]
+
+// -----------------------------------------------------------------------------
+// Field Helpers
+// -----------------------------------------------------------------------------
+
+/** Create a wikilink reference to an entity */
+export function toWikilink(id: string): string {
+  return `[[${id}]]`
+}
+
+/**
+ * Extract the target from a wikilink. Handles aliases (`[[id|Title]]`) and
+ * heading anchors (`[[id#Heading]]`). Bare strings are returned as-is.
+ */
+export function parseWikilink(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined
+  const trimmed = value.trim()
+  if (!trimmed) return undefined
+
+  const match = trimmed.match(/^\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]$/)
+  return (match ? match[1] : trimmed).trim() || undefined
+}
+
+function readString(
+  frontmatter: Record<string, unknown>,
+  key: string
+): string | undefined {
+  const value = frontmatter[key]
+  if (value === null || value === undefined) return undefined
+  if (typeof value === 'string') return value.trim() || undefined
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value)
+  }
+  throw new S1ParseError(`"${key}" must be a string`)
+}
+
+function readStatus<T extends string>(
+  frontmatter: Record<string, unknown>,
+  allowed: T[]
+): T | undefined {
+  const value = readString(frontmatter, 'status')
+  if (value === undefined) return undefined
+  if (!allowed.includes(value as T)) {
+    throw new S1ParseError(
+      `Invalid status "${value}" (expected one of: ${allowed.join(', ')})`
+    )
+  }
+  return value as T
+}
+
+function readLinkList(
+  frontmatter: Record<string, unknown>,
+  key: string
+): string[] {
+  const value = frontmatter[key]
+  if (value === null || value === undefined) return []
+  const items = Array.isArray(value) ? value : [value]
+  return items
+    .map((item) => parseWikilink(item))
+    .filter((id): id is string => id !== undefined)
+}
+
+function readPositiveInteger(
+  frontmatter: Record<string, unknown>,
+  key: string
+): number | undefined {
+  const value = readString(frontmatter, key)
+  if (value === undefined) return undefined
+  const number = Number(value)
+  if (!Number.isInteger(number) || number <= 0) {
+    throw new S1ParseError(`"${key}" must be a positive whole number`)
+  }
+  return number
+}
+
+// Start times aren't part of S1 - the app stores them as "HH:mm"
+function readStartTime(
+  frontmatter: Record<string, unknown>
+): string | undefined {
+  const value = readString(frontmatter, 'start-time')
+  if (value === undefined) return undefined
+  const minutes = parseTime(value)
+  if (minutes === undefined) {
+    throw new S1ParseError(`Invalid start time "${value}" (expected HH:mm)`)
+  }
+  return toTime(minutes)
+}
+
+// Time entries aren't part of S1 - the app stores each as an ISO 8601
+// interval, "start/end", with nothing after the slash while it runs
+function readTimeEntries(
+  frontmatter: Record<string, unknown>,
+  id: string
+): TimeEntry[] | undefined {
+  const value = frontmatter['time-entries']
+  if (value === null || value === undefined) return undefined
+  const items = Array.isArray(value) ? value : [value]
+  const entries = items.map((item, index): TimeEntry => {
+    const [start, end] = String(item).trim().split('/')
+    const isValid = (time: string) => !Number.isNaN(Date.parse(time))
+    if (!start || !isValid(start) || (end && !isValid(end))) {
+      throw new S1ParseError(
+        `Invalid time entry "${item}" (expected start/end)`
+      )
+    }
+    return { id: `${id}-time-${index + 1}`, start, end: end || undefined }
+  })
+  return entries.length > 0 ? entries : undefined
+}
+
+// Accepts a YAML list or a single comma-separated string (`tags: a, b`)
+function readTags(frontmatter: Record<string, unknown>): string[] | undefined {
+  const value = frontmatter['tags']
+  if (value === null || value === undefined) return undefined
+  const items = Array.isArray(value) ? value : String(value).split(',')
+  const tags = normalizeTags(items.map(String))
+  return tags.length > 0 ? tags : undefined
+}
+
+// Recurrence isn't part of S1 - the app stores it as an RRULE string
+function readRecurrence(
+  frontmatter: Record<string, unknown>
+): Recurrence | undefined {
+  const value = readString(frontmatter, 'recurrence')
+  if (value === undefined) return undefined
+  const rule = parseRRule(value)
+  if (!rule) throw new S1ParseError(`Unsupported recurrence "${value}"`)
+  return rule
+}
+
+/** Collect frontmatter keys not in the known list */
+function pickUnknown(
+  frontmatter: Record<string, unknown>,
+  knownKeys: string[]
+): UnknownFrontmatter | undefined {
+  const unknown = Object.entries(frontmatter).filter(
+    ([key]) => !knownKeys.includes(key)
+  )
+  return unknown.length > 0 ? Object.fromEntries(unknown) : undefined
+}
+
+/** Drop unknown keys that would shadow a known key on write */
+function withoutKnown(
+  unknown: UnknownFrontmatter | undefined,
+  knownKeys: string[]
+): UnknownFrontmatter {
+  if (!unknown) return {}
+  return Object.fromEntries(
+    Object.entries(unknown).filter(([key]) => !knownKeys.includes(key))
+  )
+}
+
+// -----------------------------------------------------------------------------
+// Task
+// -----------------------------------------------------------------------------
+
+export function parseTask(content: string, id: string): Task {
+  const { frontmatter, body: fullBody } = splitFrontmatter(content)
+  const { body, checklist } = splitTaskBody(fullBody)
+
+  const status = readStatus(frontmatter, TASK_STATUSES)
+  if (!status) {
+    throw new S1ParseError('Task is missing required "status"')
+  }
+
+  const createdAt =
+    readString(frontmatter, 'created-at') ??
+    readString(frontmatter, 'updated-at') ??
+    new Date().toISOString()
+
+  const projectIds = [
+    ...new Set([
+      ...readLinkList(frontmatter, 'projects'),
+      ...readLinkList(frontmatter, 'project'),
+    ]),
+  ]
+  const unknown = pickUnknown(frontmatter, TASK_KEYS)
+  const blockedBy = readLinkList(frontmatter, 'blocked-by')
+
+  return {
+    id,
+    title: readString(frontmatter, 'title') ?? id,
+    status,
+    createdAt,
+    updatedAt: readString(frontmatter, 'updated-at') ?? createdAt,
+    completedAt: readString(frontmatter, 'completed-at'),
+    areaId: parseWikilink(frontmatter['area']),
+    // S1 allows a list but a task belongs to at most one project
+    projectId: projectIds[0],
+    due: readString(frontmatter, 'due'),
+    scheduled: readString(frontmatter, 'scheduled'),
+    startTime: readStartTime(frontmatter),
+    duration: readPositiveInteger(frontmatter, 'duration'),
+    estimate: readPositiveInteger(frontmatter, 'estimate'),
+    deferUntil: readString(frontmatter, 'defer-until'),
+    recurrence: readRecurrence(frontmatter),
+    tags: readTags(frontmatter),
+    blockedBy: blockedBy.length > 0 ? blockedBy : undefined,
+    checklist: checklist ? parseChecklist(checklist, id) : undefined,
+    timeEntries: readTimeEntries(frontmatter, id),
+    notes: body || undefined,
+    frontmatter:
+      projectIds.length > 1
+        ? { ...unknown, projects: projectIds.slice(1) }
+        : unknown,
+  }
+}
+
+/**
+ * The task's `projects` links: its project, then any others the file listed
+ * (see TASK_KEYS). The others are only written alongside a project - once
+ * the task leaves its project, the first of them would take its place.
+ */
+function getProjectLinks(task: Task): string[] | undefined {
+  if (!task.projectId) return undefined
+  const others = task.frontmatter?.['projects']
+  const ids = [
+    task.projectId,
+    ...(Array.isArray(others) ? others.map(String) : []),
+  ]
+  return [...new Set(ids)].map(toWikilink)
+}
+
+export function serializeTask(task: Task): string {
+  const checklistSection = task.checklist?.length
+    ? serializeChecklist(task.checklist)
+    : undefined
+
+  return joinFrontmatter(
+    {
+      title: task.title,
+      status: task.status,
+      'created-at': task.createdAt,
+      'updated-at': task.updatedAt,
+      'completed-at': task.completedAt,
+      area: task.areaId ? toWikilink(task.areaId) : undefined,
+      projects: getProjectLinks(task),
+      due: task.due,
+      scheduled: task.scheduled,
+      'start-time': task.startTime,
+      duration: task.duration,
+      estimate: task.estimate,
+      'defer-until': task.deferUntil,
+      recurrence: task.recurrence ? toRRule(task.recurrence) : undefined,
+      tags: task.tags?.length ? task.tags : undefined,
+      'blocked-by': task.blockedBy?.length
+        ? task.blockedBy.map(toWikilink)
+        : undefined,
+      'time-entries': task.timeEntries?.length
+        ? task.timeEntries.map((entry) => `${entry.start}/${entry.end ?? ''}`)
+        : undefined,
+      ...withoutKnown(task.frontmatter, TASK_KEYS),
+    },
+    [task.notes?.trim(), checklistSection].filter(Boolean).join('\n\n')
+  )
+}
+
+// -----------------------------------------------------------------------------
+// Task Checklist
+// -----------------------------------------------------------------------------
+
+/*
+ * A task's checklist follows a marker line as a markdown checklist, so it
+ * reads naturally in other editors. Item IDs aren't stored; they are
+ * derived from the task ID on read:
+ *
+ *     <!-- checklist -->
+ *
+ *     - [x] Book the venue
+ *     - [ ] Send invitations
+ */
+
+const CHECKLIST_MARKER = '<!-- checklist -->'
+
+const CHECKLIST_LINE_PATTERN = /^[-*][ \t]+\[([ xX])\][ \t]+(.*?)[ \t]*$/
+
+/** Split a task body into its notes and the checklist section */
+function splitTaskBody(body: string): { body: string; checklist?: string } {
+  const lines = body.split(/\r?\n/)
+  const index = lines.findIndex((line) => line.trim() === CHECKLIST_MARKER)
+  if (index === -1) return { body }
+
+  return {
+    body: lines.slice(0, index).join('\n').trim(),
+    checklist: lines.slice(index + 1).join('\n'),
+  }
+}
+
+/** Read checklist items; returns undefined if there are none */
+function parseChecklist(
+  section: string,
+  id: string
+): ChecklistItem[] | undefined {
+  const items: ChecklistItem[] = []
+
+  for (const line of section.split(/\r?\n/)) {
+    const match = line.match(CHECKLIST_LINE_PATTERN)
+    if (!match || !match[2]) continue
+    items.push({
+      id: `${id}-checklist-${items.length + 1}`,
+      title: match[2],
+      done: match[1] !== ' ',
+    })
+  }
+
+  return items.length > 0 ? items : undefined
+}
+
+function serializeChecklist(checklist: ChecklistItem[]): string {
+  const lines = checklist.map(
+    (item) => `- [${item.done ? 'x' : ' '}] ${item.title.replace(/\s+/g, ' ')}`
+  )
+  return [CHECKLIST_MARKER, lines.join('\n')].join('\n\n')
+}
+
+// -----------------------------------------------------------------------------
+// Project
+// -----------------------------------------------------------------------------
+
+export function parseProject(content: string, id: string): Project {
+  const { frontmatter, body: fullBody } = splitFrontmatter(content)
+  const { body } = splitProjectBody(fullBody)
+  const blockedBy = readLinkList(frontmatter, 'blocked-by')
+
+  return {
+    id,
+    title: readString(frontmatter, 'title') ?? id,
+    status: readStatus(frontmatter, PROJECT_STATUSES),
+    areaId: parseWikilink(frontmatter['area']),
+    description: readString(frontmatter, 'description'),
+    startDate: readString(frontmatter, 'start-date'),
+    endDate: readString(frontmatter, 'end-date'),
+    blockedBy: blockedBy.length > 0 ? blockedBy : undefined,
+    tags: readTags(frontmatter),
+    lastReviewedAt: readString(frontmatter, 'last-reviewed-at'),
+    notes: body || undefined,
+    frontmatter: pickUnknown(frontmatter, PROJECT_KEYS),
+  }
+}
+
+/** `headings` is the project's heading list, written after the notes */
+export function serializeProject(
+  project: Project,
+  headings?: HeadingList
+): string {
+  const headingsSection = headings?.headings.length
+    ? serializeProjectHeadings(headings)
+    : undefined
+
+  return joinFrontmatter(
+    {
+      title: project.title,
+      status: project.status,
+      area: project.areaId ? toWikilink(project.areaId) : undefined,
+      description: project.description,
+      'start-date': project.startDate,
+      'end-date': project.endDate,
+      'blocked-by': project.blockedBy?.length
+        ? project.blockedBy.map(toWikilink)
+        : undefined,
+      tags: project.tags?.length ? project.tags : undefined,
+      'last-reviewed-at': project.lastReviewedAt,
+      ...withoutKnown(project.frontmatter, PROJECT_KEYS),
+    },
+    [project.notes?.trim(), headingsSection].filter(Boolean).join('\n\n')
+  )
+}
+
+// -----------------------------------------------------------------------------
+// Project Headings
+// -----------------------------------------------------------------------------
+
+/*
+ * Headings follow a marker line as level-2 headings, each with the tasks
+ * under it listed as wikilinks. Tasks before the first heading come first.
+ * A comment keeps the heading's ID and color (omitted when default):
+ *
+ *     <!-- headings -->
+ *
+ *     - [[call-venue]]
+ *
+ *     ## Errands <!-- id: 3f2a, color: blue -->
+ *     - [[buy-milk]]
+ */
+
+const HEADINGS_MARKER = '<!-- headings -->'
+
+const HEADING_COLORS: HeadingColor[] = [
+  'default',
+  'blue',
+  'teal',
+  'purple',
+  'amber',
+  'pink',
+  'green',
+  'red',
+]
+
+const HEADING_LINE_PATTERN = /^##[ \t]+(.*?)[ \t]*(?:<!--(.*?)-->)?[ \t]*$/
+const TASK_LINE_PATTERN = /^[-*][ \t]+(\[\[[^\]]+\]\])[ \t]*$/
+
+/** Split a project body into its notes and the headings section */
+function splitProjectBody(body: string): { body: string; headings?: string } {
+  const lines = body.split(/\r?\n/)
+  const index = lines.findIndex((line) => line.trim() === HEADINGS_MARKER)
+  if (index === -1) return { body }
+
+  return {
+    body: lines.slice(0, index).join('\n').trim(),
+    headings: lines.slice(index + 1).join('\n'),
+  }
+}
+
+/** Read `key: value` pairs from a heading's comment */
+function readHeadingAttributes(source: string): Record<string, string> {
+  return Object.fromEntries(
+    source
+      .split(',')
+      .map((pair) => pair.split(':').map((part) => part.trim()))
+      .filter(([key, value]) => key && value)
+  )
+}
+
+/**
+ * Read a project's headings from its file. Returns undefined if it has none.
+ * Headings without an ID comment get one derived from the project ID.
+ */
+export function parseProjectHeadings(
+  content: string,
+  id: string
+): HeadingList | undefined {
+  const { headings: section } = splitProjectBody(splitFrontmatter(content).body)
+  if (section === undefined) return undefined
+
+  const list: HeadingList = { headings: [], order: [] }
+
+  for (const line of section.split(/\r?\n/)) {
+    const headingMatch = line.match(HEADING_LINE_PATTERN)
+    if (headingMatch) {
+      const attributes = readHeadingAttributes(headingMatch[2] ?? '')
+      const color = attributes['color'] as HeadingColor
+      const heading = {
+        id: attributes['id'] ?? `${id}-heading-${list.headings.length + 1}`,
+        title: headingMatch[1],
+        color: HEADING_COLORS.includes(color) ? color : 'default',
+      }
+      list.headings.push(heading)
+      list.order.push(toHeadingId(heading.id))
+      continue
+    }
+
+    const taskMatch = line.match(TASK_LINE_PATTERN)
+    const taskId = taskMatch ? parseWikilink(taskMatch[1]) : undefined
+    if (taskId) list.order.push(taskId)
+  }
+
+  return list.headings.length > 0 ? list : undefined
+}
+
+function serializeProjectHeadings(list: HeadingList): string {
+  const headingsById = new Map(list.headings.map((h) => [h.id, h]))
+  const blocks: string[][] = [[]]
+
+  for (const id of list.order) {
+    if (!isHeadingId(id)) {
+      blocks[blocks.length - 1].push(`- ${toWikilink(id)}`)
+      continue
+    }
+    const heading = headingsById.get(parseHeadingId(id))
+    if (!heading) continue
+
+    const attributes =
+      heading.color === 'default'
+        ? `id: ${heading.id}`
+        : `id: ${heading.id}, color: ${heading.color}`
+    blocks.push([`## ${heading.title} <!-- ${attributes} -->`])
+  }
+
+  return [
+    HEADINGS_MARKER,
+    ...blocks.filter((block) => block.length > 0).map((b) => b.join('\n')),
+  ].join('\n\n')
+}
+
+// -----------------------------------------------------------------------------
+// Area
+// -----------------------------------------------------------------------------
+
+export function parseArea(content: string, id: string): Area {
+  const { frontmatter, body } = splitFrontmatter(content)
+
+  return {
+    id,
+    title: readString(frontmatter, 'title') ?? id,
+    status: readStatus(frontmatter, AREA_STATUSES),
+    type: readString(frontmatter, 'type'),
+    description: readString(frontmatter, 'description'),
+    lastReviewedAt: readString(frontmatter, 'last-reviewed-at'),
+    icon: readString(frontmatter, 'icon'),
+    color: readString(frontmatter, 'color'),
+    notes: body || undefined,
+    frontmatter: pickUnknown(frontmatter, AREA_KEYS),
+  }
+}
+
+export function serializeArea(area: Area): string {
+  return joinFrontmatter(
+    {
+      title: area.title,
+      status: area.status,
+      type: area.type,
+      description: area.description,
+      'last-reviewed-at': area.lastReviewedAt,
+      icon: area.icon,
+      color: area.color,
+      ...withoutKnown(area.frontmatter, AREA_KEYS),
+    },
+    area.notes
+  )
+}
@@ -0,0 +1,144 @@
+import type { AppData } from '@/types/data'
+import {
+  getProjectHeadingListKey,
+  isHeadingId,
+  type HeadingList,
+} from '@/types/headings'
+import {
+  parseArea,
+  parseProject,
+  parseProjectHeadings,
+  parseTask,
+  serializeArea,
+  serializeProject,
+  serializeTask,
+} from './serializer'
+
+/**
+ * Vault-level helpers: convert a set of S1 files to AppData and back.
+ *
+ * Files are classified by their top-level directory (areas/, projects/,
+ * tasks/) and identified by file name. Reading never throws - files that
+ * fail to parse are reported in `errors` so one bad file doesn't prevent
+ * the rest of the vault from loading. Of the heading lists, only projects'
+ * are part of the vault (in the project files).
+ */
+
+export interface VaultFile {
+  /** Path relative to the vault root, using forward slashes */
+  path: string
+  content: string
+}
+
+export interface VaultReadError {
+  path: string
+  message: string
+}
+
+export interface VaultReadResult {
+  data: AppData
+  errors: VaultReadError[]
+}
+
+/** Directory names for each entity type, relative to the vault root */
+export const VAULT_DIRECTORIES = {
+  areas: 'areas',
+  projects: 'projects',
+  tasks: 'tasks',
+} as const
+
+type VaultCollection = keyof typeof VAULT_DIRECTORIES
+
+/** Classify a path and derive the entity ID from its file name */
+function parseVaultPath(
+  path: string
+): { collection: VaultCollection; id: string } | null {
+  const segments = path.replace(/\\/g, '/').split('/').filter(Boolean)
+  if (segments.length < 2) return null
+
+  const fileName = segments[segments.length - 1]
+  if (!fileName.toLowerCase().endsWith('.md')) return null
+
+  const collection = (Object.keys(VAULT_DIRECTORIES) as VaultCollection[]).find(
+    (key) => VAULT_DIRECTORIES[key] === segments[0]
+  )
+  if (!collection) return null
+
+  return { collection, id: fileName.slice(0, -'.md'.length) }
+}
+
+export function readVault(files: VaultFile[]): VaultReadResult {
+  const data: AppData = { areas: [], projects: [], tasks: [] }
+  const errors: VaultReadError[] = []
+
+  for (const file of files) {
+    const parsed = parseVaultPath(file.path)
+    if (!parsed) continue
+
+    try {
+      switch (parsed.collection) {
+        case 'areas':
+          data.areas.push(parseArea(file.content, parsed.id))
+          break
+        case 'projects': {
+          data.projects.push(parseProject(file.content, parsed.id))
+          const headings = parseProjectHeadings(file.content, parsed.id)
+          if (headings) {
+            data.headings = {
+              ...data.headings,
+              [getProjectHeadingListKey(parsed.id)]: headings,
+            }
+          }
+          break
+        }
+        case 'tasks':
+          data.tasks.push(parseTask(file.content, parsed.id))
+          break
+      }
+    } catch (error) {
+      errors.push({
+        path: file.path,
+        message: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  return { data, errors }
+}
+
+/** A project's heading list, without tasks that have left the project */
+function getProjectHeadingList(
+  data: AppData,
+  projectId: string
+): HeadingList | undefined {
+  const list = data.headings?.[getProjectHeadingListKey(projectId)]
+  if (!list) return undefined
+
+  const taskIds = new Set(
+    data.tasks.filter((t) => t.projectId === projectId).map((t) => t.id)
+  )
+  return {
+    ...list,
+    order: list.order.filter((id) => isHeadingId(id) || taskIds.has(id)),
+  }
+}
+
+export function writeVault(data: AppData): VaultFile[] {
+  return [
+    ...data.areas.map((area) => ({
+      path: `${VAULT_DIRECTORIES.areas}/${area.id}.md`,
+      content: serializeArea(area),
+    })),
+    ...data.projects.map((project) => ({
+      path: `${VAULT_DIRECTORIES.projects}/${project.id}.md`,
+      content: serializeProject(
+        project,
+        getProjectHeadingList(data, project.id)
+      ),
+    })),
+    ...data.tasks.map((task) => ({
+      path: `${VAULT_DIRECTORIES.tasks}/${task.id}.md`,
+      content: serializeTask(task),
+    })),
+  ]
+}
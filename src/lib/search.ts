@@ -0,0 +1,306 @@
+import type { AppData, Area, Project, Task } from '@/types/data'
+
+/**
+ * Full-text search over tasks, projects and areas.
+ *
+ * An inverted index maps each word to the entities containing it, across
+ * titles, descriptions and markdown notes. Query words match by prefix and
+ * must all match (AND); titles weigh more than descriptions, descriptions
+ * more than notes.
+ *
+ * `updateSearchIndex` is incremental: entities are immutable, so only those
+ * whose object changed since the last update are re-tokenized. AppDataProvider
+ * runs it after every data change, which keeps each mutation's cost
+ * proportional to what it touched rather than to the whole vault.
+ */
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type SearchEntityKind = 'task' | 'project' | 'area'
+
+export type SearchField = 'title' | 'description' | 'notes'
+
+/** A [start, end) range within a string */
+export interface TextRange {
+  start: number
+  end: number
+}
+
+/** An excerpt of a description or notes around the first match */
+export interface SearchSnippet {
+  field: Exclude<SearchField, 'title'>
+  text: string
+  highlights: TextRange[]
+}
+
+export interface SearchResult {
+  kind: SearchEntityKind
+  id: string
+  title: string
+  titleHighlights: TextRange[]
+  snippet?: SearchSnippet
+  score: number
+}
+
+export interface SearchOptions {
+  /** Maximum number of results (default: 200) */
+  limit?: number
+}
+
+type Entity = Task | Project | Area
+
+interface IndexedDoc {
+  kind: SearchEntityKind
+  /** The indexed object - a new object means the entity changed */
+  entity: Entity
+  fields: Partial<Record<SearchField, string>>
+  terms: Partial<Record<SearchField, Set<string>>>
+}
+
+export interface SearchIndex {
+  /** Keyed by `${kind}:${id}` */
+  docs: Map<string, IndexedDoc>
+  /** Word -> keys of docs containing it */
+  postings: Map<string, Set<string>>
+  /** The data last indexed, to skip no-op updates */
+  indexed: AppData | null
+}
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  description: 2,
+  notes: 1,
+}
+
+const DEFAULT_LIMIT = 200
+const SNIPPET_LENGTH = 140
+const SNIPPET_LEAD = 40
+
+// -----------------------------------------------------------------------------
+// Tokenizing
+// -----------------------------------------------------------------------------
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+/** Lowercased words of `text` */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(WORD_PATTERN) ?? []
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** Ranges in `text` where a word starts with one of `terms` */
+export function findMatches(text: string, terms: string[]): TextRange[] {
+  if (terms.length === 0) return []
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})`,
+    'giu'
+  )
+  return Array.from(text.matchAll(pattern), (m) => ({
+    start: m.index,
+    end: m.index + m[0].length,
+  }))
+}
+
+/** Flatten markdown into plain text for snippets */
+function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/\[\[([^\]|]+)(\|[^\]]+)?\]\]/g, '$1')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`~]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// -----------------------------------------------------------------------------
+// Index
+// -----------------------------------------------------------------------------
+
+export function createSearchIndex(): SearchIndex {
+  return { docs: new Map(), postings: new Map(), indexed: null }
+}
+
+function getFields(entity: Entity): IndexedDoc['fields'] {
+  return {
+    title: entity.title,
+    description: 'description' in entity ? entity.description : undefined,
+    notes: entity.notes,
+  }
+}
+
+function removeDoc(index: SearchIndex, key: string) {
+  const doc = index.docs.get(key)
+  if (!doc) return
+  for (const terms of Object.values(doc.terms)) {
+    for (const term of terms) {
+      const keys = index.postings.get(term)
+      keys?.delete(key)
+      if (keys?.size === 0) index.postings.delete(term)
+    }
+  }
+  index.docs.delete(key)
+}
+
+function addDoc(
+  index: SearchIndex,
+  key: string,
+  kind: SearchEntityKind,
+  entity: Entity
+) {
+  const fields = getFields(entity)
+  const terms: IndexedDoc['terms'] = {}
+  for (const [field, text] of Object.entries(fields)) {
+    if (!text) continue
+    const fieldTerms = new Set(tokenize(text))
+    terms[field as SearchField] = fieldTerms
+    for (const term of fieldTerms) {
+      let keys = index.postings.get(term)
+      if (!keys) {
+        keys = new Set()
+        index.postings.set(term, keys)
+      }
+      keys.add(key)
+    }
+  }
+  index.docs.set(key, { kind, entity, fields, terms })
+}
+
+/** Bring the index in line with `data`, re-indexing only changed entities */
+export function updateSearchIndex(index: SearchIndex, data: AppData) {
+  if (index.indexed === data) return
+
+  const seen = new Set<string>()
+  const sync = (kind: SearchEntityKind, entities: Entity[]) => {
+    for (const entity of entities) {
+      const key = `${kind}:${entity.id}`
+      seen.add(key)
+      if (index.docs.get(key)?.entity === entity) continue
+      removeDoc(index, key)
+      addDoc(index, key, kind, entity)
+    }
+  }
+  sync('task', data.tasks)
+  sync('project', data.projects)
+  sync('area', data.areas)
+
+  for (const key of [...index.docs.keys()]) {
+    if (!seen.has(key)) removeDoc(index, key)
+  }
+  index.indexed = data
+}
+
+// -----------------------------------------------------------------------------
+// Querying
+// -----------------------------------------------------------------------------
+
+/** Keys of docs with a word starting with `term` */
+function getPrefixMatches(index: SearchIndex, term: string): Set<string> {
+  const matches = new Set<string>()
+  for (const [word, keys] of index.postings) {
+    if (!word.startsWith(term)) continue
+    for (const key of keys) matches.add(key)
+  }
+  return matches
+}
+
+function scoreDoc(doc: IndexedDoc, terms: string[]): number {
+  let score = 0
+  for (const term of terms) {
+    let best = 0
+    for (const [field, fieldTerms] of Object.entries(doc.terms)) {
+      for (const word of fieldTerms) {
+        if (!word.startsWith(term)) continue
+        // Whole-word matches beat prefix matches
+        const weight =
+          FIELD_WEIGHTS[field as SearchField] * (word === term ? 2 : 1)
+        best = Math.max(best, weight)
+      }
+    }
+    score += best
+  }
+  return score
+}
+
+function getSnippet(
+  doc: IndexedDoc,
+  terms: string[]
+): SearchSnippet | undefined {
+  for (const field of ['description', 'notes'] as const) {
+    const raw = doc.fields[field]
+    if (!raw) continue
+    const text = toPlainText(raw)
+    const first = findMatches(text, terms)[0]
+    if (!first) continue
+
+    // Start a little before the match, on a word boundary
+    let start = Math.max(0, first.start - SNIPPET_LEAD)
+    if (start > 0) {
+      const space = text.indexOf(' ', start)
+      start = space !== -1 && space < first.start ? space + 1 : start
+    }
+    const end = Math.min(text.length, start + SNIPPET_LENGTH)
+    const prefix = start > 0 ? '…' : ''
+    const excerpt =
+      prefix + text.slice(start, end) + (end < text.length ? '…' : '')
+
+    return {
+      field,
+      text: excerpt,
+      highlights: findMatches(excerpt, terms),
+    }
+  }
+  return undefined
+}
+
+/**
+ * Search the index. Results are sorted by score, then title. An empty
+ * query returns nothing.
+ */
+export function querySearchIndex(
+  index: SearchIndex,
+  query: string,
+  { limit = DEFAULT_LIMIT }: SearchOptions = {}
+): SearchResult[] {
+  const terms = [...new Set(tokenize(query))]
+  if (terms.length === 0) return []
+
+  // Intersect per-term matches, narrowest first
+  const matchSets = terms
+    .map((term) => getPrefixMatches(index, term))
+    .sort((a, b) => a.size - b.size)
+  let candidates = matchSets[0]
+  for (const set of matchSets.slice(1)) {
+    candidates = new Set([...candidates].filter((key) => set.has(key)))
+  }
+
+  const results: SearchResult[] = []
+  for (const key of candidates) {
+    const doc = index.docs.get(key)
+    if (!doc) continue
+    const title = doc.fields.title ?? ''
+    results.push({
+      kind: doc.kind,
+      id: doc.entity.id,
+      title,
+      titleHighlights: findMatches(title, terms),
+      score: scoreDoc(doc, terms),
+    })
+  }
+
+  results.sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+
+  // Snippets only for the results that are returned
+  return results.slice(0, limit).map((result) => {
+    const doc = index.docs.get(`${result.kind}:${result.id}`)
+    return doc ? { ...result, snippet: getSnippet(doc, terms) } : result
+  })
+}
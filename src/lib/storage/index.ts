@@ -0,0 +1,10 @@
+export type {
+  StorageAdapter,
+  StorageDocuments,
+  StorageKey,
+} from './storage-adapter'
+export { createIndexedDbStorage } from './indexeddb-storage'
+export {
+  createMemoryStorage,
+  type MemoryStorageAdapter,
+} from './memory-storage'
@@ -0,0 +1,123 @@
+import type {
+  StorageAdapter,
+  StorageDocuments,
+  StorageKey,
+} from './storage-adapter'
+
+/**
+ * IndexedDB-backed storage adapter (the default in the browser).
+ *
+ * Each document is stored as a single record in one object store, keyed by
+ * its StorageKey. Writes are announced on a BroadcastChannel so that other
+ * tabs using the same database can pick up the change via `watch()`.
+ */
+
+const DEFAULT_DB_NAME = 'taskdn'
+const DB_VERSION = 1
+const STORE_NAME = 'documents'
+
+interface IndexedDbStorageOptions {
+  /** Database name (default: "taskdn") */
+  dbName?: string
+}
+
+interface ChangeMessage {
+  key: StorageKey
+}
+
+/** Wrap an IDBRequest in a promise */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/** Resolve once a transaction has committed */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export function createIndexedDbStorage({
+  dbName = DEFAULT_DB_NAME,
+}: IndexedDbStorageOptions = {}): StorageAdapter {
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  const channel =
+    typeof BroadcastChannel !== 'undefined'
+      ? new BroadcastChannel(`${dbName}:storage`)
+      : null
+
+  // Open lazily so that merely importing the adapter has no side effects
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, DB_VERSION)
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME)
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          // Allow a later call to retry
+          dbPromise = null
+          reject(request.error)
+        }
+      })
+    }
+    return dbPromise
+  }
+
+  const load = async <K extends StorageKey>(
+    key: K
+  ): Promise<StorageDocuments[K] | undefined> => {
+    const db = await openDb()
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME)
+    const value = await requestToPromise(store.get(key))
+    return (value as StorageDocuments[K] | undefined) ?? undefined
+  }
+
+  const save = async <K extends StorageKey>(
+    key: K,
+    value: StorageDocuments[K]
+  ): Promise<void> => {
+    const db = await openDb()
+    const transaction = db.transaction(STORE_NAME, 'readwrite')
+    transaction.objectStore(STORE_NAME).put(value, key)
+    await transactionDone(transaction)
+    channel?.postMessage({ key } satisfies ChangeMessage)
+  }
+
+  const watch = <K extends StorageKey>(
+    key: K,
+    listener: (value: StorageDocuments[K]) => void
+  ): (() => void) => {
+    if (!channel) return () => {}
+
+    // BroadcastChannel never delivers a message to the sender, so this only
+    // fires for writes from other tabs
+    const handleMessage = (event: MessageEvent<ChangeMessage>) => {
+      if (event.data?.key !== key) return
+      load(key)
+        .then((value) => {
+          if (value !== undefined) listener(value)
+        })
+        .catch((error) => {
+          console.error(
+            `Failed to reload "${key}" after an external change`,
+            error
+          )
+        })
+    }
+
+    channel.addEventListener('message', handleMessage)
+    return () => channel.removeEventListener('message', handleMessage)
+  }
+
+  return { load, save, watch }
+}
@@ -0,0 +1,72 @@
+import type {
+  StorageAdapter,
+  StorageDocuments,
+  StorageKey,
+} from './storage-adapter'
+
+/**
+ * In-memory storage adapter for tests and storybook-style harnesses.
+ *
+ * Values are deep-cloned on the way in and out so callers can never mutate
+ * stored state by accident (mirrors the structured-clone semantics of
+ * IndexedDB). `simulateExternalChange()` stands in for a write from another
+ * tab and is the only thing that triggers `watch()` listeners.
+ */
+
+export interface MemoryStorageAdapter extends StorageAdapter {
+  /** Replace a document as if another client wrote it, notifying watchers */
+  simulateExternalChange<K extends StorageKey>(
+    key: K,
+    value: StorageDocuments[K]
+  ): void
+  /** Synchronously read the current value of a document (for assertions) */
+  peek<K extends StorageKey>(key: K): StorageDocuments[K] | undefined
+}
+
+export function createMemoryStorage(
+  initial: Partial<StorageDocuments> = {}
+): MemoryStorageAdapter {
+  const documents = new Map<StorageKey, unknown>(
+    Object.entries(initial).map(([key, value]) => [
+      key as StorageKey,
+      structuredClone(value),
+    ])
+  )
+  const listeners = new Map<StorageKey, Set<(value: unknown) => void>>()
+
+  const peek = <K extends StorageKey>(
+    key: K
+  ): StorageDocuments[K] | undefined => {
+    const value = documents.get(key)
+    return value === undefined
+      ? undefined
+      : (structuredClone(value) as StorageDocuments[K])
+  }
+
+  return {
+    load: async (key) => peek(key),
+
+    save: async (key, value) => {
+      documents.set(key, structuredClone(value))
+    },
+
+    watch: (key, listener) => {
+      const keyListeners = listeners.get(key) ?? new Set()
+      const wrapped = listener as (value: unknown) => void
+      keyListeners.add(wrapped)
+      listeners.set(key, keyListeners)
+      return () => {
+        keyListeners.delete(wrapped)
+      }
+    },
+
+    simulateExternalChange: (key, value) => {
+      documents.set(key, structuredClone(value))
+      for (const listener of listeners.get(key) ?? []) {
+        listener(structuredClone(value))
+      }
+    },
+
+    peek,
+  }
+}
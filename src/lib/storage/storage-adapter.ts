@@ -0,0 +1,47 @@
+import type { AppData } from '@/types/data'
+import type { SavedFilter } from '@/types/saved-filter'
+
+/**
+ * Storage adapter contract for persisting app state.
+ *
+ * State is stored as a small set of named documents (see StorageDocuments).
+ * Adapters are free to choose how documents are physically stored - the
+ * provider only relies on these three operations.
+ *
+ * NOTE: When integrating with tdn-desktop, an adapter backed by the Rust
+ * vault commands can replace the IndexedDB implementation without touching
+ * AppDataProvider.
+ */
+
+// -----------------------------------------------------------------------------
+// Documents
+// -----------------------------------------------------------------------------
+
+/** Map of document keys to the shape stored under that key */
+export interface StorageDocuments {
+  'app-data': AppData
+  /** The sidebar's saved filters, in order (see saved-filters-store) */
+  'saved-filters': SavedFilter[]
+}
+
+export type StorageKey = keyof StorageDocuments
+
+// -----------------------------------------------------------------------------
+// Adapter
+// -----------------------------------------------------------------------------
+
+export interface StorageAdapter {
+  /** Load a document. Resolves to undefined if nothing has been saved yet. */
+  load<K extends StorageKey>(key: K): Promise<StorageDocuments[K] | undefined>
+  /** Persist a document, replacing any previous value */
+  save<K extends StorageKey>(key: K, value: StorageDocuments[K]): Promise<void>
+  /**
+   * Subscribe to changes made to a document from outside this adapter
+   * instance (e.g., another browser tab). Saves made through this instance
+   * are not reported back. Returns an unsubscribe function.
+   */
+  watch<K extends StorageKey>(
+    key: K,
+    listener: (value: StorageDocuments[K]) => void
+  ): () => void
+}
@@ -0,0 +1,107 @@
+import type { AppData } from '@/types/data'
+
+/**
+ * Tags for tasks and projects.
+ *
+ * Tags are free-form labels for cross-cutting contexts ("errands",
+ * "phone") that don't fit the area/project hierarchy. They are stored
+ * normalized - lowercase, without a leading '#', with runs of whitespace
+ * turned into '-' - so "#Deep Work" and "deep-work" are the same tag.
+ */
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface TagSummary {
+  tag: string
+  taskCount: number
+  projectCount: number
+}
+
+// -----------------------------------------------------------------------------
+// Normalizing
+// -----------------------------------------------------------------------------
+
+/** Normalize a tag as typed; returns '' for input with no tag text */
+export function normalizeTag(input: string): string {
+  return input
+    .trim()
+    .replace(/^#+/, '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+}
+
+/** Normalize tags, dropping empty ones and duplicates (first wins) */
+export function normalizeTags(inputs: string[]): string[] {
+  const tags = inputs.map(normalizeTag).filter(Boolean)
+  return [...new Set(tags)]
+}
+
+// -----------------------------------------------------------------------------
+// Queries
+// -----------------------------------------------------------------------------
+
+/** Whether `entity` has every tag in `tags` (true when `tags` is empty) */
+export function hasAllTags(entity: { tags?: string[] }, tags: string[]) {
+  return tags.every((tag) => entity.tags?.includes(tag))
+}
+
+/** Every tag in use, alphabetically, with how many tasks/projects use it */
+export function collectTags(data: AppData): TagSummary[] {
+  const summaries = new Map<string, TagSummary>()
+  const summaryFor = (tag: string) => {
+    let summary = summaries.get(tag)
+    if (!summary) {
+      summary = { tag, taskCount: 0, projectCount: 0 }
+      summaries.set(tag, summary)
+    }
+    return summary
+  }
+
+  for (const task of data.tasks) {
+    for (const tag of task.tags ?? []) summaryFor(tag).taskCount++
+  }
+  for (const project of data.projects) {
+    for (const tag of project.tags ?? []) summaryFor(tag).projectCount++
+  }
+
+  return [...summaries.values()].sort((a, b) => a.tag.localeCompare(b.tag))
+}
+
+// -----------------------------------------------------------------------------
+// Ordering
+// -----------------------------------------------------------------------------
+
+/**
+ * Apply a reorder made in a tag-filtered list to the full order.
+ *
+ * `fullIds` is the unfiltered order and `visibleIds` the new order of the
+ * items that were shown (it may add IDs). Hidden items stay right after the
+ * visible item they followed, so clearing the filter doesn't scramble them.
+ */
+export function mergeFilteredOrder(
+  fullIds: string[],
+  visibleIds: string[]
+): string[] {
+  const visible = new Set(visibleIds)
+  const leading: string[] = []
+  const trailing = new Map<string, string[]>()
+  let anchor: string | null = null
+
+  for (const id of fullIds) {
+    if (visible.has(id)) {
+      anchor = id
+    } else if (anchor) {
+      trailing.set(anchor, [...(trailing.get(anchor) ?? []), id])
+    } else {
+      leading.push(id)
+    }
+  }
+
+  return [
+    ...leading,
+    ...visibleIds.flatMap((id) => [id, ...(trailing.get(id) ?? [])]),
+  ]
+}
@@ -0,0 +1,77 @@
+import type { Task } from '@/types/data'
+
+/**
+ * Blocking relationships between tasks (`Task.blockedBy`).
+ *
+ * A task listing another in `blockedBy` waits on it until the blocker is
+ * finished (done or dropped). A task marked `blocked` goes back to `ready`
+ * once the last of its blockers is finished. Cycles are rejected with the
+ * same check as projects (assertNoBlockingCycle in lib/project-dependencies).
+ * Deleting a task removes it from its dependents' `blockedBy`, which counts
+ * as finishing it. IDs that no longer resolve to a task are ignored.
+ */
+
+/** Done and dropped tasks no longer hold anything up */
+export function isTaskFinished(task: Task): boolean {
+  return task.status === 'done' || task.status === 'dropped'
+}
+
+/** The tasks a task waits on (that still exist) */
+export function getTaskBlockers(task: Task, tasks: Task[]): Task[] {
+  return (task.blockedBy ?? [])
+    .map((id) => tasks.find((t) => t.id === id))
+    .filter((t): t is Task => t !== undefined)
+}
+
+/** Blockers that aren't finished yet - what the task is waiting on */
+export function getUnfinishedTaskBlockers(task: Task, tasks: Task[]): Task[] {
+  return getTaskBlockers(task, tasks).filter((t) => !isTaskFinished(t))
+}
+
+/**
+ * Move `blocked` tasks whose last blocker was finished by a change (from
+ * `before` to `after`) back to `ready`. Tasks blocked without blockers, or
+ * whose blockers were already finished, are left alone.
+ */
+export function withUnblockedTasks(
+  before: Task[],
+  after: Task[],
+  now: string
+): Task[] {
+  const waiting = (task: Task, tasks: Task[]) =>
+    getUnfinishedTaskBlockers(task, tasks).length > 0
+
+  let changed = false
+  const tasks = after.map((task) => {
+    if (task.status !== 'blocked' || waiting(task, after)) return task
+    const previous = before.find((t) => t.id === task.id)
+    if (!previous || !waiting(previous, before)) return task
+
+    changed = true
+    return { ...task, status: 'ready' as const, updatedAt: now }
+  })
+  return changed ? tasks : after
+}
+
+/**
+ * The tasks left after deleting `deletedIds`, with the deleted tasks taken
+ * out of the others' `blockedBy`. Tasks that were waiting only on deleted
+ * tasks go back to `ready` (see withUnblockedTasks).
+ */
+export function withoutDeletedTasks(
+  tasks: Task[],
+  deletedIds: Set<string>,
+  now: string
+): Task[] {
+  const remaining = tasks
+    .filter((task) => !deletedIds.has(task.id))
+    .map((task) => {
+      if (!task.blockedBy?.some((id) => deletedIds.has(id))) return task
+      const blockedBy = task.blockedBy.filter((id) => !deletedIds.has(id))
+      return {
+        ...task,
+        blockedBy: blockedBy.length > 0 ? blockedBy : undefined,
+      }
+    })
+  return withUnblockedTasks(tasks, remaining, now)
+}
@@ -0,0 +1,98 @@
+import { addDays, format } from 'date-fns'
+
+import type { Task } from '@/types/data'
+import type { TaskFilterCriteria } from '@/types/saved-filter'
+
+/**
+ * Evaluation of saved-filter criteria against tasks.
+ *
+ * Dates are compared as `YYYY-MM-DD` strings in local time, so a due
+ * datetime counts for its day.
+ */
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface TaskFilterContext {
+  /** Resolves a task's area, falling back to its project's */
+  getEffectiveAreaId: (task: Task) => string | undefined
+  /** Defaults to now */
+  now?: Date
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function toDay(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
+
+function includesIfSet<T>(values: T[] | undefined, value: T | undefined) {
+  if (!values || values.length === 0) return true
+  return value !== undefined && values.includes(value)
+}
+
+// -----------------------------------------------------------------------------
+// Evaluation
+// -----------------------------------------------------------------------------
+
+/** Check a task against every criterion that is set */
+export function matchesTaskFilter(
+  task: Task,
+  criteria: TaskFilterCriteria,
+  { getEffectiveAreaId, now = new Date() }: TaskFilterContext
+): boolean {
+  if (!includesIfSet(criteria.statuses, task.status)) return false
+  if (!includesIfSet(criteria.projectIds, task.projectId)) return false
+  if (
+    criteria.areaIds?.length &&
+    !includesIfSet(criteria.areaIds, getEffectiveAreaId(task))
+  ) {
+    return false
+  }
+
+  if (criteria.dueWithinDays !== undefined) {
+    const limit = toDay(addDays(now, criteria.dueWithinDays))
+    if (!task.due || task.due.slice(0, 10) > limit) return false
+  }
+
+  if (criteria.hasNotes !== undefined) {
+    const hasNotes = Boolean(task.notes?.trim())
+    if (hasNotes !== criteria.hasNotes) return false
+  }
+
+  if (criteria.deferred !== undefined) {
+    const isDeferred = Boolean(task.deferUntil && task.deferUntil > toDay(now))
+    if (isDeferred !== criteria.deferred) return false
+  }
+
+  return true
+}
+
+/** Tasks matching `criteria`, in their existing order */
+export function filterTasks(
+  tasks: Task[],
+  criteria: TaskFilterCriteria,
+  context: TaskFilterContext
+): Task[] {
+  return tasks.filter((task) => matchesTaskFilter(task, criteria, context))
+}
+
+/**
+ * Field values for a task created inside a filter view, so that it is
+ * likely to show up there: the filter's first status, and its project or
+ * area when it names exactly one.
+ */
+export function getFilterTaskDefaults(
+  criteria: TaskFilterCriteria
+): Partial<Pick<Task, 'status' | 'projectId' | 'areaId'>> {
+  const projectId =
+    criteria.projectIds?.length === 1 ? criteria.projectIds[0] : undefined
+  const areaId =
+    !projectId && criteria.areaIds?.length === 1
+      ? criteria.areaIds[0]
+      : undefined
+  return { status: criteria.statuses?.[0], projectId, areaId }
+}
@@ -0,0 +1,87 @@
+import type { Area, AppData, Project, Task } from '@/types/data'
+
+/**
+ * Grouping of a flat task list by area and project, as AreaView lays
+ * tasks out, for views that span every area (Anytime, Someday).
+ *
+ * Project tasks are listed under their project, in the project's area;
+ * other tasks are loose tasks of their own area. Tasks and projects without
+ * an area are grouped last.
+ */
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface ProjectTasks {
+  project: Project
+  tasks: Task[]
+}
+
+export interface AreaTaskGroup {
+  /** Stable key: the area's ID, or 'no-area' */
+  key: string
+  /** Unset for tasks and projects without an area */
+  area?: Area
+  /** Tasks directly in the area (or with neither area nor project) */
+  looseTasks: Task[]
+  projects: ProjectTasks[]
+}
+
+export const NO_AREA_GROUP_KEY = 'no-area'
+
+// -----------------------------------------------------------------------------
+// Grouping
+// -----------------------------------------------------------------------------
+
+/**
+ * Group tasks by area, then project. Areas and projects keep their order in
+ * `data`, tasks keep their order in `tasks`; empty groups are left out.
+ */
+export function groupTasksByArea(
+  tasks: Task[],
+  data: Pick<AppData, 'areas' | 'projects'>
+): AreaTaskGroup[] {
+  const projectsById = new Map(data.projects.map((p) => [p.id, p]))
+  const looseByArea = new Map<string, Task[]>()
+  const tasksByProject = new Map<string, Task[]>()
+
+  for (const task of tasks) {
+    const project = task.projectId
+      ? projectsById.get(task.projectId)
+      : undefined
+    if (project) {
+      const list = tasksByProject.get(project.id) ?? []
+      list.push(task)
+      tasksByProject.set(project.id, list)
+    } else {
+      const key = task.areaId ?? NO_AREA_GROUP_KEY
+      const list = looseByArea.get(key) ?? []
+      list.push(task)
+      looseByArea.set(key, list)
+    }
+  }
+
+  const buildGroup = (key: string, area?: Area): AreaTaskGroup => ({
+    key,
+    area,
+    looseTasks: looseByArea.get(key) ?? [],
+    projects: data.projects
+      .filter((p) => (p.areaId ?? NO_AREA_GROUP_KEY) === key)
+      .filter((p) => tasksByProject.has(p.id))
+      .map((project) => ({
+        project,
+        tasks: tasksByProject.get(project.id)!,
+      })),
+  })
+
+  return [
+    ...data.areas.map((area) => buildGroup(area.id, area)),
+    buildGroup(NO_AREA_GROUP_KEY),
+  ].filter((group) => group.looseTasks.length > 0 || group.projects.length > 0)
+}
+
+/** Every task in a group, loose tasks first */
+export function getGroupTasks(group: AreaTaskGroup): Task[] {
+  return [...group.looseTasks, ...group.projects.flatMap((p) => p.tasks)]
+}
@@ -0,0 +1,46 @@
+/**
+ * Helpers for selecting several tasks at once (see task-selection-store).
+ */
+
+/**
+ * The IDs from `fromId` to `toId` (inclusive, either direction) in a list's
+ * order. Just `toId` if `fromId` isn't in the list.
+ */
+export function getIdRange(
+  orderedIds: string[],
+  fromId: string,
+  toId: string
+): string[] {
+  const from = orderedIds.indexOf(fromId)
+  const to = orderedIds.indexOf(toId)
+  if (to === -1) return []
+  if (from === -1) return [toId]
+  return orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1)
+}
+
+/**
+ * Move the selected items of a list together to where `overId` is, keeping
+ * their relative order - the multi-item version of arrayMove. Like
+ * arrayMove they land after `overId` when moving down and before it when
+ * moving up (judged by `activeId`, the item being dragged). Returns the
+ * list unchanged when dropped onto one of the moving items.
+ */
+export function moveItemsTogether<T>(
+  items: T[],
+  getId: (item: T) => string,
+  movingIds: Set<string>,
+  activeId: string,
+  overId: string
+): T[] {
+  const ids = items.map(getId)
+  const activeIndex = ids.indexOf(activeId)
+  if (activeIndex === -1 || movingIds.has(overId)) return items
+
+  const moving = items.filter((item) => movingIds.has(getId(item)))
+  const rest = items.filter((item) => !movingIds.has(getId(item)))
+  const overIndex = rest.findIndex((item) => getId(item) === overId)
+  if (overIndex === -1) return items
+
+  const insertAt = activeIndex < ids.indexOf(overId) ? overIndex + 1 : overIndex
+  return [...rest.slice(0, insertAt), ...moving, ...rest.slice(insertAt)]
+}
@@ -0,0 +1,147 @@
+import type { Task } from '@/types/data'
+
+/**
+ * Time-of-day scheduling (`Task.startTime` and `Task.duration`).
+ *
+ * A task with a scheduled date can also have a start time ("HH:mm") and a
+ * duration in minutes, making it a block on the WeekCalendar's timeline.
+ * Without a duration it takes its estimate (lib/workload), else
+ * DEFAULT_DURATION. Times are local and a block never runs past midnight of
+ * its day.
+ */
+
+/** Minutes a block takes when the task has no duration or estimate */
+export const DEFAULT_DURATION = 30
+
+/** Blocks start and end on multiples of this many minutes */
+export const TIME_STEP = 15
+
+const MINUTES_PER_DAY = 24 * 60
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/
+
+/** Minutes since midnight for an "HH:mm" time, undefined if invalid */
+export function parseTime(time: string): number | undefined {
+  const match = time.trim().match(TIME_PATTERN)
+  if (!match) return undefined
+  return Number(match[1]) * 60 + Number(match[2])
+}
+
+/** "HH:mm" for minutes since midnight */
+export function toTime(minutes: number): string {
+  const clamped = Math.min(
+    Math.max(Math.round(minutes), 0),
+    MINUTES_PER_DAY - 1
+  )
+  const hours = String(Math.floor(clamped / 60)).padStart(2, '0')
+  return `${hours}:${String(clamped % 60).padStart(2, '0')}`
+}
+
+/** Round to the nearest TIME_STEP, within the day */
+export function snapMinutes(minutes: number): number {
+  const snapped = Math.round(minutes / TIME_STEP) * TIME_STEP
+  return Math.min(Math.max(snapped, 0), MINUTES_PER_DAY - TIME_STEP)
+}
+
+/**
+ * A duration rounded to TIME_STEP, at least one step long and ending by
+ * midnight for a block starting at `start`
+ */
+export function snapDuration(minutes: number, start: number): number {
+  const snapped = Math.round(minutes / TIME_STEP) * TIME_STEP
+  return Math.min(Math.max(snapped, TIME_STEP), MINUTES_PER_DAY - start)
+}
+
+/** "9:30" (no leading zero) */
+export function formatTime(minutes: number): string {
+  return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`
+}
+
+/** "45m", "1h", "1h 30m" */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  if (hours === 0) return `${rest}m`
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`
+}
+
+const DURATION_PATTERN = /^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m?)?$/i
+
+/**
+ * Minutes for a typed duration - "45", "45m", "2h", "1.5h", "1h 30m" -
+ * undefined if it can't be read or isn't positive
+ */
+export function parseDuration(input: string): number | undefined {
+  const match = input.trim().match(DURATION_PATTERN)
+  if (!match || (!match[1] && !match[2])) return undefined
+  const minutes = Math.round(Number(match[1] ?? 0) * 60 + Number(match[2] ?? 0))
+  return minutes > 0 ? minutes : undefined
+}
+
+/** Minutes a task's block takes: its duration, else its estimate */
+export function getBlockDuration(task: Task): number {
+  return task.duration ?? task.estimate ?? DEFAULT_DURATION
+}
+
+/** Where a task sits on its day's timeline, or undefined if it isn't timed */
+export function getTimeBlock(
+  task: Task
+): { start: number; end: number } | undefined {
+  if (!task.scheduled || !task.startTime) return undefined
+  const start = parseTime(task.startTime)
+  if (start === undefined) return undefined
+  const end = Math.min(start + getBlockDuration(task), MINUTES_PER_DAY)
+  return { start, end }
+}
+
+/** "9:30–10:15" for a timed task, undefined otherwise */
+export function formatTimeBlock(task: Task): string | undefined {
+  const block = getTimeBlock(task)
+  if (!block) return undefined
+  return `${formatTime(block.start)}–${formatTime(block.end)}`
+}
+
+/** Horizontal placement of a block among the ones it overlaps */
+export interface TimeBlockLayout {
+  /** Zero-based lane, from the left */
+  column: number
+  /** Lanes in its group of overlapping blocks */
+  columns: number
+}
+
+/**
+ * Lay out a day's blocks side by side where they overlap. Blocks that
+ * overlap (directly or through others) form a group; each takes the
+ * leftmost lane free at its start, and every block of a group is as wide
+ * as the group's number of lanes allows.
+ */
+export function layoutTimeBlocks(
+  blocks: { id: string; start: number; end: number }[]
+): Map<string, TimeBlockLayout> {
+  const sorted = [...blocks].sort((a, b) => a.start - b.start || b.end - a.end)
+  const layout = new Map<string, TimeBlockLayout>()
+  let group: { id: string; column: number }[] = []
+  let laneEnds: number[] = []
+  let groupEnd = -1
+
+  const closeGroup = () => {
+    for (const { id, column } of group) {
+      layout.set(id, { column, columns: laneEnds.length })
+    }
+    group = []
+    laneEnds = []
+  }
+
+  for (const block of sorted) {
+    if (block.start >= groupEnd) closeGroup()
+
+    let column = laneEnds.findIndex((end) => end <= block.start)
+    if (column === -1) column = laneEnds.length
+    laneEnds[column] = block.end
+    group.push({ id: block.id, column })
+    groupEnd = Math.max(groupEnd, block.end)
+  }
+  closeGroup()
+
+  return layout
+}
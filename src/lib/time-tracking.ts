@@ -0,0 +1,194 @@
+import { addDays, parseISO } from 'date-fns'
+
+import type { AppData, Area, Project, Task, TimeEntry } from '@/types/data'
+
+/**
+ * Time tracking (`Task.timeEntries`).
+ *
+ * A task's timer adds an entry without an end; stopping it sets the end.
+ * Only one timer runs at a time, and completing a task stops its timer.
+ * Entries can also be added and edited by hand in TaskDetailPanel.
+ *
+ * Reports add up the time spent within a date range per area and project.
+ * Entries crossing the range's edges count only the part inside it. Time
+ * on a task goes to its own area, else its project's; areas of type
+ * "client" are billable.
+ */
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+/** Days from `from` to `to`, both included (YYYY-MM-DD) */
+export interface TimeRange {
+  from: string
+  to: string
+}
+
+export interface TaskTime {
+  task: Task
+  /** Milliseconds spent in the range */
+  time: number
+}
+
+export interface ProjectTime {
+  /** Undefined for the area's tasks outside any project */
+  project?: Project
+  time: number
+  tasks: TaskTime[]
+}
+
+export interface AreaTime {
+  /** Undefined for tasks in no area */
+  area?: Area
+  billable: boolean
+  time: number
+  projects: ProjectTime[]
+}
+
+export interface TimeReport {
+  areas: AreaTime[]
+  total: number
+  /** Time spent in client areas */
+  billable: number
+}
+
+// -----------------------------------------------------------------------------
+// Entries
+// -----------------------------------------------------------------------------
+
+export function createTimeEntry(start: string, end?: string): TimeEntry {
+  return { id: crypto.randomUUID(), start, end }
+}
+
+/** The task's entry whose timer is running, if any */
+export function getRunningEntry(task: Task): TimeEntry | undefined {
+  return task.timeEntries?.find((entry) => !entry.end)
+}
+
+/** The entries with any running one stopped at `end` (same array if none) */
+export function stopTimeEntries(
+  entries: TimeEntry[] | undefined,
+  end: string
+): TimeEntry[] | undefined {
+  if (!entries?.some((entry) => !entry.end)) return entries
+  return entries.map((entry) => (entry.end ? entry : { ...entry, end }))
+}
+
+/** Milliseconds an entry lasts (until `now` while it runs) */
+export function getEntryDuration(entry: TimeEntry, now = Date.now()): number {
+  const end = entry.end ? Date.parse(entry.end) : now
+  return Math.max(end - Date.parse(entry.start), 0)
+}
+
+/** Milliseconds spent on a task over all its entries */
+export function getTrackedTime(task: Task, now = Date.now()): number {
+  return (task.timeEntries ?? []).reduce(
+    (total, entry) => total + getEntryDuration(entry, now),
+    0
+  )
+}
+
+/** A running timer's reading: "4:05", "1:04:05" */
+export function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000)
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const rest = String(seconds % 60).padStart(2, '0')
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}`
+    : `${minutes}:${rest}`
+}
+
+/** Whether time in an area is billed (a "client" area) */
+export function isBillableArea(area: Area | undefined): boolean {
+  return area?.type === 'client'
+}
+
+// -----------------------------------------------------------------------------
+// Reports
+// -----------------------------------------------------------------------------
+
+/** Milliseconds of an entry that fall between `start` and `end` */
+function getTimeWithin(
+  entry: TimeEntry,
+  start: number,
+  end: number,
+  now: number
+): number {
+  const entryStart = Date.parse(entry.start)
+  const entryEnd = entry.end ? Date.parse(entry.end) : now
+  return Math.max(Math.min(entryEnd, end) - Math.max(entryStart, start), 0)
+}
+
+/** Sort by time spent, with the ungrouped bucket (no area/project) last */
+function byTime<T extends { time: number }>(
+  getKey: (item: T) => unknown
+): (a: T, b: T) => number {
+  return (a, b) => Number(!getKey(a)) - Number(!getKey(b)) || b.time - a.time
+}
+
+/**
+ * Time spent within `range` per area, then per project, then per task.
+ * Only tasks with time in the range appear; the most time comes first.
+ */
+export function getTimeReport(
+  data: Pick<AppData, 'areas' | 'projects' | 'tasks'>,
+  range: TimeRange,
+  now = Date.now()
+): TimeReport {
+  // Local midnight at the start of `from` to the end of `to`
+  const start = parseISO(range.from).getTime()
+  const end = addDays(parseISO(range.to), 1).getTime()
+  const areasById = new Map(data.areas.map((a) => [a.id, a]))
+  const projectsById = new Map(data.projects.map((p) => [p.id, p]))
+
+  // area ID ('' for none) -> project ID ('' for none) -> task times
+  const grouped = new Map<string, Map<string, TaskTime[]>>()
+
+  for (const task of data.tasks) {
+    if (!task.timeEntries?.length) continue
+    const time = task.timeEntries.reduce(
+      (total, entry) => total + getTimeWithin(entry, start, end, now),
+      0
+    )
+    if (time === 0) continue
+
+    const project = task.projectId
+      ? projectsById.get(task.projectId)
+      : undefined
+    const areaId = task.areaId ?? project?.areaId
+    const areaKey = areaId && areasById.has(areaId) ? areaId : ''
+    const projects = grouped.get(areaKey) ?? new Map<string, TaskTime[]>()
+    const tasks = projects.get(project?.id ?? '') ?? []
+    tasks.push({ task, time })
+    projects.set(project?.id ?? '', tasks)
+    grouped.set(areaKey, projects)
+  }
+
+  const areas: AreaTime[] = [...grouped].map(([areaId, projects]) => {
+    const area = areasById.get(areaId)
+    const projectTimes: ProjectTime[] = [...projects].map(
+      ([projectId, tasks]) => ({
+        project: projectsById.get(projectId),
+        time: tasks.reduce((total, t) => total + t.time, 0),
+        tasks: tasks.sort((a, b) => b.time - a.time),
+      })
+    )
+    return {
+      area,
+      billable: isBillableArea(area),
+      time: projectTimes.reduce((total, p) => total + p.time, 0),
+      projects: projectTimes.sort(byTime((p) => p.project)),
+    }
+  })
+  areas.sort(byTime((a) => a.area))
+
+  return {
+    areas,
+    total: areas.reduce((total, a) => total + a.time, 0),
+    billable: areas
+      .filter((a) => a.billable)
+      .reduce((total, a) => total + a.time, 0),
+  }
+}
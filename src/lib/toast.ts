@@ -0,0 +1,24 @@
+import { Toast } from '@base-ui/react/toast'
+
+/**
+ * App-wide toast manager.
+ *
+ * Lives outside React so non-component code (e.g., AppDataProvider's undo)
+ * can show toasts. Rendered by <Toaster /> from components/ui/toast.
+ */
+export const toastManager = Toast.createToastManager()
+
+interface ShowToastOptions {
+  description?: string
+  /** Auto-dismiss delay in ms (0 keeps the toast open) */
+  timeout?: number
+}
+
+/** Show a short notification. Returns the toast ID. */
+export function showToast(title: string, options: ShowToastOptions = {}) {
+  return toastManager.add({
+    title,
+    description: options.description,
+    timeout: options.timeout,
+  })
+}
@@ -0,0 +1,92 @@
+import type { VaultFile } from '@/lib/s1'
+
+/**
+ * Reading and writing a vault folder from the browser (the command
+ * palette's "Import vault…" / "Export vault…").
+ *
+ * Importing picks a folder with a directory file input, which every browser
+ * supports. Exporting writes into a folder through the File System Access
+ * API (`showDirectoryPicker`), which only Chromium browsers have. Existing
+ * files are overwritten; files of entities that no longer exist are left
+ * in place.
+ *
+ * NOTE: In tdn-desktop the Rust backend reads and writes the vault, and
+ * this module goes away.
+ */
+
+type DirectoryPicker = (options?: {
+  mode?: 'read' | 'readwrite'
+}) => Promise<FileSystemDirectoryHandle>
+
+function getDirectoryPicker(): DirectoryPicker | undefined {
+  return (window as Window & { showDirectoryPicker?: DirectoryPicker })
+    .showDirectoryPicker
+}
+
+/** Whether the browser can write a vault folder (see exportVaultFiles) */
+export function canExportVault(): boolean {
+  return getDirectoryPicker() !== undefined
+}
+
+/**
+ * Let the user pick a vault folder and read its markdown files. Paths are
+ * relative to the picked folder. Resolves to undefined if the picker is
+ * cancelled.
+ */
+export function pickVaultFiles(): Promise<VaultFile[] | undefined> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.webkitdirectory = true
+
+    input.addEventListener('cancel', () => resolve(undefined))
+    input.addEventListener('change', () => {
+      const files = [...(input.files ?? [])].filter((file) =>
+        file.name.toLowerCase().endsWith('.md')
+      )
+      Promise.all(
+        files.map(async (file) => ({
+          // "vault/tasks/a.md" -> "tasks/a.md"
+          path: file.webkitRelativePath.split('/').slice(1).join('/'),
+          content: await file.text(),
+        }))
+      ).then(resolve, reject)
+    })
+
+    input.click()
+  })
+}
+
+/**
+ * Let the user pick a folder and write the vault's files into it. Resolves
+ * to false if the picker is cancelled.
+ */
+export async function exportVaultFiles(files: VaultFile[]): Promise<boolean> {
+  const pick = getDirectoryPicker()
+  if (!pick) throw new Error('This browser cannot write to a folder')
+
+  let root: FileSystemDirectoryHandle
+  try {
+    root = await pick({ mode: 'readwrite' })
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return false
+    }
+    throw error
+  }
+
+  for (const file of files) {
+    const segments = file.path.split('/').filter(Boolean)
+    const fileName = segments.pop()
+    if (!fileName) throw new Error(`Invalid vault file path "${file.path}"`)
+    let directory = root
+    for (const name of segments) {
+      directory = await directory.getDirectoryHandle(name, { create: true })
+    }
+    const handle = await directory.getFileHandle(fileName, { create: true })
+    const writable = await handle.createWritable()
+    await writable.write(file.content)
+    await writable.close()
+  }
+  return true
+}
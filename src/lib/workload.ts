@@ -0,0 +1,30 @@
+import type { Task } from '@/types/data'
+
+/**
+ * Effort estimates (`Task.estimate`, in minutes) and how they add up.
+ *
+ * A day's workload is the estimate of its open tasks, weighed against the
+ * daily capacity set in the calendars (store/workload-store). Done and
+ * dropped tasks no longer count towards a day or a project.
+ */
+
+/** Capacity of a day until the user sets one - a six-hour working day */
+export const DEFAULT_DAILY_CAPACITY = 6 * 60
+
+/** Whether a task's estimate still counts (it isn't done or dropped) */
+function isOpen(task: Task): boolean {
+  return task.status !== 'done' && task.status !== 'dropped'
+}
+
+/** Minutes estimated for the open tasks among `tasks` */
+export function getRemainingEstimate(tasks: Task[]): number {
+  return tasks.reduce(
+    (total, task) => (isOpen(task) ? total + (task.estimate ?? 0) : total),
+    0
+  )
+}
+
+/** Minutes over `capacity`, or 0 if the workload fits */
+export function getOverCapacity(workload: number, capacity: number): number {
+  return Math.max(workload - capacity, 0)
+}
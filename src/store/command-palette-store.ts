@@ -0,0 +1,97 @@
+import { useEffect, useId } from 'react'
+import { create } from 'zustand'
+import { devtools } from 'zustand/middleware'
+import type { LucideIcon } from 'lucide-react'
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+/**
+ * An entry contributed to the command palette. Either runs something
+ * (`run`) or opens a sub-page of further actions (`getChildren`), e.g.
+ * "Change status…" listing the statuses.
+ */
+export interface CommandAction {
+  id: string
+  label: string
+  /** Group heading in the palette (default: "Actions") */
+  group?: string
+  icon?: LucideIcon
+  /** Extra search terms besides the label */
+  keywords?: string[]
+  /** Shortcut hint shown on the right (display only) */
+  shortcut?: string
+  /** Runs the action; the palette closes afterwards */
+  run?: () => void
+  /** Choices for a sub-page; selecting the action opens it */
+  getChildren?: () => CommandAction[]
+  /** Search placeholder for the sub-page */
+  placeholder?: string
+}
+
+interface CommandPaletteState {
+  isOpen: boolean
+  /** Contributed actions, keyed by the contributing component */
+  sources: Record<string, CommandAction[]>
+  setOpen: (isOpen: boolean) => void
+  toggle: () => void
+  registerActions: (sourceId: string, actions: CommandAction[]) => void
+  unregisterActions: (sourceId: string) => void
+}
+
+// -----------------------------------------------------------------------------
+// Store
+// -----------------------------------------------------------------------------
+
+export const useCommandPaletteStore = create<CommandPaletteState>()(
+  devtools(
+    (set) => ({
+      isOpen: false,
+      sources: {},
+      setOpen: (isOpen) => set({ isOpen }, undefined, 'setOpen'),
+      toggle: () =>
+        set((state) => ({ isOpen: !state.isOpen }), undefined, 'toggle'),
+      registerActions: (sourceId, actions) =>
+        set(
+          (state) => ({ sources: { ...state.sources, [sourceId]: actions } }),
+          undefined,
+          'registerActions'
+        ),
+      unregisterActions: (sourceId) =>
+        set(
+          (state) => {
+            const sources = { ...state.sources }
+            delete sources[sourceId]
+            return { sources }
+          },
+          undefined,
+          'unregisterActions'
+        ),
+    }),
+    { name: 'command-palette-store' }
+  )
+)
+
+// -----------------------------------------------------------------------------
+// Convenience Hook
+// -----------------------------------------------------------------------------
+
+/**
+ * Contribute actions to the command palette while the calling component is
+ * mounted. Pass a memoized array - actions are re-registered whenever its
+ * identity changes.
+ */
+export function useCommandActions(actions: CommandAction[]) {
+  const sourceId = useId()
+  const registerActions = useCommandPaletteStore((s) => s.registerActions)
+  const unregisterActions = useCommandPaletteStore((s) => s.unregisterActions)
+
+  useEffect(() => {
+    registerActions(sourceId, actions)
+  }, [sourceId, actions, registerActions])
+
+  useEffect(() => {
+    return () => unregisterActions(sourceId)
+  }, [sourceId, unregisterActions])
+}
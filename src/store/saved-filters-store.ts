@@ -0,0 +1,95 @@
+import { create } from 'zustand'
+import { devtools } from 'zustand/middleware'
+import type { SavedFilter } from '@/types/saved-filter'
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+interface SavedFiltersState {
+  /** Filters in sidebar order */
+  filters: SavedFilter[]
+  /** Add a filter at the end and return its ID */
+  createFilter: (filter: Omit<SavedFilter, 'id'>) => string
+  updateFilter: (id: string, changes: Partial<Omit<SavedFilter, 'id'>>) => void
+  deleteFilter: (id: string) => void
+  /** Replace every filter (loads from storage) */
+  setFilters: (filters: SavedFilter[]) => void
+}
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+const defaultFilters: SavedFilter[] = [
+  {
+    id: 'filter-due-soon',
+    name: 'Due Soon',
+    criteria: {
+      statuses: ['inbox', 'ready', 'in-progress', 'blocked'],
+      dueWithinDays: 7,
+    },
+  },
+  {
+    id: 'filter-blocked',
+    name: 'Blocked',
+    criteria: { statuses: ['blocked'] },
+  },
+]
+
+function generateFilterId(): string {
+  return `filter-${crypto.randomUUID()}`
+}
+
+// -----------------------------------------------------------------------------
+// Store
+// -----------------------------------------------------------------------------
+
+/**
+ * Saved filters. AppDataProvider loads them from and saves them to the
+ * storage adapter (the `saved-filters` document); the defaults stand until
+ * anything has been saved.
+ */
+export const useSavedFiltersStore = create<SavedFiltersState>()(
+  devtools(
+    (set) => ({
+      filters: defaultFilters,
+      createFilter: (filter) => {
+        const id = generateFilterId()
+        set(
+          (state) => ({ filters: [...state.filters, { ...filter, id }] }),
+          undefined,
+          'createFilter'
+        )
+        return id
+      },
+      updateFilter: (id, changes) =>
+        set(
+          (state) => ({
+            filters: state.filters.map((f) =>
+              f.id === id ? { ...f, ...changes } : f
+            ),
+          }),
+          undefined,
+          'updateFilter'
+        ),
+      deleteFilter: (id) =>
+        set(
+          (state) => ({ filters: state.filters.filter((f) => f.id !== id) }),
+          undefined,
+          'deleteFilter'
+        ),
+      setFilters: (filters) => set({ filters }, undefined, 'setFilters'),
+    }),
+    { name: 'saved-filters-store' }
+  )
+)
+
+// -----------------------------------------------------------------------------
+// Convenience Hook
+// -----------------------------------------------------------------------------
+
+/** Get a saved filter by ID (undefined once deleted) */
+export function useSavedFilter(id: string) {
+  return useSavedFiltersStore((state) => state.filters.find((f) => f.id === id))
+}
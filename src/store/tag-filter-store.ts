@@ -0,0 +1,67 @@
+import { useCallback } from 'react'
+import { create } from 'zustand'
+import { devtools } from 'zustand/middleware'
+import { hasAllTags } from '@/lib/tags'
+import type { Task } from '@/types/data'
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+interface TagFilterState {
+  /** Tasks must have every one of these tags; empty shows everything */
+  tags: string[]
+  toggleTag: (tag: string) => void
+  setTags: (tags: string[]) => void
+  clearTags: () => void
+}
+
+// -----------------------------------------------------------------------------
+// Store
+// -----------------------------------------------------------------------------
+
+/**
+ * The tag filter applied to every list and kanban view (picked in
+ * ViewHeader). Shared across views, so it stays on while navigating.
+ */
+export const useTagFilterStore = create<TagFilterState>()(
+  devtools(
+    (set) => ({
+      tags: [],
+      toggleTag: (tag) =>
+        set(
+          (state) => ({
+            tags: state.tags.includes(tag)
+              ? state.tags.filter((t) => t !== tag)
+              : [...state.tags, tag],
+          }),
+          undefined,
+          'toggleTag'
+        ),
+      setTags: (tags) => set({ tags }, undefined, 'setTags'),
+      clearTags: () => set({ tags: [] }, undefined, 'clearTags'),
+    }),
+    { name: 'tag-filter-store' }
+  )
+)
+
+// -----------------------------------------------------------------------------
+// Convenience Hook
+// -----------------------------------------------------------------------------
+
+/**
+ * The active tag filter and a function applying it to a view's tasks.
+ * With no tags selected `filterTasks` returns its input unchanged, so
+ * memoized task lists keep their identity.
+ */
+export function useTagFilter() {
+  const tags = useTagFilterStore((state) => state.tags)
+
+  const filterTasks = useCallback(
+    (tasks: Task[]) =>
+      tags.length > 0 ? tasks.filter((task) => hasAllTags(task, tags)) : tasks,
+    [tags]
+  )
+
+  return { tags, filterTasks }
+}
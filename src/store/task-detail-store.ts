@@ -1,26 +1,53 @@
 import { create } from 'zustand'
 import { devtools } from 'zustand/middleware'
 
+/**
+ * Controls what the right-hand detail panel shows: a task, a project or an
+ * area. At most one is open at a time - opening one closes the others.
+ */
 interface TaskDetailState {
   /** The ID of the task currently open in the detail panel, or null if closed */
   openTaskId: string | null
+  /** The ID of the project currently open in the detail panel */
+  openProjectId: string | null
+  /** The ID of the area currently open in the detail panel */
+  openAreaId: string | null
   /** Open the detail panel for a specific task */
   openTask: (taskId: string) => void
-  /** Close the detail panel */
+  /** Open the detail panel for a specific project */
+  openProject: (projectId: string) => void
+  /** Open the detail panel for a specific area */
+  openArea: (areaId: string) => void
+  /** Close the task detail panel */
   closeTask: () => void
+  /** Close the detail panel, whatever it is showing */
+  closeDetail: () => void
 }
 
+const closed = { openTaskId: null, openProjectId: null, openAreaId: null }
+
 export const useTaskDetailStore = create<TaskDetailState>()(
   devtools(
     (set) => ({
-      openTaskId: null,
-      openTask: (taskId) => set({ openTaskId: taskId }, undefined, 'openTask'),
+      ...closed,
+      openTask: (taskId) =>
+        set({ ...closed, openTaskId: taskId }, undefined, 'openTask'),
+      openProject: (projectId) =>
+        set({ ...closed, openProjectId: projectId }, undefined, 'openProject'),
+      openArea: (areaId) =>
+        set({ ...closed, openAreaId: areaId }, undefined, 'openArea'),
       closeTask: () => set({ openTaskId: null }, undefined, 'closeTask'),
+      closeDetail: () => set(closed, undefined, 'closeDetail'),
     }),
     { name: 'task-detail-store' }
   )
 )
 
 /** Convenience selector for checking if the detail panel is open */
-export const useIsTaskDetailOpen = () =>
-  useTaskDetailStore((state) => state.openTaskId !== null)
+export const useIsDetailOpen = () =>
+  useTaskDetailStore(
+    (state) =>
+      state.openTaskId !== null ||
+      state.openProjectId !== null ||
+      state.openAreaId !== null
+  )
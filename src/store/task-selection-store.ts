@@ -0,0 +1,136 @@
+import { useCallback } from 'react'
+import { create } from 'zustand'
+import { devtools } from 'zustand/middleware'
+import { getIdRange } from '@/lib/task-selection'
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+interface TaskSelectionState {
+  /** Selected task IDs; bulk actions apply when there are two or more */
+  selectedIds: string[]
+  /** Where Shift ranges start: the task last clicked without Shift */
+  anchorId: string | null
+  /** Select just this task, making it the anchor */
+  selectTask: (taskId: string) => void
+  /** Add or remove a task, making it the anchor */
+  toggleTask: (taskId: string) => void
+  /** Select the tasks from the anchor to `toId` in a list's order */
+  selectRange: (orderedIds: string[], toId: string) => void
+  clearSelection: () => void
+}
+
+/** The modifier keys of a click (a React or DOM mouse event will do) */
+type ClickModifiers = Pick<MouseEvent, 'shiftKey' | 'metaKey' | 'ctrlKey'>
+
+// -----------------------------------------------------------------------------
+// Store
+// -----------------------------------------------------------------------------
+
+/**
+ * The tasks selected for bulk editing (BulkActionBar) and multi-item drag,
+ * picked with Cmd/Ctrl-click, Shift-click and Shift+Arrow in TaskList,
+ * KanbanColumn and the calendar's day cells. Shared so the action bar can
+ * live in the layout; cleared when navigating to another view.
+ */
+export const useTaskSelectionStore = create<TaskSelectionState>()(
+  devtools(
+    (set) => ({
+      selectedIds: [],
+      anchorId: null,
+      selectTask: (taskId) =>
+        set(
+          { selectedIds: [taskId], anchorId: taskId },
+          undefined,
+          'selectTask'
+        ),
+      toggleTask: (taskId) =>
+        set(
+          (state) => ({
+            selectedIds: state.selectedIds.includes(taskId)
+              ? state.selectedIds.filter((id) => id !== taskId)
+              : [...state.selectedIds, taskId],
+            anchorId: taskId,
+          }),
+          undefined,
+          'toggleTask'
+        ),
+      selectRange: (orderedIds, toId) =>
+        set(
+          (state) => {
+            const hasAnchor =
+              state.anchorId !== null && orderedIds.includes(state.anchorId)
+            return {
+              selectedIds: getIdRange(orderedIds, state.anchorId ?? toId, toId),
+              anchorId: hasAnchor ? state.anchorId : toId,
+            }
+          },
+          undefined,
+          'selectRange'
+        ),
+      clearSelection: () =>
+        set({ selectedIds: [], anchorId: null }, undefined, 'clearSelection'),
+    }),
+    { name: 'task-selection-store' }
+  )
+)
+
+// -----------------------------------------------------------------------------
+// Convenience Hook
+// -----------------------------------------------------------------------------
+
+/**
+ * Multi-selection for one list of tasks, given its task IDs in display
+ * order (ranges only span tasks of the same list).
+ *
+ * @returns
+ *   - `hasMultiSelection` - Whether several tasks are selected (anywhere)
+ *   - `isMultiSelected(taskId)` - Whether the task is one of them
+ *   - `selectByClick(taskId, event?)` - Cmd/Ctrl toggles the task, Shift
+ *     selects the range from the anchor, a plain click selects just the task
+ *   - `extendSelection(fromId, offset)` - Shift+Arrow from the task with
+ *     keyboard focus: selects the range from the anchor to its neighbour and
+ *     returns the neighbour's ID (null at the ends of the list)
+ */
+export function useTaskSelection(orderedIds: string[]) {
+  const selectedIds = useTaskSelectionStore((state) => state.selectedIds)
+  const hasMultiSelection = selectedIds.length > 1
+
+  const isMultiSelected = useCallback(
+    (taskId: string) => hasMultiSelection && selectedIds.includes(taskId),
+    [hasMultiSelection, selectedIds]
+  )
+
+  const selectByClick = useCallback(
+    (taskId: string, event?: ClickModifiers) => {
+      const { selectTask, toggleTask, selectRange } =
+        useTaskSelectionStore.getState()
+      if (event?.shiftKey) {
+        selectRange(orderedIds, taskId)
+      } else if (event?.metaKey || event?.ctrlKey) {
+        toggleTask(taskId)
+      } else {
+        selectTask(taskId)
+      }
+    },
+    [orderedIds]
+  )
+
+  const extendSelection = useCallback(
+    (fromId: string, offset: 1 | -1): string | null => {
+      const index = orderedIds.indexOf(fromId)
+      const toId = index !== -1 ? orderedIds[index + offset] : undefined
+      if (!toId) return null
+      const { anchorId, selectTask, selectRange } =
+        useTaskSelectionStore.getState()
+      // Start a new range here if the anchor is in another list
+      if (!anchorId || !orderedIds.includes(anchorId)) selectTask(fromId)
+      selectRange(orderedIds, toId)
+      return toId
+    },
+    [orderedIds]
+  )
+
+  return { hasMultiSelection, isMultiSelected, selectByClick, extendSelection }
+}
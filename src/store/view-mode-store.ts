@@ -7,7 +7,7 @@ import type { ViewMode } from '@/components/ui/view-toggle'
 // -----------------------------------------------------------------------------
 
 /** Keys for storing view mode by view type */
-export type ViewModeKey = 'this-week' | 'project' | 'area'
+export type ViewModeKey = 'this-week' | 'project' | 'area' | 'filter' | 'tag'
 
 interface ViewModeState {
   modes: Record<ViewModeKey, ViewMode>
@@ -22,12 +22,16 @@ const defaultModes: Record<ViewModeKey, ViewMode> = {
   'this-week': 'calendar',
   project: 'list',
   area: 'list',
+  filter: 'list',
+  tag: 'list',
 }
 
 const availableModes: Record<ViewModeKey, ViewMode[]> = {
-  'this-week': ['calendar', 'kanban'],
+  'this-week': ['calendar', 'timeline', 'kanban'],
   project: ['list', 'kanban'],
-  area: ['list', 'kanban'],
+  area: ['list', 'kanban', 'graph'],
+  filter: ['list', 'kanban'],
+  tag: ['list', 'kanban'],
 }
 
 // -----------------------------------------------------------------------------
@@ -0,0 +1,39 @@
+import { create } from 'zustand'
+import { devtools, persist } from 'zustand/middleware'
+import { DEFAULT_DAILY_CAPACITY } from '@/lib/workload'
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+interface WorkloadState {
+  /** Minutes of estimated work that fit in a day */
+  dailyCapacity: number
+  setDailyCapacity: (minutes: number) => void
+}
+
+// -----------------------------------------------------------------------------
+// Store
+// -----------------------------------------------------------------------------
+
+/**
+ * The daily capacity the calendars' day totals are checked against (set in
+ * CapacityButton). One value for every day of the week, kept in
+ * localStorage.
+ */
+export const useWorkloadStore = create<WorkloadState>()(
+  devtools(
+    persist(
+      (set) => ({
+        dailyCapacity: DEFAULT_DAILY_CAPACITY,
+        setDailyCapacity: (minutes) =>
+          set({ dailyCapacity: minutes }, undefined, 'setDailyCapacity'),
+      }),
+      {
+        name: 'taskdn:workload',
+        partialize: (state) => ({ dailyCapacity: state.dailyCapacity }),
+      }
+    ),
+    { name: 'workload-store' }
+  )
+)
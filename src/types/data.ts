@@ -7,6 +7,18 @@
  * should remain similar, but source of truth moves to Rust.
  */
 
+import type { HeadingList } from './headings'
+
+// -----------------------------------------------------------------------------
+// Shared
+// -----------------------------------------------------------------------------
+
+/**
+ * Frontmatter keys from an S1 file that the app doesn't understand.
+ * Preserved verbatim so that writing the file back doesn't lose them.
+ */
+export type UnknownFrontmatter = Record<string, unknown>
+
 // -----------------------------------------------------------------------------
 // Area
 // -----------------------------------------------------------------------------
@@ -20,9 +32,11 @@ export interface Area {
   type?: string // e.g., "client", "personal", "life-area"
   description?: string
   notes?: string // markdown body content
+  lastReviewedAt?: string // ISO datetime (weekly review, see lib/review)
   // UI-only fields (not in spec, useful for exploration):
   icon?: string // emoji or lucide icon name
   color?: string // for visual grouping
+  frontmatter?: UnknownFrontmatter
 }
 
 // -----------------------------------------------------------------------------
@@ -46,9 +60,38 @@ export interface Project {
   startDate?: string // ISO date
   endDate?: string // ISO date
   blockedBy?: string[] // array of Project IDs
+  tags?: string[] // normalized tag names (see lib/tags), without '#'
   notes?: string // markdown body content
+  lastReviewedAt?: string // ISO datetime (weekly review, see lib/review)
+  frontmatter?: UnknownFrontmatter
 }
 
+// -----------------------------------------------------------------------------
+// Recurrence
+// -----------------------------------------------------------------------------
+
+/** Day of the week, 0 = Sunday ... 6 = Saturday (same as Date#getDay) */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6
+
+/**
+ * How a task repeats. Fixed schedules step from the task's own date
+ * (scheduled, else due, else defer-until); 'after-completion' steps from
+ * the day the task was completed. Not part of S1 - stored as an RRULE
+ * string under `recurrence` (see lib/recurrence).
+ */
+export type Recurrence =
+  | { type: 'daily'; interval: number }
+  | { type: 'weekly'; interval: number; weekdays: Weekday[] }
+  | { type: 'monthly'; interval: number; day: number } // day of month, clamped
+  | {
+      type: 'monthly-weekday'
+      interval: number
+      week: 1 | 2 | 3 | 4 | -1 // -1 = last
+      weekday: Weekday
+    }
+  | { type: 'yearly'; interval: number }
+  | { type: 'after-completion'; interval: number } // days
+
 // -----------------------------------------------------------------------------
 // Task
 // -----------------------------------------------------------------------------
@@ -62,6 +105,26 @@ export type TaskStatus =
   | 'dropped'
   | 'done'
 
+/**
+ * A step of a task, ticked off without being a task of its own. Stored in
+ * S1 as a markdown checklist after the notes (see lib/s1/serializer).
+ */
+export interface ChecklistItem {
+  id: string
+  title: string
+  done: boolean
+}
+
+/**
+ * A stretch of time spent on a task, from its timer or entered by hand
+ * (see lib/time-tracking). At most one entry in the app runs at a time.
+ */
+export interface TimeEntry {
+  id: string
+  start: string // ISO datetime
+  end?: string // ISO datetime, unset while the timer runs
+}
+
 export interface Task {
   id: string
   title: string
@@ -73,8 +136,17 @@ export interface Task {
   projectId?: string // reference to a project
   due?: string // ISO date or datetime
   scheduled?: string // ISO date (for "today" / "upcoming" views)
+  startTime?: string // "HH:mm" on the scheduled date (see lib/time-blocks)
+  duration?: number // minutes, for a block with a start time
+  estimate?: number // minutes of effort (see lib/workload)
   deferUntil?: string // ISO date (hide until this date)
+  recurrence?: Recurrence
+  tags?: string[] // normalized tag names (see lib/tags), without '#'
+  blockedBy?: string[] // array of Task IDs
+  checklist?: ChecklistItem[] // in display order
+  timeEntries?: TimeEntry[] // oldest first
   notes?: string // markdown body content
+  frontmatter?: UnknownFrontmatter
 }
 
 // -----------------------------------------------------------------------------
@@ -85,4 +157,6 @@ export interface AppData {
   areas: Area[]
   projects: Project[]
   tasks: Task[]
+  /** Headings and their order, by list (see types/headings) */
+  headings?: Record<string, HeadingList>
 }
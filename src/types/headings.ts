@@ -1,6 +1,10 @@
+import type { Task } from './data'
+
 /**
  * Heading types for visual organization within task lists.
- * Headings are UI-only dividers that help users chunk tasks into groups.
+ * Headings are dividers that help users chunk tasks into groups. They are
+ * stored per list (a project, an area's loose tasks, the inbox, today) in
+ * AppData.headings, together with the list's order.
  */
 
 export type HeadingColor =
@@ -19,6 +23,29 @@ export interface Heading {
   color: HeadingColor
 }
 
+/**
+ * The headings of one list and the list's order: task IDs and prefixed
+ * heading IDs. A heading sits right before the task that follows it in the
+ * order (see resolveOrderedItems in lib/headings).
+ */
+export interface HeadingList {
+  headings: Heading[]
+  order: string[]
+}
+
+/** Heading list keys (AppData.headings) */
+export const INBOX_HEADING_LIST = 'inbox'
+export const TODAY_HEADING_LIST = 'today'
+
+export function getProjectHeadingListKey(projectId: string): string {
+  return `project:${projectId}`
+}
+
+/** For an area's loose tasks (tasks in the area but not in a project) */
+export function getAreaHeadingListKey(areaId: string): string {
+  return `area:${areaId}`
+}
+
 /** Prefix used to distinguish heading IDs from task IDs in order arrays */
 export const HEADING_ID_PREFIX = 'heading:'
 
@@ -42,6 +69,11 @@ export type OrderedItem =
   | { type: 'task'; id: string }
   | { type: 'heading'; id: string }
 
+/** Resolved ordered item - either a task or a heading with full data */
+export type ResolvedOrderedItem =
+  | { type: 'task'; id: string; data: Task }
+  | { type: 'heading'; id: string; data: Heading }
+
 /** Parse an order array ID into an OrderedItem */
 export function parseOrderedId(id: string): OrderedItem {
   if (isHeadingId(id)) {
@@ -49,3 +81,30 @@ export function parseOrderedId(id: string): OrderedItem {
   }
   return { type: 'task', id }
 }
+
+/** The order array ID of an item (prefixed for headings) */
+export function toOrderId(item: OrderedItem): string {
+  return item.type === 'heading' ? toHeadingId(item.id) : item.id
+}
+
+/** Drag ID of an item in an OrderedItemList, unique across containers */
+export function getOrderedItemDragId(
+  containerId: string,
+  item: OrderedItem
+): string {
+  return `${item.type}-${containerId}-${item.id}`
+}
+
+/** Parse a drag ID from getOrderedItemDragId (null if it isn't one) */
+export function parseOrderedItemDragId(
+  containerId: string,
+  dragId: string
+): OrderedItem | null {
+  for (const type of ['heading', 'task'] as const) {
+    const prefix = `${type}-${containerId}-`
+    if (dragId.startsWith(prefix)) {
+      return { type, id: dragId.slice(prefix.length) }
+    }
+  }
+  return null
+}
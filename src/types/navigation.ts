@@ -1,7 +1,20 @@
-export type NavId = 'today' | 'this-week' | 'inbox' | 'calendar'
+export type NavId =
+  | 'today'
+  | 'this-week'
+  | 'upcoming'
+  | 'anytime'
+  | 'someday'
+  | 'inbox'
+  | 'calendar'
+  | 'logbook'
+  | 'review'
+  | 'time'
+  | 'search'
 
 export type Selection =
   | { type: 'nav'; id: NavId }
   | { type: 'area'; id: string }
   | { type: 'project'; id: string }
   | { type: 'no-area' }
+  | { type: 'filter'; id: string }
+  | { type: 'tag'; id: string } // id is the tag name
@@ -0,0 +1,50 @@
+import type { TaskStatus } from './data'
+
+/**
+ * Types for saved smart filters (custom perspectives) in the sidebar.
+ * Like the sidebar order, filters are UI state stored separately from
+ * entity data.
+ */
+
+// -----------------------------------------------------------------------------
+// Criteria
+// -----------------------------------------------------------------------------
+
+/**
+ * What a filter matches. Every set criterion must hold; unset (or empty)
+ * criteria match everything.
+ */
+export interface TaskFilterCriteria {
+  // Status is one of these
+  statuses?: TaskStatus[]
+
+  // Effective area (the task's own, else its project's) is one of these
+  areaIds?: string[]
+
+  // Project is one of these
+  projectIds?: string[]
+
+  // Due on or before today + N days, overdue included (-1 = overdue only)
+  dueWithinDays?: number
+
+  // Has notes (true) or has none (false)
+  hasNotes?: boolean
+
+  // Deferred until after today (true) or available now (false)
+  deferred?: boolean
+}
+
+// -----------------------------------------------------------------------------
+// Saved Filter
+// -----------------------------------------------------------------------------
+
+export interface SavedFilter {
+  id: string
+  name: string
+  criteria: TaskFilterCriteria
+  /**
+   * Optional query-language text (see lib/query) applied on top of the
+   * criteria; its sort: terms order the view
+   */
+  query?: string
+}